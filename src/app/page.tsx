@@ -20,7 +20,18 @@ import {
 
 import { SoftwareStatusPanel } from '@/components/dashboard/SoftwareStatusPanel'
 import { MoodSimulator } from '@/components/mood/MoodSimulator'
+import { MoodMappingEditor } from '@/components/mood/MoodMappingEditor'
+import { OSCQueryTargets } from '@/components/mood/OSCQueryTargets'
 import { LiveControl } from '@/components/dashboard/LiveControl'
+import { TouchOSCSurfacePanel } from '@/components/dashboard/TouchOSCSurfacePanel'
+import { ParameterStreamPanel } from '@/components/dashboard/ParameterStreamPanel'
+import { ControlAPIPanel } from '@/components/dashboard/ControlAPIPanel'
+import { MQTTPanel } from '@/components/dashboard/MQTTPanel'
+import { TransitionsPanel } from '@/components/dashboard/TransitionsPanel'
+import { OutputCurvesPanel } from '@/components/dashboard/OutputCurvesPanel'
+import { FixturesPanel } from '@/components/dashboard/FixturesPanel'
+import { PatchPanel } from '@/components/dashboard/PatchPanel'
+import { WebhooksPanel } from '@/components/dashboard/WebhooksPanel'
 import { AnalyticsPanel } from '@/components/dashboard/AnalyticsPanel'
 import { AIAnalyticsPanel } from '@/components/dashboard/AIAnalyticsPanel'
 import { MoodVisualizer } from '@/components/mood/MoodVisualizer'
@@ -316,13 +327,44 @@ export default function Dashboard() {
             <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
               <h2 className="text-lg font-bold text-white mb-6">Mood Designer</h2>
               <MoodSimulator />
+              <div className="mt-8">
+                <MoodMappingEditor />
+              </div>
+              <div className="mt-8">
+                <OSCQueryTargets />
+              </div>
             </div>
           )}
 
           {activeTab === 'control' && (
-            <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
-              <LiveControl />
-            </div>
+            <>
+              <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+                <LiveControl />
+              </div>
+              <div className="mt-8">
+                <TransitionsPanel />
+                <OutputCurvesPanel />
+              </div>
+              <div className="mt-8">
+                <FixturesPanel />
+                <PatchPanel />
+              </div>
+              <div className="mt-8">
+                <TouchOSCSurfacePanel />
+              </div>
+              <div className="mt-8">
+                <ParameterStreamPanel />
+              </div>
+              <div className="mt-8">
+                <ControlAPIPanel />
+              </div>
+              <div className="mt-8">
+                <MQTTPanel />
+              </div>
+              <div className="mt-8">
+                <WebhooksPanel />
+              </div>
+            </>
           )}
 
           {/* ⭐ AI ANALYTICS - REAL COMPONENT */}
@@ -0,0 +1,59 @@
+// MOOD bridge process: `npm run bridge`
+// Owns the OSC/TCP/Art-Net sockets the browser can't open and serves them to
+// the dashboard over WebSocket. BRIDGE_HOST=0.0.0.0 exposes it to other machines;
+// set BRIDGE_TOKEN (and NEXT_PUBLIC_BRIDGE_TOKEN for the dashboard) when it does.
+// Dashboards served from anywhere but localhost need their origin in BRIDGE_ORIGINS (comma-separated).
+// The inbound control API listens on CONTROL_PORT (UDP); CONTROL_PORT=0 turns it off.
+// Webhook endpoints and undelivered events are kept in OUTBOX_FILE.
+// Fixture profiles (OFL .json, .gdtf) are read from and imported into FIXTURE_DIR.
+// The fixture patch (addresses, groups, zones) is kept in PATCH_FILE.
+// The sACN source CID is kept in SACN_CID_FILE so receivers see one source across restarts.
+import { OSCController } from '@/lib/osc/OSCController'
+import { BridgeServer } from '@/lib/bridge/BridgeServer'
+import { BRIDGE_DEFAULT_PORT } from '@/lib/bridge/BridgeProtocol'
+import { CONTROL_DEFAULT_PORT } from '@/lib/protocols/ControlAPI'
+
+const DEFAULT_OUTBOX_FILE = '.mood/webhook-outbox.json'
+const DEFAULT_FIXTURE_DIR = '.mood/fixtures'
+const DEFAULT_PATCH_FILE = '.mood/patch.json'
+const DEFAULT_SACN_CID_FILE = '.mood/sacn-cid'
+
+async function main(): Promise<void> {
+  const controller = new OSCController()
+  const bridge = new BridgeServer(controller, {
+    port: process.env.BRIDGE_PORT ? parseInt(process.env.BRIDGE_PORT, 10) : BRIDGE_DEFAULT_PORT,
+    host: process.env.BRIDGE_HOST || '127.0.0.1',
+    allowedOrigins: (process.env.BRIDGE_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+    token: process.env.BRIDGE_TOKEN
+  })
+
+  const shutdown = () => {
+    console.log('🛑 Shutting down MOOD bridge')
+    bridge.stop()
+    controller.destroy()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  // Before the bridge opens, so the first dashboard already sees the outbox
+  await controller.startWebhookOutbox(process.env.OUTBOX_FILE || DEFAULT_OUTBOX_FILE)
+  await controller.startFixtureLibrary(process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR)
+  await controller.startSACNIdentity(process.env.SACN_CID_FILE || DEFAULT_SACN_CID_FILE)
+  await controller.startFixturePatch(process.env.PATCH_FILE || DEFAULT_PATCH_FILE)
+  await bridge.start()
+  controller.startHealthMonitoring()
+
+  // A busy control port shouldn't take the bridge down with it
+  const controlPort = process.env.CONTROL_PORT ? parseInt(process.env.CONTROL_PORT, 10) : CONTROL_DEFAULT_PORT
+  if (controlPort > 0) {
+    controller.startControlServer(controlPort).catch(error => {
+      console.warn(`⚠️ Control API not started on port ${controlPort}: ${error.message}`)
+    })
+  }
+}
+
+main().catch(error => {
+  console.error('❌ MOOD bridge failed to start:', error)
+  process.exit(1)
+})
@@ -0,0 +1,49 @@
+'use client'
+
+import { Lock, Radio, Unlock } from 'lucide-react'
+import { useControlAPI, useMoodStore } from '@/stores/moodStore'
+import { CONTROL_DEFAULT_PORT, CONTROL_NAMESPACE } from '@/lib/protocols/ControlAPI'
+
+export function ControlAPIPanel() {
+  const { port, locked } = useControlAPI()
+  const setMoodLocked = useMoodStore(state => state.setMoodLocked)
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Radio className="w-5 h-5 text-amber-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Control API</h3>
+            <p className="text-xs text-gray-400">
+              {port
+                ? `Send OSC to the bridge machine on UDP port ${port}; replies go back to the sender as /reply/... with a JSON body`
+                : `Not listening · start the bridge (CONTROL_PORT, default ${CONTROL_DEFAULT_PORT})`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setMoodLocked(!locked)}
+          className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+            locked ? 'bg-amber-600 hover:bg-amber-700 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'
+          }`}
+        >
+          {locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+          <span>{locked ? 'Mood locked' : 'Mood unlocked'}</span>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {CONTROL_NAMESPACE.map(({ address, args, description }) => (
+          <div key={address} className="flex items-center justify-between bg-white/5 rounded px-3 py-1.5 text-xs">
+            <span className="font-mono text-white">
+              {address}
+              {args && <span className="text-gray-500"> {args}</span>}
+            </span>
+            <span className="text-gray-400">{description}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
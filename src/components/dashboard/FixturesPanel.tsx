@@ -0,0 +1,139 @@
+'use client'
+
+import { useState } from 'react'
+import { Lightbulb, Trash2, Upload } from 'lucide-react'
+import { useFixtureLibrary, useMoodStore, useOSCStatus } from '@/stores/moodStore'
+import { FIXTURE_SOURCES, FixtureMode, modeColorModel } from '@/lib/fixtures/FixtureProfile'
+import { COLOR_MODELS } from '@/lib/protocols/ColorEngine'
+
+function modeSummary(mode: FixtureMode): string {
+  const model = COLOR_MODELS.find(m => m.model === modeColorModel(mode))?.label
+  const extras = ['strobe', 'pan', 'tilt'].filter(attribute => mode.channels.some(c => c.attribute === attribute))
+  return [`${mode.channels.length}ch`, model].concat(extras).join(' · ')
+}
+
+export function FixturesPanel() {
+  const library = useFixtureLibrary()
+  const oscStatus = useOSCStatus()
+  const importFixture = useMoodStore(state => state.importFixture)
+  const removeFixture = useMoodStore(state => state.removeFixture)
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const importFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setImporting(true)
+    const results: string[] = []
+    let ok = true
+    for (const file of Array.from(files)) {
+      try {
+        const profile = await importFixture(file)
+        results.push(`${profile.manufacturer} ${profile.model} (${profile.modes.length} modes)`)
+      } catch (error: any) {
+        ok = false
+        results.push(`${file.name}: ${error.message || error}`)
+      }
+    }
+    setImportResult({ ok, text: results.join(' · ') })
+    setImporting(false)
+  }
+
+  if (!library) {
+    return (
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+        <div className="flex items-center space-x-3">
+          <Lightbulb className="w-5 h-5 text-amber-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Fixture Library</h3>
+            <p className="text-xs text-gray-400">
+              {oscStatus.enabled ? 'The bridge has no fixture library' : 'Start the bridge to load fixture profiles'}
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const sourceLabel = (source: string) => FIXTURE_SOURCES.find(s => s.source === source)?.label || source
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Lightbulb className="w-5 h-5 text-amber-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Fixture Library</h3>
+            <p className="text-xs text-gray-400">
+              {library.profiles.length} profiles from <span className="font-mono">{library.directory}</span>
+            </p>
+          </div>
+        </div>
+        <label className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm text-white transition-colors cursor-pointer ${
+          importing ? 'bg-gray-600' : 'bg-amber-600 hover:bg-amber-700'
+        }`}>
+          <Upload className="w-4 h-4" />
+          <span>{importing ? 'Importing…' : 'Import OFL / GDTF'}</span>
+          <input
+            type="file"
+            accept=".json,.gdtf"
+            multiple
+            disabled={importing}
+            onChange={(e) => {
+              importFiles(e.target.files)
+              e.target.value = ''
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {importResult && (
+        <p className={`text-xs mb-3 ${importResult.ok ? 'text-green-400' : 'text-red-400'}`}>{importResult.text}</p>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {library.profiles.map(profile => (
+          <div key={profile.id} className="bg-white/5 rounded px-3 py-2 text-xs">
+            <div className="flex items-center justify-between mb-1">
+              <div>
+                <span className="text-white">{profile.manufacturer} {profile.model}</span>
+                <span className="text-gray-500"> · {sourceLabel(profile.source)}</span>
+                {profile.fileName && <span className="font-mono text-gray-500"> · {profile.fileName}</span>}
+              </div>
+              {profile.fileName && (
+                <button
+                  onClick={() => removeFixture(profile.id)}
+                  className="text-gray-400 hover:text-red-400"
+                  title="Delete the file from the fixture directory"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-400">
+              {profile.modes.map(mode => (
+                <span key={mode.name} title={mode.channels.map((c, i) => `${i + 1} ${c.name}`).join('\n')}>
+                  <span className="text-gray-300">{mode.name}</span> {modeSummary(mode)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {library.errors.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-white mb-2">Unreadable files</h4>
+          <div className="space-y-1">
+            {library.errors.map(error => (
+              <div key={error.fileName} className="bg-white/5 rounded px-3 py-1.5 text-xs">
+                <span className="font-mono text-white">{error.fileName}</span>
+                <span className="text-red-400"> · {error.error}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
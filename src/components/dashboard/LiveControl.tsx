@@ -1,7 +1,7 @@
 // src/components/dashboard/LiveControl.tsx - UPDATED per Real OSC
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
 import { 
   Play, 
@@ -14,9 +14,13 @@ import {
   Sliders,
   Send,
   AlertTriangle,
-  CheckCircle2
+  CheckCircle2,
+  Download,
+  ScrollText
 } from 'lucide-react'
-import { useMoodStore, useSoftwareConnections, useCurrentMood, MOOD_MAPPINGS } from '@/stores/moodStore'
+import { useMoodStore, useSoftwareConnections, useCurrentMood, useMoodMappings, useMessageJournal } from '@/stores/moodStore'
+import { abletonTempo } from '@/lib/protocols/AbletonSet'
+import { JournalEntry, JournalFilter, MESSAGE_CAUSES, MessageCause, MessageResult, filterJournal, journalToJSONL } from '@/lib/protocols/MessageJournal'
 
 interface QuickCommandProps {
   software: string
@@ -141,9 +145,146 @@ const ParameterControl = ({ label, value, min, max, step, unit, onChange, onAppl
   )
 }
 
+const JOURNAL_ROWS = 200
+
+const RESULT_COLORS: Record<MessageResult, string> = {
+  sent: 'text-green-400',
+  replied: 'text-green-400',
+  failed: 'text-red-400',
+  mock: 'text-gray-400'
+}
+
+const formatJournalTime = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return `${date.toLocaleTimeString([], { hour12: false })}.${('00' + date.getMilliseconds()).slice(-3)}`
+}
+
+// Everything MOOD sent, newest first; filters apply to the export too
+const MessageJournalLog = ({ names }: { names: Record<string, string> }) => {
+  const journal = useMessageJournal()
+  const clearJournal = useMoodStore(state => state.clearJournal)
+  const [filter, setFilter] = useState<JournalFilter>({})
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const targets = useMemo(() => Array.from(new Set(journal.map(entry => entry.target))).sort(), [journal])
+  const matching = useMemo(() => filterJournal(journal, {
+    ...filter,
+    since: from ? new Date(from).getTime() : undefined,
+    // datetime-local stops at minutes; include the whole last minute
+    until: to ? new Date(to).getTime() + 59999 : undefined
+  }), [journal, filter, from, to])
+  const rows = matching.slice(-JOURNAL_ROWS).reverse()
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([journalToJSONL(matching)], { type: 'application/x-ndjson' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `mood-journal-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const describe = (entry: JournalEntry) => {
+    if (entry.result === 'failed') return entry.error || 'failed'
+    if (entry.result === 'replied') return `${entry.reply} in ${entry.latencyMs}ms`
+    return entry.result
+  }
+
+  const selectClass = 'px-2 py-1 bg-gray-700 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none'
+
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <ScrollText className="w-5 h-5 text-sky-400" />
+          <h3 className="text-white font-medium">Message Journal</h3>
+          <span className="text-xs text-gray-400">{matching.length} of {journal.length} messages</span>
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          <button onClick={() => clearJournal()} className="text-gray-300 hover:text-red-400">Clear</button>
+          <button
+            onClick={handleExport}
+            disabled={matching.length === 0}
+            className="flex items-center space-x-1 px-2 py-1 bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 rounded text-white"
+          >
+            <Download className="w-3 h-3" />
+            <span>Export JSONL</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+        <input
+          type="text"
+          value={filter.query || ''}
+          onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+          placeholder="Search address, args, replies…"
+          className={`flex-1 min-w-[12rem] ${selectClass}`}
+        />
+        <select value={filter.target || ''} onChange={(e) => setFilter({ ...filter, target: e.target.value || undefined })} className={selectClass}>
+          <option value="">All targets</option>
+          {targets.map(target => (
+            <option key={target} value={target}>{names[target] || target}</option>
+          ))}
+        </select>
+        <select
+          value={filter.cause || ''}
+          onChange={(e) => setFilter({ ...filter, cause: (e.target.value || undefined) as MessageCause | undefined })}
+          className={selectClass}
+        >
+          <option value="">All causes</option>
+          {MESSAGE_CAUSES.map(({ cause, label }) => (
+            <option key={cause} value={cause}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={filter.result || ''}
+          onChange={(e) => setFilter({ ...filter, result: (e.target.value || undefined) as MessageResult | undefined })}
+          className={selectClass}
+        >
+          <option value="">All results</option>
+          <option value="sent">Sent</option>
+          <option value="replied">Replied</option>
+          <option value="failed">Failed</option>
+          <option value="mock">Mock</option>
+        </select>
+        <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} title="From" />
+        <span className="text-gray-500">to</span>
+        <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} title="To" />
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          {journal.length === 0 ? 'Nothing sent yet, or the bridge is offline.' : 'No messages match these filters.'}
+        </p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto font-mono text-xs space-y-0.5">
+          {rows.map(entry => (
+            <div key={entry.id} className="flex items-center space-x-3 px-2 py-0.5 rounded hover:bg-white/5">
+              <span className="text-gray-500 shrink-0">{formatJournalTime(entry.timestamp)}</span>
+              <span className="w-24 shrink-0 truncate text-gray-300" title={entry.target}>{names[entry.target] || entry.target}</span>
+              <span className="w-16 shrink-0 text-sky-300">{entry.cause}</span>
+              <span className="flex-1 min-w-0 truncate text-white" title={`${entry.address} ${entry.args.join(' ')}`}>
+                {entry.protocol !== 'OSC' && <span className="text-gray-500">{entry.protocol} </span>}
+                {entry.address} <span className="text-gray-400">{entry.args.map(arg => JSON.stringify(arg)).join(' ')}</span>
+              </span>
+              <span className={`shrink-0 ${RESULT_COLORS[entry.result]}`}>{describe(entry)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {matching.length > rows.length && (
+        <p className="mt-2 text-xs text-gray-500">Showing the latest {JOURNAL_ROWS}; the export has all {matching.length}.</p>
+      )}
+    </div>
+  )
+}
+
 export function LiveControl() {
   const connections = useSoftwareConnections()
   const currentMood = useCurrentMood()
+  const moodMappings = useMoodMappings()
   const { 
     sendOSCCommand, 
     applyCurrentMoodToSoftware, 
@@ -157,6 +298,7 @@ export function LiveControl() {
 
   // Get connected software
   const connectedSoftware = connections.filter(c => c.connected)
+  const connectionNames = connections.reduce<Record<string, string>>((names, c) => ({ ...names, [c.id]: c.name }), {})
 
   // Quick mood buttons
   const quickMoods = [
@@ -563,55 +705,132 @@ export function LiveControl() {
           <p>Resolume: <code>/layer1/clip1/connect</code> with args: <code>1</code> | <code>/composition/crossfader</code> with args: <code>0.5</code></p>
           <p>Chamsys: <code>/pb/1/go</code> | <code>/head/1/intensity</code> with args: <code>0.9</code></p>
           <p>GrandMA3: <code>/gma3/cmd</code> with args: <code>"Go"</code> | <code>/gma3/exec/101/fader</code> with args: <code>0.8</code></p>
+          <p>MadMapper: <code>/master/opacity</code> with args: <code>0.8</code> | Millumin: <code>/millumin/action/launchColumn</code> with args: <code>1</code></p>
+          <p>Ableton: <code>/live/song/set/tempo</code> with args: <code>120</code> | <code>/live/scene/fire</code> with args: <code>0</code></p>
+          <p>ETC Eos: <code>/eos/cue/1/10/fire</code> | <code>/eos/sub/1</code> with args: <code>0.8</code> | <code>/eos/newcmd</code> with args: <code>"Chan 1 At 50#"</code></p>
         </div>
       </div>
 
+      <MessageJournalLog names={connectionNames} />
+
       {/* Current Mood Mapping Preview */}
-      {MOOD_MAPPINGS[currentMood.name] && (
+      {moodMappings[currentMood.name] && (
         <div className="bg-white/5 backdrop-blur rounded-lg p-4">
           <h3 className="text-white font-medium mb-3">
             Current Mood Mapping: {currentMood.name}
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
-            {MOOD_MAPPINGS[currentMood.name].qlab && (
+            {moodMappings[currentMood.name].qlab && (
               <div className="bg-green-500/10 rounded p-3">
                 <h4 className="text-green-400 font-medium mb-2">QLab</h4>
                 <ul className="text-gray-300 space-y-1">
-                  <li>Cue: {MOOD_MAPPINGS[currentMood.name].qlab?.cue}</li>
-                  <li>Volume: {(MOOD_MAPPINGS[currentMood.name].qlab?.volume || 0) * 100}%</li>
-                  <li>Fade: {MOOD_MAPPINGS[currentMood.name].qlab?.fadeTime}s</li>
+                  <li>Cue: {moodMappings[currentMood.name].qlab?.cue}</li>
+                  <li>Volume: {(moodMappings[currentMood.name].qlab?.volume || 0) * 100}%</li>
+                  <li>Fade: {moodMappings[currentMood.name].qlab?.fadeTime}s</li>
                 </ul>
               </div>
             )}
             
-            {MOOD_MAPPINGS[currentMood.name].resolume && (
+            {moodMappings[currentMood.name].resolume && (
               <div className="bg-blue-500/10 rounded p-3">
                 <h4 className="text-blue-400 font-medium mb-2">Resolume</h4>
                 <ul className="text-gray-300 space-y-1">
-                  <li>Clip: {MOOD_MAPPINGS[currentMood.name].resolume?.clip}</li>
-                  <li>Opacity: {(MOOD_MAPPINGS[currentMood.name].resolume?.opacity || 0) * 100}%</li>
-                  <li>Speed: {MOOD_MAPPINGS[currentMood.name].resolume?.speed}x</li>
+                  <li>Clip: {moodMappings[currentMood.name].resolume?.clip}</li>
+                  <li>Opacity: {(moodMappings[currentMood.name].resolume?.opacity || 0) * 100}%</li>
+                  <li>Speed: {moodMappings[currentMood.name].resolume?.speed}x</li>
                 </ul>
               </div>
             )}
             
-            {MOOD_MAPPINGS[currentMood.name].lighting && (
+            {moodMappings[currentMood.name].lighting && (
               <div className="bg-yellow-500/10 rounded p-3">
                 <h4 className="text-yellow-400 font-medium mb-2">Lighting</h4>
                 <ul className="text-gray-300 space-y-1">
-                  <li>Intensity: {(MOOD_MAPPINGS[currentMood.name].lighting?.intensity || 0) * 100}%</li>
-                  <li>Color: {MOOD_MAPPINGS[currentMood.name].lighting?.color}</li>
-                  <li>Transition: {MOOD_MAPPINGS[currentMood.name].lighting?.transition}s</li>
+                  <li>Intensity: {(moodMappings[currentMood.name].lighting?.intensity || 0) * 100}%</li>
+                  <li>Color: {moodMappings[currentMood.name].lighting?.color}</li>
+                  {moodMappings[currentMood.name].lighting?.cct && (
+                    <li>White: {moodMappings[currentMood.name].lighting?.cct}K</li>
+                  )}
+                  {moodMappings[currentMood.name].lighting?.groups?.length ? (
+                    <li>Groups: {moodMappings[currentMood.name].lighting?.groups?.map(group => group.target).join(', ')}</li>
+                  ) : null}
+                  <li>Transition: {moodMappings[currentMood.name].lighting?.transition}s</li>
                 </ul>
               </div>
             )}
             
-            {MOOD_MAPPINGS[currentMood.name].grandma3 && (
+            {moodMappings[currentMood.name].grandma3 && (
               <div className="bg-purple-500/10 rounded p-3">
                 <h4 className="text-purple-400 font-medium mb-2">GrandMA3</h4>
                 <ul className="text-gray-300 space-y-1">
-                  <li>Sequence: {MOOD_MAPPINGS[currentMood.name].grandma3?.sequence}</li>
-                  <li>Command: {MOOD_MAPPINGS[currentMood.name].grandma3?.command}</li>
+                  <li>Sequence: {moodMappings[currentMood.name].grandma3?.sequence}</li>
+                  <li>Command: {moodMappings[currentMood.name].grandma3?.command}</li>
+                </ul>
+              </div>
+            )}
+
+            {moodMappings[currentMood.name].eos && (
+              <div className="bg-amber-500/10 rounded p-3">
+                <h4 className="text-amber-400 font-medium mb-2">ETC Eos</h4>
+                <ul className="text-gray-300 space-y-1">
+                  {moodMappings[currentMood.name].eos?.cue && (
+                    <li>Cue: {moodMappings[currentMood.name].eos?.cue?.list ?? 1}/{moodMappings[currentMood.name].eos?.cue?.number}</li>
+                  )}
+                  {moodMappings[currentMood.name].eos?.subs?.map(sub => (
+                    <li key={sub.id}>Sub {sub.id}: {Math.round(sub.level * 100)}%</li>
+                  ))}
+                  {moodMappings[currentMood.name].eos?.command && (
+                    <li>Command: {moodMappings[currentMood.name].eos?.command}</li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {(moodMappings[currentMood.name].madmapper || moodMappings[currentMood.name].millumin) && (
+              <div className="bg-indigo-500/10 rounded p-3">
+                <h4 className="text-indigo-400 font-medium mb-2">Media Servers</h4>
+                <ul className="text-gray-300 space-y-1">
+                  {moodMappings[currentMood.name].madmapper && (
+                    <li>
+                      MadMapper: {moodMappings[currentMood.name].madmapper?.scene ?? '—'}
+                      {moodMappings[currentMood.name].madmapper?.master !== undefined && ` @ ${Math.round((moodMappings[currentMood.name].madmapper?.master || 0) * 100)}%`}
+                    </li>
+                  )}
+                  {moodMappings[currentMood.name].millumin && (
+                    <li>
+                      Millumin: {moodMappings[currentMood.name].millumin?.column ?? '—'}
+                      {moodMappings[currentMood.name].millumin?.master !== undefined && ` @ ${Math.round((moodMappings[currentMood.name].millumin?.master || 0) * 100)}%`}
+                    </li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {moodMappings[currentMood.name].ableton && (
+              <div className="bg-lime-500/10 rounded p-3">
+                <h4 className="text-lime-400 font-medium mb-2">Ableton Live</h4>
+                <ul className="text-gray-300 space-y-1">
+                  {moodMappings[currentMood.name].ableton?.tempo !== undefined && (
+                    <li>Tempo: {abletonTempo(moodMappings[currentMood.name].ableton?.tempo, currentMood.energy)} BPM</li>
+                  )}
+                  {moodMappings[currentMood.name].ableton?.scene !== undefined && (
+                    <li>Scene: {moodMappings[currentMood.name].ableton?.scene}</li>
+                  )}
+                  {moodMappings[currentMood.name].ableton?.clips?.map((clip, i) => (
+                    <li key={i}>Clip: {clip.track} / {clip.clip}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {moodMappings[currentMood.name].midi && (
+              <div className="bg-pink-500/10 rounded p-3">
+                <h4 className="text-pink-400 font-medium mb-2">MIDI</h4>
+                <ul className="text-gray-300 space-y-1">
+                  {moodMappings[currentMood.name].midi?.msc?.map((msc, i) => (
+                    <li key={i}>MSC {msc.command} {msc.cue}{msc.list ? `/${msc.list}` : ''}</li>
+                  ))}
+                  <li>CC: {moodMappings[currentMood.name].midi?.cc?.length || 0}</li>
                 </ul>
               </div>
             )}
@@ -0,0 +1,127 @@
+'use client'
+
+import { Share2 } from 'lucide-react'
+import { useMoodStore, useMQTTConfig, useMQTTStatus, useOSCStatus } from '@/stores/moodStore'
+import { MQTTConfig, MQTTTopicKey, MQTT_TOPICS, mqttTopic } from '@/lib/protocols/MoodMQTT'
+
+const CONNECTION_FIELDS: Array<{ key: keyof MQTTConfig; label: string; type: 'text' | 'number' | 'password' }> = [
+  { key: 'host', label: 'Broker host', type: 'text' },
+  { key: 'port', label: 'Port', type: 'number' },
+  { key: 'clientId', label: 'Client ID', type: 'text' },
+  { key: 'username', label: 'Username', type: 'text' },
+  { key: 'password', label: 'Password', type: 'password' },
+  { key: 'prefix', label: 'Topic prefix', type: 'text' }
+]
+
+export function MQTTPanel() {
+  const config = useMQTTConfig()
+  const status = useMQTTStatus()
+  const oscStatus = useOSCStatus()
+  const configureMQTT = useMoodStore(state => state.configureMQTT)
+
+  const setTopic = (key: MQTTTopicKey, topic: string) => {
+    const defaultTopic = MQTT_TOPICS.find(t => t.key === key)?.topic
+    const topics = { ...config.topics }
+    if (!topic || topic === defaultTopic) delete topics[key]
+    else topics[key] = topic
+    configureMQTT({ topics })
+  }
+
+  const statusText = !oscStatus.enabled
+    ? 'bridge offline'
+    : !config.enabled
+      ? 'disabled'
+      : status?.connected
+        ? `connected to ${status.broker}`
+        : status?.error
+          ? `${status.error}, retrying`
+          : 'connecting…'
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Share2 className="w-5 h-5 text-lime-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">MQTT</h3>
+            <p className="text-xs text-gray-400">Mood state, sensors and commands on the venue broker · {statusText}</p>
+          </div>
+        </div>
+        <button
+          onClick={() => configureMQTT({ enabled: !config.enabled })}
+          className={`px-3 py-2 rounded-lg text-sm text-white transition-colors ${
+            config.enabled ? 'bg-lime-600 hover:bg-lime-700' : 'bg-gray-600 hover:bg-gray-700'
+          }`}
+        >
+          {config.enabled ? 'Enabled' : 'Disabled'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+        {CONNECTION_FIELDS.map(field => (
+          <label key={field.key} className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+            <span className="text-gray-300">{field.label}</span>
+            <input
+              type={field.type}
+              defaultValue={String(config[field.key])}
+              onBlur={(e) => configureMQTT({ [field.key]: field.type === 'number' ? Number(e.target.value) : e.target.value.trim() })}
+              className="w-36 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-right"
+            />
+          </label>
+        ))}
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Payloads</span>
+          <select
+            value={config.payloadFormat}
+            onChange={(e) => configureMQTT({ payloadFormat: e.target.value as MQTTConfig['payloadFormat'] })}
+            className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+          >
+            <option value="json">JSON per topic</option>
+            <option value="value">One value per sub-topic</option>
+          </select>
+        </label>
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">QoS</span>
+          <select
+            value={config.qos}
+            onChange={(e) => configureMQTT({ qos: Number(e.target.value) === 1 ? 1 : 0 })}
+            className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+          >
+            <option value={0}>0 · at most once</option>
+            <option value={1}>1 · at least once</option>
+          </select>
+        </label>
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Keepalive (s)</span>
+          <input
+            type="number"
+            min={0}
+            defaultValue={config.keepaliveSeconds}
+            onBlur={(e) => configureMQTT({ keepaliveSeconds: Number(e.target.value) })}
+            className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-right"
+          />
+        </label>
+      </div>
+
+      <h4 className="text-sm font-medium text-white mb-2">Topics</h4>
+      <div className="space-y-2">
+        {MQTT_TOPICS.map(topic => (
+          <div key={topic.key} className="flex items-center space-x-2 bg-white/5 rounded px-3 py-1.5 text-xs">
+            <span className={`w-16 shrink-0 ${topic.direction === 'publish' ? 'text-lime-400' : 'text-amber-400'}`}>
+              {topic.direction === 'publish' ? 'publish' : 'subscribe'}
+            </span>
+            <span className="text-gray-500 font-mono">{config.prefix}/</span>
+            <input
+              type="text"
+              defaultValue={config.topics[topic.key] || topic.topic}
+              onBlur={(e) => setTopic(topic.key, e.target.value.trim())}
+              className="w-48 bg-black/30 border border-white/10 rounded px-2 py-0.5 font-mono text-white"
+              title={mqttTopic(config, topic.key)}
+            />
+            <span className="text-gray-400 truncate">{topic.description}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Spline, Trash2 } from 'lucide-react'
+import { MOOD_DEFINITIONS, useCurrentMood, useMoodMappings, useMoodStore, useOutputCurves } from '@/stores/moodStore'
+import {
+  CURVE_INTERPOLATIONS,
+  CURVE_TARGETS,
+  CurveInterpolation,
+  CurveTargetKey,
+  MOOD_DIMENSIONS,
+  MoodDimension,
+  OutputCurve,
+  curveApplies,
+  curveTarget,
+  curveValue,
+  evaluateCurve,
+  normalizeOutputCurve
+} from '@/lib/protocols/OutputCurves'
+
+const WIDTH = 320
+const HEIGHT = 160
+const PAD = 24
+const MOODS = Object.keys(MOOD_DEFINITIONS).filter(name => name !== 'Safe Mode')
+
+function formatValue(target: CurveTargetKey, value: number | undefined): string {
+  if (typeof value !== 'number') return '—'
+  const t = curveTarget(target)
+  if (t.min === 0 && t.max === 1) return `${Math.round(value * 100)}%`
+  return `${value.toFixed(t.decimals)}${t.unit ? ` ${t.unit}` : ''}`
+}
+
+// Points keep their place in the range when the target changes
+function retarget(curve: OutputCurve, key: CurveTargetKey): Partial<OutputCurve> {
+  const from = curveTarget(curve.target)
+  const to = curveTarget(key)
+  return {
+    target: key,
+    points: curve.points.map(point => ({
+      x: point.x,
+      y: to.min + (point.y - from.min) / (from.max - from.min) * (to.max - to.min)
+    }))
+  }
+}
+
+export function OutputCurvesPanel() {
+  const curves = useOutputCurves()
+  const mood = useCurrentMood()
+  const mappings = useMoodMappings()
+  const configureOutputCurves = useMoodStore(state => state.configureOutputCurves)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [dragging, setDragging] = useState<number | null>(null)
+
+  const selected = curves.find(c => c.id === selectedId) || curves[0]
+  const updateCurve = (id: string, updates: Partial<OutputCurve>) => {
+    configureOutputCurves(curves.map(c => c.id === id ? { ...c, ...updates } : c))
+  }
+
+  const addCurve = () => {
+    const used = curves.map(c => c.id)
+    let n = 1
+    while (used.indexOf(`curve-${n}`) >= 0) n++
+    const curve = normalizeOutputCurve({ id: `curve-${n}`, target: 'lighting.intensity', input: 'energy', enabled: false })
+    configureOutputCurves([...curves, curve])
+    setSelectedId(curve.id)
+  }
+
+  // Graph coordinates: x is the mood dimension (0–1), y the target's range
+  const target = selected ? curveTarget(selected.target) : CURVE_TARGETS[0]
+  const toX = (x: number) => PAD + x * (WIDTH - 2 * PAD)
+  const toY = (y: number) => HEIGHT - PAD - (y - target.min) / (target.max - target.min) * (HEIGHT - 2 * PAD)
+  const fromEvent = (event: React.PointerEvent<SVGSVGElement> | React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - rect.left) / rect.width * WIDTH - PAD) / (WIDTH - 2 * PAD)
+    const y = target.min + (HEIGHT - PAD - (event.clientY - rect.top) / rect.height * HEIGHT) / (HEIGHT - 2 * PAD) * (target.max - target.min)
+    return {
+      x: Math.max(0, Math.min(1, x)),
+      y: Math.max(target.min, Math.min(target.max, y))
+    }
+  }
+
+  // A dragged point stays between its neighbours, so the order never changes mid-drag
+  const movePoint = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!selected || dragging === null) return
+    const { x, y } = fromEvent(event)
+    const points = selected.points.slice()
+    const low = dragging > 0 ? points[dragging - 1].x : 0
+    const high = dragging < points.length - 1 ? points[dragging + 1].x : 1
+    points[dragging] = { x: Math.max(low, Math.min(high, x)), y }
+    updateCurve(selected.id, { points })
+  }
+
+  const addPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!selected) return
+    updateCurve(selected.id, { points: [...selected.points, fromEvent(event)].sort((a, b) => a.x - b.x) })
+  }
+
+  const removePoint = (index: number) => {
+    if (!selected || selected.points.length <= 1) return
+    updateCurve(selected.id, { points: selected.points.filter((_, i) => i !== index) })
+  }
+
+  const live = selected ? mood[selected.input] : 0
+  const path = selected
+    ? Array.from({ length: 65 }, (_, i) => i / 64)
+      .map((x, i) => `${i === 0 ? 'M' : 'L'}${toX(x).toFixed(1)},${toY(evaluateCurve(selected, x)).toFixed(1)}`)
+      .join(' ')
+    : ''
+
+  const mapping: Record<string, any> = mappings[mood.name] || {}
+  const fixedValue = (key: CurveTargetKey) => {
+    const [section, field] = key.split('.')
+    const value = mapping[section] ? mapping[section][field] : undefined
+    return typeof value === 'number' ? value : undefined
+  }
+  const active = curves.filter(curve => curveApplies(curve, mood) && mapping[curve.target.split('.')[0]])
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Spline className="w-5 h-5 text-lime-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Output Curves</h3>
+            <p className="text-xs text-gray-400">
+              Energy, valence and arousal shape mapping values · live: {mood.name} E {mood.energy.toFixed(2)} V {mood.valence.toFixed(2)} A {mood.arousal.toFixed(2)}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={addCurve}
+          className="flex items-center space-x-2 px-3 py-2 bg-lime-600 hover:bg-lime-700 rounded-lg text-sm text-white"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Curve</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          {curves.map(curve => (
+            <div
+              key={curve.id}
+              onClick={() => setSelectedId(curve.id)}
+              className={`flex items-center justify-between rounded px-3 py-2 text-xs cursor-pointer ${
+                selected && curve.id === selected.id ? 'bg-lime-500/20 border border-lime-500/40' : 'bg-white/5 border border-transparent'
+              }`}
+            >
+              <label className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                <input type="checkbox" checked={curve.enabled} onChange={() => updateCurve(curve.id, { enabled: !curve.enabled })} />
+                <span className="text-white">{curveTarget(curve.target).label}</span>
+              </label>
+              <span className="text-gray-400">
+                by {curve.input}{curve.moods.length > 0 ? ` · ${curve.moods.length} moods` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="md:col-span-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+              <select
+                value={selected.target}
+                onChange={(e) => updateCurve(selected.id, retarget(selected, e.target.value as CurveTargetKey))}
+                className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+              >
+                {CURVE_TARGETS.map(t => <option key={t.target} value={t.target}>{t.label}</option>)}
+              </select>
+              <span className="text-gray-400">over</span>
+              <select
+                value={selected.input}
+                onChange={(e) => updateCurve(selected.id, { input: e.target.value as MoodDimension })}
+                className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+              >
+                {MOOD_DIMENSIONS.map(d => <option key={d.dimension} value={d.dimension}>{d.label}</option>)}
+              </select>
+              <select
+                value={selected.interpolation}
+                onChange={(e) => updateCurve(selected.id, { interpolation: e.target.value as CurveInterpolation })}
+                className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+              >
+                {CURVE_INTERPOLATIONS.map(i => <option key={i.interpolation} value={i.interpolation}>{i.label}</option>)}
+              </select>
+              <button
+                onClick={() => configureOutputCurves(curves.filter(c => c.id !== selected.id))}
+                className="ml-auto text-gray-400 hover:text-red-400"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full bg-black/30 rounded touch-none select-none"
+              onPointerMove={movePoint}
+              onPointerUp={() => setDragging(null)}
+              onPointerLeave={() => setDragging(null)}
+              onDoubleClick={addPoint}
+            >
+              <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} stroke="rgba(255,255,255,0.2)" />
+              <line x1={PAD} y1={PAD} x2={PAD} y2={HEIGHT - PAD} stroke="rgba(255,255,255,0.2)" />
+              <text x={PAD} y={HEIGHT - 8} fill="#9CA3AF" fontSize="9">0</text>
+              <text x={WIDTH - PAD} y={HEIGHT - 8} fill="#9CA3AF" fontSize="9" textAnchor="end">{selected.input} 1</text>
+              <text x={PAD - 4} y={PAD + 3} fill="#9CA3AF" fontSize="9" textAnchor="end">{target.max}</text>
+              <text x={PAD - 4} y={HEIGHT - PAD} fill="#9CA3AF" fontSize="9" textAnchor="end">{target.min}</text>
+              <path d={path} fill="none" stroke="#A3E635" strokeWidth={2} />
+              <line x1={toX(live)} y1={PAD} x2={toX(live)} y2={HEIGHT - PAD} stroke="#F472B6" strokeDasharray="3 3" />
+              <circle cx={toX(live)} cy={toY(evaluateCurve(selected, live))} r={4} fill="#F472B6" />
+              {selected.points.map((point, i) => (
+                <circle
+                  key={i}
+                  cx={toX(point.x)}
+                  cy={toY(point.y)}
+                  r={5}
+                  fill={dragging === i ? '#FFFFFF' : '#A3E635'}
+                  className="cursor-move"
+                  onPointerDown={(e) => {
+                    e.stopPropagation()
+                    setDragging(i)
+                  }}
+                  onDoubleClick={(e) => {
+                    e.stopPropagation()
+                    removePoint(i)
+                  }}
+                />
+              ))}
+            </svg>
+            <p className="text-xs text-gray-400 mt-1">
+              Drag points; double-click to add or remove one. Live {selected.input} {live.toFixed(2)} → {formatValue(selected.target, curveValue(selected, mood))}
+              {target.live ? ', followed between mood changes' : ', applied on the next mood change'}
+            </p>
+
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-400 mt-2">
+              <span>Moods:</span>
+              {MOODS.map(name => (
+                <label key={name} className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={selected.moods.length === 0 || selected.moods.indexOf(name) >= 0}
+                    onChange={() => {
+                      const current = selected.moods.length === 0 ? MOODS : selected.moods
+                      const moods = current.indexOf(name) >= 0 ? current.filter(m => m !== name) : [...current, name]
+                      if (moods.length === 0) return
+                      updateCurve(selected.id, { moods: moods.length === MOODS.length ? [] : moods })
+                    }}
+                  />
+                  <span>{name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <h4 className="text-sm font-medium text-white mt-4 mb-2">{mood.name} outputs now</h4>
+      {active.length === 0 ? (
+        <p className="text-xs text-gray-400">No enabled curve applies to {mood.name}; its mapping goes out as written.</p>
+      ) : (
+        <div className="space-y-1">
+          {active.map(curve => (
+            <div key={curve.id} className="flex items-center justify-between bg-white/5 rounded px-3 py-1.5 text-xs">
+              <span className="text-gray-300">{curveTarget(curve.target).label}</span>
+              <span className="text-gray-400">
+                mapping {formatValue(curve.target, fixedValue(curve.target))} → <span className="text-lime-400">{formatValue(curve.target, curveValue(curve, mood))}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
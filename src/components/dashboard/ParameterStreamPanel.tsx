@@ -0,0 +1,172 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2, Waves } from 'lucide-react'
+import { useMoodStore, useParameterStream, useOSCStatus } from '@/stores/moodStore'
+import { STREAM_PARAMETERS, STREAM_RATE_LIMITS, streamAddress } from '@/lib/protocols/ParameterStream'
+
+export function ParameterStreamPanel() {
+  const config = useParameterStream()
+  const oscStatus = useOSCStatus()
+  const configureParameterStream = useMoodStore(state => state.configureParameterStream)
+  const [newTarget, setNewTarget] = useState({ name: '', host: '127.0.0.1', port: 10000 })
+
+  const toggleParameter = (key: string) => {
+    const parameters = config.parameters.indexOf(key) >= 0
+      ? config.parameters.filter(k => k !== key)
+      : [...config.parameters, key]
+    configureParameterStream({ parameters })
+  }
+
+  const setAddress = (key: string, address: string) => {
+    const defaultAddress = STREAM_PARAMETERS.find(p => p.key === key)?.address
+    const addresses = { ...config.addresses }
+    if (!address || address === defaultAddress) delete addresses[key]
+    else addresses[key] = address
+    configureParameterStream({ addresses })
+  }
+
+  const addTarget = () => {
+    if (!newTarget.host || !newTarget.port) return
+    const id = `${newTarget.host}:${newTarget.port}`
+    if (config.targets.some(t => t.id === id)) return
+    configureParameterStream({
+      targets: [...config.targets, { id, name: newTarget.name || id, host: newTarget.host, port: newTarget.port, enabled: true }]
+    })
+    setNewTarget({ name: '', host: newTarget.host, port: newTarget.port + 1 })
+  }
+
+  const toggleTarget = (id: string) => {
+    configureParameterStream({ targets: config.targets.map(t => t.id === id ? { ...t, enabled: !t.enabled } : t) })
+  }
+
+  const removeTarget = (id: string) => {
+    configureParameterStream({ targets: config.targets.filter(t => t.id !== id) })
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Waves className="w-5 h-5 text-teal-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Parameter Stream</h3>
+            <p className="text-xs text-gray-400">
+              Continuous floats for TouchDesigner, Max and Processing
+              {oscStatus.enabled ? '' : ' · bridge offline'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => configureParameterStream({ enabled: !config.enabled })}
+          className={`px-3 py-2 rounded-lg text-sm text-white transition-colors ${
+            config.enabled ? 'bg-teal-600 hover:bg-teal-700' : 'bg-gray-600 hover:bg-gray-700'
+          }`}
+        >
+          {config.enabled ? 'Streaming' : 'Stopped'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Rate (Hz)</span>
+          <input
+            type="number"
+            min={STREAM_RATE_LIMITS.min}
+            max={STREAM_RATE_LIMITS.max}
+            value={config.rateHz}
+            onChange={(e) => configureParameterStream({ rateHz: Number(e.target.value) })}
+            className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-right"
+          />
+        </label>
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Smoothing (ms)</span>
+          <input
+            type="number"
+            min={0}
+            step={50}
+            value={config.smoothingMs}
+            onChange={(e) => configureParameterStream({ smoothingMs: Number(e.target.value) })}
+            className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-right"
+          />
+        </label>
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Bundle per frame</span>
+          <input
+            type="checkbox"
+            checked={config.bundle}
+            onChange={(e) => configureParameterStream({ bundle: e.target.checked })}
+          />
+        </label>
+      </div>
+
+      <h4 className="text-sm font-medium text-white mb-2">Namespace</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+        {STREAM_PARAMETERS.map(parameter => (
+          <div key={parameter.key} className="flex items-center space-x-2 bg-white/5 rounded px-3 py-1.5 text-xs">
+            <input
+              type="checkbox"
+              checked={config.parameters.indexOf(parameter.key) >= 0}
+              onChange={() => toggleParameter(parameter.key)}
+            />
+            <span className="text-gray-400 w-32 shrink-0">{parameter.label}</span>
+            <input
+              type="text"
+              defaultValue={streamAddress(config, parameter.key)}
+              onBlur={(e) => setAddress(parameter.key, e.target.value.trim())}
+              className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-0.5 font-mono text-white"
+            />
+            <span className="text-gray-500">f</span>
+          </div>
+        ))}
+      </div>
+
+      <h4 className="text-sm font-medium text-white mb-2">Targets</h4>
+      <div className="space-y-2">
+        {config.targets.map(target => (
+          <div key={target.id} className="flex items-center justify-between bg-white/5 rounded px-3 py-1.5 text-xs">
+            <label className="flex items-center space-x-2">
+              <input type="checkbox" checked={target.enabled} onChange={() => toggleTarget(target.id)} />
+              <span className="text-white">{target.name}</span>
+              <span className="font-mono text-gray-400">{target.host}:{target.port}</span>
+            </label>
+            <button onClick={() => removeTarget(target.id)} className="text-gray-400 hover:text-red-400">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2 text-xs">
+          <input
+            type="text"
+            placeholder="Name"
+            value={newTarget.name}
+            onChange={(e) => setNewTarget({ ...newTarget, name: e.target.value })}
+            className="w-32 bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+          />
+          <input
+            type="text"
+            placeholder="Host"
+            value={newTarget.host}
+            onChange={(e) => setNewTarget({ ...newTarget, host: e.target.value })}
+            className="w-32 bg-black/30 border border-white/10 rounded px-2 py-1 font-mono text-white"
+          />
+          <input
+            type="number"
+            min={1}
+            max={65535}
+            value={newTarget.port}
+            onChange={(e) => setNewTarget({ ...newTarget, port: Number(e.target.value) })}
+            className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 font-mono text-white"
+          />
+          <button
+            onClick={addTarget}
+            className="flex items-center space-x-1 px-2 py-1 bg-teal-600 hover:bg-teal-700 rounded text-white"
+          >
+            <Plus className="w-3 h-3" />
+            <span>Add</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,379 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, LayoutGrid, Plus, Trash2, Upload } from 'lucide-react'
+import { useFixtureLibrary, useFixturePatch, useMoodStore, useOSCStatus } from '@/stores/moodStore'
+import {
+  FixturePatch,
+  PatchedFixture,
+  firstUniverse,
+  fixtureFootprint,
+  formatFixtureList,
+  nextFreeAddress,
+  parseFixtureList,
+  patchFromCSV,
+  patchToCSV,
+  patchZones
+} from '@/lib/fixtures/FixturePatch'
+import { fixtureSlug } from '@/lib/fixtures/FixtureProfile'
+
+const inputClass = 'bg-black/30 border border-white/10 rounded px-2 py-1 text-white'
+
+export function PatchPanel() {
+  const snapshot = useFixturePatch()
+  const library = useFixtureLibrary()
+  const oscStatus = useOSCStatus()
+  const configurePatch = useMoodStore(state => state.configurePatch)
+  const [adding, setAdding] = useState({ profileId: '', mode: '', count: 1, universe: null as number | null, address: '', zone: '', name: '' })
+  const [newGroup, setNewGroup] = useState({ name: '', fixtures: '' })
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  if (!snapshot) {
+    return (
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+        <div className="flex items-center space-x-3">
+          <LayoutGrid className="w-5 h-5 text-teal-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Fixture Patch</h3>
+            <p className="text-xs text-gray-400">
+              {oscStatus.enabled ? 'The bridge has no fixture patch' : 'Start the bridge to patch fixtures'}
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const { patch, conflicts } = snapshot
+  const profiles = library ? library.profiles : []
+  const zones = patchZones(patch)
+  const conflicted = conflicts.reduce((ids, conflict) => ids.concat(conflict.fixtureIds), [] as number[])
+  const addProfile = profiles.find(p => p.id === adding.profileId) || profiles[0]
+  // sACN has no universe 0, so new fixtures start on the output's first universe
+  const addUniverse = adding.universe !== null ? adding.universe : firstUniverse(patch.output.protocol)
+
+  const save = (updates: Partial<FixturePatch>) => configurePatch({ ...patch, ...updates })
+
+  const updateFixture = (index: number, updates: Partial<PatchedFixture>) => {
+    save({ fixtures: patch.fixtures.map((fixture, i) => i === index ? { ...fixture, ...updates } : fixture) })
+  }
+
+  // Numbered on from the highest fixture, each at the next free address unless one is given
+  const addFixtures = () => {
+    if (!addProfile) return
+    const mode = addProfile.modes.find(m => m.name === adding.mode) || addProfile.modes[0]
+    const fixtures = patch.fixtures.slice()
+    let id = fixtures.reduce((max, fixture) => Math.max(max, fixture.id), 0)
+    let address = parseInt(adding.address, 10)
+    for (let i = 0; i < Math.max(1, adding.count); i++) {
+      const at = address > 0 ? address : nextFreeAddress({ ...patch, fixtures }, profiles, addUniverse, mode.channels.length)
+      if (at === null) {
+        setMessage({ ok: false, text: `Universe ${addUniverse} is full after ${i} fixtures` })
+        break
+      }
+      id++
+      fixtures.push({
+        id,
+        name: `${adding.name.trim() || addProfile.model} ${id}`,
+        profileId: addProfile.id,
+        mode: mode.name,
+        universe: addUniverse,
+        address: at,
+        zone: adding.zone.trim() || undefined
+      })
+      if (address > 0) address = at + mode.channels.length
+    }
+    save({ fixtures })
+  }
+
+  const addGroup = () => {
+    const name = newGroup.name.trim()
+    if (!name || patch.groups.some(g => g.id === fixtureSlug(name))) return
+    save({ groups: [...patch.groups, { id: fixtureSlug(name), name, fixtureIds: parseFixtureList(newGroup.fixtures) }] })
+    setNewGroup({ name: '', fixtures: '' })
+  }
+
+  const exportCSV = () => {
+    const url = URL.createObjectURL(new Blob([patchToCSV(patch, profiles)], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'patch.csv'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // An import replaces the whole patch; the output settings stay
+  const importCSV = async (file: File | undefined) => {
+    if (!file) return
+    const { patch: imported, errors } = patchFromCSV(await file.text(), profiles, patch.output)
+    if (imported.fixtures.length === 0) {
+      setMessage({ ok: false, text: errors.join(' · ') || 'No fixtures in the file' })
+      return
+    }
+    await configurePatch(imported)
+    setMessage({
+      ok: errors.length === 0,
+      text: [`${imported.fixtures.length} fixtures, ${imported.groups.length} groups imported`].concat(errors).join(' · ')
+    })
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <LayoutGrid className="w-5 h-5 text-teal-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Fixture Patch</h3>
+            <p className="text-xs text-gray-400">
+              {patch.fixtures.length} fixtures · {patch.groups.length} groups · <span className="font-mono">{snapshot.filePath}</span>
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          <button
+            onClick={exportCSV}
+            className="flex items-center space-x-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white"
+          >
+            <Download className="w-4 h-4" />
+            <span>CSV</span>
+          </button>
+          <label className="flex items-center space-x-2 px-3 py-2 bg-teal-600 hover:bg-teal-700 rounded-lg text-white cursor-pointer">
+            <Upload className="w-4 h-4" />
+            <span>Import CSV</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                importCSV(e.target.files?.[0])
+                e.target.value = ''
+              }}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+
+      {message && <p className={`text-xs mb-3 ${message.ok ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>}
+
+      <div className="flex items-center space-x-3 text-xs mb-4">
+        <label className="flex items-center space-x-2 text-white">
+          <input type="checkbox" checked={patch.output.enabled} onChange={() => save({ output: { ...patch.output, enabled: !patch.output.enabled } })} />
+          <span>Drive patched fixtures over</span>
+        </label>
+        <select
+          value={patch.output.protocol}
+          onChange={(e) => save({ output: { ...patch.output, protocol: e.target.value as 'ArtNet' | 'sACN' } })}
+          className={inputClass}
+        >
+          <option value="ArtNet">Art-Net</option>
+          <option value="sACN">sACN</option>
+        </select>
+        <input
+          key={patch.output.host || ''}
+          type="text"
+          placeholder={patch.output.protocol === 'sACN' ? 'Multicast' : 'Broadcast'}
+          defaultValue={patch.output.host || ''}
+          onBlur={(e) => save({ output: { ...patch.output, host: e.target.value.trim() || undefined } })}
+          className={`w-36 font-mono ${inputClass}`}
+        />
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="mb-4 space-y-1">
+          {conflicts.map((conflict, i) => (
+            <p key={i} className="text-xs text-red-400">{conflict.message}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1 max-h-96 overflow-y-auto mb-3">
+        <div className="grid grid-cols-12 gap-2 px-2 text-xs text-gray-500">
+          <span>#</span>
+          <span className="col-span-3">Name</span>
+          <span className="col-span-3">Profile · mode</span>
+          <span>Univ</span>
+          <span>Addr</span>
+          <span className="col-span-2">Zone</span>
+          <span />
+        </div>
+        {patch.fixtures.map((fixture, index) => {
+          const profile = profiles.find(p => p.id === fixture.profileId)
+          const footprint = fixtureFootprint(fixture, profiles)
+          return (
+            <div
+              key={`${fixture.id}-${index}`}
+              className={`grid grid-cols-12 gap-2 items-center rounded px-2 py-1 text-xs ${
+                conflicted.indexOf(fixture.id) >= 0 ? 'bg-red-500/20' : 'bg-white/5'
+              }`}
+            >
+              <span className="font-mono text-white">{fixture.id}</span>
+              <input
+                key={fixture.name}
+                defaultValue={fixture.name}
+                onBlur={(e) => e.target.value.trim() && e.target.value !== fixture.name && updateFixture(index, { name: e.target.value.trim() })}
+                className={`col-span-3 min-w-0 ${inputClass}`}
+              />
+              <select
+                value={fixture.mode}
+                onChange={(e) => updateFixture(index, { mode: e.target.value })}
+                title={profile ? `${profile.manufacturer} ${profile.model}` : fixture.profileId}
+                className={`col-span-3 min-w-0 ${inputClass}`}
+              >
+                {!profile && <option value={fixture.mode}>{fixture.profileId} (missing)</option>}
+                {profile && profile.modes.map(mode => (
+                  <option key={mode.name} value={mode.name}>{profile.model} · {mode.name} ({mode.channels.length}ch)</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={firstUniverse(patch.output.protocol)}
+                value={fixture.universe}
+                onChange={(e) => updateFixture(index, { universe: parseInt(e.target.value, 10) || firstUniverse(patch.output.protocol) })}
+                className={`min-w-0 ${inputClass}`}
+              />
+              <input
+                type="number"
+                min={1}
+                max={512}
+                value={fixture.address}
+                title={footprint > 0 ? `Channels ${fixture.address}–${fixture.address + footprint - 1}` : undefined}
+                onChange={(e) => updateFixture(index, { address: parseInt(e.target.value, 10) || 1 })}
+                className={`min-w-0 ${inputClass}`}
+              />
+              <input
+                key={fixture.zone || ''}
+                defaultValue={fixture.zone || ''}
+                list="patch-zones"
+                onBlur={(e) => (e.target.value.trim() || undefined) !== fixture.zone && updateFixture(index, { zone: e.target.value.trim() || undefined })}
+                className={`col-span-2 min-w-0 ${inputClass}`}
+              />
+              <button
+                onClick={() => save({ fixtures: patch.fixtures.filter((_, i) => i !== index) })}
+                className="justify-self-end text-gray-400 hover:text-red-400"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          )
+        })}
+        <datalist id="patch-zones">
+          {zones.map(zone => <option key={zone} value={zone} />)}
+        </datalist>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs mb-6">
+        <select
+          value={addProfile ? addProfile.id : ''}
+          onChange={(e) => setAdding({ ...adding, profileId: e.target.value, mode: '' })}
+          className={`w-44 ${inputClass}`}
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.manufacturer} {profile.model}</option>
+          ))}
+        </select>
+        <select
+          value={adding.mode}
+          onChange={(e) => setAdding({ ...adding, mode: e.target.value })}
+          className={`w-32 ${inputClass}`}
+        >
+          {(addProfile ? addProfile.modes : []).map(mode => (
+            <option key={mode.name} value={mode.name}>{mode.name}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={adding.count}
+          onChange={(e) => setAdding({ ...adding, count: parseInt(e.target.value, 10) || 1 })}
+          title="How many"
+          className={`w-14 ${inputClass}`}
+        />
+        <span className="text-gray-400">× U</span>
+        <input
+          type="number"
+          min={firstUniverse(patch.output.protocol)}
+          value={addUniverse}
+          onChange={(e) => setAdding({ ...adding, universe: parseInt(e.target.value, 10) || firstUniverse(patch.output.protocol) })}
+          className={`w-14 ${inputClass}`}
+        />
+        <input
+          type="number"
+          min={1}
+          max={512}
+          placeholder="Next free"
+          value={adding.address}
+          onChange={(e) => setAdding({ ...adding, address: e.target.value })}
+          className={`w-24 ${inputClass}`}
+        />
+        <input
+          placeholder="Zone"
+          list="patch-zones"
+          value={adding.zone}
+          onChange={(e) => setAdding({ ...adding, zone: e.target.value })}
+          className={`w-24 ${inputClass}`}
+        />
+        <input
+          placeholder="Name"
+          value={adding.name}
+          onChange={(e) => setAdding({ ...adding, name: e.target.value })}
+          className={`w-28 ${inputClass}`}
+        />
+        <button
+          onClick={addFixtures}
+          disabled={!addProfile}
+          className="flex items-center space-x-1 px-2 py-1 bg-teal-600 hover:bg-teal-700 rounded text-white"
+        >
+          <Plus className="w-3 h-3" />
+          <span>Patch</span>
+        </button>
+      </div>
+
+      <h4 className="text-sm font-medium text-white mb-2">Groups</h4>
+      <p className="text-xs text-gray-400 mb-2">
+        Mood mappings address these by name in lighting.groups, as they do zones{zones.length > 0 ? ` (${zones.join(', ')})` : ''}.
+      </p>
+      <div className="space-y-1">
+        {patch.groups.map(group => (
+          <div key={group.id} className="flex items-center space-x-2 bg-white/5 rounded px-2 py-1 text-xs">
+            <span className="w-32 text-white">{group.name}</span>
+            <input
+              key={group.fixtureIds.join(',')}
+              defaultValue={formatFixtureList(group.fixtureIds)}
+              onBlur={(e) => save({
+                groups: patch.groups.map(g => g.id === group.id ? { ...g, fixtureIds: parseFixtureList(e.target.value) } : g)
+              })}
+              className={`flex-1 min-w-0 font-mono ${inputClass}`}
+            />
+            <button
+              onClick={() => save({ groups: patch.groups.filter(g => g.id !== group.id) })}
+              className="text-gray-400 hover:text-red-400"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2 text-xs">
+          <input
+            placeholder="Group name"
+            value={newGroup.name}
+            onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })}
+            className={`w-32 ${inputClass}`}
+          />
+          <input
+            placeholder="Fixtures, e.g. 1-8, 12"
+            value={newGroup.fixtures}
+            onChange={(e) => setNewGroup({ ...newGroup, fixtures: e.target.value })}
+            className={`flex-1 min-w-0 font-mono ${inputClass}`}
+          />
+          <button
+            onClick={addGroup}
+            className="flex items-center space-x-1 px-2 py-1 bg-teal-600 hover:bg-teal-700 rounded text-white"
+          >
+            <Plus className="w-3 h-3" />
+            <span>Add</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
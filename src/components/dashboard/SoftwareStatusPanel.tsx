@@ -14,9 +14,16 @@ import {
   Activity,
   Settings,
   Power,
-  PowerOff
+  PowerOff,
+  Radar,
+  Plus,
+  Lightbulb,
+  Music,
+  RefreshCw
 } from 'lucide-react'
-import { useMoodStore, useSoftwareConnections, useOSCStatus } from '@/stores/moodStore'
+import { useMoodStore, useSoftwareConnections, useOSCStatus, useDiscoveredDevices, useEosState, useAbletonSong } from '@/stores/moodStore'
+import { describeCapability } from '@/lib/protocols/DiscoveredDevice'
+import { formatEosCue } from '@/lib/protocols/EosShow'
 
 interface ConnectionCardProps {
   connection: {
@@ -27,7 +34,7 @@ interface ConnectionCardProps {
     status: 'online' | 'offline' | 'error'
     ip?: string
     port?: number
-    protocol?: 'OSC' | 'MIDI' | 'ArtNet'
+    protocol?: 'OSC' | 'MIDI' | 'ArtNet' | 'sACN'
   }
   onConnect: (id: string) => Promise<void>
   onDisconnect: (id: string) => Promise<void>
@@ -161,11 +168,16 @@ const ConnectionCard = ({ connection, onConnect, onDisconnect, onTest }: Connect
 export function SoftwareStatusPanel() {
   const connections = useSoftwareConnections()
   const oscStatus = useOSCStatus()
+  const discoveredDevices = useDiscoveredDevices()
+  const eosState = useEosState()
+  const abletonSong = useAbletonSong()
   const { 
     connectToSoftware, 
     disconnectFromSoftware, 
     sendOSCCommand, 
     initializeOSC,
+    adoptDiscoveredDevice,
+    refreshAbletonSong,
     emergencyStop 
   } = useMoodStore()
 
@@ -231,6 +243,18 @@ export function SoftwareStatusPanel() {
         case 'grandma3':
           await sendOSCCommand('grandma3', '/gma3/status', [])
           break
+        case 'eos':
+          await sendOSCCommand('eos', '/eos/ping', [])
+          break
+        case 'ableton':
+          await sendOSCCommand('ableton', '/live/test', [])
+          break
+        case 'madmapper':
+          await sendOSCCommand('madmapper', '/ping', [])
+          break
+        case 'millumin':
+          await sendOSCCommand('millumin', '/millumin/ping', [])
+          break
       }
       console.log(`🔔 Test command sent to ${id}`)
     } catch (error) {
@@ -350,22 +374,136 @@ export function SoftwareStatusPanel() {
         ))}
       </div>
 
+      {/* Eos show state, once the console reports it */}
+      {eosState && eosState.updatedAt > 0 && (
+        <div className="bg-white/5 backdrop-blur rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-3">
+            <Lightbulb className="w-4 h-4 text-amber-400" />
+            <h3 className="text-white font-medium">ETC Eos</h3>
+            <span className="text-xs text-gray-400">{eosState.showName || 'Untitled show'}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="text-gray-400">Active cue:</span>
+              <span className="text-white ml-2">{formatEosCue(eosState.activeCue)}</span>
+              {eosState.activeCue?.percent !== undefined && eosState.activeCue.percent < 100 && (
+                <span className="text-amber-400 ml-2">{eosState.activeCue.percent}%</span>
+              )}
+            </div>
+            <div>
+              <span className="text-gray-400">Pending cue:</span>
+              <span className="text-white ml-2">{formatEosCue(eosState.pendingCue)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Ableton song state, once AbletonOSC has answered */}
+      {abletonSong && abletonSong.updatedAt > 0 && (
+        <div className="bg-white/5 backdrop-blur rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2">
+              <Music className="w-4 h-4 text-lime-400" />
+              <h3 className="text-white font-medium">Ableton Live</h3>
+              <span className="text-xs text-gray-400">
+                {abletonSong.tempo.toFixed(1)} BPM · {abletonSong.isPlaying ? 'playing' : 'stopped'}
+              </span>
+            </div>
+            <button
+              onClick={refreshAbletonSong}
+              className="flex items-center space-x-1 px-2 py-1 bg-lime-600/20 hover:bg-lime-600/30 rounded text-lime-400 text-xs transition-colors"
+            >
+              <RefreshCw className="w-3 h-3" />
+              <span>Re-read set</span>
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="text-gray-400">Scenes:</span>
+              <span className="text-white ml-2">
+                {abletonSong.scenes.filter(name => name).join(', ') || `${abletonSong.scenes.length} unnamed`}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-400">Tracks:</span>
+              <span className="text-white ml-2">{abletonSong.tracks.join(', ') || '—'}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Discovered Devices */}
+      <div className="bg-white/5 backdrop-blur rounded-lg p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Radar className="w-4 h-4 text-cyan-400" />
+          <h3 className="text-white font-medium">Discovered Devices</h3>
+          <span className="text-xs text-gray-400">mDNS · ArtPoll</span>
+        </div>
+        {discoveredDevices.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing discovered yet</p>
+        ) : (
+          <div className="space-y-2">
+            {discoveredDevices.map(device => {
+              const adopted = connections.some(c =>
+                c.id === device.id || (c.id === device.softwareId && c.ip === device.ip && c.port === device.port)
+              )
+              return (
+                <div key={device.id} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm text-white font-medium truncate">{device.name}</span>
+                      <span className="text-xs text-gray-400">{device.software}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      <span className="text-xs text-gray-500 mr-1">
+                        {device.ip}:{device.port}{device.interface ? ` · ${device.interface}` : ''}
+                      </span>
+                      {device.capabilities.map(capability => (
+                        <span key={capability} className="text-xs px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-300">
+                          {describeCapability(capability)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => adoptDiscoveredDevice(device.id)}
+                    disabled={adopted}
+                    className="flex items-center space-x-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:opacity-60 rounded text-xs text-white"
+                  >
+                    <Plus className="w-3 h-3" />
+                    <span>{adopted ? 'Adopted' : 'Adopt'}</span>
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Network Status Info */}
       <div className="bg-white/5 backdrop-blur rounded-lg p-4">
         <h3 className="text-white font-medium mb-2">Network Information</h3>
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
-            <span className="text-gray-400">Local Network:</span>
-            <span className="text-white ml-2">192.168.1.0/24</span>
+            <span className="text-gray-400">Discovered:</span>
+            <span className="text-white ml-2">{discoveredDevices.length} devices</span>
           </div>
           <div>
             <span className="text-gray-400">OSC Ports:</span>
-            <span className="text-white ml-2">53000, 7000, 8000, 9000</span>
+            <span className="text-white ml-2">53000, 7000, 8000, 9000, 3037, 11000, 8010, 5000</span>
           </div>
           <div>
             <span className="text-gray-400">ArtNet:</span>
             <span className="text-white ml-2">6454</span>
           </div>
+          <div>
+            <span className="text-gray-400">sACN:</span>
+            <span className="text-white ml-2">5568</span>
+          </div>
+          <div>
+            <span className="text-gray-400">RTP-MIDI:</span>
+            <span className="text-white ml-2">5004</span>
+          </div>
           <div>
             <span className="text-gray-400">Discovery:</span>
             <span className="text-green-400 ml-2">Active</span>
@@ -0,0 +1,74 @@
+'use client'
+
+import { Download, Tablet } from 'lucide-react'
+import { MOOD_DEFINITIONS, useSoftwareConnections } from '@/stores/moodStore'
+import { SURFACE_ADDRESSES, SURFACE_PARAMETERS, buildTouchOSCLayout } from '@/lib/protocols/TouchOSCSurface'
+
+// .tosc files are the layout XML, zlib-compressed
+async function compressLayout(xml: string): Promise<Blob> {
+  const stream = new Blob([xml]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Response(stream).blob()
+}
+
+export function TouchOSCSurfacePanel() {
+  const connections = useSoftwareConnections()
+  const moods = Object.values(MOOD_DEFINITIONS).filter(mood => mood.name !== 'Safe Mode')
+  const touchosc = connections.find(c => c.id === 'touchosc')
+
+  const handleDownload = async () => {
+    const xml = buildTouchOSCLayout({
+      moods: moods.map(mood => ({ name: mood.name, color: mood.color })),
+      connections: connections.filter(c => c.id !== 'touchosc').map(c => ({ id: c.id, name: c.name }))
+    })
+    const url = URL.createObjectURL(await compressLayout(xml))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'mood-surface.tosc'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const addresses = [
+    ...moods.map(mood => ({ address: SURFACE_ADDRESSES.MOOD_SELECT(mood.name), role: `Select ${mood.name}` })),
+    ...SURFACE_PARAMETERS.map(p => ({ address: SURFACE_ADDRESSES.PARAMETER(p), role: `${p} fader (0–1)` })),
+    { address: SURFACE_ADDRESSES.ESTOP, role: 'Emergency stop' },
+    { address: SURFACE_ADDRESSES.MOOD_LABEL, role: 'Current mood label' },
+    { address: SURFACE_ADDRESSES.CONFIDENCE_LABEL, role: 'AI confidence label' },
+    { address: SURFACE_ADDRESSES.CONFIDENCE_LED, role: 'AI confidence LED' },
+    { address: SURFACE_ADDRESSES.ESTOP_LED, role: 'Emergency LED' },
+    { address: SURFACE_ADDRESSES.CONNECTION_LED('<id>'), role: 'Connection health LEDs' }
+  ]
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Tablet className="w-5 h-5 text-cyan-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">TouchOSC Surface</h3>
+            <p className="text-xs text-gray-400">
+              Send to {touchosc?.ip || 'tablet'}:{touchosc?.port || 9000}, receive on port 8000
+              {touchosc?.connected ? ' · connected' : ' · not connected'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleDownload}
+          className="flex items-center space-x-2 bg-cyan-600 hover:bg-cyan-700 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Download layout (.tosc)</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {addresses.map(({ address, role }) => (
+          <div key={address} className="flex items-center justify-between bg-white/5 rounded px-3 py-1.5 text-xs">
+            <span className="font-mono text-white">{address}</span>
+            <span className="text-gray-400">{role}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Sunset } from 'lucide-react'
+import { useMoodStore, useOSCStatus, useTransitionConfig, useTransitionStatus } from '@/stores/moodStore'
+import { EASING_CURVES, EasingCurve, TRANSITION_TICK_LIMITS, transitionProgress } from '@/lib/protocols/MoodTransition'
+
+export function TransitionsPanel() {
+  const config = useTransitionConfig()
+  const status = useTransitionStatus()
+  const oscStatus = useOSCStatus()
+  const configureTransitions = useMoodStore(state => state.configureTransitions)
+  const [now, setNow] = useState(Date.now())
+
+  // The bridge only reports start and end; the bar runs on the local clock
+  useEffect(() => {
+    if (!status?.active) return
+    const timer = setInterval(() => setNow(Date.now()), 100)
+    return () => clearInterval(timer)
+  }, [status])
+
+  const progress = status ? transitionProgress(status, now) : 0
+  const statusText = !oscStatus.enabled
+    ? 'bridge offline'
+    : !config.enabled
+      ? 'disabled, moods jump'
+      : status?.active
+        ? `fading to ${status.mood}`
+        : 'idle'
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Sunset className="w-5 h-5 text-fuchsia-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Mood Transitions</h3>
+            <p className="text-xs text-gray-400">Lighting, Resolume and QLab levels crossfade between moods · {statusText}</p>
+          </div>
+        </div>
+        <button
+          onClick={() => configureTransitions({ enabled: !config.enabled })}
+          className={`px-3 py-2 rounded-lg text-sm text-white transition-colors ${
+            config.enabled ? 'bg-fuchsia-600 hover:bg-fuchsia-700' : 'bg-gray-600 hover:bg-gray-700'
+          }`}
+        >
+          {config.enabled ? 'Enabled' : 'Disabled'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Easing</span>
+          <select
+            value={config.easing}
+            onChange={(e) => configureTransitions({ easing: e.target.value as EasingCurve })}
+            className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+          >
+            {EASING_CURVES.map(e => (
+              <option key={e.curve} value={e.curve}>{e.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+          <span className="text-gray-300">Tick rate (fps)</span>
+          <input
+            type="number"
+            min={TRANSITION_TICK_LIMITS.min}
+            max={TRANSITION_TICK_LIMITS.max}
+            defaultValue={config.tickRate}
+            onBlur={(e) => configureTransitions({ tickRate: Number(e.target.value) })}
+            className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-right"
+          />
+        </label>
+        <label className="flex items-center justify-between bg-white/5 rounded px-3 py-2" title="For mappings without a fade time of their own">
+          <span className="text-gray-300">Default fade (s)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            defaultValue={config.defaultSeconds}
+            onBlur={(e) => configureTransitions({ defaultSeconds: Number(e.target.value) })}
+            className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-right"
+          />
+        </label>
+      </div>
+
+      <div className="bg-white/5 rounded px-3 py-2 text-xs">
+        <div className="flex items-center justify-between text-gray-300 mb-1">
+          <span>
+            {status ? status.mood : 'No transition yet'}
+            {status?.interrupted && <span className="text-amber-400"> · cut short {status.interrupted}</span>}
+          </span>
+          <span className="font-mono">
+            {status ? `${Math.round(progress * 100)}% of ${(status.durationMs / 1000).toFixed(1)}s` : '—'}
+          </span>
+        </div>
+        <div className="h-2 bg-black/30 rounded overflow-hidden">
+          <div
+            className={`h-full ${status?.active ? 'bg-fuchsia-500' : 'bg-fuchsia-900'}`}
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, RotateCcw, Send, Trash2 } from 'lucide-react'
+import { useMoodStore, useOSCStatus, useWebhookOutbox } from '@/stores/moodStore'
+import { WEBHOOK_EVENT_TYPES, WebhookEndpointInfo, WebhookEventType, normalizeWebhookEndpoint } from '@/lib/webhooks/WebhookEvents'
+
+export function WebhooksPanel() {
+  const outbox = useWebhookOutbox()
+  const oscStatus = useOSCStatus()
+  const configureWebhooks = useMoodStore(state => state.configureWebhooks)
+  const retryWebhook = useMoodStore(state => state.retryWebhook)
+  const discardWebhook = useMoodStore(state => state.discardWebhook)
+  const [newEndpoint, setNewEndpoint] = useState({ name: '', url: '', secret: '' })
+
+  const endpoints = outbox ? outbox.endpoints : []
+  const endpointName = (id: string) => endpoints.find(e => e.id === id)?.name || id
+
+  const updateEndpoint = (id: string, updates: Partial<WebhookEndpointInfo>) => {
+    configureWebhooks(endpoints.map(e => e.id === id ? { ...e, ...updates } : e))
+  }
+
+  // An empty list means every event, so the last one can't be unticked; disable the endpoint instead
+  const toggleEvent = (endpoint: WebhookEndpointInfo, type: WebhookEventType) => {
+    const current = endpoint.events.length === 0 ? WEBHOOK_EVENT_TYPES.map(t => t.type) : endpoint.events
+    const events = current.indexOf(type) >= 0 ? current.filter(t => t !== type) : [...current, type]
+    if (events.length === 0) return
+    updateEndpoint(endpoint.id, { events: events.length === WEBHOOK_EVENT_TYPES.length ? [] : events })
+  }
+
+  const addEndpoint = () => {
+    if (!newEndpoint.url.trim()) return
+    const endpoint = normalizeWebhookEndpoint({ ...newEndpoint, name: newEndpoint.name.trim() })
+    if (endpoints.some(e => e.id === endpoint.id)) return
+    configureWebhooks([...endpoints, endpoint])
+    setNewEndpoint({ name: '', url: '', secret: '' })
+  }
+
+  if (!outbox) {
+    return (
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+        <div className="flex items-center space-x-3">
+          <Send className="w-5 h-5 text-rose-400" />
+          <div>
+            <h3 className="text-lg font-medium text-white">Webhooks</h3>
+            <p className="text-xs text-gray-400">
+              {oscStatus.enabled ? 'The bridge has no webhook outbox' : 'Start the bridge to configure webhooks'}
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <Send className="w-5 h-5 text-rose-400" />
+        <div>
+          <h3 className="text-lg font-medium text-white">Webhooks</h3>
+          <p className="text-xs text-gray-400">
+            Signed JSON POSTs · {outbox.delivered} delivered · {outbox.pendingCount} pending
+            {outbox.nextAttemptAt ? ` · next attempt ${new Date(outbox.nextAttemptAt).toLocaleTimeString()}` : ''}
+          </p>
+        </div>
+      </div>
+
+      <h4 className="text-sm font-medium text-white mb-2">Endpoints</h4>
+      <div className="space-y-2 mb-4">
+        {endpoints.map(endpoint => (
+          <div key={endpoint.id} className="bg-white/5 rounded px-3 py-2 text-xs">
+            <div className="flex items-center justify-between mb-1">
+              <label className="flex items-center space-x-2">
+                <input type="checkbox" checked={endpoint.enabled} onChange={() => updateEndpoint(endpoint.id, { enabled: !endpoint.enabled })} />
+                <span className="text-white">{endpoint.name}</span>
+                <span className="font-mono text-gray-400">{endpoint.url}</span>
+                {endpoint.hasSecret && <span className="text-gray-500">· signed</span>}
+              </label>
+              <button
+                onClick={() => configureWebhooks(endpoints.filter(e => e.id !== endpoint.id))}
+                className="text-gray-400 hover:text-red-400"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-gray-400">
+              {WEBHOOK_EVENT_TYPES.map(({ type, label }) => (
+                <label key={type} className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={endpoint.events.length === 0 || endpoint.events.indexOf(type) >= 0}
+                    onChange={() => toggleEvent(endpoint, type)}
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2 text-xs">
+          <input
+            type="text"
+            placeholder="Name"
+            value={newEndpoint.name}
+            onChange={(e) => setNewEndpoint({ ...newEndpoint, name: e.target.value })}
+            className="w-32 bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+          />
+          <input
+            type="url"
+            placeholder="https://…"
+            value={newEndpoint.url}
+            onChange={(e) => setNewEndpoint({ ...newEndpoint, url: e.target.value })}
+            className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-1 font-mono text-white"
+          />
+          <input
+            type="password"
+            placeholder="Signing secret"
+            value={newEndpoint.secret}
+            onChange={(e) => setNewEndpoint({ ...newEndpoint, secret: e.target.value })}
+            className="w-36 bg-black/30 border border-white/10 rounded px-2 py-1 font-mono text-white"
+          />
+          <button
+            onClick={addEndpoint}
+            className="flex items-center space-x-1 px-2 py-1 bg-rose-600 hover:bg-rose-700 rounded text-white"
+          >
+            <Plus className="w-3 h-3" />
+            <span>Add</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-white">Dead letters ({outbox.deadLetterCount})</h4>
+        {outbox.deadLetterCount > 0 && (
+          <div className="flex items-center space-x-2 text-xs">
+            <button onClick={() => retryWebhook()} className="text-gray-300 hover:text-white">Retry all</button>
+            <button onClick={() => discardWebhook()} className="text-gray-300 hover:text-red-400">Discard all</button>
+          </div>
+        )}
+      </div>
+      {outbox.deadLetters.length === 0 ? (
+        <p className="text-xs text-gray-500">Every event has been delivered or is still being retried.</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {outbox.deadLetters.map(delivery => (
+            <div key={delivery.id} className="flex items-center justify-between bg-white/5 rounded px-3 py-1.5 text-xs">
+              <div className="min-w-0">
+                <span className="font-mono text-white">{delivery.event.type}</span>
+                <span className="text-gray-400"> → {endpointName(delivery.endpointId)}</span>
+                <span className="text-gray-500"> · {new Date(delivery.event.timestamp).toLocaleString()}</span>
+                <div className="text-red-400 truncate">{delivery.attempts} attempts · {delivery.lastError}</div>
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                <button onClick={() => retryWebhook(delivery.id)} className="text-gray-400 hover:text-white" title="Retry">
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+                <button onClick={() => discardWebhook(delivery.id)} className="text-gray-400 hover:text-red-400" title="Discard">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
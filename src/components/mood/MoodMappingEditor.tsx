@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle, Music, RefreshCw } from 'lucide-react'
+import { useMoodStore, useMoodMappings, useQLabWorkspace } from '@/stores/moodStore'
+import {
+  QLabCueIssue,
+  QLabWorkspaceSnapshot,
+  formatDuration,
+  validateQLabMappings
+} from '@/lib/protocols/QLabWorkspace'
+
+export function MoodMappingEditor() {
+  const moodMappings = useMoodMappings()
+  const workspace = useQLabWorkspace()
+  const { updateMoodMapping, refreshQLabWorkspace } = useMoodStore()
+  const [refreshing, setRefreshing] = useState(false)
+
+  const issues = workspace ? validateQLabMappings(moodMappings, workspace) : []
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await refreshQLabWorkspace()
+    setRefreshing(false)
+  }
+
+  const setCue = (mood: string, cue: string) => {
+    const qlab = moodMappings[mood].qlab || { volume: 0.5, fadeTime: 2 }
+    updateMoodMapping(mood, { qlab: { ...qlab, cue: cue || undefined } })
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-white">QLab Cue Mapping</h3>
+          <p className="text-xs text-gray-400">
+            {workspace
+              ? `${workspace.workspace.name} · ${workspace.cueLists.length} cue lists · read ${new Date(workspace.refreshedAt).toLocaleTimeString()}`
+              : 'Workspace not loaded — cues cannot be validated'}
+          </p>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          className="flex items-center space-x-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+          <span>Read Workspace</span>
+        </button>
+      </div>
+
+      {workspace && (
+        <div className={`mb-4 flex items-center space-x-2 text-sm ${issues.length > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+          {issues.length > 0 ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+          <span>
+            {issues.length > 0
+              ? `${issues.length} mapping${issues.length === 1 ? '' : 's'} point at cues missing from the workspace`
+              : 'All mapped cues exist in the workspace'}
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {Object.keys(moodMappings).map(mood => (
+          <CueRow
+            key={mood}
+            mood={mood}
+            cue={moodMappings[mood].qlab?.cue || ''}
+            workspace={workspace}
+            issue={issues.find(i => i.mood === mood)}
+            onChange={(cue) => setCue(mood, cue)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface CueRowProps {
+  mood: string
+  cue: string
+  workspace: QLabWorkspaceSnapshot | null
+  issue?: QLabCueIssue
+  onChange: (cue: string) => void
+}
+
+function CueRow({ mood, cue, workspace, issue, onChange }: CueRowProps) {
+  return (
+    <div className={`bg-white/5 border rounded-lg p-3 ${issue ? 'border-yellow-500/50' : 'border-white/10'}`}>
+      <div className="flex items-center justify-between space-x-3">
+        <div className="flex items-center space-x-2 w-32">
+          <Music className="w-4 h-4 text-gray-400" />
+          <span className="text-sm font-medium text-white">{mood}</span>
+        </div>
+
+        {workspace ? (
+          <select
+            value={cue}
+            onChange={(e) => onChange(e.target.value)}
+            className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            <option value="">No cue</option>
+            {issue && <option value={cue}>{cue} (missing)</option>}
+            {workspace.cueLists.map(list => (
+              <optgroup key={list.id} label={list.name}>
+                {/* /cue/{number} can only reach numbered cues */}
+                {list.cues.filter(c => c.number).map(c => (
+                  <option key={c.id} value={c.number}>
+                    {c.number} · {c.name || 'Untitled'} ({c.type}, {formatDuration(c.duration)})
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={cue}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Cue number"
+            className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400"
+          />
+        )}
+      </div>
+
+      {issue && (
+        <div className="mt-2 flex items-center justify-between text-xs text-yellow-400">
+          <span>
+            {issue.problem === 'unnumbered'
+              ? `"${issue.cue}" matches an unnumbered cue; give it a number in QLab`
+              : `No cue numbered "${issue.cue}" in this workspace`}
+          </span>
+          {issue.suggestion && (
+            <button
+              onClick={() => onChange(issue.suggestion!)}
+              className="px-2 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 rounded"
+            >
+              Use cue {issue.suggestion}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
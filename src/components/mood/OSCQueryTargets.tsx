@@ -0,0 +1,174 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Search, Trash2, Wifi } from 'lucide-react'
+import { useMoodStore, useMoodMappings, useOSCQueryDevices } from '@/stores/moodStore'
+import {
+  OSCQueryDevice,
+  OSCQueryMoodTarget,
+  OSCQueryParameter,
+  describeRange,
+  isWritable
+} from '@/lib/protocols/OSCQueryNamespace'
+
+export function OSCQueryTargets() {
+  const devices = useOSCQueryDevices()
+  const moodMappings = useMoodMappings()
+  const { browseOSCQuery, updateMoodMapping } = useMoodStore()
+  const [host, setHost] = useState('192.168.1.13')
+  const [port, setPort] = useState(8080)
+  const [browsing, setBrowsing] = useState(false)
+  const [mood, setMood] = useState(Object.keys(moodMappings)[0] || '')
+
+  const targets = moodMappings[mood]?.parameters || []
+
+  const handleBrowse = async () => {
+    setBrowsing(true)
+    await browseOSCQuery(host, port)
+    setBrowsing(false)
+  }
+
+  const setTargets = (next: OSCQueryMoodTarget[]) => {
+    updateMoodMapping(mood, { parameters: next })
+  }
+
+  const addTarget = (device: OSCQueryDevice, parameter: OSCQueryParameter) => {
+    if (targets.some(t => t.device === device.id && t.address === parameter.address)) return
+    const initial = parameter.type.charAt(0) === 's' ? '' : parameter.type.charAt(0) === 'T' ? true : 0.5
+    setTargets([...targets, { device: device.id, address: parameter.address, value: initial }])
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-white">OSCQuery Targets</h3>
+          <p className="text-xs text-gray-400">Browse a device's parameters and map them to mood outputs</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={host}
+            onChange={(e) => setHost(e.target.value)}
+            className="w-36 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white"
+          />
+          <input
+            type="number"
+            value={port}
+            onChange={(e) => setPort(parseInt(e.target.value) || 0)}
+            className="w-20 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white"
+          />
+          <button
+            onClick={handleBrowse}
+            disabled={browsing}
+            className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+          >
+            <Search className="w-4 h-4" />
+            <span>Browse</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Discovered namespaces */}
+        <div className="space-y-4 max-h-96 overflow-y-auto">
+          {devices.length === 0 && (
+            <p className="text-sm text-gray-400">No OSCQuery devices browsed yet</p>
+          )}
+          {devices.map(device => (
+            <div key={device.id}>
+              <div className="flex items-center space-x-2 mb-2">
+                <Wifi className="w-4 h-4 text-green-400" />
+                <span className="text-sm font-medium text-white">{device.hostInfo.name || device.id}</span>
+                <span className="text-xs text-gray-500">
+                  {device.parameters.length} parameters · OSC {device.hostInfo.oscTransport}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {device.parameters.map(parameter => (
+                  <div key={parameter.address} className="flex items-center justify-between bg-white/5 rounded px-3 py-1.5 text-xs">
+                    <div className="min-w-0">
+                      <span className="font-mono text-white">{parameter.address}</span>
+                      <span className="ml-2 text-gray-400">
+                        {parameter.type} {describeRange(parameter)} · {parameter.access}
+                      </span>
+                      {parameter.value && (
+                        <span className="ml-2 text-cyan-400">= {parameter.value.join(', ')}</span>
+                      )}
+                    </div>
+                    {isWritable(parameter) && (
+                      <button
+                        onClick={() => addTarget(device, parameter)}
+                        className="p-1 hover:bg-white/10 rounded"
+                        title={`Map to ${mood}`}
+                      >
+                        <Plus className="w-3 h-3 text-purple-400" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Targets for the selected mood */}
+        <div>
+          <select
+            value={mood}
+            onChange={(e) => setMood(e.target.value)}
+            className="w-full mb-3 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {Object.keys(moodMappings).map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+
+          {targets.length === 0 && (
+            <p className="text-sm text-gray-400">No parameter targets for {mood}</p>
+          )}
+          <div className="space-y-2">
+            {targets.map((target, index) => (
+              <div key={`${target.device}${target.address}`} className="flex items-center space-x-2 bg-white/5 border border-white/10 rounded-lg p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-xs text-white truncate">{target.address}</p>
+                  <p className="text-xs text-gray-500">{target.device}</p>
+                </div>
+                {typeof target.value === 'number' ? (
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={target.value}
+                    onChange={(e) => setTargets(targets.map((t, i) => i === index ? { ...t, value: parseFloat(e.target.value) } : t))}
+                    className="w-24"
+                  />
+                ) : typeof target.value === 'boolean' ? (
+                  <input
+                    type="checkbox"
+                    checked={target.value}
+                    onChange={(e) => setTargets(targets.map((t, i) => i === index ? { ...t, value: e.target.checked } : t))}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={target.value}
+                    onChange={(e) => setTargets(targets.map((t, i) => i === index ? { ...t, value: e.target.value } : t))}
+                    className="w-24 bg-white/10 border border-white/20 rounded px-2 py-1 text-xs text-white"
+                  />
+                )}
+                <button
+                  onClick={() => setTargets(targets.filter((_, i) => i !== index))}
+                  className="p-1 hover:bg-red-500/20 rounded"
+                >
+                  <Trash2 className="w-3 h-3 text-red-400" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
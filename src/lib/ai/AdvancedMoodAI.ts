@@ -365,8 +365,9 @@ export class AdvancedMoodAI {
     }
   }
 
-  private completeABTest(): void {
-    if (!this.currentABTest) return
+  // Called on its own after 50 sessions; null if no test is running
+  completeABTest(): ABTestResult | null {
+    if (!this.currentABTest) return null
 
     const avgA = this.currentABTest.resultsA.reduce((sum, r) => sum + r, 0) / this.currentABTest.resultsA.length
     const avgB = this.currentABTest.resultsB.reduce((sum, r) => sum + r, 0) / this.currentABTest.resultsB.length
@@ -386,6 +387,7 @@ export class AdvancedMoodAI {
 
     this.abTests.push(result)
     this.currentABTest = undefined
+    return result
   }
 
   // Learning management
@@ -1,5 +1,6 @@
 import { VisionData } from '@/lib/vision/VisionEngine'
 import { AudioData } from '@/lib/audio/AudioEngine'
+import type { GroupLighting } from '@/lib/fixtures/FixturePatch'
 
 export interface SensorData {
   vision: VisionData | null
@@ -19,7 +20,7 @@ export interface MoodDecision {
   softwareRecommendations: {
     qlab: { volume: number; cue: string; fadeTime: number }
     resolume: { opacity: number; clip: string; speed: number }
-    lighting: { intensity: number; color: string; transition: number }
+    lighting: { intensity: number; color: string; cct?: number; transition: number; groups?: GroupLighting[] }
   }
 }
 
@@ -0,0 +1,492 @@
+// Bridge client
+// The dashboard's handle on the bridge process. Method names follow
+// OSCController so the store can use either; everything is a request over the
+// bridge WebSocket, and the bridge's events arrive through the on* callbacks.
+// Browser WebSocket only, no Node built-ins.
+import type { DiscoveredDevice, NetworkInterfaceInfo } from '@/lib/protocols/DiscoveredDevice'
+import type { QLabWorkspaceSnapshot } from '@/lib/protocols/QLabWorkspace'
+import type { ResolumeComposition } from '@/lib/protocols/ResolumeComposition'
+import type { OSCQueryDevice, OSCQueryMoodTarget } from '@/lib/protocols/OSCQueryNamespace'
+import type { SurfaceCommand, SurfaceState } from '@/lib/protocols/TouchOSCSurface'
+import type { EosShowState } from '@/lib/protocols/EosShow'
+import type { AbletonSongState } from '@/lib/protocols/AbletonSet'
+import type { ParameterStreamConfig, StreamValues } from '@/lib/protocols/ParameterStream'
+import type { ControlCommand, ControlState } from '@/lib/protocols/ControlAPI'
+import type { MQTTConfig, MQTTMoodState, MQTTStatus, SensorReading } from '@/lib/protocols/MoodMQTT'
+import type { WebhookEndpointUpdate, WebhookEventType, WebhookOutboxSnapshot } from '@/lib/webhooks/WebhookEvents'
+import type { JournalEntry, MessageCause } from '@/lib/protocols/MessageJournal'
+import type { TransitionConfig, TransitionStatus } from '@/lib/protocols/MoodTransition'
+import type { FixtureLibrarySnapshot, FixtureProfile } from '@/lib/fixtures/FixtureProfile'
+import type { FixturePatch, FixturePatchSnapshot } from '@/lib/fixtures/FixturePatch'
+import type { DriverConnection } from '@/lib/drivers/SoftwareDriver'
+import {
+  BRIDGE_DEFAULT_PORT,
+  BridgeArgument,
+  BridgeConnectionStatus,
+  BridgeMethod,
+  BridgeMethods,
+  BridgeRequest,
+  BridgeServerMessage,
+  parseBridgeMessage
+} from './BridgeProtocol'
+
+export interface BridgeClientOptions {
+  url?: string
+  token?: string
+  requestTimeoutMs?: number
+  reconnectDelayMs?: number
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+export function defaultBridgeURL(): string {
+  if (process.env.NEXT_PUBLIC_BRIDGE_URL) return process.env.NEXT_PUBLIC_BRIDGE_URL
+  const host = typeof window !== 'undefined' ? window.location.hostname : 'localhost'
+  return `ws://${host}:${BRIDGE_DEFAULT_PORT}`
+}
+
+export class BridgeClient {
+  private options: Required<BridgeClientOptions>
+  private socket: WebSocket | null = null
+  private nextId = 1
+  private pending: Map<number, PendingRequest> = new Map()
+  private connections: BridgeConnectionStatus[] = []
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private subscriptions: string[] | null = null
+  private closed = false
+
+  private onStatusCallback?: (connections: BridgeConnectionStatus[]) => void
+  private onConnectionChange?: (id: string, connected: boolean) => void
+  private onMessage?: (software: string, message: string) => void
+  private onIncomingMessage?: (softwareId: string, address: string, args: BridgeArgument[]) => void
+  private onDeviceDiscovered?: (device: DiscoveredDevice) => void
+  private onDeviceLost?: (id: string) => void
+  private onQLabWorkspaceChange?: (snapshot: QLabWorkspaceSnapshot) => void
+  private onResolumeCompositionChange?: (composition: ResolumeComposition) => void
+  private onEosStateChange?: (state: EosShowState) => void
+  private onAbletonSongChange?: (song: AbletonSongState) => void
+  private onOSCQueryDeviceChange?: (device: OSCQueryDevice) => void
+  private onSurfaceCommandCallback?: (command: SurfaceCommand) => void
+  private onControlCommandCallback?: (command: ControlCommand) => void
+  private onSensorReadingCallback?: (reading: SensorReading) => void
+  private onMQTTStatusChange?: (status: MQTTStatus) => void
+  private onTransitionChange?: (status: TransitionStatus) => void
+  private onWebhookOutboxChange?: (snapshot: WebhookOutboxSnapshot) => void
+  private onFixtureLibraryChange?: (snapshot: FixtureLibrarySnapshot) => void
+  private onFixturePatchChange?: (snapshot: FixturePatchSnapshot) => void
+  private onJournalCallback?: (entries: JournalEntry[], reset: boolean) => void
+  private onBridgeChange?: (online: boolean) => void
+
+  constructor(options: BridgeClientOptions = {}) {
+    this.options = {
+      url: options.url ?? defaultBridgeURL(),
+      token: options.token ?? process.env.NEXT_PUBLIC_BRIDGE_TOKEN ?? '',
+      requestTimeoutMs: options.requestTimeoutMs ?? 10000,
+      reconnectDelayMs: options.reconnectDelayMs ?? 3000
+    }
+  }
+
+  // Resolves once the bridge is reachable; after that, drops reconnect on their own
+  open(): Promise<void> {
+    this.closed = false
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.socketURL())
+      let opened = false
+
+      socket.onopen = () => {
+        opened = true
+        this.socket = socket
+        console.log(`🌉 Connected to MOOD bridge at ${this.options.url}`)
+        if (this.onBridgeChange) this.onBridgeChange(true)
+        // Subscriptions live on the bridge side and end with the socket
+        if (this.subscriptions) {
+          this.request('subscribe', { softwareIds: this.subscriptions }).catch(() => {})
+        }
+        resolve()
+      }
+      socket.onmessage = (event) => this.handleMessage(String(event.data))
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = null
+        this.failPending(new Error('MOOD bridge connection closed'))
+        if (!opened) {
+          reject(new Error(`MOOD bridge not reachable at ${this.options.url}`))
+          return
+        }
+        if (this.onBridgeChange) this.onBridgeChange(false)
+        this.scheduleReconnect()
+      }
+    })
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  isOnline(): boolean {
+    return this.socket !== null
+  }
+
+  request<M extends BridgeMethod>(method: M, params: BridgeMethods[M]['params']): Promise<BridgeMethods[M]['result']> {
+    const socket = this.socket
+    if (!socket) {
+      return Promise.reject(new Error('MOOD bridge not connected'))
+    }
+
+    const id = this.nextId++
+    const request: BridgeRequest<M> = { type: 'request', id, method, params }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`MOOD bridge did not answer ${method} within ${this.options.requestTimeoutMs}ms`))
+      }, this.options.requestTimeoutMs)
+      this.pending.set(id, { resolve, reject, timer })
+      socket.send(JSON.stringify(request))
+    })
+  }
+
+  // ===== CONTROLLER API =====
+
+  getConnections(): BridgeConnectionStatus[] {
+    return this.connections
+  }
+
+  isConnected(softwareId: string): boolean {
+    return this.connections.some(c => c.id === softwareId && c.connected)
+  }
+
+  connect(softwareId: string): Promise<boolean> {
+    return this.request('connect', { softwareId })
+  }
+
+  disconnect(softwareId: string): Promise<void> {
+    return this.request('disconnect', { softwareId })
+  }
+
+  updateConnectionConfig(softwareId: string, config: Partial<DriverConnection>): Promise<boolean> {
+    return this.request('updateConnection', { softwareId, config })
+  }
+
+  sendTo(softwareId: string, address: string, args: BridgeArgument[] = [], cause?: MessageCause): Promise<void> {
+    return this.request('send', { softwareId, address, args, cause })
+  }
+
+  applyMoodRecommendation(recommendation: any, cause?: MessageCause): Promise<void> {
+    return this.request('applyMood', { recommendation, cause })
+  }
+
+  applyMoodTo(softwareId: string, recommendation: any, cause?: MessageCause): Promise<void> {
+    return this.request('applyMood', { recommendation, softwareId, cause })
+  }
+
+  followMood(recommendation: any, cause?: MessageCause): Promise<void> {
+    return this.request('followMood', { recommendation, cause })
+  }
+
+  applyParameterTargets(targets: OSCQueryMoodTarget[], cause?: MessageCause): Promise<void> {
+    return this.request('applyParameters', { targets, cause })
+  }
+
+  emergencyStopAll(cause?: MessageCause): Promise<void> {
+    return this.request('emergencyStop', { cause })
+  }
+
+  // Omit ids to receive incoming OSC from every connection
+  subscribe(softwareIds: string[] = []): Promise<void> {
+    this.subscriptions = softwareIds
+    return this.request('subscribe', { softwareIds })
+  }
+
+  unsubscribe(): Promise<void> {
+    this.subscriptions = null
+    return this.request('unsubscribe', {})
+  }
+
+  getDiscovery(refresh = false): Promise<{ devices: DiscoveredDevice[]; interfaces: NetworkInterfaceInfo[] }> {
+    return this.request('discovery', { refresh })
+  }
+
+  adoptDevice(deviceId: string): Promise<BridgeConnectionStatus> {
+    return this.request('adoptDevice', { deviceId })
+  }
+
+  refreshQLabWorkspace(): Promise<QLabWorkspaceSnapshot> {
+    return this.request('refreshQLabWorkspace', {})
+  }
+
+  refreshResolumeComposition(): Promise<ResolumeComposition> {
+    return this.request('refreshResolumeComposition', {})
+  }
+
+  refreshAbletonSong(): Promise<void> {
+    return this.request('refreshAbletonSong', {})
+  }
+
+  browseOSCQuery(host: string, port: number): Promise<OSCQueryDevice> {
+    return this.request('browseOSCQuery', { host, port })
+  }
+
+  setSurfaceMoods(moods: string[]): Promise<void> {
+    return this.request('setSurfaceMoods', { moods })
+  }
+
+  updateSurface(state: SurfaceState): Promise<void> {
+    return this.request('updateSurface', { state })
+  }
+
+  configureParameterStream(config: ParameterStreamConfig): Promise<void> {
+    return this.request('configureStream', { config })
+  }
+
+  updateParameterStream(values: StreamValues): Promise<void> {
+    return this.request('streamValues', { values })
+  }
+
+  // Resolves with the control API's port, or null when the bridge isn't listening
+  setControlState(state: ControlState): Promise<number | null> {
+    return this.request('updateControlState', { state })
+  }
+
+  configureMQTT(config: MQTTConfig): Promise<void> {
+    return this.request('configureMQTT', { config })
+  }
+
+  updateMQTTState(state: MQTTMoodState): Promise<void> {
+    return this.request('updateMQTTState', { state })
+  }
+
+  configureTransitions(config: TransitionConfig): Promise<void> {
+    return this.request('configureTransitions', { config })
+  }
+
+  emitEvent(type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    return this.request('emitEvent', { type, data })
+  }
+
+  configureWebhooks(endpoints: WebhookEndpointUpdate[]): Promise<WebhookOutboxSnapshot | null> {
+    return this.request('configureWebhooks', { endpoints })
+  }
+
+  retryWebhook(deliveryId?: string): Promise<void> {
+    return this.request('retryWebhook', { deliveryId })
+  }
+
+  discardWebhook(deliveryId?: string): Promise<void> {
+    return this.request('discardWebhook', { deliveryId })
+  }
+
+  clearJournal(): Promise<void> {
+    return this.request('clearJournal', {})
+  }
+
+  // data: the file's bytes in base64
+  importFixture(fileName: string, data: string): Promise<FixtureProfile> {
+    return this.request('importFixture', { fileName, data })
+  }
+
+  removeFixture(id: string): Promise<void> {
+    return this.request('removeFixture', { id })
+  }
+
+  configurePatch(patch: FixturePatch): Promise<FixturePatchSnapshot> {
+    return this.request('configurePatch', { patch })
+  }
+
+  // ===== EVENTS =====
+
+  onStatus(callback: (connections: BridgeConnectionStatus[]) => void): void {
+    this.onStatusCallback = callback
+  }
+
+  onConnectionStatusChange(callback: (id: string, connected: boolean) => void): void {
+    this.onConnectionChange = callback
+  }
+
+  onMessageSent(callback: (software: string, message: string) => void): void {
+    this.onMessage = callback
+  }
+
+  // Needs subscribe() first
+  onIncoming(callback: (softwareId: string, address: string, args: BridgeArgument[]) => void): void {
+    this.onIncomingMessage = callback
+  }
+
+  onDeviceDiscovery(callback: (device: DiscoveredDevice) => void): void {
+    this.onDeviceDiscovered = callback
+  }
+
+  onDeviceLoss(callback: (id: string) => void): void {
+    this.onDeviceLost = callback
+  }
+
+  onQLabWorkspace(callback: (snapshot: QLabWorkspaceSnapshot) => void): void {
+    this.onQLabWorkspaceChange = callback
+  }
+
+  onResolumeComposition(callback: (composition: ResolumeComposition) => void): void {
+    this.onResolumeCompositionChange = callback
+  }
+
+  onEosState(callback: (state: EosShowState) => void): void {
+    this.onEosStateChange = callback
+  }
+
+  onAbletonSong(callback: (song: AbletonSongState) => void): void {
+    this.onAbletonSongChange = callback
+  }
+
+  onOSCQueryDevice(callback: (device: OSCQueryDevice) => void): void {
+    this.onOSCQueryDeviceChange = callback
+  }
+
+  onSurfaceCommand(callback: (command: SurfaceCommand) => void): void {
+    this.onSurfaceCommandCallback = callback
+  }
+
+  onControlCommand(callback: (command: ControlCommand) => void): void {
+    this.onControlCommandCallback = callback
+  }
+
+  onSensorReading(callback: (reading: SensorReading) => void): void {
+    this.onSensorReadingCallback = callback
+  }
+
+  onMQTTStatus(callback: (status: MQTTStatus) => void): void {
+    this.onMQTTStatusChange = callback
+  }
+
+  onTransitionStatus(callback: (status: TransitionStatus) => void): void {
+    this.onTransitionChange = callback
+  }
+
+  onWebhookOutbox(callback: (snapshot: WebhookOutboxSnapshot) => void): void {
+    this.onWebhookOutboxChange = callback
+  }
+
+  onFixtureLibrary(callback: (snapshot: FixtureLibrarySnapshot) => void): void {
+    this.onFixtureLibraryChange = callback
+  }
+
+  onFixturePatch(callback: (snapshot: FixturePatchSnapshot) => void): void {
+    this.onFixturePatchChange = callback
+  }
+
+  // reset: the entries replace the dashboard's copy instead of adding to it
+  onJournal(callback: (entries: JournalEntry[], reset: boolean) => void): void {
+    this.onJournalCallback = callback
+  }
+
+  // The bridge process itself going away and coming back
+  onBridgeStatus(callback: (online: boolean) => void): void {
+    this.onBridgeChange = callback
+  }
+
+  private handleMessage(data: string): void {
+    const message = parseBridgeMessage<BridgeServerMessage>(data)
+    if (!message) return
+
+    switch (message.type) {
+      case 'response': {
+        const pending = this.pending.get(message.id)
+        if (!pending) return
+        this.pending.delete(message.id)
+        clearTimeout(pending.timer)
+        if (message.ok) pending.resolve(message.result)
+        else pending.reject(new Error(message.error))
+        break
+      }
+      case 'status':
+        this.connections = message.connections
+        if (this.onStatusCallback) this.onStatusCallback(message.connections)
+        break
+      case 'connection':
+        if (this.onConnectionChange) this.onConnectionChange(message.softwareId, message.connected)
+        break
+      case 'incoming':
+        if (this.onIncomingMessage) this.onIncomingMessage(message.softwareId, message.address, message.args)
+        break
+      case 'sent':
+        if (this.onMessage) this.onMessage(message.software, message.message)
+        break
+      case 'device':
+        if (this.onDeviceDiscovered) this.onDeviceDiscovered(message.device)
+        break
+      case 'deviceLost':
+        if (this.onDeviceLost) this.onDeviceLost(message.id)
+        break
+      case 'qlabWorkspace':
+        if (this.onQLabWorkspaceChange) this.onQLabWorkspaceChange(message.snapshot)
+        break
+      case 'resolumeComposition':
+        if (this.onResolumeCompositionChange) this.onResolumeCompositionChange(message.composition)
+        break
+      case 'eosState':
+        if (this.onEosStateChange) this.onEosStateChange(message.state)
+        break
+      case 'abletonSong':
+        if (this.onAbletonSongChange) this.onAbletonSongChange(message.song)
+        break
+      case 'oscQueryDevice':
+        if (this.onOSCQueryDeviceChange) this.onOSCQueryDeviceChange(message.device)
+        break
+      case 'surfaceCommand':
+        if (this.onSurfaceCommandCallback) this.onSurfaceCommandCallback(message.command)
+        break
+      case 'controlCommand':
+        if (this.onControlCommandCallback) this.onControlCommandCallback(message.command)
+        break
+      case 'sensorReading':
+        if (this.onSensorReadingCallback) this.onSensorReadingCallback(message.reading)
+        break
+      case 'mqttStatus':
+        if (this.onMQTTStatusChange) this.onMQTTStatusChange(message.status)
+        break
+      case 'transition':
+        if (this.onTransitionChange) this.onTransitionChange(message.status)
+        break
+      case 'webhookOutbox':
+        if (this.onWebhookOutboxChange) this.onWebhookOutboxChange(message.snapshot)
+        break
+      case 'fixtureLibrary':
+        if (this.onFixtureLibraryChange) this.onFixtureLibraryChange(message.snapshot)
+        break
+      case 'fixturePatch':
+        if (this.onFixturePatchChange) this.onFixturePatchChange(message.snapshot)
+        break
+      case 'journal':
+        if (this.onJournalCallback) this.onJournalCallback(message.entries, !!message.reset)
+        break
+    }
+  }
+
+  // Browsers can't set headers on a WebSocket, so the token rides in the query
+  private socketURL(): string {
+    const { url, token } = this.options
+    if (!token) return url
+    return `${url}${url.indexOf('?') >= 0 ? '&' : '?'}token=${encodeURIComponent(token)}`
+  }
+
+  private failPending(error: Error): void {
+    this.pending.forEach(pending => {
+      clearTimeout(pending.timer)
+      pending.reject(error)
+    })
+    this.pending.clear()
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined
+      this.open().catch(() => this.scheduleReconnect())
+    }, this.options.reconnectDelayMs)
+  }
+}
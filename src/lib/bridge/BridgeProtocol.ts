@@ -0,0 +1,128 @@
+// Bridge protocol
+// JSON over WebSocket between the dashboard and the bridge process, which owns
+// every UDP/TCP socket. The browser sends requests and gets one response per
+// request id; the bridge pushes events (status, incoming OSC, discovery, ...)
+// unprompted. Types only, shared by both ends.
+import type { DriverCapability, DriverConnection } from '@/lib/drivers/SoftwareDriver'
+import type { DiscoveredDevice, NetworkInterfaceInfo } from '@/lib/protocols/DiscoveredDevice'
+import type { QLabWorkspaceSnapshot } from '@/lib/protocols/QLabWorkspace'
+import type { ResolumeComposition } from '@/lib/protocols/ResolumeComposition'
+import type { OSCQueryDevice, OSCQueryMoodTarget } from '@/lib/protocols/OSCQueryNamespace'
+import type { SurfaceCommand, SurfaceState } from '@/lib/protocols/TouchOSCSurface'
+import type { EosShowState } from '@/lib/protocols/EosShow'
+import type { AbletonSongState } from '@/lib/protocols/AbletonSet'
+import type { ParameterStreamConfig, StreamValues } from '@/lib/protocols/ParameterStream'
+import type { ControlCommand, ControlState } from '@/lib/protocols/ControlAPI'
+import type { MQTTConfig, MQTTMoodState, MQTTStatus, SensorReading } from '@/lib/protocols/MoodMQTT'
+import type { WebhookEndpointUpdate, WebhookEventType, WebhookOutboxSnapshot } from '@/lib/webhooks/WebhookEvents'
+import type { JournalEntry, MessageCause } from '@/lib/protocols/MessageJournal'
+import type { TransitionConfig, TransitionStatus } from '@/lib/protocols/MoodTransition'
+import type { FixtureLibrarySnapshot, FixtureProfile } from '@/lib/fixtures/FixtureProfile'
+import type { FixturePatch, FixturePatchSnapshot } from '@/lib/fixtures/FixturePatch'
+
+export const BRIDGE_DEFAULT_PORT = 8765
+
+// A connection as the browser sees it: settings and health, no sockets
+export interface BridgeConnectionStatus extends DriverConnection {
+  connected: boolean
+  lastPing: number
+  capabilities: DriverCapability[]
+}
+
+// Plain values only; typed OSC arguments are flattened before crossing the bridge
+export type BridgeArgument = number | string | boolean | null
+
+// Request name → params and result
+export interface BridgeMethods {
+  status: { params: {}; result: BridgeConnectionStatus[] }
+  connect: { params: { softwareId: string }; result: boolean }
+  disconnect: { params: { softwareId: string }; result: void }
+  updateConnection: { params: { softwareId: string; config: Partial<DriverConnection> }; result: boolean }
+  // cause is what the journal records the messages under; operator when omitted
+  send: { params: { softwareId: string; address: string; args: BridgeArgument[]; cause?: MessageCause }; result: void }
+  applyMood: { params: { recommendation: any; softwareId?: string; cause?: MessageCause }; result: void }
+  // Eases the continuous values in the recommendation; nothing else is sent
+  followMood: { params: { recommendation: any; cause?: MessageCause }; result: void }
+  applyParameters: { params: { targets: OSCQueryMoodTarget[]; cause?: MessageCause }; result: void }
+  emergencyStop: { params: { cause?: MessageCause }; result: void }
+  // Incoming OSC is only pushed for subscribed connections; omit ids for all
+  subscribe: { params: { softwareIds?: string[] }; result: void }
+  unsubscribe: { params: {}; result: void }
+  discovery: { params: { refresh?: boolean }; result: { devices: DiscoveredDevice[]; interfaces: NetworkInterfaceInfo[] } }
+  adoptDevice: { params: { deviceId: string }; result: BridgeConnectionStatus }
+  refreshQLabWorkspace: { params: {}; result: QLabWorkspaceSnapshot }
+  refreshResolumeComposition: { params: {}; result: ResolumeComposition }
+  // The new state arrives as an abletonSong event
+  refreshAbletonSong: { params: {}; result: void }
+  browseOSCQuery: { params: { host: string; port: number }; result: OSCQueryDevice }
+  setSurfaceMoods: { params: { moods: string[] }; result: void }
+  updateSurface: { params: { state: SurfaceState }; result: void }
+  configureStream: { params: { config: ParameterStreamConfig }; result: void }
+  // The dashboard's latest values; the bridge sends them at the stream rate
+  streamValues: { params: { values: StreamValues }; result: void }
+  // What the control API answers /query/state with; result is its port, null when it isn't listening
+  updateControlState: { params: { state: ControlState }; result: number | null }
+  configureMQTT: { params: { config: MQTTConfig }; result: void }
+  updateMQTTState: { params: { state: MQTTMoodState }; result: void }
+  configureTransitions: { params: { config: TransitionConfig }; result: void }
+  emitEvent: { params: { type: WebhookEventType; data: Record<string, any> }; result: void }
+  // null when the bridge runs without an outbox
+  configureWebhooks: { params: { endpoints: WebhookEndpointUpdate[] }; result: WebhookOutboxSnapshot | null }
+  // Omit the id for every dead letter
+  retryWebhook: { params: { deliveryId?: string }; result: void }
+  discardWebhook: { params: { deliveryId?: string }; result: void }
+  clearJournal: { params: {}; result: void }
+  // data is the file's bytes in base64; the file lands in the bridge's fixture directory
+  importFixture: { params: { fileName: string; data: string }; result: FixtureProfile }
+  removeFixture: { params: { id: string }; result: void }
+  // Saved as given, conflicts and all; the snapshot lists them
+  configurePatch: { params: { patch: FixturePatch }; result: FixturePatchSnapshot }
+}
+
+export type BridgeMethod = keyof BridgeMethods
+
+export interface BridgeRequest<M extends BridgeMethod = BridgeMethod> {
+  type: 'request'
+  id: number
+  method: M
+  params: BridgeMethods[M]['params']
+}
+
+export type BridgeResponse =
+  | { type: 'response'; id: number; ok: true; result: any }
+  | { type: 'response'; id: number; ok: false; error: string }
+
+export type BridgeEvent =
+  | { type: 'status'; connections: BridgeConnectionStatus[] }
+  | { type: 'connection'; softwareId: string; connected: boolean }
+  | { type: 'incoming'; softwareId: string; address: string; args: BridgeArgument[] }
+  | { type: 'sent'; software: string; message: string }
+  | { type: 'device'; device: DiscoveredDevice }
+  | { type: 'deviceLost'; id: string }
+  | { type: 'qlabWorkspace'; snapshot: QLabWorkspaceSnapshot }
+  | { type: 'resolumeComposition'; composition: ResolumeComposition }
+  | { type: 'eosState'; state: EosShowState }
+  | { type: 'abletonSong'; song: AbletonSongState }
+  | { type: 'oscQueryDevice'; device: OSCQueryDevice }
+  | { type: 'surfaceCommand'; command: SurfaceCommand }
+  | { type: 'controlCommand'; command: ControlCommand }
+  | { type: 'sensorReading'; reading: SensorReading }
+  | { type: 'mqttStatus'; status: MQTTStatus }
+  // Sent when a fade starts and ends; dashboards animate the progress in between
+  | { type: 'transition'; status: TransitionStatus }
+  | { type: 'webhookOutbox'; snapshot: WebhookOutboxSnapshot }
+  | { type: 'fixtureLibrary'; snapshot: FixtureLibrarySnapshot }
+  | { type: 'fixturePatch'; snapshot: FixturePatchSnapshot }
+  // New dashboards get the whole journal; after that, one entry per message sent
+  | { type: 'journal'; entries: JournalEntry[]; reset?: boolean }
+
+export type BridgeServerMessage = BridgeResponse | BridgeEvent
+
+export function parseBridgeMessage<T extends { type: string }>(data: string): T | null {
+  try {
+    const message = JSON.parse(data)
+    return message && typeof message.type === 'string' ? message as T : null
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,311 @@
+// Bridge server
+// Runs the real OSCController in Node and serves it to dashboards over
+// WebSocket. Every dashboard gets status, discovery and introspection events;
+// incoming OSC only goes to dashboards that subscribed to that connection.
+// Surface and control API commands go to one dashboard, the longest-connected,
+// so they're applied once however many dashboards are open.
+// Browsers may only connect from an allowed origin (loopback by default), and
+// with a token set every client has to present it as ?token=.
+import { timingSafeEqual } from 'crypto'
+import { WebSocketServer } from 'ws'
+import { OSCController, SoftwareConnection } from '@/lib/osc/OSCController'
+import { OSCMessage } from '@/lib/protocols/OSCCodec'
+import { journalArgs } from '@/lib/protocols/MessageJournal'
+import {
+  BRIDGE_DEFAULT_PORT,
+  BridgeConnectionStatus,
+  BridgeEvent,
+  BridgeMethod,
+  BridgeMethods,
+  BridgeRequest,
+  BridgeResponse,
+  parseBridgeMessage
+} from './BridgeProtocol'
+
+export interface BridgeServerOptions {
+  port?: number
+  host?: string
+  // Dashboard origins besides loopback, e.g. 'http://192.168.1.20:3000'
+  allowedOrigins?: string[]
+  token?: string
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+function isLoopbackOrigin(origin: string): boolean {
+  try {
+    return LOOPBACK_HOSTS.indexOf(new URL(origin).hostname) >= 0
+  } catch {
+    return false
+  }
+}
+
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+interface BridgeClientState {
+  socket: any // ws has no bundled types
+  // null: not subscribed; empty set: every connection
+  subscriptions: Set<string> | null
+}
+
+type BridgeHandler<M extends BridgeMethod> = (
+  params: BridgeMethods[M]['params'],
+  client: BridgeClientState
+) => Promise<BridgeMethods[M]['result']> | BridgeMethods[M]['result']
+
+export class BridgeServer {
+  private options: Required<BridgeServerOptions>
+  private controller: OSCController
+  private server: any = null
+  private clients: Set<BridgeClientState> = new Set()
+  private handlers: { [M in BridgeMethod]: BridgeHandler<M> }
+
+  constructor(controller: OSCController, options: BridgeServerOptions = {}) {
+    this.controller = controller
+    this.options = {
+      port: options.port ?? BRIDGE_DEFAULT_PORT,
+      host: options.host ?? '127.0.0.1',
+      allowedOrigins: options.allowedOrigins ?? [],
+      token: options.token ?? ''
+    }
+    this.handlers = this.createHandlers()
+    this.wireController()
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        port: this.options.port,
+        host: this.options.host,
+        verifyClient: (info: { origin?: string; req: any }) => this.verifyClient(info.origin, info.req.url)
+      })
+      server.once('error', reject)
+      server.once('listening', () => {
+        server.removeListener('error', reject)
+        console.log(`🌉 MOOD bridge listening on ws://${this.options.host}:${this.options.port}`)
+        if (!this.options.token && LOOPBACK_HOSTS.indexOf(this.options.host) < 0) {
+          console.warn('⚠️ MOOD bridge is reachable from other machines without a token')
+        }
+        resolve()
+      })
+      server.on('connection', (socket: any) => this.handleConnection(socket))
+      this.server = server
+    })
+  }
+
+  stop(): void {
+    this.clients.forEach(client => client.socket.close())
+    this.clients.clear()
+    if (this.server) {
+      this.server.close()
+      this.server = null
+    }
+  }
+
+  // Origin only stops other web pages; Node clients send none, so the token is what gates the network
+  private verifyClient(origin: string | undefined, url: string = '/'): boolean {
+    if (origin && !isLoopbackOrigin(origin) && this.options.allowedOrigins.indexOf(origin) < 0) {
+      console.warn(`⚠️ Bridge refused a dashboard from ${origin}`)
+      return false
+    }
+    if (this.options.token) {
+      const token = new URL(url, 'ws://bridge').searchParams.get('token') || ''
+      if (!tokensMatch(token, this.options.token)) {
+        console.warn('⚠️ Bridge refused a client without the bridge token')
+        return false
+      }
+    }
+    return true
+  }
+
+  private handleConnection(socket: any): void {
+    const client: BridgeClientState = { socket, subscriptions: null }
+    this.clients.add(client)
+    console.log(`🔗 Dashboard connected to bridge (${this.clients.size} total)`)
+
+    socket.on('message', (data: any) => this.handleRequest(client, data.toString()))
+    socket.on('close', () => this.clients.delete(client))
+    socket.on('error', (error: Error) => console.error('❌ Bridge socket error:', error.message))
+
+    // New dashboards start from the current state
+    this.send(client, { type: 'status', connections: this.connectionStatus() })
+    this.controller.getDiscoveredDevices().forEach(device => this.send(client, { type: 'device', device }))
+    const eosState = this.controller.getEosState()
+    if (eosState && eosState.updatedAt > 0) this.send(client, { type: 'eosState', state: eosState })
+    const abletonSong = this.controller.getAbletonSong()
+    if (abletonSong && abletonSong.updatedAt > 0) this.send(client, { type: 'abletonSong', song: abletonSong })
+    const mqttStatus = this.controller.getMQTTStatus()
+    if (mqttStatus.broker) this.send(client, { type: 'mqttStatus', status: mqttStatus })
+    const transition = this.controller.getTransitionStatus()
+    if (transition) this.send(client, { type: 'transition', status: transition })
+    const outbox = this.controller.getWebhookOutbox()
+    if (outbox) this.send(client, { type: 'webhookOutbox', snapshot: outbox })
+    const fixtures = this.controller.getFixtureLibrary()
+    if (fixtures) this.send(client, { type: 'fixtureLibrary', snapshot: fixtures })
+    const patch = this.controller.getFixturePatch()
+    if (patch) this.send(client, { type: 'fixturePatch', snapshot: patch })
+    this.send(client, { type: 'journal', entries: this.controller.getJournal(), reset: true })
+  }
+
+  private async handleRequest(client: BridgeClientState, data: string): Promise<void> {
+    const request = parseBridgeMessage<BridgeRequest>(data)
+    if (!request || request.type !== 'request') return
+
+    const handler = this.handlers[request.method] as BridgeHandler<BridgeMethod> | undefined
+    let response: BridgeResponse
+    if (!handler) {
+      response = { type: 'response', id: request.id, ok: false, error: `Unknown bridge method: ${request.method}` }
+    } else {
+      try {
+        const result = await handler(request.params || {}, client)
+        response = { type: 'response', id: request.id, ok: true, result }
+      } catch (error: any) {
+        response = { type: 'response', id: request.id, ok: false, error: error?.message || String(error) }
+      }
+    }
+    this.send(client, response)
+  }
+
+  private createHandlers(): { [M in BridgeMethod]: BridgeHandler<M> } {
+    const controller = this.controller
+    return {
+      status: () => this.connectionStatus(),
+      connect: ({ softwareId }) => controller.connect(softwareId),
+      disconnect: ({ softwareId }) => controller.disconnect(softwareId),
+      updateConnection: ({ softwareId, config }) => {
+        const updated = controller.updateConnectionConfig(softwareId, config)
+        if (updated) this.broadcastStatus()
+        return updated
+      },
+      send: ({ softwareId, address, args, cause }) => controller.sendTo(softwareId, address, args, cause || 'operator'),
+      applyMood: ({ recommendation, softwareId, cause }) => softwareId
+        ? controller.applyMoodTo(softwareId, recommendation, cause)
+        : controller.applyMoodRecommendation(recommendation, cause),
+      followMood: ({ recommendation, cause }) => controller.followMood(recommendation, cause),
+      applyParameters: ({ targets, cause }) => controller.applyParameterTargets(targets, cause),
+      emergencyStop: ({ cause }) => controller.emergencyStopAll(cause),
+      subscribe: ({ softwareIds }, client) => {
+        client.subscriptions = new Set(softwareIds || [])
+      },
+      unsubscribe: (_, client) => {
+        client.subscriptions = null
+      },
+      discovery: ({ refresh }) => {
+        if (refresh) controller.refreshDiscovery()
+        return { devices: controller.getDiscoveredDevices(), interfaces: controller.getNetworkInterfaces() }
+      },
+      adoptDevice: ({ deviceId }) => {
+        const connection = controller.adoptDevice(deviceId)
+        this.broadcastStatus()
+        return this.toStatus(connection)
+      },
+      refreshQLabWorkspace: () => controller.refreshQLabWorkspace(),
+      refreshResolumeComposition: () => controller.refreshResolumeComposition(),
+      refreshAbletonSong: () => controller.refreshAbletonSong(),
+      browseOSCQuery: ({ host, port }) => controller.browseOSCQuery(host, port),
+      setSurfaceMoods: ({ moods }) => controller.setSurfaceMoods(moods),
+      updateSurface: ({ state }) => controller.updateSurface(state),
+      configureStream: ({ config }) => controller.configureParameterStream(config),
+      streamValues: ({ values }) => controller.updateParameterStream(values),
+      updateControlState: ({ state }) => {
+        controller.setControlState(state)
+        return controller.getControlPort()
+      },
+      configureMQTT: ({ config }) => controller.configureMQTT(config),
+      updateMQTTState: ({ state }) => controller.updateMQTTState(state),
+      configureTransitions: ({ config }) => controller.configureTransitions(config),
+      emitEvent: ({ type, data }) => controller.emitEvent(type, data),
+      configureWebhooks: ({ endpoints }) => controller.configureWebhooks(endpoints),
+      retryWebhook: ({ deliveryId }) => controller.retryWebhook(deliveryId),
+      discardWebhook: ({ deliveryId }) => controller.discardWebhook(deliveryId),
+      clearJournal: () => {
+        controller.clearJournal()
+        this.broadcast({ type: 'journal', entries: [], reset: true })
+      },
+      importFixture: ({ fileName, data }) => controller.importFixture(fileName, Buffer.from(data, 'base64')),
+      removeFixture: ({ id }) => controller.removeFixture(id),
+      configurePatch: ({ patch }) => controller.configurePatch(patch)
+    }
+  }
+
+  private wireController(): void {
+    const controller = this.controller
+    controller.onConnectionStatusChange((softwareId, connected) => {
+      this.broadcast({ type: 'connection', softwareId, connected })
+      this.broadcastStatus()
+    })
+    controller.onMessageSent((software, message) => this.broadcast({ type: 'sent', software, message }))
+    controller.onIncoming((softwareId, message) => this.broadcastIncoming(softwareId, message))
+    controller.onDeviceDiscovery((device) => this.broadcast({ type: 'device', device }))
+    controller.onDeviceLoss((id) => this.broadcast({ type: 'deviceLost', id }))
+    controller.onQLabWorkspace((snapshot) => this.broadcast({ type: 'qlabWorkspace', snapshot }))
+    controller.onResolumeComposition((composition) => this.broadcast({ type: 'resolumeComposition', composition }))
+    controller.onEosState((state) => this.broadcast({ type: 'eosState', state }))
+    controller.onAbletonSong((song) => this.broadcast({ type: 'abletonSong', song }))
+    controller.onOSCQueryDevice((device) => this.broadcast({ type: 'oscQueryDevice', device }))
+    controller.onSurfaceCommand((command) => {
+      const primary = this.primaryClient()
+      if (primary) this.send(primary, { type: 'surfaceCommand', command })
+    })
+    // Only a dashboard can act on a control command; the controller replies with an error otherwise
+    controller.onControlCommand((command) => {
+      const primary = this.primaryClient()
+      if (!primary) return false
+      this.send(primary, { type: 'controlCommand', command })
+      return true
+    })
+    controller.onSensorReading((reading) => this.broadcast({ type: 'sensorReading', reading }))
+    controller.onMQTTStatus((status) => this.broadcast({ type: 'mqttStatus', status }))
+    controller.onTransitionStatus((status) => this.broadcast({ type: 'transition', status }))
+    controller.onWebhookOutbox((snapshot) => this.broadcast({ type: 'webhookOutbox', snapshot }))
+    controller.onFixtureLibrary((snapshot) => this.broadcast({ type: 'fixtureLibrary', snapshot }))
+    controller.onFixturePatch((snapshot) => this.broadcast({ type: 'fixturePatch', snapshot }))
+    controller.onJournalEntry((entry) => this.broadcast({ type: 'journal', entries: [entry] }))
+  }
+
+  private broadcastIncoming(softwareId: string, message: OSCMessage): void {
+    // Same plain values as the journal; blobs, colours and timetags arrive as text
+    const event: BridgeEvent = { type: 'incoming', softwareId, address: message.address, args: journalArgs(message.args) }
+
+    this.clients.forEach(client => {
+      if (!client.subscriptions) return
+      if (client.subscriptions.size === 0 || client.subscriptions.has(softwareId)) this.send(client, event)
+    })
+  }
+
+  private connectionStatus(): BridgeConnectionStatus[] {
+    return this.controller.getConnections().map(connection => this.toStatus(connection))
+  }
+
+  private toStatus(connection: SoftwareConnection): BridgeConnectionStatus {
+    const { oscPort, websocket, tcpClient, ...settings } = connection
+    const driver = this.controller.getDriver(connection.id)
+    return { ...settings, capabilities: driver ? driver.capabilities : [] }
+  }
+
+  private broadcastStatus(): void {
+    this.broadcast({ type: 'status', connections: this.connectionStatus() })
+  }
+
+  // Clients are kept in connection order, so the first open one has been here longest
+  private primaryClient(): BridgeClientState | null {
+    let primary: BridgeClientState | null = null
+    this.clients.forEach(client => {
+      if (!primary && client.socket.readyState === 1) primary = client
+    })
+    return primary
+  }
+
+  private broadcast(event: BridgeEvent): void {
+    this.clients.forEach(client => this.send(client, event))
+  }
+
+  private send(client: BridgeClientState, message: BridgeEvent | BridgeResponse): void {
+    if (client.socket.readyState !== 1) return // OPEN
+    client.socket.send(JSON.stringify(message))
+  }
+}
@@ -0,0 +1,162 @@
+// Ableton Live driver (AbletonOSC remote script)
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+import type { OSCMessage } from '@/lib/protocols/OSCCodec'
+import {
+  ABLETON_REPLIES,
+  AbletonMoodMapping,
+  AbletonSongState,
+  applyAbletonMessage,
+  emptyAbletonSong,
+  resolveAbletonMapping
+} from '@/lib/protocols/AbletonSet'
+
+// AbletonOSC Commands (indices are 0-based)
+export const ABLETON_COMMANDS = {
+  // Song
+  TEST: '/live/test',
+  SET_TEMPO: '/live/song/set/tempo',
+  START_PLAYING: '/live/song/start_playing',
+  STOP_PLAYING: '/live/song/stop_playing',
+  STOP_ALL_CLIPS: '/live/song/stop_all_clips',
+
+  // Scenes and clips
+  SCENE_FIRE: '/live/scene/fire', // [scene]
+  CLIP_FIRE: '/live/clip/fire', // [track, clip]
+
+  // Mixer
+  TRACK_VOLUME: '/live/track/set/volume', // [track, level]
+  TRACK_SEND: '/live/track/set/send', // [track, send, level]
+
+  // Song state queries; replies come back on the /get/ address
+  GET_TEMPO: '/live/song/get/tempo',
+  GET_IS_PLAYING: '/live/song/get/is_playing',
+  GET_NUM_SCENES: '/live/song/get/num_scenes',
+  GET_TRACK_NAMES: '/live/song/get/track_names',
+  GET_SCENE_NAME: '/live/scene/get/name', // [scene]
+  GET_CLIP_NAMES: '/live/track/get/clips/name', // [track]
+  LISTEN: (property: string) => `/live/song/start_listen/${property}`,
+  STOP_LISTEN: (property: string) => `/live/song/stop_listen/${property}`
+}
+
+// Pushed by Live whenever they change, once listened to
+const LISTENED_PROPERTIES = ['tempo', 'is_playing']
+
+export class AbletonDriver implements SoftwareDriver {
+  readonly id = 'ableton'
+  readonly name = 'Ableton Live'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['audio', 'cues', 'introspection']
+  readonly configSchema: SoftwareDriver['configSchema'] = [
+    ...NETWORK_CONFIG_FIELDS,
+    { key: 'localPort', label: 'Reply port', type: 'number', min: 1, max: 65535, description: 'AbletonOSC replies on 11001' }
+  ]
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'Ableton Live',
+    ip: '192.168.1.17',
+    port: 11000,
+    protocol: 'OSC',
+    localPort: 11001
+  }
+
+  private song: AbletonSongState = emptyAbletonSong()
+  private onSongCallback?: (song: AbletonSongState) => void
+
+  async connect(context: DriverContext): Promise<void> {
+    this.update(emptyAbletonSong())
+    for (const property of LISTENED_PROPERTIES) {
+      await context.send(ABLETON_COMMANDS.LISTEN(property))
+    }
+    await this.refresh(context)
+  }
+
+  async disconnect(context: DriverContext): Promise<void> {
+    this.update(emptyAbletonSong())
+    await Promise.all(LISTENED_PROPERTIES.map(property => context.send(ABLETON_COMMANDS.STOP_LISTEN(property))))
+  }
+
+  // Scene and clip names are asked for once the counts come back
+  async refresh(context: DriverContext): Promise<void> {
+    await context.send(ABLETON_COMMANDS.GET_TEMPO)
+    await context.send(ABLETON_COMMANDS.GET_IS_PLAYING)
+    await context.send(ABLETON_COMMANDS.GET_TRACK_NAMES)
+    await context.send(ABLETON_COMMANDS.GET_NUM_SCENES)
+  }
+
+  async probe(context: DriverContext): Promise<void> {
+    await context.send(ABLETON_COMMANDS.TEST)
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const ableton: AbletonMoodMapping | undefined = moodRecommendation.softwareRecommendations.ableton
+    if (!ableton) return
+
+    // Names resolve against the set as last read; tempo follows mood energy
+    const target = resolveAbletonMapping(ableton, this.song, moodRecommendation.parameters?.energy)
+    if (target.unresolved.length > 0) {
+      console.warn(`⚠️ Ableton mapping references not found: ${target.unresolved.join(', ')}`)
+    }
+
+    if (target.tempo !== undefined) {
+      await context.send(ABLETON_COMMANDS.SET_TEMPO, [target.tempo])
+    }
+
+    // Mixer before launching, so new clips come in at the mood's levels
+    for (const track of target.tracks) {
+      if (track.volume !== undefined) {
+        await context.send(ABLETON_COMMANDS.TRACK_VOLUME, [track.track, track.volume])
+      }
+      if (track.sends) {
+        for (let send = 0; send < track.sends.length; send++) {
+          await context.send(ABLETON_COMMANDS.TRACK_SEND, [track.track, send, track.sends[send]])
+        }
+      }
+    }
+
+    if (target.scene !== undefined) {
+      await context.send(ABLETON_COMMANDS.SCENE_FIRE, [target.scene])
+    }
+
+    for (const clip of target.clips) {
+      await context.send(ABLETON_COMMANDS.CLIP_FIRE, [clip.track, clip.clip])
+    }
+
+    if (ableton.play && !this.song.isPlaying) {
+      await context.send(ABLETON_COMMANDS.START_PLAYING)
+    }
+  }
+
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(ABLETON_COMMANDS.STOP_ALL_CLIPS)
+    await context.send(ABLETON_COMMANDS.STOP_PLAYING)
+  }
+
+  handleMessage(context: DriverContext, message: OSCMessage): void {
+    const next = applyAbletonMessage(this.song, message)
+    if (!next) return
+
+    this.update(next)
+
+    // Follow-up queries for names
+    if (message.address === ABLETON_REPLIES.NUM_SCENES) {
+      next.scenes.forEach((_, scene) => {
+        context.send(ABLETON_COMMANDS.GET_SCENE_NAME, [scene]).catch(() => {})
+      })
+    } else if (message.address === ABLETON_REPLIES.TRACK_NAMES) {
+      next.tracks.forEach((_, track) => {
+        context.send(ABLETON_COMMANDS.GET_CLIP_NAMES, [track]).catch(() => {})
+      })
+    }
+  }
+
+  getSong(): AbletonSongState {
+    return this.song
+  }
+
+  onSong(callback: (song: AbletonSongState) => void): void {
+    this.onSongCallback = callback
+  }
+
+  private update(song: AbletonSongState): void {
+    this.song = song
+    if (this.onSongCallback) this.onSongCallback(song)
+  }
+}
@@ -0,0 +1,98 @@
+// Chamsys MagicQ driver
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+import type { TransitionFrame } from '@/lib/protocols/MoodTransition'
+import { DEFAULT_COLOR_PROFILE, Emitter, FixtureColorProfile, normalizeColorProfile, renderColor } from '@/lib/protocols/ColorEngine'
+
+// Chamsys MagicQ OSC Commands
+export const CHAMSYS_COMMANDS = {
+  // Playback control
+  PLAYBACK_GO: (pb: number) => `/pb/${pb}/go`,
+  PLAYBACK_STOP: (pb: number) => `/pb/${pb}/stop`,
+  PLAYBACK_PAUSE: (pb: number) => `/pb/${pb}/pause`,
+  PLAYBACK_LEVEL: (pb: number) => `/pb/${pb}/level`,
+
+  // Cue control
+  CUE_GO: (pb: number, cue: number) => `/pb/${pb}/cue/${cue}/go`,
+  CUE_STORE: (pb: number, cue: number) => `/pb/${pb}/cue/${cue}/store`,
+
+  // Parameters
+  INTENSITY: (head: number) => `/head/${head}/intensity`,
+  COLOR: (head: number, attribute: string) => `/head/${head}/${attribute}`,
+  POSITION: (head: number, axis: 'pan' | 'tilt') => `/head/${head}/${axis}`,
+
+  // Pages
+  PAGE_CHANGE: '/page/change',
+  PAGE_UP: '/page/up',
+  PAGE_DOWN: '/page/down'
+}
+
+// MagicQ head attributes for each emitter; the dimmer goes to INTENSITY
+const CHAMSYS_COLOR_ATTRIBUTES: Partial<Record<Emitter, string>> = {
+  red: 'r',
+  green: 'g',
+  blue: 'b',
+  white: 'w',
+  amber: 'a',
+  cyan: 'c',
+  magenta: 'm',
+  yellow: 'y',
+  hue: 'hue',
+  saturation: 'sat',
+  warm: 'ww',
+  cool: 'cw'
+}
+
+export class ChamsysDriver implements SoftwareDriver {
+  readonly id = 'chamsys'
+  readonly name = 'Chamsys MagicQ'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['lighting', 'cues']
+  readonly configSchema: SoftwareDriver['configSchema'] = NETWORK_CONFIG_FIELDS
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'Chamsys MagicQ',
+    ip: '192.168.1.12',
+    port: 6454,
+    protocol: 'OSC'
+  }
+
+  async probe(context: DriverContext): Promise<void> {
+    await context.send('/status')
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const { lighting } = moodRecommendation.softwareRecommendations
+    if (!lighting) return
+
+    // Control playback levels; during a transition the engine fades it instead
+    if (lighting.playback && lighting.intensity !== undefined) {
+      await context.send(CHAMSYS_COMMANDS.PLAYBACK_LEVEL(lighting.playback), [lighting.intensity])
+    }
+
+    // Control individual fixtures, each in its own emitters
+    if (lighting.fixtures) {
+      for (const fixture of lighting.fixtures) {
+        const profile: FixtureColorProfile = fixture.profile ? normalizeColorProfile(fixture.profile) : DEFAULT_COLOR_PROFILE
+        const levels = renderColor(fixture, fixture.intensity, profile)
+        await context.send(CHAMSYS_COMMANDS.INTENSITY(fixture.id), [levels.dimmer ?? fixture.intensity])
+
+        if (fixture.color || fixture.cct) {
+          for (const emitter of Object.keys(levels) as Emitter[]) {
+            const attribute = CHAMSYS_COLOR_ATTRIBUTES[emitter]
+            if (attribute) await context.send(CHAMSYS_COMMANDS.COLOR(fixture.id, attribute), [levels[emitter] as number])
+          }
+        }
+      }
+    }
+  }
+
+  async applyFrame(context: DriverContext, frame: TransitionFrame, moodRecommendation: any): Promise<void> {
+    const { lighting } = moodRecommendation.softwareRecommendations
+    const intensity = frame.values['lighting.intensity']
+    if (lighting?.playback && intensity !== undefined) {
+      await context.send(CHAMSYS_COMMANDS.PLAYBACK_LEVEL(lighting.playback), [intensity])
+    }
+  }
+
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(CHAMSYS_COMMANDS.PLAYBACK_STOP(1)) // Stop main playback
+  }
+}
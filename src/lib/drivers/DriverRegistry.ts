@@ -0,0 +1,51 @@
+// Driver registry
+// The controller looks drivers up here by id and create one instance per
+// connection. A new target is a module that calls registerDriver(); the
+// controller core does not change.
+import { DriverConnection, SoftwareDriver } from './SoftwareDriver'
+import { QLabDriver } from './QLabDriver'
+import { ResolumeDriver } from './ResolumeDriver'
+import { TouchOSCDriver } from './TouchOSCDriver'
+import { ChamsysDriver } from './ChamsysDriver'
+import { GrandMA3Driver } from './GrandMA3Driver'
+import { EosDriver } from './EosDriver'
+import { AbletonDriver } from './AbletonDriver'
+import { MadMapperDriver } from './MadMapperDriver'
+import { MilluminDriver } from './MilluminDriver'
+
+export type DriverFactory = () => SoftwareDriver
+
+const factories: Map<string, DriverFactory> = new Map()
+
+export function registerDriver(id: string, factory: DriverFactory): void {
+  if (factories.has(id)) {
+    console.warn(`⚠️ Replacing registered driver: ${id}`)
+  }
+  factories.set(id, factory)
+}
+
+export function createDriver(id: string): SoftwareDriver | null {
+  const factory = factories.get(id)
+  return factory ? factory() : null
+}
+
+export function listDriverIds(): string[] {
+  return Array.from(factories.keys())
+}
+
+// The connection a driver starts with, one per registered driver
+export function defaultConnection(id: string): DriverConnection | null {
+  const driver = createDriver(id)
+  return driver ? { id, driver: id, ...driver.defaults } : null
+}
+
+// Built-in drivers
+registerDriver('qlab', () => new QLabDriver())
+registerDriver('resolume', () => new ResolumeDriver())
+registerDriver('touchosc', () => new TouchOSCDriver())
+registerDriver('chamsys', () => new ChamsysDriver())
+registerDriver('grandma3', () => new GrandMA3Driver())
+registerDriver('eos', () => new EosDriver())
+registerDriver('ableton', () => new AbletonDriver())
+registerDriver('madmapper', () => new MadMapperDriver())
+registerDriver('millumin', () => new MilluminDriver())
@@ -0,0 +1,122 @@
+// ETC Eos family driver
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+import type { OSCMessage } from '@/lib/protocols/OSCCodec'
+import { EosMoodMapping, EosShowState, applyEosMessage, emptyEosState } from '@/lib/protocols/EosShow'
+
+// Eos OSC Commands
+export const EOS_COMMANDS = {
+  // Cues
+  CUE_FIRE: '/eos/cue/fire', // Default cue list, cue number as argument
+  LIST_CUE_FIRE: (list: number, cue: string | number) => `/eos/cue/${list}/${cue}/fire`,
+  GO: '/eos/key/go_0',
+  STOP: '/eos/key/stop',
+
+  // Submasters and channels
+  SUB: (sub: number) => `/eos/sub/${sub}`,
+  CHAN: (chan: number) => `/eos/chan/${chan}`,
+  CHAN_PARAM: (chan: number, param: string) => `/eos/chan/${chan}/param/${param}`,
+
+  // Command line ('#' is Enter); newcmd clears the line first
+  CMD: '/eos/cmd',
+  NEWCMD: '/eos/newcmd',
+
+  // Show state
+  SUBSCRIBE: '/eos/subscribe',
+  PING: '/eos/ping'
+}
+
+export class EosDriver implements SoftwareDriver {
+  readonly id = 'eos'
+  readonly name = 'ETC Eos'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['lighting', 'cues', 'introspection']
+  readonly configSchema: SoftwareDriver['configSchema'] = [
+    ...NETWORK_CONFIG_FIELDS,
+    { key: 'transport', label: 'Transport', type: 'select', options: ['tcp', 'udp'], description: 'TCP 3037 (SLIP) or 3032 (length); UDP needs the console\'s OSC TX port' },
+    { key: 'framing', label: 'TCP framing', type: 'select', options: ['slip', 'length'] },
+    { key: 'localPort', label: 'UDP receive port', type: 'number', min: 1, max: 65535, description: 'The console\'s OSC UDP TX port' }
+  ]
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'ETC Eos',
+    ip: '192.168.1.16',
+    port: 3037,
+    protocol: 'OSC',
+    // TCP so the console's show state comes back on the same socket
+    transport: 'tcp',
+    framing: 'slip',
+    localPort: 8001
+  }
+
+  private state: EosShowState = emptyEosState()
+  private onStateCallback?: (state: EosShowState) => void
+
+  // Eos only sends show state to subscribed clients
+  async connect(context: DriverContext): Promise<void> {
+    this.update(emptyEosState())
+    await context.send(EOS_COMMANDS.SUBSCRIBE, [1])
+  }
+
+  async disconnect(context: DriverContext): Promise<void> {
+    this.update(emptyEosState())
+    await context.send(EOS_COMMANDS.SUBSCRIBE, [0])
+  }
+
+  async probe(context: DriverContext): Promise<void> {
+    await context.send(EOS_COMMANDS.PING)
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const eos: EosMoodMapping | undefined = moodRecommendation.softwareRecommendations.eos
+    if (!eos) return
+
+    // Fire the mood's cue
+    if (eos.cue) {
+      if (eos.cue.list !== undefined) {
+        await context.send(EOS_COMMANDS.LIST_CUE_FIRE(eos.cue.list, eos.cue.number))
+      } else {
+        await context.send(EOS_COMMANDS.CUE_FIRE, [Number(eos.cue.number)])
+      }
+    }
+
+    // Submaster levels
+    if (eos.subs) {
+      for (const sub of eos.subs) {
+        await context.send(EOS_COMMANDS.SUB(sub.id), [sub.level])
+      }
+    }
+
+    // Individual channel parameters
+    if (eos.channels) {
+      for (const chan of eos.channels) {
+        await context.send(EOS_COMMANDS.CHAN_PARAM(chan.id, chan.param), [chan.value])
+      }
+    }
+
+    // Command line for anything else
+    if (eos.command) {
+      await context.send(EOS_COMMANDS.NEWCMD, [eos.command])
+    }
+  }
+
+  // Fades everything out, like GrandMA3's Off
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(EOS_COMMANDS.NEWCMD, ['Go_To_Cue Out#'])
+  }
+
+  handleMessage(_: DriverContext, message: OSCMessage): void {
+    const next = applyEosMessage(this.state, message)
+    if (next) this.update(next)
+  }
+
+  getState(): EosShowState {
+    return this.state
+  }
+
+  onState(callback: (state: EosShowState) => void): void {
+    this.onStateCallback = callback
+  }
+
+  private update(state: EosShowState): void {
+    this.state = state
+    if (this.onStateCallback) this.onStateCallback(state)
+  }
+}
@@ -0,0 +1,74 @@
+// GrandMA3 driver
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+
+// GrandMA3 OSC Commands
+export const GRANDMA3_COMMANDS = {
+  // Main controls
+  GO: '/gma3/cmd',
+  CLEAR: '/gma3/cmd',
+
+  // Executors
+  EXEC_GO: (exec: number) => `/gma3/exec/${exec}/go`,
+  EXEC_STOP: (exec: number) => `/gma3/exec/${exec}/stop`,
+  EXEC_PAUSE: (exec: number) => `/gma3/exec/${exec}/pause`,
+  EXEC_FADER: (exec: number) => `/gma3/exec/${exec}/fader`,
+
+  // Key commands (send as strings to /gma3/cmd)
+  KEY_GO: 'Go',
+  KEY_PAUSE: 'Pause',
+  KEY_GOTO: (cue: number) => `Goto Cue ${cue}`,
+  KEY_STORE: (cue: number) => `Store Cue ${cue}`,
+  KEY_UPDATE: 'Update',
+  KEY_CLEAR: 'Clear',
+
+  // Pages
+  PAGE: (page: number) => `/gma3/page/${page}`,
+
+  // Fixtures and parameters
+  FIXTURE_DIMMER: (fixture: number) => `/gma3/fixture/${fixture}/dimmer`,
+  FIXTURE_POSITION: (fixture: number, axis: 'pan' | 'tilt') => `/gma3/fixture/${fixture}/${axis}`
+}
+
+export class GrandMA3Driver implements SoftwareDriver {
+  readonly id = 'grandma3'
+  readonly name = 'GrandMA3'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['lighting', 'cues']
+  readonly configSchema: SoftwareDriver['configSchema'] = NETWORK_CONFIG_FIELDS
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'GrandMA3',
+    ip: '192.168.1.14',
+    port: 8000,
+    protocol: 'OSC'
+  }
+
+  async probe(context: DriverContext): Promise<void> {
+    await context.send('/gma3/status')
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    // Mood mappings carry a grandma3 block; older ones put it under lighting
+    const grandma3 = moodRecommendation.softwareRecommendations.grandma3 || moodRecommendation.softwareRecommendations.lighting
+    if (!grandma3) return
+
+    // Execute sequences based on mood
+    if (grandma3.sequence) {
+      await context.send(GRANDMA3_COMMANDS.EXEC_GO(grandma3.sequence))
+    }
+
+    // Control executor faders
+    if (grandma3.executors) {
+      for (const exec of grandma3.executors) {
+        await context.send(GRANDMA3_COMMANDS.EXEC_FADER(exec.id), [exec.level])
+      }
+    }
+
+    // Send command strings for complex operations
+    if (grandma3.command) {
+      await context.send(GRANDMA3_COMMANDS.GO, [grandma3.command])
+    }
+  }
+
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(GRANDMA3_COMMANDS.GO, ['Off'])
+  }
+}
@@ -0,0 +1,80 @@
+// MadMapper driver
+// Names are MadMapper's own (scene, surface and media names as shown in the
+// app); right-click a control → "Copy OSC Address" to check one.
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+
+// MadMapper OSC Commands
+export const MADMAPPER_COMMANDS = {
+  // Scenes (in the selected cue list)
+  SCENE_BY_NAME: (scene: string) => `/cues/selected/scenes/by_name/${scene}`,
+  SCENE_BY_INDEX: (scene: number) => `/cues/selected/scenes/by_cell/${scene}`,
+
+  // Surfaces
+  SURFACE_OPACITY: (surface: string) => `/surfaces/${surface}/opacity`,
+  SURFACE_VISIBLE: (surface: string) => `/surfaces/${surface}/visible`,
+
+  // Media
+  MEDIA_SELECT: '/medias/select_by_name', // [name]
+  MEDIA_RESTART: '/medias/selected/restart',
+
+  // Master
+  MASTER_FADE: '/master/opacity', // 0-1
+  PING: '/ping'
+}
+
+// The madmapper block of a mood mapping
+export interface MadMapperMoodMapping {
+  scene?: string | number // Name, or 1-based cell index
+  surfaces?: Array<{ name: string; opacity: number }>
+  media?: string // Selected onto the current surface selection
+  master?: number // 0-1
+}
+
+export class MadMapperDriver implements SoftwareDriver {
+  readonly id = 'madmapper'
+  readonly name = 'MadMapper'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['video', 'cues']
+  readonly configSchema: SoftwareDriver['configSchema'] = NETWORK_CONFIG_FIELDS
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'MadMapper',
+    ip: '192.168.1.18',
+    port: 8010,
+    protocol: 'OSC'
+  }
+
+  // MadMapper doesn't answer; this only catches network errors
+  async probe(context: DriverContext): Promise<void> {
+    await context.send(MADMAPPER_COMMANDS.PING)
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const madmapper: MadMapperMoodMapping | undefined = moodRecommendation.softwareRecommendations.madmapper
+    if (!madmapper) return
+
+    // Select the scene first; surfaces and master then adjust on top of it
+    if (typeof madmapper.scene === 'number') {
+      await context.send(MADMAPPER_COMMANDS.SCENE_BY_INDEX(madmapper.scene), [1])
+    } else if (madmapper.scene) {
+      await context.send(MADMAPPER_COMMANDS.SCENE_BY_NAME(madmapper.scene), [1])
+    }
+
+    if (madmapper.media) {
+      await context.send(MADMAPPER_COMMANDS.MEDIA_SELECT, [madmapper.media])
+    }
+
+    if (madmapper.surfaces) {
+      for (const surface of madmapper.surfaces) {
+        await context.send(MADMAPPER_COMMANDS.SURFACE_OPACITY(surface.name), [surface.opacity])
+      }
+    }
+
+    if (madmapper.master !== undefined) {
+      await context.send(MADMAPPER_COMMANDS.MASTER_FADE, [madmapper.master])
+    }
+  }
+
+  // Blackout video: master to zero, leaving the scene loaded for recovery
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(MADMAPPER_COMMANDS.MASTER_FADE, [0])
+  }
+}
@@ -0,0 +1,78 @@
+// Millumin driver
+// Columns are Millumin's cues; layers and media are addressed by the names
+// shown in the dashboard. Millumin opacities run 0-100, mappings use 0-1.
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+
+// Millumin OSC Commands
+export const MILLUMIN_COMMANDS = {
+  // Columns
+  LAUNCH_COLUMN: '/millumin/action/launchColumn', // [index or name]
+  STOP_COLUMN: '/millumin/action/stopColumn',
+
+  // Layers
+  LAYER_OPACITY: (layer: string) => `/millumin/layer:${layer}/opacity`, // 0-100
+  LAYER_MEDIA: (layer: string) => `/millumin/layer:${layer}/media`, // [media name]
+
+  // Board master
+  BOARD_OPACITY: '/millumin/board/opacity', // 0-100
+  PING: '/millumin/ping'
+}
+
+// The millumin block of a mood mapping
+export interface MilluminMoodMapping {
+  column?: string | number // Name, or 1-based index
+  layers?: Array<{ name: string; opacity: number }> // 0-1
+  media?: { name: string; layer: string } // Launch one media directly
+  master?: number // 0-1
+}
+
+function percent(level: number): number {
+  return Math.round(Math.max(0, Math.min(1, level)) * 100)
+}
+
+export class MilluminDriver implements SoftwareDriver {
+  readonly id = 'millumin'
+  readonly name = 'Millumin'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['video', 'cues']
+  readonly configSchema: SoftwareDriver['configSchema'] = NETWORK_CONFIG_FIELDS
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'Millumin',
+    ip: '192.168.1.19',
+    port: 5000,
+    protocol: 'OSC'
+  }
+
+  // Millumin doesn't answer; this only catches network errors
+  async probe(context: DriverContext): Promise<void> {
+    await context.send(MILLUMIN_COMMANDS.PING)
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const millumin: MilluminMoodMapping | undefined = moodRecommendation.softwareRecommendations.millumin
+    if (!millumin) return
+
+    // Launch the column first; layers and master then adjust on top of it
+    if (millumin.column !== undefined) {
+      await context.send(MILLUMIN_COMMANDS.LAUNCH_COLUMN, [millumin.column])
+    }
+
+    if (millumin.media) {
+      await context.send(MILLUMIN_COMMANDS.LAYER_MEDIA(millumin.media.layer), [millumin.media.name])
+    }
+
+    if (millumin.layers) {
+      for (const layer of millumin.layers) {
+        await context.send(MILLUMIN_COMMANDS.LAYER_OPACITY(layer.name), [percent(layer.opacity)])
+      }
+    }
+
+    if (millumin.master !== undefined) {
+      await context.send(MILLUMIN_COMMANDS.BOARD_OPACITY, [percent(millumin.master)])
+    }
+  }
+
+  // Blackout video: board opacity to zero, leaving the column running for recovery
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(MILLUMIN_COMMANDS.BOARD_OPACITY, [0])
+  }
+}
@@ -0,0 +1,96 @@
+// QLab driver
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+import type { TransitionFrame } from '@/lib/protocols/MoodTransition'
+
+// QLab OSC Commands
+export const QLAB_COMMANDS = {
+  // Playback control
+  GO: '/go',
+  STOP: '/stop',
+  PAUSE: '/pause',
+  RESET: '/reset',
+
+  // Cue control
+  CUE_GO: (cueId: string) => `/cue/${cueId}/go`,
+  CUE_STOP: (cueId: string) => `/cue/${cueId}/stop`,
+  CUE_LOAD: (cueId: string) => `/cue/${cueId}/load`,
+  CUE_PAUSE: (cueId: string) => `/cue/${cueId}/pause`,
+
+  // Parameter control
+  CUE_VOLUME: (cueId: string) => `/cue/${cueId}/sliderLevel`,
+  CUE_RATE: (cueId: string) => `/cue/${cueId}/rate`,
+  CUE_FADE: (cueId: string) => `/cue/${cueId}/fadeTime`,
+  CUE_OPACITY: (cueId: string) => `/cue/${cueId}/opacity`,
+
+  // Workspace & Info
+  WORKSPACE: '/workspace',
+  WORKSPACE_CONNECT: '/connect',
+  WORKSPACE_DISCONNECT: '/disconnect',
+
+  // Status queries
+  CUE_NAME: (cueId: string) => `/cue/${cueId}/displayName`,
+  CUE_TYPE: (cueId: string) => `/cue/${cueId}/type`,
+  RUNNINGCUES: '/runningCues'
+}
+
+export class QLabDriver implements SoftwareDriver {
+  readonly id = 'qlab'
+  readonly name = 'QLab'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['cues', 'audio', 'video', 'replies', 'introspection']
+  readonly configSchema: SoftwareDriver['configSchema'] = [
+    ...NETWORK_CONFIG_FIELDS,
+    { key: 'transport', label: 'Transport', type: 'select', options: ['tcp', 'udp'], description: 'TCP gets a reply to every command' },
+    { key: 'framing', label: 'TCP framing', type: 'select', options: ['slip', 'length'] },
+    { key: 'passcode', label: 'Workspace passcode', type: 'password' }
+  ]
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'QLab',
+    ip: '192.168.1.10',
+    port: 53000,
+    protocol: 'OSC',
+    // TCP so every command gets a /reply with QLab's status
+    transport: 'tcp',
+    framing: 'slip'
+  }
+
+  // Over TCP this waits for QLab's reply, so a silent QLab fails the probe
+  async probe(context: DriverContext): Promise<void> {
+    await context.send(QLAB_COMMANDS.WORKSPACE)
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const { qlab } = moodRecommendation.softwareRecommendations
+    if (!qlab) return
+
+    // Set volume for current cue; during a transition the engine fades it instead
+    if (qlab.volume !== undefined) {
+      await context.send(QLAB_COMMANDS.CUE_VOLUME('current'), [qlab.volume])
+    }
+
+    // Load appropriate cue if specified
+    if (qlab.cue) {
+      await context.send(QLAB_COMMANDS.CUE_LOAD(qlab.cue))
+    }
+
+    // Set fade time
+    await context.send(QLAB_COMMANDS.CUE_FADE('current'), [qlab.fadeTime])
+
+    // Control playback based on mood
+    if (qlab.playback === 'go') {
+      await context.send(QLAB_COMMANDS.GO)
+    } else if (qlab.playback === 'pause') {
+      await context.send(QLAB_COMMANDS.PAUSE)
+    }
+  }
+
+  async applyFrame(context: DriverContext, frame: TransitionFrame): Promise<void> {
+    const volume = frame.values['qlab.volume']
+    if (volume !== undefined) {
+      await context.send(QLAB_COMMANDS.CUE_VOLUME('current'), [volume])
+    }
+  }
+
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(QLAB_COMMANDS.STOP)
+  }
+}
@@ -0,0 +1,148 @@
+// Resolume Arena/Avenue driver
+// Plain OSC for control; the composition is read over the REST API so mood
+// mappings can name layers, clips and effects instead of counting them.
+import { RESOLUME_REST_PORT, ResolumeClient } from '@/lib/protocols/ResolumeClient'
+import { ResolumeComposition, ResolumeMoodMapping, resolveResolumeMapping } from '@/lib/protocols/ResolumeComposition'
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+import type { TransitionFrame } from '@/lib/protocols/MoodTransition'
+
+// Resolume OSC Commands
+export const RESOLUME_COMMANDS = {
+  // Layer control
+  LAYER_OPACITY: (layer: number) => `/layer${layer}/video/opacity/values`,
+  LAYER_CLIP: (layer: number, clip: number) => `/layer${layer}/clip${clip}/connect`,
+  LAYER_CLEAR: (layer: number) => `/layer${layer}/clear`,
+  LAYER_BYPASS: (layer: number) => `/layer${layer}/bypassed`,
+
+  // Effects
+  EFFECT_PARAM: (layer: number, effect: number, param: number) =>
+    `/layer${layer}/video/effect${effect}/param${param}/values`,
+  EFFECT_BYPASS: (layer: number, effect: number) =>
+    `/layer${layer}/video/effect${effect}/bypassed`,
+  EFFECT_MIX: (layer: number, effect: number) =>
+    `/layer${layer}/video/effect${effect}/video/mixamount/values`,
+
+  // Composition
+  COMP_BPM: '/composition/tempocontroller/tempo',
+  COMP_CROSSFADER: '/composition/crossfader',
+  COMP_MASTER_OPACITY: '/composition/video/opacity/values',
+
+  // Transport
+  TRANSPORT_PLAY: '/composition/transportcontroller/play',
+  TRANSPORT_STOP: '/composition/transportcontroller/stop',
+  TRANSPORT_RESYNC: '/composition/transportcontroller/resync',
+
+  // Columns (for deck selection)
+  COLUMN_SELECT: (column: number) => `/composition/columns/column${column}/select`,
+  COLUMN_CONNECT: (column: number, clip: number) => `/composition/columns/column${column}/clips/clip${clip}/connect`
+}
+
+export class ResolumeDriver implements SoftwareDriver {
+  readonly id = 'resolume'
+  readonly name = 'Resolume Arena'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['video', 'introspection']
+  readonly configSchema: SoftwareDriver['configSchema'] = [
+    ...NETWORK_CONFIG_FIELDS,
+    { key: 'restPort', label: 'Webserver port', type: 'number', min: 1, max: 65535, description: 'Preferences → Webserver, for reading the composition' }
+  ]
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'Resolume Arena',
+    ip: '192.168.1.11',
+    port: 7000,
+    protocol: 'OSC',
+    restPort: RESOLUME_REST_PORT
+  }
+
+  private client: ResolumeClient | null = null
+  private onCompositionCallback?: (composition: ResolumeComposition) => void
+
+  // Composition sync is best-effort; index-only mappings work without it
+  async connect(context: DriverContext): Promise<void> {
+    const client = new ResolumeClient({ host: context.connection.ip, port: context.connection.restPort })
+    client.onChange((composition) => {
+      if (this.onCompositionCallback) this.onCompositionCallback(composition)
+    })
+    this.client = client
+    client.start().catch(error => {
+      console.warn(`⚠️ Could not read Resolume composition (is the webserver enabled?): ${error.message}`)
+    })
+  }
+
+  disconnect(): void {
+    if (this.client) {
+      this.client.stop()
+      this.client = null
+    }
+  }
+
+  async probe(context: DriverContext): Promise<void> {
+    await context.send('/composition')
+  }
+
+  async applyMood(context: DriverContext, moodRecommendation: any): Promise<void> {
+    const resolume: ResolumeMoodMapping | undefined = moodRecommendation.softwareRecommendations.resolume
+    if (!resolume) return
+
+    // Names and #tags resolve against the composition as it is right now
+    const target = resolveResolumeMapping(resolume, this.getComposition())
+    if (target.unresolved.length > 0) {
+      console.warn(`⚠️ Resolume mapping references not found: ${target.unresolved.join(', ')}`)
+    }
+
+    // Set layer opacity; during a transition the engine fades it and the crossfader instead
+    if (resolume.opacity !== undefined) {
+      await context.send(RESOLUME_COMMANDS.LAYER_OPACITY(target.layer), [resolume.opacity])
+    }
+
+    // Trigger clip if specified
+    if (target.clip) {
+      await context.send(RESOLUME_COMMANDS.LAYER_CLIP(target.clip.layer, target.clip.clip), [1])
+    }
+
+    for (const effect of target.effects) {
+      await context.send(RESOLUME_COMMANDS.EFFECT_PARAM(effect.layer, effect.effect, effect.param), [effect.value])
+    }
+
+    // Control BPM/speed
+    await context.send(RESOLUME_COMMANDS.COMP_BPM, [120 * resolume.speed])
+
+    // Control crossfader
+    if (resolume.crossfader !== undefined) {
+      await context.send(RESOLUME_COMMANDS.COMP_CROSSFADER, [resolume.crossfader])
+    }
+  }
+
+  async applyFrame(context: DriverContext, frame: TransitionFrame, moodRecommendation: any): Promise<void> {
+    const resolume: ResolumeMoodMapping | undefined = moodRecommendation.softwareRecommendations.resolume
+    if (!resolume) return
+
+    const opacity = frame.values['resolume.opacity']
+    const crossfader = frame.values['resolume.crossfader']
+    if (opacity !== undefined) {
+      const target = resolveResolumeMapping(resolume, this.getComposition())
+      await context.send(RESOLUME_COMMANDS.LAYER_OPACITY(target.layer), [opacity])
+    }
+    if (crossfader !== undefined) {
+      await context.send(RESOLUME_COMMANDS.COMP_CROSSFADER, [crossfader])
+    }
+  }
+
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(RESOLUME_COMMANDS.TRANSPORT_STOP)
+  }
+
+  getComposition(): ResolumeComposition | null {
+    return this.client ? this.client.getComposition() : null
+  }
+
+  async refreshComposition(): Promise<ResolumeComposition> {
+    if (!this.client) {
+      throw new Error('Resolume not connected')
+    }
+    return this.client.refresh()
+  }
+
+  onComposition(callback: (composition: ResolumeComposition) => void): void {
+    this.onCompositionCallback = callback
+  }
+}
@@ -0,0 +1,84 @@
+// Software driver contract
+// Everything MOOD knows about one kind of show software: its default
+// connection, which settings it takes, how to check it is alive, how to apply
+// a mood and how to stop it in an emergency. The controller owns the
+// transports (UDP, TCP, mock) and hands each driver a context to send through.
+import type { OSCArgument, OSCMessage } from '@/lib/protocols/OSCCodec'
+import type { OSCFraming } from '@/lib/protocols/OSCTcpTransport'
+import type { TransitionFrame } from '@/lib/protocols/MoodTransition'
+import type { FixtureColorProfile } from '@/lib/protocols/ColorEngine'
+
+export type DriverCapability =
+  | 'cues' // Fires and loads cues
+  | 'audio'
+  | 'video'
+  | 'lighting'
+  | 'surface' // Operator surface that sends commands back
+  | 'replies' // Answers commands, so probes are real round trips
+  | 'introspection' // Can list its show contents (cues, clips, ...)
+
+// Connection settings; the controller and drivers read these
+export interface DriverConnection {
+  id: string
+  name: string
+  ip: string
+  port: number
+  protocol: 'OSC' | 'MIDI' | 'ArtNet' | 'sACN'
+  driver?: string // Registered driver id; defaults to the connection id
+  transport?: 'udp' | 'tcp'
+  framing?: OSCFraming // TCP only: 'slip' (OSC 1.1) or 'length' (OSC 1.0)
+  passcode?: string
+  restPort?: number // Resolume webserver, for composition introspection
+  localPort?: number // UDP port to listen on, for software that sends back to a fixed port
+  universe?: number // Art-Net/sACN: the universe the generic fixture is on
+  priority?: number // sACN only
+  colorProfile?: Partial<FixtureColorProfile> // Art-Net/sACN: the generic fixture's gamma and dimmer curve
+  deviceId?: number // MIDI Show Control device ID
+  midiTransport?: 'rtp-midi' | 'virtual' // MIDI only; a virtual port is named after the connection
+}
+
+// One editable connection setting, for building config forms
+export interface DriverConfigField {
+  key: keyof DriverConnection
+  label: string
+  type: 'string' | 'number' | 'select' | 'password'
+  options?: string[] // select only
+  min?: number
+  max?: number
+  description?: string
+}
+
+export interface DriverContext {
+  connection: DriverConnection
+  send(address: string, args?: OSCArgument[]): Promise<void>
+  log(message: string): void
+}
+
+export interface SoftwareDriver {
+  readonly id: string
+  readonly name: string
+  readonly capabilities: DriverCapability[]
+  readonly configSchema: DriverConfigField[]
+  // Starting point for this software's connection, before user overrides
+  readonly defaults: Omit<DriverConnection, 'id' | 'driver'>
+
+  // Called once the transport is open, for anything beyond plain OSC
+  connect?(context: DriverContext): Promise<void>
+  // Called before the transport closes; a returned promise is awaited
+  disconnect?(context: DriverContext): Promise<void> | void
+  // Resolves if the software is healthy; rejects otherwise
+  probe(context: DriverContext): Promise<void>
+  applyMood(context: DriverContext, moodRecommendation: any): Promise<void>
+  // One tick of a mood transition: the faded values applyMood was given
+  // without. Drivers without it only get the discrete part of a mood change.
+  applyFrame?(context: DriverContext, frame: TransitionFrame, moodRecommendation: any): Promise<void>
+  emergencyStop(context: DriverContext): Promise<void>
+  // Messages the software sends us
+  handleMessage?(context: DriverContext, message: OSCMessage): void
+}
+
+// Settings every OSC driver takes
+export const NETWORK_CONFIG_FIELDS: DriverConfigField[] = [
+  { key: 'ip', label: 'IP address', type: 'string' },
+  { key: 'port', label: 'OSC port', type: 'number', min: 1, max: 65535 }
+]
@@ -0,0 +1,71 @@
+// TouchOSC driver
+// The tablet is an operator surface rather than an output: MOOD sends it
+// feedback and turns what it sends back into surface commands.
+import { OSCMessage } from '@/lib/protocols/OSCCodec'
+import { SURFACE_ADDRESSES, SurfaceCommand, parseSurfaceMessage } from '@/lib/protocols/TouchOSCSurface'
+import { DriverContext, NETWORK_CONFIG_FIELDS, SoftwareDriver } from './SoftwareDriver'
+
+// TouchOSC specific commands
+export const TOUCHOSC_COMMANDS = {
+  // Faders
+  FADER: (page: number, fader: number) => `/${page}/fader${fader}`,
+
+  // Buttons
+  PUSH: (page: number, button: number) => `/${page}/push${button}`,
+  TOGGLE: (page: number, toggle: number) => `/${page}/toggle${toggle}`,
+
+  // XY Pads
+  XY: (page: number, xy: number, axis: 'x' | 'y') => `/${page}/xy${xy}/${axis}`,
+
+  // Labels
+  LABEL: (page: number, element: number) => `/${page}/label${element}`,
+
+  // LEDs
+  LED: (page: number, led: number) => `/${page}/led${led}`
+}
+
+export class TouchOSCDriver implements SoftwareDriver {
+  readonly id = 'touchosc'
+  readonly name = 'TouchOSC'
+  readonly capabilities: SoftwareDriver['capabilities'] = ['surface']
+  readonly configSchema: SoftwareDriver['configSchema'] = [
+    ...NETWORK_CONFIG_FIELDS,
+    { key: 'localPort', label: 'Receive port', type: 'number', min: 1, max: 65535, description: 'Where the layout sends faders and buttons' }
+  ]
+  readonly defaults: SoftwareDriver['defaults'] = {
+    name: 'TouchOSC',
+    ip: '192.168.1.13',
+    port: 9000,
+    protocol: 'OSC',
+    // The generated layout sends faders and buttons here
+    localPort: 8000
+  }
+
+  private moods: string[] = []
+  private onCommandCallback?: (command: SurfaceCommand) => void
+
+  async probe(context: DriverContext): Promise<void> {
+    await context.send('/ping', [1])
+  }
+
+  // Mood feedback goes out with every store change, not per recommendation
+  async applyMood(): Promise<void> {}
+
+  async emergencyStop(context: DriverContext): Promise<void> {
+    await context.send(SURFACE_ADDRESSES.ESTOP_LED, [1])
+  }
+
+  handleMessage(_: DriverContext, message: OSCMessage): void {
+    const command = parseSurfaceMessage(message, this.moods)
+    if (command && this.onCommandCallback) this.onCommandCallback(command)
+  }
+
+  // Moods the layout's buttons map to
+  setMoods(moods: string[]): void {
+    this.moods = moods
+  }
+
+  onCommand(callback: (command: SurfaceCommand) => void): void {
+    this.onCommandCallback = callback
+  }
+}
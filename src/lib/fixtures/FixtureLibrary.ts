@@ -0,0 +1,151 @@
+// Fixture library
+// Every Open Fixture Library (.json) and GDTF (.gdtf) file in one directory,
+// plus the built-in fixtures. Imports from the dashboard are written into the
+// directory, so the library is whatever is on disk; a file that won't parse
+// is reported and skipped rather than hiding the rest.
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import { BUILTIN_FIXTURES, FixtureLibrarySnapshot, FixtureProfile } from './FixtureProfile'
+import { parseOFLFixture } from './OpenFixtureLibrary'
+import { parseGDTFDescription } from './GDTF'
+
+const FIXTURE_EXTENSIONS = ['.json', '.gdtf']
+
+// One file out of a zip archive (GDTF is a zip around description.xml)
+export function readZipEntry(archive: Buffer, entryName: string): Buffer | null {
+  // The end-of-central-directory record sits in the last 64 KiB + 22 bytes
+  let end = -1
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive')
+
+  const count = archive.readUInt16LE(end + 10)
+  let offset = archive.readUInt32LE(end + 16)
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt zip directory')
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localHeader = archive.readUInt32LE(offset + 42)
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    if (name === entryName) {
+      const dataStart = localHeader + 30 + archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28)
+      const data = archive.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) return data
+      if (method === 8) return zlib.inflateRawSync(data)
+      throw new Error(`Unsupported zip compression method ${method}`)
+    }
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return null
+}
+
+export function parseFixtureFile(fileName: string, data: Buffer): FixtureProfile {
+  const extension = path.extname(fileName).toLowerCase()
+  if (extension === '.json') return parseOFLFixture(JSON.parse(data.toString('utf8')), fileName)
+  if (extension === '.gdtf') {
+    const description = readZipEntry(data, 'description.xml')
+    if (!description) throw new Error('GDTF archive has no description.xml')
+    return parseGDTFDescription(description.toString('utf8'), fileName)
+  }
+  throw new Error(`Unsupported fixture file type "${extension}" (expected .json or .gdtf)`)
+}
+
+export class FixtureLibrary {
+  private directory: string
+  private profiles: Map<string, FixtureProfile> = new Map()
+  private errors: FixtureLibrarySnapshot['errors'] = []
+  private onChangeCallback?: (snapshot: FixtureLibrarySnapshot) => void
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  async load(): Promise<void> {
+    this.profiles = new Map(BUILTIN_FIXTURES.map(profile => [profile.id, profile] as [string, FixtureProfile]))
+    this.errors = []
+
+    let files: string[] = []
+    try {
+      files = (await fs.promises.readdir(this.directory))
+        .filter(file => FIXTURE_EXTENSIONS.indexOf(path.extname(file).toLowerCase()) >= 0)
+        .sort()
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.warn(`⚠️ Fixture directory unreadable: ${error.message}`)
+    }
+
+    for (const fileName of files) {
+      try {
+        const data = await fs.promises.readFile(path.join(this.directory, fileName))
+        this.add(parseFixtureFile(fileName, data))
+      } catch (error: any) {
+        this.errors.push({ fileName, error: error.message })
+      }
+    }
+    console.log(`💡 Fixture library loaded: ${this.profiles.size} profiles, ${this.errors.length} unreadable files`)
+    this.emitChange()
+  }
+
+  // Parsed before it is written, so a bad file never lands in the directory
+  async import(fileName: string, data: Buffer): Promise<FixtureProfile> {
+    const safeName = path.basename(fileName)
+    const profile = parseFixtureFile(safeName, data)
+    this.checkClash(profile)
+    await fs.promises.mkdir(this.directory, { recursive: true })
+    await fs.promises.writeFile(path.join(this.directory, safeName), data)
+    this.errors = this.errors.filter(error => error.fileName !== safeName)
+    this.add(profile)
+    this.emitChange()
+    return profile
+  }
+
+  async remove(id: string): Promise<void> {
+    const profile = this.profiles.get(id)
+    if (!profile) throw new Error(`Unknown fixture profile: ${id}`)
+    if (!profile.fileName) throw new Error(`${profile.manufacturer} ${profile.model} is built in`)
+    await fs.promises.unlink(path.join(this.directory, profile.fileName))
+    this.profiles.delete(id)
+    this.emitChange()
+  }
+
+  get(id: string): FixtureProfile | null {
+    return this.profiles.get(id) || null
+  }
+
+  getSnapshot(): FixtureLibrarySnapshot {
+    return {
+      directory: this.directory,
+      profiles: Array.from(this.profiles.values()),
+      errors: this.errors.slice()
+    }
+  }
+
+  onChange(callback: (snapshot: FixtureLibrarySnapshot) => void): void {
+    this.onChangeCallback = callback
+  }
+
+  // A later file for the same fixture replaces the earlier one
+  private add(profile: FixtureProfile): void {
+    this.checkClash(profile)
+    this.profiles.set(profile.id, profile)
+  }
+
+  private checkClash(profile: FixtureProfile): void {
+    const existing = this.profiles.get(profile.id)
+    if (existing && existing.source === 'builtin') {
+      throw new Error(`${profile.id} clashes with a built-in fixture`)
+    }
+  }
+
+  private emitChange(): void {
+    if (this.onChangeCallback) this.onChangeCallback(this.getSnapshot())
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  FixturePatch,
+  nextFreeAddress,
+  normalizePatch,
+  parseCSV,
+  patchConflicts,
+  patchFromCSV,
+  patchToCSV
+} from './FixturePatch'
+import { GENERIC_FIXTURE } from './FixtureProfile'
+
+const profiles = [GENERIC_FIXTURE]
+const MODE = GENERIC_FIXTURE.modes[0].name
+
+const patch: FixturePatch = normalizePatch({
+  fixtures: [
+    { id: 1, name: 'Wall, left', profileId: GENERIC_FIXTURE.id, mode: MODE, universe: 1, address: 1, zone: 'walls' },
+    { id: 2, name: 'Wall "right"', profileId: GENERIC_FIXTURE.id, mode: MODE, universe: 1, address: 7, zone: 'walls' },
+    { id: 10, name: 'Ceiling', profileId: GENERIC_FIXTURE.id, mode: MODE, universe: 2, address: 101 }
+  ],
+  groups: [
+    { id: 'front', name: 'Front', fixtureIds: [1, 10] },
+    { id: 'all', name: 'All', fixtureIds: [1, 2, 10] }
+  ],
+  output: { enabled: true, protocol: 'sACN' }
+})
+
+describe('patch CSV', () => {
+  it('round-trips fixtures, zones and groups', () => {
+    const { patch: imported, errors } = patchFromCSV(patchToCSV(patch, profiles), profiles, patch.output)
+    assert.deepEqual(errors, [])
+    assert.deepEqual(imported, patch)
+  })
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const rows = parseCSV('a,"b, c","say ""hi""","two\r\nlines"\r\n')
+    assert.deepEqual(rows, [['a', 'b, c', 'say "hi"', 'two\r\nlines']])
+  })
+
+  it('reads a universe carried in the address', () => {
+    const csv = `Fixture,Profile,Address\r\n5,${GENERIC_FIXTURE.id},3.201\r\n6,${GENERIC_FIXTURE.id},4/1\r\n`
+    const { patch: imported } = patchFromCSV(csv, profiles)
+    assert.deepEqual(imported.fixtures.map(f => [f.universe, f.address]), [[3, 201], [4, 1]])
+  })
+
+  it('starts fixtures without a universe on the output\'s first one', () => {
+    const csv = `Fixture,Profile,Address\r\n1,${GENERIC_FIXTURE.id},1\r\n`
+    assert.equal(patchFromCSV(csv, profiles, { enabled: true, protocol: 'sACN' }).patch.fixtures[0].universe, 1)
+    assert.equal(patchFromCSV(csv, profiles, { enabled: true, protocol: 'ArtNet' }).patch.fixtures[0].universe, 0)
+  })
+
+  it('reports rows it cannot place by line', () => {
+    const csv = `Fixture,Profile,Mode,Address\r\n1,nobody/nothing,,1\r\n2,${GENERIC_FIXTURE.id},Nope,1\r\n3,${GENERIC_FIXTURE.id},,600\r\n,${GENERIC_FIXTURE.id},,1\r\n`
+    const { patch: imported, errors } = patchFromCSV(csv, profiles)
+    assert.equal(imported.fixtures.length, 0)
+    assert.deepEqual(errors.map(error => error.split(':')[0]), ['Line 2', 'Line 3', 'Line 4', 'Line 5'])
+  })
+})
+
+describe('patch conflicts', () => {
+  it('finds overlaps, duplicates and fixtures past channel 512', () => {
+    const fixture = { profileId: GENERIC_FIXTURE.id, mode: MODE, universe: 1 }
+    const conflicts = patchConflicts(normalizePatch({
+      fixtures: [
+        { ...fixture, id: 1, name: 'A', address: 1 },
+        { ...fixture, id: 2, name: 'B', address: 4 },
+        { ...fixture, id: 2, name: 'C', address: 510 }
+      ],
+      output: { enabled: true, protocol: 'sACN' }
+    }), profiles)
+    assert.deepEqual(conflicts.map(c => [c.kind, c.fixtureIds]), [
+      ['duplicate', [2]],
+      ['range', [2]],
+      ['overlap', [1, 2]]
+    ])
+  })
+
+  it('flags universes the output protocol cannot carry', () => {
+    const sacn = normalizePatch({ ...patch, fixtures: [{ ...patch.fixtures[0], universe: 0 }] })
+    assert.deepEqual(patchConflicts(sacn, profiles).map(c => c.kind), ['universe'])
+    assert.deepEqual(patchConflicts({ ...sacn, output: { enabled: true, protocol: 'ArtNet' } }, profiles), [])
+  })
+
+  it('flags fixtures on a universe the lighting output already sends', () => {
+    const conflicts = patchConflicts(patch, profiles, [{ universe: 2, owner: 'sACN Output' }])
+    assert.deepEqual(conflicts.map(c => [c.kind, c.fixtureIds]), [['universe', [10]]])
+    assert.match(conflicts[0].message, /already sent by sACN Output/)
+  })
+
+  it('finds the next free address for a footprint', () => {
+    assert.equal(nextFreeAddress(patch, profiles, 1, 6), 13)
+    assert.equal(nextFreeAddress(patch, profiles, 2, 100), 1)
+    assert.equal(nextFreeAddress(patch, profiles, 2, 412), null)
+  })
+})
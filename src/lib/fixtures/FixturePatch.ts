@@ -0,0 +1,441 @@
+// Fixture patch
+// Which fixtures hang where: fixture numbers, universes, start addresses and
+// modes, plus named groups and the zone each fixture is in (walls, ceiling,
+// sculpture). Mood lighting addresses groups and zones, never channels;
+// renderPatch turns a mapping into channel values per universe. Conflict
+// checks and the CSV exchanged with console operators are here too. Pure,
+// shared by the bridge and the dashboard.
+import { DMX_UNIVERSE_SIZE } from '@/lib/protocols/DMXOutput'
+import {
+  FixtureIntent,
+  FixtureProfile,
+  findMode,
+  fixtureId,
+  fixtureSlug,
+  lightingIntent,
+  renderFixture
+} from './FixtureProfile'
+
+export interface PatchedFixture {
+  id: number // Fixture number, as the console operator knows it
+  name: string
+  profileId: string
+  mode: string
+  universe: number
+  address: number // 1–512
+  zone?: string
+}
+
+export interface FixtureGroup {
+  id: string
+  name: string
+  fixtureIds: number[]
+}
+
+// Where the patched universes go; no host means broadcast (Art-Net) or multicast (sACN)
+export interface PatchOutputConfig {
+  enabled: boolean
+  protocol: 'ArtNet' | 'sACN'
+  host?: string
+}
+
+export interface FixturePatch {
+  fixtures: PatchedFixture[]
+  groups: FixtureGroup[]
+  output: PatchOutputConfig
+}
+
+export const EMPTY_PATCH: FixturePatch = {
+  fixtures: [],
+  groups: [],
+  output: { enabled: false, protocol: 'ArtNet' }
+}
+
+// Universes each output can address: Art-Net's 15-bit port address, sACN's 1–63999
+export const PATCH_UNIVERSE_RANGES: { [P in PatchOutputConfig['protocol']]: { min: number; max: number } } = {
+  ArtNet: { min: 0, max: 0x7fff },
+  sACN: { min: 1, max: 63999 }
+}
+
+export function universeInRange(protocol: PatchOutputConfig['protocol'], universe: number): boolean {
+  const range = PATCH_UNIVERSE_RANGES[protocol]
+  return universe >= range.min && universe <= range.max
+}
+
+// Where new fixtures go when nobody says otherwise
+export function firstUniverse(protocol: PatchOutputConfig['protocol']): number {
+  return PATCH_UNIVERSE_RANGES[protocol].min
+}
+
+// A group or zone's own take on a mood; anything it leaves out comes from the mapping
+export interface GroupLighting {
+  target: string // Group id or name, or zone
+  intensity?: number
+  color?: string
+  cct?: number
+  strobe?: number
+  position?: { pan: number; tilt: number }
+}
+
+export interface PatchConflict {
+  kind: 'overlap' | 'range' | 'profile' | 'duplicate' | 'universe'
+  fixtureIds: number[]
+  message: string
+}
+
+// What the bridge has saved, for the dashboard
+export interface FixturePatchSnapshot {
+  filePath: string
+  patch: FixturePatch
+  conflicts: PatchConflict[]
+}
+
+// Channel values per universe, 1-based as on a console
+export type PatchFrame = { [universe: number]: { [channel: number]: number } }
+
+export function normalizePatch(patch: Partial<FixturePatch>): FixturePatch {
+  const int = (value: any, fallback: number) => {
+    const n = Math.round(Number(value))
+    return isFinite(n) ? n : fallback
+  }
+  const output = { ...EMPTY_PATCH.output, ...patch.output }
+  const protocol: PatchOutputConfig['protocol'] = output.protocol === 'sACN' ? 'sACN' : 'ArtNet'
+  const fixtures = (patch.fixtures || []).map(fixture => ({
+    id: Math.max(1, int(fixture.id, 1)),
+    name: String(fixture.name || '').trim() || `Fixture ${fixture.id}`,
+    profileId: String(fixture.profileId || ''),
+    mode: String(fixture.mode || ''),
+    universe: Math.max(0, int(fixture.universe, firstUniverse(protocol))),
+    address: Math.max(1, Math.min(DMX_UNIVERSE_SIZE, int(fixture.address, 1))),
+    zone: fixture.zone ? String(fixture.zone).trim() || undefined : undefined
+  }))
+  const known = fixtures.map(fixture => fixture.id)
+  const groups = (patch.groups || [])
+    .filter(group => group && String(group.name || '').trim())
+    .map(group => ({
+      id: group.id || fixtureSlug(group.name),
+      name: String(group.name).trim(),
+      fixtureIds: (group.fixtureIds || []).filter((id, i, ids) => known.indexOf(id) >= 0 && ids.indexOf(id) === i)
+    }))
+  return {
+    fixtures,
+    groups,
+    output: {
+      enabled: !!output.enabled,
+      protocol,
+      host: output.host ? String(output.host).trim() || undefined : undefined
+    }
+  }
+}
+
+function profileFor(fixture: PatchedFixture, profiles: FixtureProfile[]): FixtureProfile | undefined {
+  return profiles.find(profile => profile.id === fixture.profileId)
+}
+
+// Channels the fixture takes; 0 when its profile or mode is unknown
+export function fixtureFootprint(fixture: PatchedFixture, profiles: FixtureProfile[]): number {
+  const profile = profileFor(fixture, profiles)
+  const mode = profile ? findMode(profile, fixture.mode) : null
+  return mode ? mode.channels.length : 0
+}
+
+// A universe something else on the bridge already sends on the patch's
+// protocol, such as the connected lighting output
+export interface PatchReservedUniverse {
+  universe: number
+  owner: string
+}
+
+export function patchConflicts(patch: FixturePatch, profiles: FixtureProfile[], reserved: PatchReservedUniverse[] = []): PatchConflict[] {
+  const conflicts: PatchConflict[] = []
+  const seen: { [id: number]: boolean } = {}
+
+  patch.fixtures.forEach(fixture => {
+    if (seen[fixture.id]) {
+      conflicts.push({ kind: 'duplicate', fixtureIds: [fixture.id], message: `Fixture number ${fixture.id} is used more than once` })
+    }
+    seen[fixture.id] = true
+    if (!universeInRange(patch.output.protocol, fixture.universe)) {
+      const range = PATCH_UNIVERSE_RANGES[patch.output.protocol]
+      conflicts.push({
+        kind: 'universe',
+        fixtureIds: [fixture.id],
+        message: `${fixture.name}: universe ${fixture.universe} is outside ${patch.output.protocol}'s ${range.min}–${range.max}`
+      })
+    }
+    const taken = reserved.find(r => r.universe === fixture.universe)
+    if (taken) {
+      conflicts.push({
+        kind: 'universe',
+        fixtureIds: [fixture.id],
+        message: `${fixture.name}: ${patch.output.protocol} universe ${fixture.universe} is already sent by ${taken.owner}`
+      })
+    }
+    const footprint = fixtureFootprint(fixture, profiles)
+    if (footprint === 0) {
+      conflicts.push({ kind: 'profile', fixtureIds: [fixture.id], message: `${fixture.name}: unknown profile or mode (${fixture.profileId} ${fixture.mode})` })
+    } else if (fixture.address + footprint - 1 > DMX_UNIVERSE_SIZE) {
+      conflicts.push({ kind: 'range', fixtureIds: [fixture.id], message: `${fixture.name} runs past channel ${DMX_UNIVERSE_SIZE} of universe ${fixture.universe}` })
+    }
+  })
+
+  patch.fixtures.forEach((a, i) => {
+    const aEnd = a.address + Math.max(1, fixtureFootprint(a, profiles)) - 1
+    patch.fixtures.slice(i + 1).forEach(b => {
+      if (a.universe !== b.universe) return
+      const bEnd = b.address + Math.max(1, fixtureFootprint(b, profiles)) - 1
+      const from = Math.max(a.address, b.address)
+      const to = Math.min(aEnd, bEnd)
+      if (from <= to) {
+        conflicts.push({
+          kind: 'overlap',
+          fixtureIds: [a.id, b.id],
+          message: `${a.name} and ${b.name} overlap on universe ${a.universe}, channels ${from}–${to}`
+        })
+      }
+    })
+  })
+  return conflicts
+}
+
+// First address on the universe where the footprint fits, or null
+export function nextFreeAddress(patch: FixturePatch, profiles: FixtureProfile[], universe: number, footprint: number): number | null {
+  const used = patch.fixtures
+    .filter(fixture => fixture.universe === universe)
+    .map(fixture => [fixture.address, fixture.address + Math.max(1, fixtureFootprint(fixture, profiles)) - 1])
+    .sort((a, b) => a[0] - b[0])
+  let address = 1
+  for (const [from, to] of used) {
+    if (address + footprint - 1 < from) break
+    address = Math.max(address, to + 1)
+  }
+  return address + footprint - 1 <= DMX_UNIVERSE_SIZE ? address : null
+}
+
+export function patchZones(patch: FixturePatch): string[] {
+  return patch.fixtures
+    .map(fixture => fixture.zone || '')
+    .filter((zone, i, zones) => zone && zones.indexOf(zone) === i)
+    .sort()
+}
+
+// Fixture numbers for a group (by id or name) or a zone
+export function resolveTarget(patch: FixturePatch, target: string): number[] {
+  const key = (target || '').trim().toLowerCase()
+  const group = patch.groups.find(g => g.id.toLowerCase() === key || g.name.toLowerCase() === key)
+  if (group) return group.fixtureIds
+  return patch.fixtures.filter(fixture => (fixture.zone || '').toLowerCase() === key).map(fixture => fixture.id)
+}
+
+// "1-8, 12" to [1…8, 12]
+export function parseFixtureList(text: string): number[] {
+  const ids: number[] = []
+  ;(text || '').split(/[,\s]+/).forEach(part => {
+    const range = /^(\d+)(?:-(\d+))?$/.exec(part)
+    if (!range) return
+    const from = parseInt(range[1], 10)
+    const to = range[2] ? parseInt(range[2], 10) : from
+    for (let id = Math.min(from, to); id <= Math.max(from, to) && ids.length < 10000; id++) {
+      if (ids.indexOf(id) < 0) ids.push(id)
+    }
+  })
+  return ids
+}
+
+export function formatFixtureList(ids: number[]): string {
+  const sorted = ids.slice().sort((a, b) => a - b)
+  const parts: string[] = []
+  sorted.forEach((id, i) => {
+    if (i > 0 && id === sorted[i - 1] + 1) return
+    let end = id
+    while (sorted.indexOf(end + 1) >= 0) end++
+    parts.push(end > id ? `${id}-${end}` : String(id))
+  })
+  return parts.join(', ')
+}
+
+// Every patched fixture gets the mapping's lighting; groups and zones named in
+// lighting.groups then override what they set, in order. faded replaces the
+// mapping's own values mid-transition.
+export function renderPatch(
+  patch: FixturePatch,
+  profiles: FixtureProfile[],
+  lighting: any,
+  faded: Partial<FixtureIntent> = {}
+): PatchFrame {
+  const base: FixtureIntent = { ...lightingIntent(lighting), ...definedOnly(faded) }
+  const overrides: Array<{ ids: number[]; intent: Partial<FixtureIntent> }> = ((lighting && lighting.groups) || [])
+    .map((group: GroupLighting) => ({
+      ids: resolveTarget(patch, group.target),
+      intent: definedOnly({
+        intensity: group.intensity,
+        color: group.color,
+        cct: group.cct,
+        strobe: group.strobe,
+        pan: group.position ? group.position.pan : undefined,
+        tilt: group.position ? group.position.tilt : undefined
+      })
+    }))
+
+  const frame: PatchFrame = {}
+  patch.fixtures.forEach(fixture => {
+    const profile = profileFor(fixture, profiles)
+    const mode = profile ? findMode(profile, fixture.mode) : null
+    if (!profile || !mode) return
+
+    const intent = overrides.reduce((current, override) =>
+      override.ids.indexOf(fixture.id) >= 0 ? { ...current, ...override.intent } : current, base)
+    const universe = frame[fixture.universe] || (frame[fixture.universe] = {})
+    renderFixture(intent, mode, profile.colorProfile).forEach((value, i) => {
+      if (fixture.address + i <= DMX_UNIVERSE_SIZE) universe[fixture.address + i] = value
+    })
+  })
+  return frame
+}
+
+function definedOnly<T extends object>(values: T): Partial<T> {
+  return (Object.keys(values) as Array<keyof T>).reduce((defined, key) => {
+    if (values[key] !== undefined) defined[key] = values[key]
+    return defined
+  }, {} as Partial<T>)
+}
+
+// ----- CSV -----
+
+export const PATCH_CSV_COLUMNS = ['Fixture', 'Name', 'Manufacturer', 'Model', 'Profile', 'Mode', 'Universe', 'Address', 'Zone', 'Groups']
+
+function csvCell(value: any): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        cell += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      if (row.some(value => value.trim() !== '')) rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += c
+    }
+  }
+  row.push(cell)
+  if (row.some(value => value.trim() !== '')) rows.push(row)
+  return rows
+}
+
+export function patchToCSV(patch: FixturePatch, profiles: FixtureProfile[]): string {
+  const lines = [PATCH_CSV_COLUMNS.join(',')]
+  patch.fixtures.slice().sort((a, b) => a.id - b.id).forEach(fixture => {
+    const profile = profileFor(fixture, profiles)
+    const groups = patch.groups.filter(group => group.fixtureIds.indexOf(fixture.id) >= 0).map(group => group.name)
+    lines.push([
+      fixture.id,
+      fixture.name,
+      profile ? profile.manufacturer : '',
+      profile ? profile.model : '',
+      fixture.profileId,
+      fixture.mode,
+      fixture.universe,
+      fixture.address,
+      fixture.zone || '',
+      groups.join('; ')
+    ].map(csvCell).join(','))
+  })
+  return lines.join('\r\n') + '\r\n'
+}
+
+// Rows that can't be placed are reported by line number and left out. An
+// Address of "2.101" or "2/101" carries the universe too.
+export function patchFromCSV(
+  text: string,
+  profiles: FixtureProfile[],
+  output: PatchOutputConfig = EMPTY_PATCH.output
+): { patch: FixturePatch; errors: string[] } {
+  const rows = parseCSV(text.replace(/^﻿/, ''))
+  const errors: string[] = []
+  if (rows.length === 0) return { patch: { ...EMPTY_PATCH, output }, errors: ['Empty file'] }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase())
+  const column = (name: string) => header.indexOf(name.toLowerCase())
+  if (column('Fixture') < 0 || column('Address') < 0) {
+    return { patch: { ...EMPTY_PATCH, output }, errors: ['Missing Fixture or Address column'] }
+  }
+  const cell = (row: string[], name: string) => {
+    const i = column(name)
+    return i >= 0 && row[i] !== undefined ? row[i].trim() : ''
+  }
+
+  const fixtures: PatchedFixture[] = []
+  const groups: FixtureGroup[] = []
+  rows.slice(1).forEach((row, i) => {
+    const line = i + 2
+    const id = parseInt(cell(row, 'Fixture'), 10)
+    if (!(id > 0)) {
+      errors.push(`Line ${line}: no fixture number`)
+      return
+    }
+
+    const profileKey = cell(row, 'Profile')
+    const byName = fixtureId(cell(row, 'Manufacturer'), cell(row, 'Model'))
+    const profile = profiles.find(p => p.id === profileKey) || profiles.find(p => p.id === byName)
+    if (!profile) {
+      errors.push(`Line ${line}: no profile for ${profileKey || `${cell(row, 'Manufacturer')} ${cell(row, 'Model')}`.trim()}`)
+      return
+    }
+    const modeName = cell(row, 'Mode')
+    const mode = modeName ? profile.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase()) : profile.modes[0]
+    if (!mode) {
+      errors.push(`Line ${line}: ${profile.model} has no mode "${modeName}"`)
+      return
+    }
+
+    const addressText = cell(row, 'Address')
+    const split = /^(\d+)[./:](\d+)$/.exec(addressText)
+    const universe = split ? parseInt(split[1], 10) : parseInt(cell(row, 'Universe') || String(firstUniverse(output.protocol)), 10)
+    const address = split ? parseInt(split[2], 10) : parseInt(addressText, 10)
+    if (!(address >= 1 && address <= DMX_UNIVERSE_SIZE) || !(universe >= 0)) {
+      errors.push(`Line ${line}: bad address "${addressText}"`)
+      return
+    }
+
+    fixtures.push({
+      id,
+      name: cell(row, 'Name') || `${profile.model} ${id}`,
+      profileId: profile.id,
+      mode: mode.name,
+      universe,
+      address,
+      zone: cell(row, 'Zone') || undefined
+    })
+    cell(row, 'Groups').split(/[;|]/).map(name => name.trim()).filter(Boolean).forEach(name => {
+      const groupId = fixtureSlug(name)
+      let group = groups.find(g => g.id === groupId)
+      if (!group) groups.push(group = { id: groupId, name, fixtureIds: [] })
+      if (group.fixtureIds.indexOf(id) < 0) group.fixtureIds.push(id)
+    })
+  })
+
+  return { patch: normalizePatch({ fixtures, groups, output }), errors }
+}
@@ -0,0 +1,170 @@
+// Fixture profiles
+// What each channel of a fixture's DMX footprint does, per mode: the
+// attribute it carries, 16-bit pairs, defaults and the strobe range. Profiles
+// come from Open Fixture Library JSON or GDTF files, or are built in; moods
+// only say what they want (intensity, colour, strobe, position) and
+// renderFixture works out the footprint. Pure, shared by the bridge and the
+// dashboard.
+import {
+  ColorModel,
+  ColorTarget,
+  Emitter,
+  EmitterLevels,
+  FixtureColorProfile,
+  normalizeColorProfile,
+  renderColor
+} from '@/lib/protocols/ColorEngine'
+
+export type FixtureAttribute = Emitter | 'strobe' | 'pan' | 'tilt' | 'other'
+
+export interface FixtureChannel {
+  name: string
+  attribute: FixtureAttribute
+  fine?: boolean // Low byte of a 16-bit attribute; the coarse channel is the one without
+  defaultValue: number // 0–255, for whatever the intent leaves alone
+  strobe?: { open: number; slow: number; fast: number } // DMX values on a strobe channel
+}
+
+export interface FixtureMode {
+  name: string
+  channels: FixtureChannel[] // Footprint order, first channel at the start address
+}
+
+export type FixtureSource = 'builtin' | 'ofl' | 'gdtf'
+
+export interface FixtureProfile {
+  id: string // manufacturer/model, unique in the library
+  manufacturer: string
+  model: string
+  source: FixtureSource
+  fileName?: string // In the fixture directory
+  modes: FixtureMode[]
+  colorProfile?: Partial<FixtureColorProfile> // Gamma, dimmer curve, white point; the model comes from the mode
+}
+
+// What the bridge has loaded, for the dashboard
+export interface FixtureLibrarySnapshot {
+  directory: string
+  profiles: FixtureProfile[]
+  errors: Array<{ fileName: string; error: string }> // Files that didn't parse
+}
+
+// What a mood wants from a fixture, whatever its channels
+export interface FixtureIntent extends ColorTarget {
+  intensity: number // 0–1
+  strobe?: number // 0 off, up to 1 at the fixture's fastest
+  pan?: number // 0–1 of the fixture's range
+  tilt?: number
+}
+
+export const FIXTURE_SOURCES: Array<{ source: FixtureSource; label: string }> = [
+  { source: 'builtin', label: 'Built in' },
+  { source: 'ofl', label: 'Open Fixture Library' },
+  { source: 'gdtf', label: 'GDTF' }
+]
+
+// The fixture DMX_CHANNELS has always assumed: RGBW par on channels 1–6
+export const GENERIC_FIXTURE: FixtureProfile = {
+  id: 'generic/rgbw-par',
+  manufacturer: 'Generic',
+  model: 'RGBW par',
+  source: 'builtin',
+  modes: [{
+    name: '6-channel',
+    channels: [
+      { name: 'Dimmer', attribute: 'dimmer', defaultValue: 0 },
+      { name: 'Red', attribute: 'red', defaultValue: 0 },
+      { name: 'Green', attribute: 'green', defaultValue: 0 },
+      { name: 'Blue', attribute: 'blue', defaultValue: 0 },
+      { name: 'White', attribute: 'white', defaultValue: 0 },
+      { name: 'Strobe', attribute: 'strobe', defaultValue: 0, strobe: { open: 0, slow: 10, fast: 255 } }
+    ]
+  }]
+}
+
+export const BUILTIN_FIXTURES: FixtureProfile[] = [GENERIC_FIXTURE]
+
+export function fixtureSlug(text: string): string {
+  return (text || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'unnamed'
+}
+
+export function fixtureId(manufacturer: string, model: string): string {
+  return `${fixtureSlug(manufacturer)}/${fixtureSlug(model)}`
+}
+
+export function findMode(profile: FixtureProfile, modeName?: string): FixtureMode | null {
+  if (!modeName) return profile.modes[0] || null
+  return profile.modes.find(mode => mode.name === modeName) || null
+}
+
+// The emitters a mode has decide how colour is mixed on it
+export function modeColorModel(mode: FixtureMode): ColorModel {
+  const has = (attribute: FixtureAttribute) => mode.channels.some(channel => channel.attribute === attribute)
+  if (has('cyan') || has('magenta') || has('yellow')) return 'cmy'
+  if (has('hue')) return 'hsi'
+  if (has('red') && has('green') && has('blue')) return has('amber') ? 'rgba' : has('white') ? 'rgbw' : 'rgb'
+  if (has('warm') || has('cool')) return 'tunableWhite'
+  return 'white'
+}
+
+// The intent a mood's lighting mapping expresses
+export function lightingIntent(lighting: any): FixtureIntent {
+  return {
+    intensity: typeof lighting?.intensity === 'number' ? lighting.intensity : 1,
+    color: lighting?.color,
+    cct: lighting?.cct,
+    strobe: lighting?.strobe,
+    pan: lighting?.position?.pan,
+    tilt: lighting?.position?.tilt
+  }
+}
+
+const DIMMABLE: Emitter[] = ['red', 'green', 'blue', 'white', 'amber', 'warm', 'cool']
+
+// DMX values (0–255) for the whole footprint, in channel order
+export function renderFixture(intent: FixtureIntent, mode: FixtureMode, colorProfile?: Partial<FixtureColorProfile>): number[] {
+  const has = (attribute: FixtureAttribute) => mode.channels.some(channel => channel.attribute === attribute && !channel.fine)
+  const model = modeColorModel(mode)
+  const levels: EmitterLevels = renderColor(intent, intent.intensity, normalizeColorProfile({ ...colorProfile, model }))
+
+  // Without a dimmer channel the emitters carry the intensity themselves
+  if (!has('dimmer') && levels.dimmer !== undefined) {
+    if (model === 'white') levels.white = levels.dimmer
+    else DIMMABLE.forEach(emitter => {
+      if (levels[emitter] !== undefined) levels[emitter] = (levels[emitter] as number) * (levels.dimmer as number)
+    })
+  }
+
+  const level = (channel: FixtureChannel): number | undefined => {
+    switch (channel.attribute) {
+      case 'strobe': {
+        if (!channel.strobe) return undefined
+        const { open, slow, fast } = channel.strobe
+        const speed = intent.strobe || 0
+        return (speed > 0 ? slow + (fast - slow) * Math.min(1, speed) : open) / 255
+      }
+      case 'pan': return intent.pan
+      case 'tilt': return intent.tilt
+      case 'other': return undefined
+      default: return levels[channel.attribute]
+    }
+  }
+
+  return mode.channels.map(channel => {
+    const value = level(channel)
+    if (value === undefined || !isFinite(value)) return channel.defaultValue
+    const x = Math.max(0, Math.min(1, value))
+    const sixteen = Math.round(x * 65535)
+    const paired = mode.channels.some(other => other.fine && other.attribute === channel.attribute)
+    if (channel.fine) return sixteen & 0xff
+    return paired ? sixteen >> 8 : Math.round(x * 255)
+  })
+}
+
+// Footprint values keyed by absolute DMX channel, from the start address
+export function footprintDMX(values: number[], address: number): { [channel: number]: number } {
+  return values.reduce((dmx, value, i) => {
+    dmx[address + i] = value
+    return dmx
+  }, {} as { [channel: number]: number })
+}
@@ -0,0 +1,150 @@
+// GDTF import
+// Reads the description.xml of a GDTF fixture type (the .gdtf archive is
+// unpacked by FixtureLibrary) into a FixtureProfile. Each DMX channel takes
+// its attribute from the first logical channel; multi-byte offsets ("1,2")
+// become coarse and fine channels. Only the first DMX break is read, and
+// virtual channels (Offset="None") have no footprint.
+import { FixtureAttribute, FixtureChannel, FixtureMode, FixtureProfile, fixtureId } from './FixtureProfile'
+
+interface XMLElement {
+  name: string
+  attributes: { [name: string]: string }
+  children: XMLElement[]
+}
+
+const GDTF_ATTRIBUTES: { [attribute: string]: FixtureAttribute } = {
+  Dimmer: 'dimmer',
+  ColorAdd_R: 'red',
+  ColorAdd_G: 'green',
+  ColorAdd_B: 'blue',
+  ColorAdd_W: 'white',
+  ColorAdd_A: 'amber',
+  ColorAdd_C: 'cyan',
+  ColorAdd_M: 'magenta',
+  ColorAdd_Y: 'yellow',
+  ColorAdd_WW: 'warm',
+  ColorAdd_CW: 'cool',
+  ColorRGB_Red: 'red',
+  ColorRGB_Green: 'green',
+  ColorRGB_Blue: 'blue',
+  ColorSub_C: 'cyan',
+  ColorSub_M: 'magenta',
+  ColorSub_Y: 'yellow',
+  HSB_Hue: 'hue',
+  HSB_Saturation: 'saturation',
+  Shutter1: 'strobe',
+  Pan: 'pan',
+  Tilt: 'tilt'
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([\da-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+// Elements and attributes only; text, comments and processing instructions
+// carry nothing a fixture description needs
+function parseXML(xml: string): XMLElement {
+  const root: XMLElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XMLElement[] = [root]
+  const tag = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+  const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+
+  while ((match = tag.exec(xml)) !== null) {
+    if (!match[2]) continue
+    const [, closing, name, attributeText, selfClosing] = match
+    if (closing) {
+      if (stack.length > 1 && stack[stack.length - 1].name === name) stack.pop()
+      continue
+    }
+    const element: XMLElement = { name, attributes: {}, children: [] }
+    let pair: RegExpExecArray | null
+    attribute.lastIndex = 0
+    while ((pair = attribute.exec(attributeText)) !== null) {
+      element.attributes[pair[1]] = decodeEntities(pair[2] !== undefined ? pair[2] : pair[3])
+    }
+    stack[stack.length - 1].children.push(element)
+    if (!selfClosing) stack.push(element)
+  }
+  return root
+}
+
+function child(element: XMLElement | undefined, name: string): XMLElement | undefined {
+  return element ? element.children.find(c => c.name === name) : undefined
+}
+
+function children(element: XMLElement | undefined, name: string): XMLElement[] {
+  return element ? element.children.filter(c => c.name === name) : []
+}
+
+// "32768/2" is 32768 out of two bytes; the 8-bit equivalent is what we keep
+function dmxValue(value: string | undefined): number | undefined {
+  const match = /^(\d+)(?:\/(\d))?$/.exec((value || '').trim())
+  if (!match) return undefined
+  const bytes = match[2] ? parseInt(match[2], 10) : 1
+  return Math.max(0, Math.min(255, Math.round(parseInt(match[1], 10) / Math.pow(256, bytes - 1))))
+}
+
+// Without a function named Open, the channel's default is taken as open
+function strobeRange(functions: XMLElement[], defaultValue: number): FixtureChannel['strobe'] {
+  const open = functions.find(f => /Open/i.test(f.attributes.Name || ''))
+  const index = functions.findIndex(f => /Strobe/.test(f.attributes.Attribute || ''))
+  if (index < 0) return undefined
+  const from = dmxValue(functions[index].attributes.DMXFrom) ?? 0
+  const next = functions[index + 1] ? dmxValue(functions[index + 1].attributes.DMXFrom) : undefined
+  return { open: open ? dmxValue(open.attributes.DMXFrom) ?? defaultValue : defaultValue, slow: from, fast: next !== undefined ? Math.max(from, next - 1) : 255 }
+}
+
+function readMode(mode: XMLElement, index: number): FixtureMode {
+  const name = mode.attributes.Name || `Mode ${index + 1}`
+  const slots: { [offset: number]: FixtureChannel } = {}
+  let footprint = 0
+
+  children(child(mode, 'DMXChannels'), 'DMXChannel').forEach(channel => {
+    const offsets = (channel.attributes.Offset || '').split(',').map(o => parseInt(o, 10)).filter(o => o > 0)
+    const dmxBreak = parseInt(channel.attributes.DMXBreak || '1', 10)
+    if (offsets.length === 0 || dmxBreak !== 1) return
+
+    const logical = child(channel, 'LogicalChannel')
+    const functions = children(logical, 'ChannelFunction')
+    const gdtfAttribute = (logical && logical.attributes.Attribute) || ''
+    const attribute: FixtureAttribute = GDTF_ATTRIBUTES[gdtfAttribute] || (/^Shutter\d/.test(gdtfAttribute) ? 'strobe' : 'other')
+    const label = [channel.attributes.Geometry, gdtfAttribute].filter(Boolean).join(' ') || `Channel ${offsets[0]}`
+    const defaultValue = dmxValue(channel.attributes.Default) ?? dmxValue(functions[0] && functions[0].attributes.Default) ?? 0
+    const strobe = attribute === 'strobe' ? strobeRange(functions, defaultValue) : undefined
+
+    slots[offsets[0]] = { name: label, attribute: strobe || attribute !== 'strobe' ? attribute : 'other', strobe, defaultValue }
+    offsets.slice(1).forEach((offset, i) => {
+      // Beyond 16 bits the extra bytes just hold zero
+      slots[offset] = { name: `${label} fine`, attribute: i === 0 ? attribute : 'other', fine: i === 0 || undefined, defaultValue: 0 }
+    })
+    footprint = Math.max(footprint, offsets[offsets.length - 1])
+  })
+
+  const channels: FixtureChannel[] = []
+  for (let offset = 1; offset <= footprint; offset++) {
+    channels.push(slots[offset] || { name: `Channel ${offset}`, attribute: 'other', defaultValue: 0 })
+  }
+  return { name, channels }
+}
+
+export function parseGDTFDescription(xml: string, fileName?: string): FixtureProfile {
+  const fixtureType = child(child(parseXML(xml), 'GDTF'), 'FixtureType')
+  if (!fixtureType) throw new Error('Not a GDTF description (no FixtureType)')
+  const manufacturer = fixtureType.attributes.Manufacturer || 'Unknown'
+  const model = fixtureType.attributes.LongName || fixtureType.attributes.Name || 'Unnamed'
+
+  const modes = children(child(fixtureType, 'DMXModes'), 'DMXMode')
+    .map(readMode)
+    .filter(mode => mode.channels.length > 0)
+  if (modes.length === 0) throw new Error('No DMX modes with channels')
+
+  return { id: fixtureId(manufacturer, model), manufacturer, model, source: 'gdtf', fileName, modes }
+}
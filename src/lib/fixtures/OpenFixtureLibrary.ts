@@ -0,0 +1,135 @@
+// Open Fixture Library import
+// Reads an OFL fixture definition (open-fixture-library.org, "Download as
+// OFL JSON") into a FixtureProfile. Channels are classified by their first
+// capability; fine channel aliases become the low byte of their channel, and
+// pixel matrices are expanded from the fixture's own pixel keys. Modes that
+// can't be read are left out rather than failing the whole fixture.
+import { FixtureAttribute, FixtureChannel, FixtureMode, FixtureProfile, fixtureId } from './FixtureProfile'
+
+const OFL_COLORS: { [color: string]: FixtureAttribute } = {
+  'Red': 'red',
+  'Green': 'green',
+  'Blue': 'blue',
+  'White': 'white',
+  'Amber': 'amber',
+  'Cyan': 'cyan',
+  'Magenta': 'magenta',
+  'Yellow': 'yellow',
+  'Warm White': 'warm',
+  'Cold White': 'cool'
+}
+
+function dmxValue(value: any, fallback: number = 0): number {
+  if (typeof value === 'number') return Math.max(0, Math.min(255, Math.round(value)))
+  const percent = /^(-?[\d.]+)%$/.exec(String(value || ''))
+  return percent ? Math.round(Math.max(0, Math.min(100, parseFloat(percent[1]))) * 2.55) : fallback
+}
+
+// "20Hz", "fast", "slow"; higher is faster
+function strobeSpeed(speed: any): number {
+  if (speed === 'fast') return Infinity
+  if (speed === 'slow') return 0
+  const hz = parseFloat(String(speed || ''))
+  return isFinite(hz) ? hz : 0
+}
+
+function capabilitiesOf(channel: any): any[] {
+  if (Array.isArray(channel.capabilities)) return channel.capabilities
+  return channel.capability ? [{ dmxRange: [0, 255], ...channel.capability }] : []
+}
+
+function classify(channel: any): Pick<FixtureChannel, 'attribute' | 'strobe'> {
+  const capabilities = capabilitiesOf(channel)
+  const strobe = capabilities.find(c => c.type === 'ShutterStrobe' && /Strobe/.test(c.shutterEffect || ''))
+  if (strobe) {
+    const open = capabilities.find(c => c.type === 'ShutterStrobe' && c.shutterEffect === 'Open')
+    const [from, to] = strobe.dmxRange || [0, 255]
+    const reversed = strobeSpeed(strobe.speedStart) > strobeSpeed(strobe.speedEnd)
+    return {
+      attribute: 'strobe',
+      strobe: { open: open ? open.dmxRange[0] : 0, slow: reversed ? to : from, fast: reversed ? from : to }
+    }
+  }
+
+  const first = capabilities[0] || {}
+  switch (first.type) {
+    case 'Intensity': return { attribute: 'dimmer' }
+    case 'ColorIntensity': return { attribute: OFL_COLORS[first.color] || 'other' }
+    case 'Pan': return { attribute: 'pan' }
+    case 'Tilt': return { attribute: 'tilt' }
+    default: return { attribute: 'other' }
+  }
+}
+
+export function parseOFLFixture(json: any, fileName?: string): FixtureProfile {
+  if (!json || typeof json !== 'object' || !Array.isArray(json.modes)) {
+    throw new Error('Not an Open Fixture Library fixture (no modes)')
+  }
+  const model = String(json.name || (fileName || '').replace(/\.json$/i, '') || 'Unnamed')
+  const manufacturer = String(json.manufacturer?.name || json.manufacturerKey || (json.fixtureKey || '').split('/')[0] || 'Unknown')
+
+  // Channel keys and fine aliases to their definitions
+  const channels: { [key: string]: FixtureChannel } = {}
+  const withPixel = (key: string, pixel: string) => key.split('$pixelKey').join(pixel)
+  const define = (definitions: any, key: string, pixel: string = '') => {
+    const definition = definitions[key]
+    const { attribute, strobe } = classify(definition)
+    const name = withPixel(key, pixel)
+    channels[name] = { name, attribute, strobe, defaultValue: dmxValue(definition.defaultValue) }
+    ;(definition.fineChannelAliases || []).forEach((alias: string, i: number) => {
+      const fineName = withPixel(alias, pixel)
+      // Only the first alias is a true fine byte; finer ones just hold zero
+      channels[fineName] = { name: fineName, attribute: i === 0 ? attribute : 'other', fine: i === 0 || undefined, defaultValue: 0 }
+    })
+  }
+  Object.keys(json.availableChannels || {}).forEach(key => define(json.availableChannels, key))
+
+  const templates = json.templateChannels || {}
+  const pixelKeys: string[] = json.matrix && Array.isArray(json.matrix.pixelKeys)
+    ? [].concat.apply([], [].concat.apply([], json.matrix.pixelKeys)).filter((key: any) => key !== null)
+    : []
+  // Template channels ("Red $pixelKey") are defined per pixel as the matrix expands
+  const templateOf = (name: string) => Object.keys(templates).find(key =>
+    [key].concat(templates[key].fineChannelAliases || []).indexOf(name) >= 0)
+
+  const expand = (entry: any): string[] => {
+    if (entry === null) return ['']
+    if (typeof entry === 'string') return [entry]
+    if (entry.insert !== 'matrixChannels') throw new Error(`Unsupported channel insert "${entry.insert}"`)
+    const pixels: string[] = Array.isArray(entry.repeatFor) ? entry.repeatFor : pixelKeys
+    if (pixels.length === 0) throw new Error('Pixel matrix without pixel keys')
+    const names = (pixel: string, template: string) => {
+      const key = templateOf(template)
+      if (key && !channels[withPixel(template, pixel)]) define(templates, key, pixel)
+      return withPixel(template, pixel)
+    }
+    return entry.channelOrder === 'perChannel'
+      ? [].concat.apply([], entry.templateChannels.map((template: string) => pixels.map(pixel => names(pixel, template))))
+      : [].concat.apply([], pixels.map(pixel => entry.templateChannels.map((template: string) => names(pixel, template))))
+  }
+
+  const resolve = (name: string): FixtureChannel => {
+    if (!channels[name]) throw new Error(`Unknown channel "${name}"`)
+    return channels[name]
+  }
+
+  const modes: FixtureMode[] = []
+  const problems: string[] = []
+  json.modes.forEach((mode: any, i: number) => {
+    const name = String(mode.name || mode.shortName || `Mode ${i + 1}`)
+    try {
+      const names: string[] = [].concat.apply([], (mode.channels || []).map(expand))
+      modes.push({
+        name,
+        channels: names.map((channel, offset) => channel
+          ? { ...resolve(channel) }
+          : { name: `Channel ${offset + 1}`, attribute: 'other', defaultValue: 0 })
+      })
+    } catch (error: any) {
+      problems.push(`${name}: ${error.message}`)
+    }
+  })
+  if (modes.length === 0) throw new Error(`No usable modes${problems.length ? ` (${problems.join('; ')})` : ''}`)
+
+  return { id: fixtureId(manufacturer, model), manufacturer, model, source: 'ofl', fileName, modes }
+}
@@ -0,0 +1,53 @@
+// Patch file
+// The venue's fixture patch as one JSON file on the bridge, so it survives
+// restarts and can be copied between machines alongside the fixture directory.
+import fs from 'fs'
+import path from 'path'
+import { EMPTY_PATCH, FixturePatch, normalizePatch } from './FixturePatch'
+
+export class PatchFile {
+  private filePath: string
+  private patch: FixturePatch = EMPTY_PATCH
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  async load(): Promise<FixturePatch> {
+    try {
+      this.patch = normalizePatch(JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')))
+      console.log(`🗺️ Fixture patch loaded: ${this.patch.fixtures.length} fixtures, ${this.patch.groups.length} groups`)
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.warn(`⚠️ Patch file unreadable, starting empty: ${error.message}`)
+    }
+    return this.patch
+  }
+
+  save(patch: Partial<FixturePatch>): FixturePatch {
+    this.patch = normalizePatch(patch)
+    this.persist()
+    return this.patch
+  }
+
+  getPatch(): FixturePatch {
+    return this.patch
+  }
+
+  getFilePath(): string {
+    return this.filePath
+  }
+
+  // Writes are chained so the file never sees two at once; rename keeps it whole
+  private persist(): void {
+    const json = JSON.stringify(this.patch, null, 2)
+    const file = this.filePath
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true })
+        await fs.promises.writeFile(`${file}.tmp`, json)
+        await fs.promises.rename(`${file}.tmp`, file)
+      })
+      .catch(error => console.error('❌ Fixture patch not saved:', error.message))
+  }
+}
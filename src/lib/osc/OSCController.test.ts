@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import dgram from 'dgram'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { OSCController } from './OSCController'
+import { GENERIC_FIXTURE } from '../fixtures/FixtureProfile'
+import { DEFAULT_TRANSITION_CONFIG } from '../protocols/MoodTransition'
+import { SACNPacket, SACN_PORT, decodeSACNDataPacket } from '../protocols/SACN'
+
+const UNIVERSE = 7
+
+// Resolves with the first packet on the patch universe that passes the check
+const nextPacket = (socket: dgram.Socket, check: (packet: SACNPacket) => boolean) =>
+  new Promise<SACNPacket>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.removeListener('message', listener)
+      reject(new Error('No matching sACN packet'))
+    }, 2000)
+    const listener = (data: Buffer) => {
+      const packet = decodeSACNDataPacket(new Uint8Array(data))
+      if (!packet || packet.universe !== UNIVERSE || !check(packet)) return
+      clearTimeout(timer)
+      socket.removeListener('message', listener)
+      resolve(packet)
+    }
+    socket.on('message', listener)
+  })
+
+describe('fixture patch output', () => {
+  it('blacks out the patched universes on an emergency stop', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-'))
+    const receiver = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+    await new Promise<void>(resolve => receiver.bind(SACN_PORT, '127.0.0.1', resolve))
+    const controller = new OSCController()
+    try {
+      controller.configureTransitions({ ...DEFAULT_TRANSITION_CONFIG, enabled: false })
+      await controller.startFixtureLibrary(directory)
+      await controller.startFixturePatch(path.join(directory, 'patch.json'))
+      await controller.configurePatch({
+        fixtures: [{ id: 1, name: 'Wash', profileId: GENERIC_FIXTURE.id, mode: GENERIC_FIXTURE.modes[0].name, universe: UNIVERSE, address: 1 }],
+        groups: [],
+        output: { enabled: true, protocol: 'sACN', host: '127.0.0.1' }
+      })
+
+      const lit = nextPacket(receiver, packet => packet.data.some(value => value > 0))
+      await controller.applyMoodRecommendation({ softwareRecommendations: { lighting: { intensity: 1, color: '#FFFFFF' } } })
+      await lit
+
+      const dark = nextPacket(receiver, packet => packet.data.every(value => value === 0))
+      await controller.emergencyStopAll()
+      await dark
+      const entry = controller.getJournal().find(e => e.target === 'patch' && e.args[0] === 'blackout')
+      assert.deepEqual(entry && [entry.address, entry.result], [`U${UNIVERSE}`, 'sent'])
+    } finally {
+      controller.destroy()
+      receiver.close()
+      fs.rmSync(directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,1783 @@
+// Real OSC Protocol controller for professional software integration
+import osc from 'osc'
+import WebSocket from 'ws'
+import { OSCArgument, OSCBundle, OSCMessage, createBundle, encodeOSCPacket, flattenPacket } from '@/lib/protocols/OSCCodec'
+import { OSCTcpClient } from '@/lib/protocols/OSCTcpTransport'
+import { QLabClient, QLabReply } from '@/lib/protocols/QLabClient'
+import { QLabWorkspaceCache, QLabWorkspaceSnapshot } from '@/lib/protocols/QLabWorkspace'
+import { ResolumeComposition } from '@/lib/protocols/ResolumeComposition'
+import { OSCQueryClient } from '@/lib/protocols/OSCQueryClient'
+import { OSCQueryDevice, OSCQueryMoodTarget } from '@/lib/protocols/OSCQueryNamespace'
+import { DiscoveredDevice, NetworkInterfaceInfo } from '@/lib/protocols/DiscoveredDevice'
+import { NetworkDiscovery } from '@/lib/protocols/NetworkDiscovery'
+import { SurfaceCommand, SurfaceState, surfaceFeedback } from '@/lib/protocols/TouchOSCSurface'
+import { DriverConnection, DriverContext, SoftwareDriver } from '@/lib/drivers/SoftwareDriver'
+import { createDriver, defaultConnection, listDriverIds } from '@/lib/drivers/DriverRegistry'
+import { ResolumeDriver } from '@/lib/drivers/ResolumeDriver'
+import { TouchOSCDriver } from '@/lib/drivers/TouchOSCDriver'
+import { EosDriver } from '@/lib/drivers/EosDriver'
+import { EosShowState } from '@/lib/protocols/EosShow'
+import { AbletonDriver } from '@/lib/drivers/AbletonDriver'
+import { AbletonSongState } from '@/lib/protocols/AbletonSet'
+import { ParameterStreamConfig, StreamValues } from '@/lib/protocols/ParameterStream'
+import { ParameterStreamSender } from '@/lib/protocols/ParameterStreamSender'
+import { ControlCommand, ControlState } from '@/lib/protocols/ControlAPI'
+import { ControlServer } from '@/lib/protocols/ControlServer'
+import { MQTTConfig, MQTTMoodState, MQTTStatus, SensorReading } from '@/lib/protocols/MoodMQTT'
+import { MoodMQTTClient } from '@/lib/protocols/MoodMQTTClient'
+import { WebhookEndpointUpdate, WebhookEventType, WebhookOutboxSnapshot } from '@/lib/webhooks/WebhookEvents'
+import { WebhookOutbox } from '@/lib/webhooks/WebhookOutbox'
+import { JournalEntry, MessageCause, MessageJournal, journalArgs } from '@/lib/protocols/MessageJournal'
+import { TransitionConfig, TransitionFrame, TransitionStatus, rgbHex, transitionTargets, withoutTransitionValues } from '@/lib/protocols/MoodTransition'
+import { MoodTransitionEngine } from '@/lib/protocols/MoodTransitionEngine'
+import { FixtureLibrary } from '@/lib/fixtures/FixtureLibrary'
+import { FixtureAttribute, FixtureIntent, FixtureLibrarySnapshot, FixtureProfile, GENERIC_FIXTURE, lightingIntent, renderFixture } from '@/lib/fixtures/FixtureProfile'
+import {
+  FixturePatch,
+  FixturePatchSnapshot,
+  PatchOutputConfig,
+  PatchReservedUniverse,
+  patchConflicts,
+  renderPatch,
+  universeInRange
+} from '@/lib/fixtures/FixturePatch'
+import { PatchFile } from '@/lib/fixtures/PatchFile'
+import { DMXOutput, DMX_UNIVERSE_SIZE } from '@/lib/protocols/DMXOutput'
+import { ArtNetNode } from '@/lib/protocols/ArtNet'
+import { SACNSender, loadOrCreateCID } from '@/lib/protocols/SACN'
+import { MIDIOutput, MIDITransport, MSC_ALL_CALL, VirtualPortTransport } from '@/lib/protocols/MIDI'
+import { RTPMIDITransport, RTP_MIDI_DEFAULT_PORT } from '@/lib/protocols/RTPMIDI'
+
+export type { OSCMessage, DiscoveredDevice }
+export { QLAB_COMMANDS } from '@/lib/drivers/QLabDriver'
+export { RESOLUME_COMMANDS } from '@/lib/drivers/ResolumeDriver'
+export { TOUCHOSC_COMMANDS } from '@/lib/drivers/TouchOSCDriver'
+export { CHAMSYS_COMMANDS } from '@/lib/drivers/ChamsysDriver'
+export { GRANDMA3_COMMANDS } from '@/lib/drivers/GrandMA3Driver'
+export { EOS_COMMANDS } from '@/lib/drivers/EosDriver'
+export { ABLETON_COMMANDS } from '@/lib/drivers/AbletonDriver'
+export { MADMAPPER_COMMANDS } from '@/lib/drivers/MadMapperDriver'
+export { MILLUMIN_COMMANDS } from '@/lib/drivers/MilluminDriver'
+
+export interface SoftwareConnection extends DriverConnection {
+  connected: boolean
+  lastPing: number
+  oscPort?: osc.UDPPort | osc.WebSocketPort
+  websocket?: WebSocket
+  tcpClient?: OSCTcpClient
+}
+
+// Lighting Control (Art-Net/sACN DMX mapping)
+export const DMX_CHANNELS = {
+  // Generic fixture mapping
+  INTENSITY: 1,
+  RED: 2,
+  GREEN: 3,
+  BLUE: 4,
+  WHITE: 5,
+  STROBE: 6,
+
+  // Scene control
+  SCENE_SELECT: 10,
+  SCENE_FADE_TIME: 11,
+  MASTER_INTENSITY: 12
+}
+
+// Default universe the generic fixture above is patched on.
+// Art-Net counts universes from 0, sACN from 1.
+export const DMX_UNIVERSE = 0
+export const SACN_UNIVERSE = 1
+
+// Outputs the controller drives itself, next to the OSC drivers' connections
+const PROTOCOL_CONNECTIONS: DriverConnection[] = [
+  { id: 'artnet', name: 'Art-Net Output', ip: '2.255.255.255', port: 6454, protocol: 'ArtNet', universe: DMX_UNIVERSE },
+  // Multicast; set a node IP for unicast
+  { id: 'sacn', name: 'sACN Output', ip: '239.255.0.1', port: 5568, protocol: 'sACN', universe: SACN_UNIVERSE, priority: 100 },
+  // RTP-MIDI session port, or a virtual port on this machine
+  { id: 'midi', name: 'MIDI Show Control', ip: '192.168.1.15', port: RTP_MIDI_DEFAULT_PORT, protocol: 'MIDI', deviceId: MSC_ALL_CALL, midiTransport: 'rtp-midi' }
+]
+
+const DMX_PROTOCOLS: DriverConnection['protocol'][] = ['ArtNet', 'sACN']
+
+// What a crossfade moves; strobe and position change once, at the start
+const FADED_ATTRIBUTES: FixtureAttribute[] = ['dimmer', 'red', 'green', 'blue', 'white']
+
+export class OSCController {
+  private connections: Map<string, SoftwareConnection> = new Map()
+  private mockMode: boolean = false // Real mode by default now
+  private discoveryEnabled: boolean = true
+  private discoveredDevices: Map<string, DiscoveredDevice> = new Map()
+  private qlabClient: QLabClient | null = null
+  private qlabWorkspace: QLabWorkspaceCache | null = null
+  private oscQueryClients: Map<string, OSCQueryClient> = new Map()
+  private parameterStream: ParameterStreamSender = new ParameterStreamSender()
+  private controlServer: ControlServer | null = null
+  private mqtt: MoodMQTTClient = new MoodMQTTClient()
+  private outbox: WebhookOutbox | null = null
+  private fixtures: FixtureLibrary | null = null
+  private patchFile: PatchFile | null = null
+  private patchOutput: DMXOutput | null = null
+  // Patch saves, mode switches and lighting connects restart the output one at a time
+  private patchOutputQueue: Promise<void> = Promise.resolve()
+  // Kept on disk so receivers see the same sACN source across restarts
+  private sacnCID?: string
+  // The lighting connection's output; one runs at a time
+  private dmxOutput: DMXOutput | null = null
+  private dmxConnectionId: string | null = null
+  private midiOutput: MIDIOutput | null = null
+  private midiTransportOverride: MIDITransport | null = null
+  // MIDI goes out one awaited message at a time, so the output's onMessage
+  // journals under the cause of whichever mapping is being played
+  private midiCause: MessageCause = 'system'
+  private journal: MessageJournal = new MessageJournal()
+  private transitions: MoodTransitionEngine = new MoodTransitionEngine()
+  // The latest follow that arrived mid-fade; it runs once that fade lands
+  private pendingFollow: { moodRecommendation: any; cause: MessageCause } | null = null
+  // One driver instance per connection, keyed by connection id
+  private drivers: Map<string, SoftwareDriver> = new Map()
+  
+  // Connection callbacks
+  private onConnectionChange?: (id: string, connected: boolean) => void
+  private onMessage?: (software: string, message: string) => void
+  private onIncomingMessage?: (softwareId: string, message: OSCMessage) => void
+  private onDeviceDiscovered?: (device: DiscoveredDevice) => void
+  private onDeviceLost?: (id: string) => void
+  private onQLabWorkspaceChange?: (snapshot: QLabWorkspaceSnapshot) => void
+  private onOSCQueryDeviceChange?: (device: OSCQueryDevice) => void
+  private onControlCommandCallback?: (command: ControlCommand) => boolean
+  private onSensorReadingCallback?: (reading: SensorReading) => void
+  private onMQTTStatusChange?: (status: MQTTStatus) => void
+  private onWebhookOutboxChange?: (snapshot: WebhookOutboxSnapshot) => void
+  private onFixtureLibraryChange?: (snapshot: FixtureLibrarySnapshot) => void
+  private onPatchChange?: (snapshot: FixturePatchSnapshot) => void
+  
+  // Network discovery
+  private discovery: NetworkDiscovery | null = null
+  private healthTimer?: NodeJS.Timeout
+
+  constructor() {
+    this.initializeConnections()
+    this.startNetworkDiscovery()
+
+    // MQTT commands take the same path as the control API's
+    this.mqtt.onCommand((command) => {
+      if (this.onControlCommandCallback) this.onControlCommandCallback(command)
+    })
+    this.mqtt.onSensors((reading) => {
+      if (this.onSensorReadingCallback) this.onSensorReadingCallback(reading)
+    })
+    this.mqtt.onStatus((status) => {
+      if (this.onMQTTStatusChange) this.onMQTTStatusChange(status)
+    })
+  }
+
+  // One connection per registered driver, then the protocol outputs
+  private initializeConnections() {
+    listDriverIds().forEach(id => {
+      const connection = defaultConnection(id)
+      if (connection) this.registerConnection({ ...connection, connected: false, lastPing: 0 })
+    })
+    PROTOCOL_CONNECTIONS.forEach(connection => this.registerConnection({ ...connection, connected: false, lastPing: 0 }))
+  }
+
+  private registerConnection(connection: SoftwareConnection): void {
+    this.connections.set(connection.id, connection)
+    const driver = createDriver(connection.driver || connection.id)
+    if (driver) {
+      this.drivers.set(connection.id, driver)
+    } else {
+      this.drivers.delete(connection.id)
+    }
+  }
+
+  private driverFor<T extends SoftwareDriver>(softwareId: string): T | null {
+    return (this.drivers.get(softwareId) as T) || null
+  }
+
+  // What a driver sends through: the controller's transport for its connection,
+  // journalled under the cause of whatever asked the driver to act
+  private driverContext(connection: SoftwareConnection, cause: MessageCause = 'system', journalled = true): DriverContext {
+    return {
+      connection,
+      send: (address, args = []) => this.sendTo(connection.id, address, args, cause, journalled),
+      log: (message) => {
+        if (this.onMessage) this.onMessage(connection.name, message)
+      }
+    }
+  }
+
+  // Driver setup beyond plain OSC is best-effort; the connection stays up without it
+  private async startDriver(connection: SoftwareConnection): Promise<void> {
+    const driver = this.drivers.get(connection.id)
+    if (!driver?.connect) return
+    try {
+      await driver.connect(this.driverContext(connection))
+    } catch (error) {
+      console.warn(`⚠️ ${driver.name} driver setup failed for ${connection.name}:`, error)
+    }
+  }
+
+  // Every connect and drop, whoever caused it, goes to the bridge and the webhook outbox
+  private notifyConnectionChange(softwareId: string, connected: boolean): void {
+    if (this.onConnectionChange) this.onConnectionChange(softwareId, connected)
+    const connection = this.connections.get(softwareId)
+    this.emitEvent('connection.changed', { softwareId, name: connection ? connection.name : softwareId, connected })
+    // The lighting output's universe is kept out of the patch while it's connected
+    if (connection && DMX_PROTOCOLS.indexOf(connection.protocol) >= 0 && this.patchFile) {
+      this.startPatchOutput().then(() => this.emitPatch())
+    }
+  }
+
+  private handleIncoming(connection: SoftwareConnection, message: OSCMessage): void {
+    if (this.onIncomingMessage) this.onIncomingMessage(connection.id, message)
+    const driver = this.drivers.get(connection.id)
+    if (driver?.handleMessage) driver.handleMessage(this.driverContext(connection), message)
+  }
+
+  // Network Discovery - mDNS/DNS-SD for OSC services, ArtPoll for Art-Net nodes
+  private async startNetworkDiscovery() {
+    if (!this.discoveryEnabled) return
+
+    console.log('🔍 Starting network discovery for OSC devices...')
+    
+    // Clear previous discoveries
+    this.discoveredDevices.clear()
+
+    const discovery = new NetworkDiscovery()
+    discovery.onDevice((device) => {
+      this.discoveredDevices.set(device.id, device)
+      if (this.onDeviceDiscovered) {
+        this.onDeviceDiscovered(device)
+      }
+    })
+    discovery.onDeviceLost((id) => {
+      this.discoveredDevices.delete(id)
+      if (this.onDeviceLost) {
+        this.onDeviceLost(id)
+      }
+    })
+    this.discovery = discovery
+
+    try {
+      await discovery.start()
+    } catch (error) {
+      // Usually the Art-Net port is taken; mDNS results still arrive
+      console.error('Network discovery partially unavailable:', error)
+    }
+  }
+
+  refreshDiscovery(): void {
+    if (this.discovery) this.discovery.refresh()
+  }
+
+  getNetworkInterfaces(): NetworkInterfaceInfo[] {
+    return this.discovery ? this.discovery.getInterfaces() : []
+  }
+
+  // Turn a discovered device into a connection: it fills the matching default
+  // connection (e.g. a discovered QLab updates 'qlab'), otherwise a new one is added
+  adoptDevice(deviceId: string): SoftwareConnection {
+    const device = this.discoveredDevices.get(deviceId)
+    if (!device) {
+      throw new Error(`Unknown discovered device: ${deviceId}`)
+    }
+
+    const existing = device.softwareId ? this.connections.get(device.softwareId) : undefined
+    if (existing) {
+      existing.ip = device.ip
+      existing.port = device.port
+      if (device.protocol === 'OSC' && device.transport) existing.transport = device.transport
+      console.log(`📌 Adopted ${device.name} as ${existing.name} (${device.ip}:${device.port})`)
+      return existing
+    }
+
+    const connection: SoftwareConnection = {
+      id: device.id,
+      name: device.name,
+      ip: device.ip,
+      port: device.port,
+      protocol: device.protocol,
+      transport: device.transport,
+      connected: false,
+      lastPing: 0
+    }
+    this.registerConnection(connection)
+    console.log(`📌 Adopted ${device.name} as a new connection (${device.ip}:${device.port})`)
+    return connection
+  }
+
+  // Real OSC Connection Management
+  async connect(softwareId: string): Promise<boolean> {
+    const connection = this.connections.get(softwareId)
+    if (!connection) {
+      throw new Error(`Unknown software: ${softwareId}`)
+    }
+
+    if (this.mockMode) {
+      // Keep mock functionality for testing; like the real outputs, one
+      // lighting connection drives DMX at a time
+      if (DMX_PROTOCOLS.indexOf(connection.protocol) >= 0) {
+        if (this.dmxConnectionId && this.dmxConnectionId !== softwareId) await this.disconnect(this.dmxConnectionId)
+        this.dmxConnectionId = softwareId
+      }
+      connection.connected = true
+      connection.lastPing = Date.now()
+      
+      this.notifyConnectionChange(softwareId, true)
+      
+      console.log(`[MOCK] Connected to ${connection.name} at ${connection.ip}:${connection.port}`)
+      return true
+    }
+
+    try {
+      if (DMX_PROTOCOLS.indexOf(connection.protocol) >= 0) {
+        return await this.connectDMX(connection)
+      }
+
+      if (connection.protocol === 'MIDI') {
+        return await this.connectMIDI(connection)
+      }
+
+      if (connection.protocol === 'OSC' && connection.transport === 'tcp') {
+        return await this.connectTCP(connection)
+      }
+
+      // Create real OSC connection
+      if (connection.protocol === 'OSC') {
+        // Use UDP for most OSC connections
+        const oscPort = new osc.UDPPort({
+          localAddress: "0.0.0.0",
+          localPort: connection.localPort || 0, // Let system assign unless the software needs a fixed port
+          remoteAddress: connection.ip,
+          remotePort: connection.port,
+          metadata: true
+        })
+
+        // Connection event handlers
+        oscPort.on("ready", () => {
+          console.log(`✅ OSC UDP connection established with ${connection.name}`)
+          connection.connected = true
+          connection.lastPing = Date.now()
+          
+          this.notifyConnectionChange(softwareId, true)
+        })
+
+        oscPort.on("error", (error: Error) => {
+          console.error(`❌ OSC connection error with ${connection.name}:`, error.message)
+          connection.connected = false
+          
+          this.notifyConnectionChange(softwareId, false)
+        })
+
+        oscPort.on("message", (oscMessage: any) => {
+          console.log(`📨 Received from ${connection.name}:`, oscMessage.address, oscMessage.args)
+          
+          if (this.onMessage) {
+            this.onMessage(connection.name, `${oscMessage.address} ${journalArgs(oscMessage.args).join(' ')}`)
+          }
+
+          this.handleIncoming(connection, oscMessage)
+        })
+
+        // Store the port reference
+        connection.oscPort = oscPort
+
+        // Open the connection
+        oscPort.open()
+
+        this.startDriver(connection)
+
+        // Test connection with a ping
+        setTimeout(() => {
+          this.pingConnection(softwareId)
+        }, 2000)
+
+        return true
+      }
+
+      return false
+    } catch (error) {
+      console.error(`Failed to connect to ${connection.name}:`, error)
+      connection.connected = false
+      return false
+    }
+  }
+
+  // OSC over TCP. QLab gets a QLabClient so replies can be awaited.
+  private async connectTCP(connection: SoftwareConnection): Promise<boolean> {
+    if (connection.id === 'qlab') {
+      const client = new QLabClient({
+        host: connection.ip,
+        port: connection.port,
+        framing: connection.framing,
+        passcode: connection.passcode
+      })
+      const workspace = new QLabWorkspaceCache(client)
+      workspace.onChange((snapshot) => {
+        if (this.onQLabWorkspaceChange) this.onQLabWorkspaceChange(snapshot)
+      })
+      client.onDisconnect(() => this.handleTCPClosed(connection))
+      client.onUpdate((message) => {
+        workspace.handleUpdate(message)
+        if (this.onMessage) {
+          this.onMessage(connection.name, `${message.address} ${journalArgs(message.args).join(' ')}`)
+        }
+        this.handleIncoming(connection, message)
+      })
+      await client.connect()
+      this.qlabClient = client
+      this.qlabWorkspace = workspace
+
+      // Introspection is best-effort; cue commands work without it
+      workspace.refresh().catch(error => {
+        console.warn('⚠️ Could not read QLab workspace:', error.message)
+      })
+    } else {
+      const tcpClient = new OSCTcpClient({ host: connection.ip, port: connection.port, framing: connection.framing })
+      tcpClient.onClose(() => this.handleTCPClosed(connection))
+      tcpClient.onMessage((message) => {
+        console.log(`📨 Received from ${connection.name}:`, message.address, message.args)
+        if (this.onMessage) {
+          this.onMessage(connection.name, `${message.address} ${journalArgs(message.args).join(' ')}`)
+        }
+        this.handleIncoming(connection, message)
+      })
+      await tcpClient.connect()
+      connection.tcpClient = tcpClient
+    }
+
+    console.log(`✅ OSC TCP connection established with ${connection.name} (${connection.framing || 'slip'} framing)`)
+    connection.connected = true
+    connection.lastPing = Date.now()
+
+    this.notifyConnectionChange(connection.id, true)
+
+    this.startDriver(connection)
+    return true
+  }
+
+  private handleTCPClosed(connection: SoftwareConnection): void {
+    if (!connection.connected) return
+    console.warn(`⚠️ OSC TCP connection to ${connection.name} closed`)
+    connection.connected = false
+    connection.tcpClient = undefined
+    if (connection.id === 'qlab') this.releaseQLab()
+
+    this.notifyConnectionChange(connection.id, false)
+  }
+
+  private releaseQLab(): void {
+    if (this.qlabWorkspace) this.qlabWorkspace.dispose()
+    this.qlabWorkspace = null
+    this.qlabClient = null
+  }
+
+  async disconnect(softwareId: string): Promise<void> {
+    const connection = this.connections.get(softwareId)
+    if (!connection) return
+
+    try {
+      // While the transport is still up, so goodbyes like Eos's unsubscribe go out
+      const driver = this.drivers.get(softwareId)
+      if (driver?.disconnect && connection.connected) {
+        try {
+          await driver.disconnect(this.driverContext(connection))
+        } catch (error: any) {
+          console.warn(`⚠️ ${connection.name} did not take its goodbye: ${error?.message || error}`)
+        }
+      }
+
+      // Offline before the transports close so the TCP close handler doesn't report it twice
+      connection.connected = false
+
+      if (softwareId === 'qlab' && this.qlabClient) {
+        this.qlabClient.close()
+        this.releaseQLab()
+      }
+
+      if (connection.tcpClient) {
+        connection.tcpClient.close()
+        connection.tcpClient = undefined
+      }
+
+      if (connection.oscPort) {
+        connection.oscPort.close()
+        connection.oscPort = undefined
+      }
+
+      if (connection.websocket) {
+        connection.websocket.close()
+        connection.websocket = undefined
+      }
+
+      if (this.dmxConnectionId === softwareId) {
+        if (this.dmxOutput) this.dmxOutput.stop()
+        this.dmxOutput = null
+        this.dmxConnectionId = null
+      }
+
+      if (connection.protocol === 'MIDI' && this.midiOutput) {
+        await this.midiOutput.close()
+        this.midiOutput = null
+      }
+
+      connection.connected = false
+      connection.lastPing = 0
+
+      this.notifyConnectionChange(softwareId, false)
+
+      console.log(`🔌 Disconnected from ${connection.name}`)
+    } catch (error) {
+      console.error(`Error disconnecting from ${connection.name}:`, error)
+    }
+  }
+
+  // Ping connections to maintain health
+  private async pingConnection(softwareId: string): Promise<void> {
+    const connection = this.connections.get(softwareId)
+    if (!connection?.connected) return
+    // Protocol outputs have nothing to ask; a running output is healthy
+    if (connection.protocol !== 'OSC') {
+      const running = connection.protocol === 'MIDI'
+        ? !!this.midiOutput && this.midiOutput.getTransport().isOpen()
+        : this.dmxConnectionId === softwareId && !!this.dmxOutput && this.dmxOutput.isRunning()
+      if (running) connection.lastPing = Date.now()
+      return
+    }
+    if (!connection.oscPort && !connection.tcpClient && !(softwareId === 'qlab' && this.qlabClient)) return
+
+    try {
+      // Each driver knows what its software answers to
+      const driver = this.drivers.get(softwareId)
+      if (driver) await driver.probe(this.driverContext(connection))
+
+      connection.lastPing = Date.now()
+    } catch (error) {
+      console.error(`Ping failed for ${connection.name}:`, error)
+      connection.connected = false
+      
+      this.notifyConnectionChange(softwareId, false)
+    }
+  }
+
+  // Core OSC message sending
+  private async sendOSC(connection: SoftwareConnection, message: OSCMessage, cause: MessageCause, journalled: boolean): Promise<void> {
+    if ((!connection.oscPort && !connection.tcpClient) || !connection.connected) {
+      const error = new Error(`${connection.name} not connected`)
+      if (journalled) this.recordOSC(connection.id, message, cause, 'failed', { error: error.message })
+      throw error
+    }
+
+    try {
+      // Encoded here, like bundles, so the type tags are the ones the journal records
+      if (connection.tcpClient) {
+        connection.tcpClient.send(message)
+      } else {
+        connection.oscPort!.sendRaw(encodeOSCPacket(message))
+      }
+      if (journalled) this.recordOSC(connection.id, message, cause, 'sent')
+      
+      if (this.onMessage) {
+        this.onMessage(connection.name, `SENT: ${message.address} ${journalArgs(message.args).join(' ')}`)
+      }
+      
+      console.log(`📤 Sent to ${connection.name}:`, message.address, message.args)
+    } catch (error: any) {
+      if (journalled) this.recordOSC(connection.id, message, cause, 'failed', { error: error?.message || String(error) })
+      console.error(`Failed to send OSC to ${connection.name}:`, error)
+      throw error
+    }
+  }
+
+  private recordOSC(
+    target: string,
+    message: OSCMessage,
+    cause: MessageCause,
+    result: JournalEntry['result'],
+    details: Pick<JournalEntry, 'latencyMs' | 'reply' | 'error'> = {}
+  ): void {
+    this.journal.record({ target, protocol: 'OSC', address: message.address, args: journalArgs(message.args), cause, result, ...details })
+  }
+
+  // Send a bundle as a single datagram so the receiver applies every message
+  // at the bundle's timetag (e.g. a whole mood change scheduled together)
+  async sendBundle(softwareId: string, bundle: OSCBundle, cause: MessageCause = 'system'): Promise<void> {
+    const connection = this.connections.get(softwareId)
+    const messages = flattenPacket(bundle)
+    if (!connection?.connected) {
+      const error = `${connection?.name || softwareId} not connected`
+      messages.forEach(message => this.recordOSC(softwareId, message, cause, 'failed', { error }))
+      throw new Error(error)
+    }
+
+    if (this.mockMode) {
+      messages.forEach(message => this.recordOSC(softwareId, message, cause, 'mock'))
+      console.log(`[${softwareId.toUpperCase()} MOCK] bundle`, messages.map(m => m.address))
+      if (this.onMessage) {
+        this.onMessage(softwareId, `#bundle (${messages.length} messages)`)
+      }
+      return
+    }
+
+    if (!connection.oscPort && !connection.tcpClient) {
+      const error = `${connection.name} not connected`
+      messages.forEach(message => this.recordOSC(softwareId, message, cause, 'failed', { error }))
+      throw new Error(error)
+    }
+
+    try {
+      if (connection.tcpClient) {
+        connection.tcpClient.send(bundle)
+      } else {
+        connection.oscPort!.sendRaw(encodeOSCPacket(bundle))
+      }
+      messages.forEach(message => this.recordOSC(softwareId, message, cause, 'sent'))
+
+      if (this.onMessage) {
+        this.onMessage(connection.name, `SENT: #bundle ${messages.map(m => m.address).join(' ')}`)
+      }
+
+      console.log(`📦 Sent bundle to ${connection.name}:`, messages.length, 'messages')
+    } catch (error: any) {
+      messages.forEach(message => this.recordOSC(softwareId, message, cause, 'failed', { error: error?.message || String(error) }))
+      console.error(`Failed to send OSC bundle to ${connection.name}:`, error)
+      throw error
+    }
+  }
+
+  // TouchOSC operator surface: moods the layout's buttons map to, and
+  // feedback for its faders, labels and LEDs
+  setSurfaceMoods(moods: string[]): void {
+    const driver = this.driverFor<TouchOSCDriver>('touchosc')
+    if (driver) driver.setMoods(moods)
+  }
+
+  async updateSurface(state: SurfaceState): Promise<void> {
+    if (!this.connections.get('touchosc')?.connected) return
+    await this.sendBundle('touchosc', createBundle(surfaceFeedback(state)))
+  }
+
+  // QLab workspace introspection; needs the TCP connection
+  getQLabWorkspace(): QLabWorkspaceSnapshot | null {
+    return this.qlabWorkspace ? this.qlabWorkspace.get() : null
+  }
+
+  async refreshQLabWorkspace(): Promise<QLabWorkspaceSnapshot> {
+    if (!this.qlabWorkspace) {
+      throw new Error('QLab workspace introspection needs a TCP connection to QLab')
+    }
+    return this.qlabWorkspace.refresh()
+  }
+
+  getResolumeComposition(): ResolumeComposition | null {
+    const driver = this.driverFor<ResolumeDriver>('resolume')
+    return driver ? driver.getComposition() : null
+  }
+
+  async refreshResolumeComposition(): Promise<ResolumeComposition> {
+    const driver = this.driverFor<ResolumeDriver>('resolume')
+    if (!driver) {
+      throw new Error('Resolume not configured')
+    }
+    return driver.refreshComposition()
+  }
+
+  // Eos show state; follows the console once the connection subscribes
+  getEosState(): EosShowState | null {
+    const driver = this.driverFor<EosDriver>('eos')
+    return driver ? driver.getState() : null
+  }
+
+  // Ableton song state; listened to and re-read over AbletonOSC
+  getAbletonSong(): AbletonSongState | null {
+    const driver = this.driverFor<AbletonDriver>('ableton')
+    return driver ? driver.getSong() : null
+  }
+
+  // Replies arrive asynchronously through onAbletonSong
+  async refreshAbletonSong(): Promise<void> {
+    const connection = this.connections.get('ableton')
+    const driver = this.driverFor<AbletonDriver>('ableton')
+    if (!connection?.connected || !driver) {
+      throw new Error('Ableton Live not connected')
+    }
+    await driver.refresh(this.driverContext(connection))
+  }
+
+  // OSCQuery: read a device's namespace and follow its writable parameters
+  async browseOSCQuery(host: string, port: number): Promise<OSCQueryDevice> {
+    const id = `${host}:${port}`
+    let client = this.oscQueryClients.get(id)
+    if (!client) {
+      const created = new OSCQueryClient({ host, port })
+      const notify = () => {
+        const device = created.getDevice()
+        if (device && this.onOSCQueryDeviceChange) this.onOSCQueryDeviceChange(device)
+      }
+      created.onNamespaceChange(notify)
+      created.onValue(notify)
+      this.oscQueryClients.set(id, created)
+      client = created
+    }
+
+    const device = await client.refresh()
+    if (device.hostInfo.extensions.LISTEN) {
+      const addresses = device.parameters.filter(p => p.access !== 'none').map(p => p.address)
+      client.listen(addresses).catch(error => {
+        console.warn(`⚠️ OSCQuery LISTEN failed for ${id}: ${error.message}`)
+      })
+    }
+    return device
+  }
+
+  getOSCQueryDevices(): OSCQueryDevice[] {
+    return Array.from(this.oscQueryClients.values())
+      .map(client => client.getDevice())
+      .filter((device): device is OSCQueryDevice => device !== null)
+  }
+
+  forgetOSCQueryDevice(id: string): void {
+    const client = this.oscQueryClients.get(id)
+    if (client) client.close()
+    this.oscQueryClients.delete(id)
+  }
+
+  async applyParameterTargets(targets: OSCQueryMoodTarget[], cause: MessageCause = 'operator'): Promise<void> {
+    for (const target of targets) {
+      const message: OSCMessage = { address: target.address, args: [target.value] }
+      const client = this.oscQueryClients.get(target.device)
+      if (!client) {
+        this.recordOSC(target.device, message, cause, 'failed', { error: 'OSCQuery device not browsed' })
+        console.warn(`⚠️ OSCQuery device ${target.device} not browsed; skipping ${target.address}`)
+        continue
+      }
+      try {
+        await client.setValue(target.address, target.value)
+        this.recordOSC(target.device, message, cause, 'sent')
+        if (this.onMessage) this.onMessage(target.device, `${target.address} ${target.value}`)
+      } catch (error: any) {
+        this.recordOSC(target.device, message, cause, 'failed', { error: error?.message || String(error) })
+        console.error(`Failed to set ${target.address} on ${target.device}:`, error)
+      }
+    }
+  }
+
+  // Continuous parameter stream to generative tools; independent of the connections
+  async configureParameterStream(config: ParameterStreamConfig): Promise<void> {
+    await this.parameterStream.configure(config)
+  }
+
+  updateParameterStream(values: StreamValues): void {
+    this.parameterStream.update(values)
+  }
+
+  // Inbound control API for show controllers; commands go to the onControlCommand callback
+  async startControlServer(port?: number): Promise<void> {
+    if (this.controlServer) return
+    const server = new ControlServer({ port })
+    server.onCommand(command => this.onControlCommandCallback ? this.onControlCommandCallback(command) : false)
+    await server.start()
+    this.controlServer = server
+  }
+
+  getControlPort(): number | null {
+    return this.controlServer ? this.controlServer.getPort() : null
+  }
+
+  setControlState(state: ControlState): void {
+    if (this.controlServer) this.controlServer.setState(state)
+  }
+
+  onControlCommand(callback: (command: ControlCommand) => boolean): void {
+    this.onControlCommandCallback = callback
+  }
+
+  // Webhook outbox; events before it starts are dropped
+  async startWebhookOutbox(filePath: string): Promise<void> {
+    if (this.outbox) return
+    const outbox = new WebhookOutbox({ filePath })
+    outbox.onChange((snapshot) => {
+      if (this.onWebhookOutboxChange) this.onWebhookOutboxChange(snapshot)
+    })
+    await outbox.load()
+    this.outbox = outbox
+  }
+
+  emitEvent(type: WebhookEventType, data: Record<string, any>): void {
+    if (this.outbox) this.outbox.emit(type, data)
+  }
+
+  configureWebhooks(endpoints: WebhookEndpointUpdate[]): WebhookOutboxSnapshot | null {
+    return this.outbox ? this.outbox.configure(endpoints) : null
+  }
+
+  retryWebhook(deliveryId?: string): void {
+    if (this.outbox) this.outbox.retryDeadLetter(deliveryId)
+  }
+
+  discardWebhook(deliveryId?: string): void {
+    if (this.outbox) this.outbox.discardDeadLetter(deliveryId)
+  }
+
+  getWebhookOutbox(): WebhookOutboxSnapshot | null {
+    return this.outbox ? this.outbox.getSnapshot() : null
+  }
+
+  onWebhookOutbox(callback: (snapshot: WebhookOutboxSnapshot) => void): void {
+    this.onWebhookOutboxChange = callback
+  }
+
+  // Fixture profiles from the OFL and GDTF files in one directory
+  async startFixtureLibrary(directory: string): Promise<void> {
+    if (this.fixtures) return
+    const fixtures = new FixtureLibrary(directory)
+    fixtures.onChange((snapshot) => {
+      if (this.onFixtureLibraryChange) this.onFixtureLibraryChange(snapshot)
+      // Conflicts depend on footprints, which change with the profiles
+      this.emitPatch()
+    })
+    await fixtures.load()
+    this.fixtures = fixtures
+  }
+
+  async importFixture(fileName: string, data: Buffer): Promise<FixtureProfile> {
+    if (!this.fixtures) throw new Error('Fixture library not running')
+    return this.fixtures.import(fileName, data)
+  }
+
+  async removeFixture(id: string): Promise<void> {
+    if (!this.fixtures) throw new Error('Fixture library not running')
+    await this.fixtures.remove(id)
+  }
+
+  getFixtureLibrary(): FixtureLibrarySnapshot | null {
+    return this.fixtures ? this.fixtures.getSnapshot() : null
+  }
+
+  onFixtureLibrary(callback: (snapshot: FixtureLibrarySnapshot) => void): void {
+    this.onFixtureLibraryChange = callback
+  }
+
+  // Fixture patch: patched fixtures are driven directly over Art-Net or sACN
+  // Before anything starts an sACN sender
+  async startSACNIdentity(filePath: string): Promise<void> {
+    this.sacnCID = await loadOrCreateCID(filePath)
+  }
+
+  async startFixturePatch(filePath: string): Promise<void> {
+    if (this.patchFile) return
+    const patchFile = new PatchFile(filePath)
+    await patchFile.load()
+    this.patchFile = patchFile
+    await this.startPatchOutput()
+    this.emitPatch()
+  }
+
+  async configurePatch(patch: FixturePatch): Promise<FixturePatchSnapshot> {
+    if (!this.patchFile) throw new Error('Fixture patch not running')
+    this.patchFile.save(patch)
+    await this.startPatchOutput()
+    this.emitPatch()
+    return this.getFixturePatch() as FixturePatchSnapshot
+  }
+
+  getFixturePatch(): FixturePatchSnapshot | null {
+    if (!this.patchFile) return null
+    const patch = this.patchFile.getPatch()
+    return {
+      filePath: this.patchFile.getFilePath(),
+      patch,
+      conflicts: patchConflicts(patch, this.patchProfiles(), this.patchReserved(patch.output.protocol))
+    }
+  }
+
+  onFixturePatch(callback: (snapshot: FixturePatchSnapshot) => void): void {
+    this.onPatchChange = callback
+  }
+
+  private emitPatch(): void {
+    const snapshot = this.getFixturePatch()
+    if (snapshot && this.onPatchChange) this.onPatchChange(snapshot)
+  }
+
+  private patchProfiles(): FixtureProfile[] {
+    return this.fixtures ? this.fixtures.getSnapshot().profiles : []
+  }
+
+  // Two senders on one universe would fight at the receiver, so the connected
+  // lighting output keeps its universe and the patch fixtures there conflict
+  private patchReserved(protocol: PatchOutputConfig['protocol']): PatchReservedUniverse[] {
+    const connection = this.getDMXConnection()
+    if (!connection || connection.protocol !== protocol) return []
+    return [{ universe: this.getDMXUniverse(connection), owner: connection.name }]
+  }
+
+  private startPatchOutput(): Promise<void> {
+    const next = this.patchOutputQueue.then(() => this.restartPatchOutput())
+    this.patchOutputQueue = next.catch(() => undefined)
+    return next
+  }
+
+  // (Re)starts the transport to match the patch; universes follow the fixtures
+  private async restartPatchOutput(): Promise<void> {
+    const patchFile = this.patchFile
+    const patch = patchFile ? patchFile.getPatch() : null
+    const wanted = patch && patch.output.enabled && patch.fixtures.length > 0 && !this.mockMode ? patch.output : null
+    const running = this.patchOutput
+    const sameProtocol = running && wanted && (running instanceof SACNSender) === (wanted.protocol === 'sACN')
+
+    if (running && !sameProtocol) {
+      running.stop()
+      this.patchOutput = null
+    }
+    if (!patch || !wanted) return
+
+    let created: DMXOutput | null = null
+    try {
+      if (!this.patchOutput) {
+        created = wanted.protocol === 'sACN' ? new SACNSender({ cid: this.sacnCID }) : new ArtNetNode()
+        await created.start()
+        // destroy() ran while the socket was opening
+        if (this.patchFile !== patchFile) {
+          created.stop()
+          return
+        }
+        this.patchOutput = created
+        console.log(`🗺️ Patch output on ${wanted.protocol}${wanted.host ? ` to ${wanted.host}` : ''}`)
+      }
+      const output = this.patchOutput
+      // Fixtures on universes the protocol can't carry, or that the lighting
+      // output already sends, show up as patch conflicts
+      const reserved = this.patchReserved(wanted.protocol).map(r => r.universe)
+      const universes = patch.fixtures
+        .map(fixture => fixture.universe)
+        .filter(universe => universeInRange(wanted.protocol, universe) && reserved.indexOf(universe) < 0)
+      output.getUniverses().forEach(universe => {
+        if (universes.indexOf(universe) < 0) output.removeUniverse(universe)
+      })
+      // Re-adding picks up a changed host
+      universes.forEach(universe => output.addUniverse(universe, wanted.host))
+    } catch (error: any) {
+      console.error(`❌ Patch output failed to start: ${error.message}`)
+      // A half-started output would keep its socket and refresh timer
+      const failed = this.patchOutput || created
+      if (failed) failed.stop()
+      this.patchOutput = null
+    }
+  }
+
+  // Whole footprints of every patched fixture go into the universe buffers;
+  // the transport streams them on its next refresh
+  private async writePatch(lighting: any, faded: Partial<FixtureIntent>, cause: MessageCause, journalled: boolean): Promise<void> {
+    const patch = this.patchFile ? this.patchFile.getPatch() : null
+    if (!patch || !patch.output.enabled || patch.fixtures.length === 0 || !lighting) return
+
+    const frame = renderPatch(patch, this.patchProfiles(), lighting, faded)
+    Object.keys(frame).map(Number).forEach(universe => {
+      const values = frame[universe]
+      const channels = Object.keys(values).map(Number)
+      const record = (result: JournalEntry['result'], error?: string) => {
+        if (journalled || result === 'failed') {
+          this.journal.record({ target: 'patch', protocol: 'DMX', address: `U${universe}`, args: [`${channels.length} channels`], cause, result, error })
+        }
+      }
+
+      if (!universeInRange(patch.output.protocol, universe)) {
+        record('failed', `No universe ${universe} on ${patch.output.protocol}`)
+        return
+      }
+      const taken = this.patchReserved(patch.output.protocol).find(r => r.universe === universe)
+      if (taken) {
+        record('failed', `Universe ${universe} is sent by ${taken.owner}`)
+        return
+      }
+      if (this.mockMode) {
+        record('mock')
+        return
+      }
+      if (!this.patchOutput) {
+        record('failed', `${patch.output.protocol} output not running`)
+        return
+      }
+      const data = new Array(DMX_UNIVERSE_SIZE)
+      const current = this.patchOutput.getUniverseData(universe)
+      for (let channel = 1; channel <= DMX_UNIVERSE_SIZE; channel++) {
+        data[channel - 1] = values[channel] !== undefined ? values[channel] : current ? current[channel - 1] : 0
+      }
+      this.patchOutput.setChannels(universe, 1, data)
+      record('sent')
+    })
+  }
+
+  // Start the DMX-over-IP output for a lighting connection. Only one output
+  // runs at a time; connecting another lighting target replaces it.
+  private async connectDMX(connection: SoftwareConnection): Promise<boolean> {
+    if (this.dmxConnectionId && this.dmxConnectionId !== connection.id) {
+      await this.disconnect(this.dmxConnectionId)
+    }
+
+    const universe = this.getDMXUniverse(connection)
+    try {
+      if (!this.dmxOutput) {
+        const output = connection.protocol === 'sACN' ? new SACNSender({ cid: this.sacnCID }) : new ArtNetNode()
+        this.dmxOutput = output
+        await output.start()
+      }
+      this.dmxConnectionId = connection.id
+      if (this.dmxOutput instanceof SACNSender) {
+        // A multicast address keeps the universe on multicast; a node IP unicasts
+        this.dmxOutput.addUniverse(universe, connection.ip, connection.priority)
+      } else {
+        // Unicast the lighting universe to the console/node for this connection
+        this.dmxOutput.addUniverse(universe, connection.ip)
+      }
+    } catch (error) {
+      // A half-started output would keep its socket and refresh timer
+      if (this.dmxOutput) this.dmxOutput.stop()
+      this.dmxOutput = null
+      this.dmxConnectionId = null
+      throw error
+    }
+
+    connection.connected = true
+    connection.lastPing = Date.now()
+    this.notifyConnectionChange(connection.id, true)
+
+    console.log(`💡 ${connection.protocol} output to ${connection.name} at ${connection.ip} (universe ${universe})`)
+    return true
+  }
+
+  private getDMXUniverse(connection: SoftwareConnection): number {
+    if (connection.universe !== undefined) return connection.universe
+    return connection.protocol === 'sACN' ? SACN_UNIVERSE : DMX_UNIVERSE
+  }
+
+  // The connected lighting target driven directly over Art-Net or sACN, if any
+  private getDMXConnection(): SoftwareConnection | null {
+    const connection = this.dmxConnectionId ? this.connections.get(this.dmxConnectionId) : undefined
+    return connection && connection.connected ? connection : null
+  }
+
+  // Send DMX data to lighting
+  async sendDMX(channel: number, value: number, universe?: number, cause: MessageCause = 'system'): Promise<void> {
+    await this.writeDMX({ [channel]: value }, universe, cause)
+  }
+
+  // Write channel values into the universe buffer; the output streams the
+  // whole universe on its next refresh instead of one packet per channel
+  async writeDMX(values: { [channel: number]: number }, universe?: number, cause: MessageCause = 'system', journalled = true): Promise<void> {
+    const connection = this.getDMXConnection()
+    const channels = Object.keys(values).map(Number)
+    const args = channels.map(ch => `Ch${ch}=${values[ch]}`)
+    const record = (target: string, address: string, result: JournalEntry['result'], error?: string) => {
+      if (journalled || result === 'failed') this.journal.record({ target, protocol: 'DMX', address, args, cause, result, error })
+    }
+
+    if (!connection) {
+      record('dmx', universe !== undefined ? `U${universe}` : 'U?', 'failed', 'Lighting controller not connected')
+      throw new Error('Lighting controller not connected')
+    }
+
+    const targetUniverse = universe !== undefined ? universe : this.getDMXUniverse(connection)
+
+    if (this.mockMode) {
+      record(connection.id, `U${targetUniverse}`, 'mock')
+      if (journalled) {
+        console.log(`[DMX MOCK] Universe ${targetUniverse}: ${args.join(' ')}`)
+        if (this.onMessage) this.onMessage(connection.id, `DMX U${targetUniverse} ${args.join(' ')}`)
+      }
+      return
+    }
+
+    const output = this.dmxOutput
+    if (!output) {
+      record(connection.id, `U${targetUniverse}`, 'failed', `${connection.protocol} output not running`)
+      throw new Error(`${connection.protocol} output not running`)
+    }
+
+    channels.forEach(ch => output.setChannel(targetUniverse, ch, values[ch]))
+    record(connection.id, `U${targetUniverse}`, 'sent')
+  }
+
+  // The generic fixture's whole footprint goes out together in the next universe refresh
+  async applyMoodToLighting(moodRecommendation: any, cause: MessageCause = 'operator'): Promise<void> {
+    const { lighting } = moodRecommendation.softwareRecommendations
+    if (!lighting) return
+
+    try {
+      await this.writeDMX(this.fixtureDMX(lightingIntent(lighting)), undefined, cause)
+    } catch (error) {
+      console.error('Failed to apply mood to lighting:', error)
+    }
+  }
+
+  // One fade step; only the first and last land in the journal.
+  // A mood without a colour leaves the colour channels where they are.
+  private async writeDMXFrame(frame: TransitionFrame, cause: MessageCause): Promise<void> {
+    const color = rgbHex(frame.values)
+    const intensity = frame.values['lighting.intensity']
+    const values = this.fixtureDMX(
+      { intensity: intensity !== undefined ? intensity : 1, color: color || undefined, cct: frame.values['lighting.cct'] },
+      attribute => attribute === 'dimmer' ? intensity !== undefined : !!color && FADED_ATTRIBUTES.indexOf(attribute) >= 0
+    )
+    if (Object.keys(values).length === 0) return
+    await this.writeDMX(values, undefined, cause, frame.first || frame.last)
+  }
+
+  // The generic fixture's footprint, from DMX_CHANNELS.INTENSITY on, in the
+  // colour profile of the lighting connection
+  private fixtureDMX(intent: FixtureIntent, include: (attribute: FixtureAttribute) => boolean = () => true): { [channel: number]: number } {
+    const mode = GENERIC_FIXTURE.modes[0]
+    const connection = this.getDMXConnection()
+    const values = renderFixture(intent, mode, connection?.colorProfile || GENERIC_FIXTURE.colorProfile)
+    return mode.channels.reduce((dmx, channel, i) => {
+      if (include(channel.attribute)) dmx[DMX_CHANNELS.INTENSITY + i] = values[i]
+      return dmx
+    }, {} as { [channel: number]: number })
+  }
+
+  // Open the MIDI output over RTP-MIDI or a virtual port, or over a transport
+  // supplied with setMIDITransport() (capture file)
+  private async connectMIDI(connection: SoftwareConnection): Promise<boolean> {
+    const transport = this.midiTransportOverride || (connection.midiTransport === 'virtual'
+      ? new VirtualPortTransport(null, connection.name)
+      : new RTPMIDITransport(connection.ip, connection.port, 'MOOD', connection.localPort || 0))
+    const output = new MIDIOutput(transport, { deviceId: connection.deviceId })
+    output.onMessage((_, description) => {
+      this.journal.record({ target: connection.id, protocol: 'MIDI', address: description, args: [], cause: this.midiCause, result: 'sent' })
+      if (this.onMessage) this.onMessage(connection.name, description)
+    })
+    await output.open()
+    this.midiOutput = output
+
+    connection.connected = true
+    connection.lastPing = Date.now()
+    this.notifyConnectionChange(connection.id, true)
+
+    console.log(`🎹 MIDI output to ${connection.name} via ${transport.name}`)
+    return true
+  }
+
+  setMIDITransport(transport: MIDITransport | null): void {
+    this.midiTransportOverride = transport
+  }
+
+  getMIDIOutput(): MIDIOutput | null {
+    return this.midiOutput
+  }
+
+  async applyMoodToMIDI(moodRecommendation: any, cause: MessageCause = 'operator'): Promise<void> {
+    const { midi } = moodRecommendation.softwareRecommendations
+    const connection = this.connections.get('midi')
+    if (!midi || !connection?.connected) return
+
+    try {
+      if (this.mockMode) {
+        this.journal.record({ target: 'midi', protocol: 'MIDI', address: 'mapping', args: [JSON.stringify(midi)], cause, result: 'mock' })
+        console.log('[MIDI MOCK]', midi)
+        if (this.onMessage) {
+          this.onMessage('midi', `MSC x${(midi.msc || []).length} CC x${(midi.cc || []).length} Notes x${(midi.notes || []).length}`)
+        }
+        return
+      }
+
+      if (!this.midiOutput) {
+        throw new Error('MIDI output not open')
+      }
+      this.midiCause = cause
+      await this.midiOutput.applyMapping(midi)
+    } catch (error: any) {
+      this.journal.record({ target: 'midi', protocol: 'MIDI', address: 'mapping', args: [], cause, result: 'failed', error: error?.message || String(error) })
+      console.error('Failed to apply mood to MIDI:', error)
+    }
+  }
+
+  // MSC STOP with no cue number stops everything on the addressed device
+  private async stopMIDI(cause: MessageCause): Promise<void> {
+    if (this.mockMode) {
+      this.journal.record({ target: 'midi', protocol: 'MIDI', address: 'MSC STOP (all)', args: [], cause, result: 'mock' })
+      console.log('[MIDI MOCK] MSC STOP (all)')
+      return
+    }
+    if (this.midiOutput) {
+      this.midiCause = cause
+      await this.midiOutput.stop()
+    }
+  }
+
+  // Outbound message journal, oldest first
+  getJournal(): JournalEntry[] {
+    return this.journal.getEntries()
+  }
+
+  clearJournal(): void {
+    this.journal.clear()
+  }
+
+  onJournalEntry(callback: (entry: JournalEntry) => void): void {
+    this.journal.onEntry(callback)
+  }
+
+  // Venue MQTT broker: state out as retained topics, commands and sensor readings in
+  configureMQTT(config: MQTTConfig): void {
+    this.mqtt.configure(config)
+  }
+
+  updateMQTTState(state: MQTTMoodState): void {
+    this.mqtt.updateState(state)
+  }
+
+  getMQTTStatus(): MQTTStatus {
+    return this.mqtt.getStatus()
+  }
+
+  onMQTTStatus(callback: (status: MQTTStatus) => void): void {
+    this.onMQTTStatusChange = callback
+  }
+
+  onSensorReading(callback: (reading: SensorReading) => void): void {
+    this.onSensorReadingCallback = callback
+  }
+
+  // QLab Commands. Over TCP this resolves with QLab's reply (status and data);
+  // over UDP QLab doesn't answer, so it resolves with null.
+  async sendToQLab(command: string, args: OSCArgument[] = [], cause: MessageCause = 'system', journalled = true): Promise<QLabReply | null> {
+    const message: OSCMessage = { address: command, args }
+    const connection = this.connections.get('qlab')
+    if (!connection?.connected) {
+      if (journalled) this.recordOSC('qlab', message, cause, 'failed', { error: 'QLab not connected' })
+      throw new Error('QLab not connected')
+    }
+
+    if (this.mockMode) {
+      if (journalled) this.recordOSC('qlab', message, cause, 'mock')
+      console.log(`[QLAB MOCK] ${command}`, args)
+      if (this.onMessage) {
+        this.onMessage('qlab', `${command} ${journalArgs(args).join(' ')}`)
+      }
+      return { address: command, status: 'ok' }
+    }
+
+    if (this.qlabClient) {
+      const sentAt = Date.now()
+      let reply: QLabReply
+      try {
+        reply = await this.qlabClient.send(command, args)
+      } catch (error: any) {
+        if (journalled) this.recordOSC('qlab', message, cause, 'failed', { latencyMs: Date.now() - sentAt, error: error?.message || String(error) })
+        throw error
+      }
+      connection.lastPing = Date.now()
+      if (journalled) this.recordOSC('qlab', message, cause, 'replied', { latencyMs: connection.lastPing - sentAt, reply: reply.status })
+
+      if (this.onMessage) {
+        this.onMessage(connection.name, `SENT: ${command} ${journalArgs(args).join(' ')} → ${reply.status}`)
+      }
+      if (reply.status !== 'ok') {
+        console.warn(`⚠️ QLab replied ${reply.status} to ${command}`, reply.data)
+      }
+      return reply
+    }
+
+    await this.sendOSC(connection, message, cause, journalled)
+    return null
+  }
+
+  // Send to any connection by id. Transition frames between the first and
+  // last go out unjournalled so a long fade doesn't crowd out the journal.
+  async sendTo(softwareId: string, command: string, args: OSCArgument[] = [], cause: MessageCause = 'system', journalled = true): Promise<void> {
+    // QLab goes through its client so TCP replies are awaited
+    if (softwareId === 'qlab') {
+      await this.sendToQLab(command, args, cause, journalled)
+      return
+    }
+
+    const message: OSCMessage = { address: command, args }
+    const connection = this.connections.get(softwareId)
+    if (!connection?.connected) {
+      const error = `${connection?.name || softwareId} not connected`
+      if (journalled) this.recordOSC(softwareId, message, cause, 'failed', { error })
+      throw new Error(error)
+    }
+
+    if (this.mockMode) {
+      if (journalled) this.recordOSC(softwareId, message, cause, 'mock')
+      console.log(`[${softwareId.toUpperCase()} MOCK] ${command}`, args)
+      if (this.onMessage) {
+        this.onMessage(softwareId, `${command} ${journalArgs(args).join(' ')}`)
+      }
+      return
+    }
+
+    await this.sendOSC(connection, message, cause, journalled)
+  }
+
+  async sendToResolume(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('resolume', command, args)
+  }
+
+  async sendToTouchOSC(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('touchosc', command, args)
+  }
+
+  async sendToChamsys(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('chamsys', command, args)
+  }
+
+  async sendToGrandMA3(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('grandma3', command, args)
+  }
+
+  async sendToEos(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('eos', command, args)
+  }
+
+  async sendToAbleton(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('ableton', command, args)
+  }
+
+  async sendToMadMapper(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('madmapper', command, args)
+  }
+
+  async sendToMillumin(command: string, args: OSCArgument[] = []): Promise<void> {
+    await this.sendTo('millumin', command, args)
+  }
+
+  // Apply a mood through one connection's driver, or its protocol output
+  async applyMoodTo(softwareId: string, moodRecommendation: any, cause: MessageCause = 'operator'): Promise<void> {
+    const connection = this.connections.get(softwareId)
+    const driver = this.drivers.get(softwareId)
+    if (connection?.connected && DMX_PROTOCOLS.indexOf(connection.protocol) >= 0) {
+      await this.applyMoodToLighting(moodRecommendation, cause)
+      return
+    }
+    if (connection?.connected && connection.protocol === 'MIDI') {
+      await this.applyMoodToMIDI(moodRecommendation, cause)
+      return
+    }
+    if (!connection?.connected || !driver) return
+
+    try {
+      await driver.applyMood(this.driverContext(connection, cause), moodRecommendation)
+    } catch (error) {
+      console.error(`Failed to apply mood to ${connection.name}:`, error)
+    }
+  }
+
+  // Apply complete mood to all connected software
+  // With transitions on, drivers apply the discrete part at once and the
+  // engine fades the continuous values in over the mapping's fade times
+  async applyMoodRecommendation(moodRecommendation: any, cause: MessageCause = 'operator'): Promise<void> {
+    const fading = this.transitions.getConfig().enabled
+    const discrete = fading ? withoutTransitionValues(moodRecommendation) : moodRecommendation
+    const promises: Promise<void>[] = Array.from(this.drivers.keys())
+      .map(id => this.applyMoodTo(id, discrete, cause))
+
+    // The patch and the lighting connection fade with the engine's frames
+    // when the mood fades lighting at all
+    const lighting = moodRecommendation.softwareRecommendations.lighting
+    const lightingFades = fading && Object.keys(transitionTargets(moodRecommendation.softwareRecommendations, this.transitions.getConfig()).values)
+      .some(channel => channel.indexOf('lighting.') === 0)
+    if (!lightingFades) promises.push(this.writePatch(lighting, {}, cause, true))
+
+    if (lighting && this.getDMXConnection()) {
+      promises.push(lightingFades
+        ? this.writeDMX(this.fixtureDMX(lightingIntent(lighting), attribute => FADED_ATTRIBUTES.indexOf(attribute) < 0), undefined, cause)
+        : this.applyMoodToLighting(moodRecommendation, cause))
+    }
+
+    // MIDI has nothing to fade; cues and controllers go out as the mood changes
+    promises.push(this.applyMoodToMIDI(moodRecommendation, cause))
+
+    if (fading) {
+      this.pendingFollow = null
+      this.transitions.start(moodRecommendation.recommendedMood, moodRecommendation.softwareRecommendations,
+        frame => this.applyTransitionFrame(moodRecommendation, frame, cause))
+    }
+
+    const parameters: OSCQueryMoodTarget[] | undefined = moodRecommendation.softwareRecommendations.parameters
+    if (parameters && parameters.length > 0) {
+      promises.push(this.applyParameterTargets(parameters, cause))
+    }
+
+    try {
+      await Promise.all(promises)
+      console.log(`🎭 Applied ${moodRecommendation.recommendedMood} mood to all connected software`)
+    } catch (error) {
+      console.error('Failed to apply mood to some software:', error)
+    }
+  }
+
+  // Continuous values only, through the transition engine: outputs follow a
+  // mood's curves between mood changes without cues or clips firing again.
+  // A crossfade in progress isn't cut short; the follow waits for it to land.
+  followMood(moodRecommendation: any, cause: MessageCause = 'operator'): void {
+    const status = this.transitions.getStatus()
+    if (status && status.active) {
+      this.pendingFollow = { moodRecommendation, cause }
+      return
+    }
+    this.pendingFollow = null
+    this.transitions.start(moodRecommendation.recommendedMood, moodRecommendation.softwareRecommendations,
+      frame => this.applyTransitionFrame(moodRecommendation, frame, cause))
+  }
+
+  private async applyTransitionFrame(moodRecommendation: any, frame: TransitionFrame, cause: MessageCause): Promise<void> {
+    const journalled = frame.first || frame.last
+    const promises: Promise<void>[] = []
+    this.connections.forEach((connection, id) => {
+      const driver = this.drivers.get(id)
+      if (!connection.connected || !driver?.applyFrame) return
+      promises.push(driver.applyFrame(this.driverContext(connection, cause, journalled), frame, moodRecommendation)
+        .catch(error => console.error(`Failed to apply transition frame to ${connection.name}:`, error)))
+    })
+
+    // Group overrides in the mapping apply on top of the fade, not through it
+    const { values } = frame
+    if (Object.keys(values).some(channel => channel.indexOf('lighting.') === 0)) {
+      const faded: Partial<FixtureIntent> = { intensity: values['lighting.intensity'], color: rgbHex(values) || undefined, cct: values['lighting.cct'] }
+      promises.push(this.writePatch(moodRecommendation.softwareRecommendations.lighting, faded, cause, journalled))
+      if (this.getDMXConnection()) {
+        promises.push(this.writeDMXFrame(frame, cause).catch(error => console.error('Failed to apply transition frame to lighting:', error)))
+      }
+    }
+    await Promise.all(promises)
+
+    if (frame.last && this.pendingFollow) {
+      const follow = this.pendingFollow
+      this.followMood(follow.moodRecommendation, follow.cause)
+    }
+  }
+
+  configureTransitions(config: TransitionConfig): void {
+    this.transitions.configure(config)
+  }
+
+  getTransitionStatus(): TransitionStatus | null {
+    return this.transitions.getStatus()
+  }
+
+  onTransitionStatus(callback: (status: TransitionStatus) => void): void {
+    this.transitions.onStatus(callback)
+  }
+
+  getDriver(softwareId: string): SoftwareDriver | null {
+    return this.drivers.get(softwareId) || null
+  }
+
+  // Status and monitoring
+  getConnections(): SoftwareConnection[] {
+    return Array.from(this.connections.values())
+  }
+
+  getDiscoveredDevices(): DiscoveredDevice[] {
+    return Array.from(this.discoveredDevices.values())
+  }
+
+  getConnectionStatus(softwareId: string): SoftwareConnection | null {
+    return this.connections.get(softwareId) || null
+  }
+
+  isConnected(softwareId: string): boolean {
+    return this.connections.get(softwareId)?.connected || false
+  }
+
+  // Event handlers
+  onConnectionStatusChange(callback: (id: string, connected: boolean) => void): void {
+    this.onConnectionChange = callback
+  }
+
+  onMessageSent(callback: (software: string, message: string) => void): void {
+    this.onMessage = callback
+  }
+
+  // Every OSC message received from a connection, with its arguments
+  onIncoming(callback: (softwareId: string, message: OSCMessage) => void): void {
+    this.onIncomingMessage = callback
+  }
+
+  onDeviceDiscovery(callback: (device: DiscoveredDevice) => void): void {
+    this.onDeviceDiscovered = callback
+  }
+
+  onDeviceLoss(callback: (id: string) => void): void {
+    this.onDeviceLost = callback
+  }
+
+  onQLabWorkspace(callback: (snapshot: QLabWorkspaceSnapshot) => void): void {
+    this.onQLabWorkspaceChange = callback
+  }
+
+  onResolumeComposition(callback: (composition: ResolumeComposition) => void): void {
+    const driver = this.driverFor<ResolumeDriver>('resolume')
+    if (driver) driver.onComposition(callback)
+  }
+
+  onEosState(callback: (state: EosShowState) => void): void {
+    const driver = this.driverFor<EosDriver>('eos')
+    if (driver) driver.onState(callback)
+  }
+
+  onAbletonSong(callback: (song: AbletonSongState) => void): void {
+    const driver = this.driverFor<AbletonDriver>('ableton')
+    if (driver) driver.onSong(callback)
+  }
+
+  // Fires on namespace changes and on every subscribed value update
+  onOSCQueryDevice(callback: (device: OSCQueryDevice) => void): void {
+    this.onOSCQueryDeviceChange = callback
+  }
+
+  onSurfaceCommand(callback: (command: SurfaceCommand) => void): void {
+    const driver = this.driverFor<TouchOSCDriver>('touchosc')
+    if (driver) driver.onCommand(callback)
+  }
+
+  // Emergency stop all software
+  async emergencyStopAll(cause: MessageCause = 'operator'): Promise<void> {
+    const promises: Promise<void>[] = []
+    // A fade still running would keep sending after the stop
+    this.transitions.cancel()
+    this.pendingFollow = null
+
+    this.connections.forEach((connection, id) => {
+      const driver = this.drivers.get(id)
+      if (connection.connected && driver) {
+        promises.push(driver.emergencyStop(this.driverContext(connection, cause)))
+      }
+    })
+
+    if (this.getDMXConnection()) {
+      promises.push(this.writeDMX({ [DMX_CHANNELS.INTENSITY]: 0, [DMX_CHANNELS.MASTER_INTENSITY]: 0 }, undefined, cause))
+    }
+
+    if (this.connections.get('midi')?.connected) {
+      promises.push(this.stopMIDI(cause))
+    }
+
+    this.blackoutPatch(cause)
+
+    try {
+      await Promise.all(promises)
+      console.log('🛑 Emergency stop sent to all connected software')
+    } catch (error) {
+      console.error('Emergency stop failed:', error)
+    }
+  }
+
+  // Every patched universe goes to zero, whatever channels the profiles have
+  private blackoutPatch(cause: MessageCause): void {
+    const patch = this.patchFile ? this.patchFile.getPatch() : null
+    if (!patch || !patch.output.enabled || patch.fixtures.length === 0) return
+    const output = this.patchOutput
+    const record = (address: string, result: JournalEntry['result'], error?: string) => {
+      this.journal.record({ target: 'patch', protocol: 'DMX', address, args: ['blackout'], cause, result, error })
+    }
+
+    if (this.mockMode) {
+      record('U*', 'mock')
+      return
+    }
+    if (!output) {
+      record('U*', 'failed', `${patch.output.protocol} output not running`)
+      return
+    }
+    output.getUniverses().forEach(universe => {
+      output.blackout(universe)
+      record(`U${universe}`, 'sent')
+    })
+  }
+
+  // Development and testing
+  setMockMode(enabled: boolean): void {
+    this.mockMode = enabled
+    console.log(`OSC Mock mode: ${enabled ? 'enabled' : 'disabled'}`)
+    this.startPatchOutput()
+  }
+
+  isMockMode(): boolean {
+    return this.mockMode
+  }
+
+  // Cleanup
+  destroy(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer)
+      this.healthTimer = undefined
+    }
+
+    this.parameterStream.stop()
+    this.transitions.cancel()
+    this.pendingFollow = null
+
+    if (this.controlServer) {
+      this.controlServer.stop()
+      this.controlServer = null
+    }
+    if (this.patchOutput) {
+      this.patchOutput.stop()
+      this.patchOutput = null
+    }
+    this.patchFile = null
+    this.mqtt.stop()
+    if (this.outbox) {
+      this.outbox.stop()
+      this.outbox = null
+    }
+
+    // Stop discovery
+    if (this.discovery) {
+      this.discovery.stop()
+      this.discovery = null
+    }
+
+    // Close all connections
+    this.connections.forEach(async (connection, id) => {
+      if (connection.connected) {
+        await this.disconnect(id)
+      }
+    })
+
+    console.log('🧹 OSCController cleanup completed')
+  }
+
+  // Connection health monitoring
+  startHealthMonitoring(intervalMs: number = 30000): void {
+    if (this.healthTimer) clearInterval(this.healthTimer)
+    this.healthTimer = setInterval(async () => {
+      for (const [id, connection] of Array.from(this.connections.entries())) {
+        if (connection.connected) {
+          // Check if last ping was too long ago
+          const timeSinceLastPing = Date.now() - connection.lastPing
+          
+          if (timeSinceLastPing > 60000) { // 1 minute timeout
+            console.warn(`⚠️ ${connection.name} appears unresponsive, attempting reconnection...`)
+            await this.disconnect(id)
+            setTimeout(() => {
+              this.connect(id)
+            }, 2000)
+          } else {
+            // Send ping
+            this.pingConnection(id)
+          }
+        }
+      }
+    }, intervalMs)
+  }
+
+  // Advanced connection management
+  async connectAll(): Promise<{ success: string[], failed: string[] }> {
+    const results = { success: [] as string[], failed: [] as string[] }
+    
+    for (const [id, connection] of Array.from(this.connections.entries())) {
+      try {
+        const connected = await this.connect(id)
+        if (connected) {
+          results.success.push(connection.name)
+        } else {
+          results.failed.push(connection.name)
+        }
+      } catch (error) {
+        console.error(`Failed to connect to ${connection.name}:`, error)
+        results.failed.push(connection.name)
+      }
+    }
+    
+    console.log(`🔗 Connection results: ${results.success.length} successful, ${results.failed.length} failed`)
+    return results
+  }
+
+  async disconnectAll(): Promise<void> {
+    const promises = Array.from(this.connections.keys()).map(id => this.disconnect(id))
+    await Promise.all(promises)
+    console.log('🔌 All connections disconnected')
+  }
+
+  // Configuration management
+  updateConnectionConfig(softwareId: string, config: Partial<SoftwareConnection>): boolean {
+    const connection = this.connections.get(softwareId)
+    if (!connection) return false
+
+    // Update connection properties
+    Object.assign(connection, config)
+    console.log(`🔧 Updated config for ${connection.name}`)
+    return true
+  }
+
+  addCustomSoftware(config: SoftwareConnection): void {
+    this.registerConnection({ ...config, connected: false, lastPing: 0 })
+    console.log(`➕ Added custom software: ${config.name}`)
+  }
+
+  removeSoftware(softwareId: string): void {
+    const connection = this.connections.get(softwareId)
+    if (connection?.connected) {
+      this.disconnect(softwareId)
+    }
+    this.connections.delete(softwareId)
+    this.drivers.delete(softwareId)
+    console.log(`➖ Removed software: ${softwareId}`)
+  }
+
+  // Statistics and monitoring
+  getConnectionStats() {
+    const stats = {
+      total: this.connections.size,
+      connected: 0,
+      disconnected: 0,
+      avgPingTime: 0,
+      protocols: new Map<string, number>()
+    }
+
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection.connected) {
+        stats.connected++
+      } else {
+        stats.disconnected++
+      }
+
+      // Count protocols
+      const currentCount = stats.protocols.get(connection.protocol) || 0
+      stats.protocols.set(connection.protocol, currentCount + 1)
+    }
+
+    return stats
+  }
+
+  // Batch commands for multiple software
+  async sendToMultipleSoftware(
+    softwareIds: string[], 
+    commands: { [key: string]: { command: string, args: OSCArgument[] } }
+  ): Promise<void> {
+    const promises: Promise<unknown>[] = []
+
+    for (const id of softwareIds) {
+      const connection = this.connections.get(id)
+      if (!connection?.connected || !commands[id]) continue
+
+      const { command, args } = commands[id]
+      promises.push(this.sendTo(id, command, args))
+    }
+
+    await Promise.all(promises)
+  }
+
+  // Professional logging
+  private log(level: 'info' | 'warn' | 'error', software: string, message: string, data?: any): void {
+    const timestamp = new Date().toISOString()
+    const logEntry = {
+      timestamp,
+      level,
+      software,
+      message,
+      data
+    }
+
+    // In production, this would go to a proper logging service
+    console.log(`[${timestamp}] [${level.toUpperCase()}] [${software}] ${message}`, data ? data : '')
+    
+    // Could emit events for external logging systems
+    // this.emit('log', logEntry)
+  }
+}
\ No newline at end of file
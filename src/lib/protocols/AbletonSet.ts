@@ -0,0 +1,146 @@
+// Ableton Live set model (AbletonOSC)
+// Tempo, transport, tracks, scenes and clip slot names as read back over
+// AbletonOSC, plus resolution of mapping references to the 0-based indices
+// AbletonOSC addresses everything by. Pure, so mappings can be checked
+// against a snapshot in the dashboard.
+import { OSCMessage, argumentValue } from './OSCCodec'
+
+// 0-based index, or a name (case-insensitive)
+export type AbletonRef = number | string
+
+export interface AbletonSongState {
+  tempo: number
+  isPlaying: boolean
+  tracks: string[]
+  scenes: string[]
+  clips: Record<number, Array<string | null>> // Track index → slot names, null for empty slots
+  updatedAt: number
+}
+
+// The ableton block of a mood mapping
+export interface AbletonMoodMapping {
+  tempo?: number | { min: number; max: number } // Fixed BPM, or scaled by mood energy
+  scene?: AbletonRef
+  clips?: Array<{ track: AbletonRef; clip: AbletonRef }>
+  tracks?: Array<{ track: AbletonRef; volume?: number; sends?: number[] }> // Levels 0-1; sends by index (A = 0)
+  play?: boolean
+}
+
+export interface ResolvedAbletonMapping {
+  tempo?: number
+  scene?: number
+  clips: Array<{ track: number; clip: number }>
+  tracks: Array<{ track: number; volume?: number; sends?: number[] }>
+  unresolved: string[]
+}
+
+export const ABLETON_REPLIES = {
+  TEMPO: '/live/song/get/tempo',
+  IS_PLAYING: '/live/song/get/is_playing',
+  NUM_SCENES: '/live/song/get/num_scenes',
+  TRACK_NAMES: '/live/song/get/track_names',
+  SCENE_NAME: '/live/scene/get/name',
+  CLIP_NAMES: '/live/track/get/clips/name'
+}
+
+// Live's own tempo limits
+export const ABLETON_TEMPO_RANGE = { min: 20, max: 999 }
+
+export function emptyAbletonSong(): AbletonSongState {
+  return { tempo: 0, isPlaying: false, tracks: [], scenes: [], clips: {}, updatedAt: 0 }
+}
+
+function values(message: OSCMessage): any[] {
+  return message.args.map(arg => argumentValue(arg))
+}
+
+// The new state if the message is a reply we track, otherwise null
+export function applyAbletonMessage(state: AbletonSongState, message: OSCMessage): AbletonSongState | null {
+  const args = values(message)
+  const updatedAt = Date.now()
+
+  switch (message.address) {
+    case ABLETON_REPLIES.TEMPO:
+      return { ...state, tempo: Number(args[0]) || 0, updatedAt }
+    case ABLETON_REPLIES.IS_PLAYING:
+      return { ...state, isPlaying: Boolean(args[0]), updatedAt }
+    case ABLETON_REPLIES.NUM_SCENES: {
+      // Names arrive one reply per scene; keep what we have
+      const count = Math.max(0, Number(args[0]) || 0)
+      const scenes = state.scenes.slice(0, count)
+      while (scenes.length < count) scenes.push('')
+      return { ...state, scenes, updatedAt }
+    }
+    case ABLETON_REPLIES.TRACK_NAMES:
+      return { ...state, tracks: args.map(name => String(name ?? '')), updatedAt }
+    case ABLETON_REPLIES.SCENE_NAME: {
+      const index = Number(args[0])
+      if (isNaN(index)) return null
+      const scenes = state.scenes.slice()
+      while (scenes.length <= index) scenes.push('')
+      scenes[index] = String(args[1] ?? '')
+      return { ...state, scenes, updatedAt }
+    }
+    case ABLETON_REPLIES.CLIP_NAMES: {
+      const track = Number(args[0])
+      if (isNaN(track)) return null
+      const names = args.slice(1).map(name => (name === null || name === '' ? null : String(name)))
+      return { ...state, clips: { ...state.clips, [track]: names }, updatedAt }
+    }
+    default:
+      return null
+  }
+}
+
+// ===== RESOLUTION =====
+
+function resolveRef(ref: AbletonRef, names: Array<string | null>): number | undefined {
+  if (typeof ref === 'number') return ref
+  const index = names.findIndex(name => name !== null && name.toLowerCase() === ref.toLowerCase())
+  return index >= 0 ? index : undefined
+}
+
+export function abletonTempo(tempo: AbletonMoodMapping['tempo'], energy?: number): number | undefined {
+  if (tempo === undefined) return undefined
+  const bpm = typeof tempo === 'number'
+    ? tempo
+    : tempo.min + (tempo.max - tempo.min) * Math.max(0, Math.min(1, energy ?? 0.5))
+  return Math.round(Math.max(ABLETON_TEMPO_RANGE.min, Math.min(ABLETON_TEMPO_RANGE.max, bpm)) * 10) / 10
+}
+
+// Numeric references pass through untouched, so index-only mappings work
+// before the set has been read
+export function resolveAbletonMapping(
+  mapping: AbletonMoodMapping,
+  song: AbletonSongState,
+  energy?: number
+): ResolvedAbletonMapping {
+  const unresolved: string[] = []
+  const resolved: ResolvedAbletonMapping = { tempo: abletonTempo(mapping.tempo, energy), clips: [], tracks: [], unresolved }
+
+  if (mapping.scene !== undefined) {
+    resolved.scene = resolveRef(mapping.scene, song.scenes)
+    if (resolved.scene === undefined) unresolved.push(`scene ${mapping.scene}`)
+  }
+
+  mapping.clips?.forEach(({ track, clip }) => {
+    const trackIndex = resolveRef(track, song.tracks)
+    const clipIndex = trackIndex !== undefined ? resolveRef(clip, song.clips[trackIndex] || []) : undefined
+    if (trackIndex === undefined || clipIndex === undefined) {
+      unresolved.push(`clip ${track}/${clip}`)
+      return
+    }
+    resolved.clips.push({ track: trackIndex, clip: clipIndex })
+  })
+
+  mapping.tracks?.forEach(({ track, volume, sends }) => {
+    const trackIndex = resolveRef(track, song.tracks)
+    if (trackIndex === undefined) {
+      unresolved.push(`track ${track}`)
+      return
+    }
+    resolved.tracks.push({ track: trackIndex, volume, sends })
+  })
+
+  return resolved
+}
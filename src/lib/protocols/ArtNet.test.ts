@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  ARTNET_OPCODES,
+  ArtNetNode,
+  ArtPollReplyPacket,
+  decodeArtNetPacket,
+  encodeArtDmx,
+  encodeArtPoll,
+  encodeArtPollReply
+} from './ArtNet'
+
+describe('ArtDmx', () => {
+  it('lays out the header, port-address and length', () => {
+    const bytes = encodeArtDmx(0x1234, new Uint8Array([255, 128, 0, 1]), 7, 2)
+    assert.deepEqual(Array.from(bytes.subarray(0, 18)), [
+      0x41, 0x72, 0x74, 0x2d, 0x4e, 0x65, 0x74, 0x00, // "Art-Net\0"
+      0x00, 0x50, // OpDmx, little-endian
+      0x00, 14, // Protocol version 14
+      7, 2, // Sequence, physical
+      0x34, 0x12, // SubUni, Net
+      0x00, 0x04 // Length, big-endian
+    ])
+    assert.deepEqual(Array.from(bytes.subarray(18)), [255, 128, 0, 1])
+  })
+
+  it('pads odd lengths to an even count', () => {
+    const bytes = encodeArtDmx(0, new Uint8Array([1, 2, 3]))
+    assert.equal((bytes[16] << 8) | bytes[17], 4)
+    assert.equal(bytes.length, 22)
+  })
+
+  it('round-trips through the decoder', () => {
+    const data = new Uint8Array(512).map((_, i) => i & 0xff)
+    assert.deepEqual(decodeArtNetPacket(encodeArtDmx(0x7fff, data, 200)), {
+      opcode: ARTNET_OPCODES.DMX,
+      sequence: 200,
+      physical: 0,
+      universe: 0x7fff,
+      data
+    })
+  })
+
+  it('rejects universes outside the 15-bit port-address', () => {
+    assert.throws(() => encodeArtDmx(-1, new Uint8Array(2)), /out of range/)
+    assert.throws(() => encodeArtDmx(0x8000, new Uint8Array(2)), /out of range/)
+  })
+})
+
+describe('ArtPoll', () => {
+  it('round-trips a poll', () => {
+    assert.deepEqual(decodeArtNetPacket(encodeArtPoll(0x06)), { opcode: ARTNET_OPCODES.POLL, flags: 0x06, priority: 0 })
+  })
+
+  it('round-trips a poll reply', () => {
+    const reply: ArtPollReplyPacket = {
+      opcode: ARTNET_OPCODES.POLL_REPLY,
+      ip: '2.0.0.10',
+      port: 6454,
+      version: 1,
+      oem: 0x00ff,
+      estaManufacturer: 0x7ff0,
+      shortName: 'MOOD',
+      longName: 'MOOD Adaptive Art System',
+      nodeReport: '#0001 [0001] OK',
+      numPorts: 1,
+      portTypes: [0x80, 0, 0, 0],
+      swOut: [1, 0, 0, 0],
+      swIn: [0, 0, 0, 0],
+      netSwitch: 0,
+      subSwitch: 0,
+      mac: '00:11:22:aa:bb:cc',
+      bindIndex: 1,
+      style: 0
+    }
+    const { opcode, ...fields } = reply
+    assert.deepEqual(decodeArtNetPacket(encodeArtPollReply(fields)), reply)
+  })
+
+  it('ignores packets that are not Art-Net', () => {
+    assert.equal(decodeArtNetPacket(new TextEncoder().encode('Not-Art-Net packet')), null)
+    assert.equal(decodeArtNetPacket(new Uint8Array(4)), null)
+  })
+})
+
+describe('ArtNetNode buffers', () => {
+  it('keeps 1-based channels per universe and clamps values', () => {
+    const node = new ArtNetNode()
+    node.addUniverse(3)
+    node.setChannels(3, 510, [1, 300, -4])
+    const data = node.getUniverseData(3) as Uint8Array
+    assert.deepEqual(Array.from(data.subarray(509)), [1, 255, 0])
+    assert.throws(() => node.setChannels(3, 511, [1, 2, 3]), /out of range/)
+  })
+
+  it('blacks out a universe', () => {
+    const node = new ArtNetNode()
+    node.setChannel(1, 1, 200)
+    node.blackout(1)
+    assert.equal((node.getUniverseData(1) as Uint8Array)[0], 0)
+  })
+})
@@ -0,0 +1,423 @@
+// Art-Net 4 DMX output node
+// Keeps one 512-channel buffer per universe and streams ArtDmx at a steady
+// refresh rate. Answers ArtPoll so consoles and visualisers can see MOOD.
+import dgram from 'dgram'
+import os from 'os'
+import { DMXOutput, DMX_UNIVERSE_SIZE } from './DMXOutput'
+
+export const ARTNET_PORT = 6454
+
+export const ARTNET_OPCODES = {
+  POLL: 0x2000,
+  POLL_REPLY: 0x2100,
+  DMX: 0x5000
+} as const
+
+const ARTNET_ID = 'Art-Net\0'
+const PROTOCOL_VERSION = 14
+const POLL_REPLY_LENGTH = 239
+// Receivers drop a universe if they hear nothing for ~4s; refresh well inside that
+const KEEPALIVE_MS = 1000
+
+export interface ArtDmxPacket {
+  opcode: typeof ARTNET_OPCODES.DMX
+  sequence: number
+  physical: number
+  universe: number
+  data: Uint8Array
+}
+
+export interface ArtPollPacket {
+  opcode: typeof ARTNET_OPCODES.POLL
+  flags: number
+  priority: number
+}
+
+export interface ArtPollReplyPacket {
+  opcode: typeof ARTNET_OPCODES.POLL_REPLY
+  ip: string
+  port: number
+  version: number
+  oem: number
+  estaManufacturer: number
+  shortName: string
+  longName: string
+  nodeReport: string
+  numPorts: number
+  portTypes: number[]
+  swOut: number[]
+  swIn: number[]
+  netSwitch: number
+  subSwitch: number
+  mac: string
+  bindIndex: number
+  style: number
+}
+
+export type ArtNetPacket = ArtDmxPacket | ArtPollPacket | ArtPollReplyPacket
+
+export interface ArtNetNodeOptions {
+  bindAddress?: string
+  localIp?: string
+  broadcastAddress?: string
+  refreshRate?: number // Hz
+  shortName?: string
+  longName?: string
+}
+
+interface UniverseState {
+  data: Uint8Array
+  sequence: number
+  target: string
+  dirty: boolean
+  lastSent: number
+}
+
+// ===== PACKET CODEC =====
+
+function writeHeader(bytes: Uint8Array, opcode: number): void {
+  for (let i = 0; i < ARTNET_ID.length; i++) bytes[i] = ARTNET_ID.charCodeAt(i)
+  bytes[8] = opcode & 0xff
+  bytes[9] = (opcode >> 8) & 0xff
+}
+
+function writeAscii(bytes: Uint8Array, offset: number, length: number, value: string): void {
+  for (let i = 0; i < length - 1 && i < value.length; i++) {
+    bytes[offset + i] = value.charCodeAt(i) & 0x7f
+  }
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let value = ''
+  for (let i = offset; i < offset + length && bytes[i] !== 0; i++) {
+    value += String.fromCharCode(bytes[i])
+  }
+  return value
+}
+
+export function encodeArtDmx(universe: number, data: Uint8Array, sequence: number = 0, physical: number = 0): Uint8Array {
+  if (universe < 0 || universe > 0x7fff) {
+    throw new Error(`Art-Net universe out of range: ${universe}`)
+  }
+  // DMX length must be even and between 2 and 512
+  const length = Math.max(2, Math.min(DMX_UNIVERSE_SIZE, data.length + (data.length % 2)))
+  const bytes = new Uint8Array(18 + length)
+  writeHeader(bytes, ARTNET_OPCODES.DMX)
+  bytes[10] = 0
+  bytes[11] = PROTOCOL_VERSION
+  bytes[12] = sequence & 0xff
+  bytes[13] = physical & 0xff
+  bytes[14] = universe & 0xff // SubUni
+  bytes[15] = (universe >> 8) & 0x7f // Net
+  bytes[16] = (length >> 8) & 0xff
+  bytes[17] = length & 0xff
+  bytes.set(data.subarray(0, length), 18)
+  return bytes
+}
+
+export function encodeArtPoll(flags: number = 0x02): Uint8Array {
+  const bytes = new Uint8Array(14)
+  writeHeader(bytes, ARTNET_OPCODES.POLL)
+  bytes[10] = 0
+  bytes[11] = PROTOCOL_VERSION
+  bytes[12] = flags // 0x02: send ArtPollReply whenever node conditions change
+  bytes[13] = 0 // DiagPriority
+  return bytes
+}
+
+export function encodeArtPollReply(reply: Omit<ArtPollReplyPacket, 'opcode'>): Uint8Array {
+  const bytes = new Uint8Array(POLL_REPLY_LENGTH)
+  writeHeader(bytes, ARTNET_OPCODES.POLL_REPLY)
+
+  reply.ip.split('.').forEach((octet, i) => { bytes[10 + i] = parseInt(octet, 10) & 0xff })
+  bytes[14] = reply.port & 0xff
+  bytes[15] = (reply.port >> 8) & 0xff
+  bytes[16] = (reply.version >> 8) & 0xff
+  bytes[17] = reply.version & 0xff
+  bytes[18] = reply.netSwitch & 0x7f
+  bytes[19] = reply.subSwitch & 0x0f
+  bytes[20] = (reply.oem >> 8) & 0xff
+  bytes[21] = reply.oem & 0xff
+  bytes[23] = 0xd0 // Status1: indicators normal, port-address set by network
+  bytes[24] = reply.estaManufacturer & 0xff
+  bytes[25] = (reply.estaManufacturer >> 8) & 0xff
+  writeAscii(bytes, 26, 18, reply.shortName)
+  writeAscii(bytes, 44, 64, reply.longName)
+  writeAscii(bytes, 108, 64, reply.nodeReport)
+  bytes[173] = reply.numPorts & 0xff
+  for (let i = 0; i < 4; i++) {
+    bytes[174 + i] = reply.portTypes[i] || 0
+    bytes[182 + i] = reply.portTypes[i] ? 0x80 : 0 // GoodOutput: data is being transmitted
+    bytes[186 + i] = reply.swIn[i] || 0
+    bytes[190 + i] = reply.swOut[i] || 0
+  }
+  bytes[200] = reply.style
+  reply.mac.split(':').forEach((octet, i) => { if (i < 6) bytes[201 + i] = parseInt(octet, 16) || 0 })
+  bytes.set(bytes.subarray(10, 14), 207) // BindIp
+  bytes[211] = reply.bindIndex
+  bytes[212] = 0x08 // Status2: supports 15-bit port-address
+  return bytes
+}
+
+export function decodeArtNetPacket(bytes: Uint8Array): ArtNetPacket | null {
+  if (bytes.length < 12 || readAscii(bytes, 0, 8) !== 'Art-Net') return null
+
+  const opcode = bytes[8] | (bytes[9] << 8)
+  switch (opcode) {
+    case ARTNET_OPCODES.DMX: {
+      if (bytes.length < 18) return null
+      const length = (bytes[16] << 8) | bytes[17]
+      return {
+        opcode,
+        sequence: bytes[12],
+        physical: bytes[13],
+        universe: bytes[14] | ((bytes[15] & 0x7f) << 8),
+        data: new Uint8Array(bytes.subarray(18, 18 + length))
+      }
+    }
+    case ARTNET_OPCODES.POLL:
+      return { opcode, flags: bytes[12] || 0, priority: bytes[13] || 0 }
+    case ARTNET_OPCODES.POLL_REPLY: {
+      if (bytes.length < 207) return null
+      const mac: string[] = []
+      for (let i = 0; i < 6; i++) mac.push(('0' + bytes[201 + i].toString(16)).slice(-2))
+      return {
+        opcode,
+        ip: `${bytes[10]}.${bytes[11]}.${bytes[12]}.${bytes[13]}`,
+        port: bytes[14] | (bytes[15] << 8),
+        version: (bytes[16] << 8) | bytes[17],
+        netSwitch: bytes[18],
+        subSwitch: bytes[19],
+        oem: (bytes[20] << 8) | bytes[21],
+        estaManufacturer: bytes[24] | (bytes[25] << 8),
+        shortName: readAscii(bytes, 26, 18),
+        longName: readAscii(bytes, 44, 64),
+        nodeReport: readAscii(bytes, 108, 64),
+        numPorts: bytes[173],
+        portTypes: Array.from(bytes.subarray(174, 178)),
+        swIn: Array.from(bytes.subarray(186, 190)),
+        swOut: Array.from(bytes.subarray(190, 194)),
+        style: bytes[200],
+        mac: mac.join(':'),
+        bindIndex: bytes[211] || 0
+      }
+    }
+    default:
+      return null
+  }
+}
+
+// ===== NODE =====
+
+export class ArtNetNode implements DMXOutput {
+  private socket: dgram.Socket | null = null
+  private universes: Map<number, UniverseState> = new Map()
+  private refreshTimer?: NodeJS.Timeout
+  private options: Required<ArtNetNodeOptions>
+
+  private onPollReplyCallback?: (reply: ArtPollReplyPacket, from: string) => void
+  private onErrorCallback?: (error: Error) => void
+
+  constructor(options: ArtNetNodeOptions = {}) {
+    this.options = {
+      bindAddress: '0.0.0.0',
+      localIp: getLocalIPv4(),
+      broadcastAddress: '2.255.255.255',
+      refreshRate: 40,
+      shortName: 'MOOD',
+      longName: 'MOOD Adaptive Art System - Art-Net Node',
+      ...options
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.socket) return
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+    this.socket = socket
+
+    socket.on('message', (msg, rinfo) => this.handlePacket(new Uint8Array(msg), rinfo.address))
+    socket.on('error', (error) => {
+      console.error('❌ Art-Net socket error:', error.message)
+      if (this.onErrorCallback) this.onErrorCallback(error)
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      socket.bind(ARTNET_PORT, this.options.bindAddress, () => {
+        socket.removeListener('error', reject)
+        socket.setBroadcast(true)
+        resolve()
+      })
+    })
+
+    this.refreshTimer = setInterval(() => this.refresh(), 1000 / this.options.refreshRate)
+    console.log(`💡 Art-Net node started on ${this.options.localIp}:${ARTNET_PORT} @ ${this.options.refreshRate}Hz`)
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer)
+      this.refreshTimer = undefined
+    }
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+    console.log('💡 Art-Net node stopped')
+  }
+
+  isRunning(): boolean {
+    return this.socket !== null
+  }
+
+  // Register a universe; `target` is a node IP for unicast or the broadcast address
+  addUniverse(universe: number, target: string = this.options.broadcastAddress): void {
+    const existing = this.universes.get(universe)
+    if (existing) {
+      existing.target = target
+      return
+    }
+    this.universes.set(universe, {
+      data: new Uint8Array(DMX_UNIVERSE_SIZE),
+      sequence: 0,
+      target,
+      dirty: true,
+      lastSent: 0
+    })
+  }
+
+  removeUniverse(universe: number): void {
+    this.universes.delete(universe)
+  }
+
+  getUniverses(): number[] {
+    return Array.from(this.universes.keys())
+  }
+
+  getUniverseData(universe: number): Uint8Array | null {
+    return this.universes.get(universe)?.data || null
+  }
+
+  // Channels are 1-based as on a console; values are 0-255
+  setChannel(universe: number, channel: number, value: number): void {
+    this.setChannels(universe, channel, [value])
+  }
+
+  setChannels(universe: number, startChannel: number, values: number[]): void {
+    if (startChannel < 1 || startChannel + values.length - 1 > DMX_UNIVERSE_SIZE) {
+      throw new Error(`DMX channels ${startChannel}-${startChannel + values.length - 1} out of range`)
+    }
+    if (!this.universes.has(universe)) this.addUniverse(universe)
+
+    const state = this.universes.get(universe)!
+    values.forEach((value, i) => {
+      const clamped = Math.max(0, Math.min(255, Math.round(value)))
+      if (state.data[startChannel - 1 + i] !== clamped) {
+        state.data[startChannel - 1 + i] = clamped
+        state.dirty = true
+      }
+    })
+  }
+
+  blackout(universe?: number): void {
+    const targets = universe !== undefined ? [universe] : this.getUniverses()
+    targets.forEach(u => {
+      const state = this.universes.get(u)
+      if (!state) return
+      state.data.fill(0)
+      state.dirty = true
+    })
+    // Don't wait for the next tick on a blackout
+    this.refresh()
+  }
+
+  // Ask every node on the network to identify itself
+  poll(): void {
+    this.send(encodeArtPoll(), this.options.broadcastAddress)
+  }
+
+  private refresh(): void {
+    if (!this.socket) return
+    const now = Date.now()
+
+    this.universes.forEach((state, universe) => {
+      if (!state.dirty && now - state.lastSent < KEEPALIVE_MS) return
+
+      // Sequence 0 disables reordering on receivers, so cycle 1-255
+      state.sequence = state.sequence >= 255 ? 1 : state.sequence + 1
+      this.send(encodeArtDmx(universe, state.data, state.sequence), state.target)
+      state.dirty = false
+      state.lastSent = now
+    })
+  }
+
+  private handlePacket(bytes: Uint8Array, from: string): void {
+    const packet = decodeArtNetPacket(bytes)
+    if (!packet) return
+
+    if (packet.opcode === ARTNET_OPCODES.POLL) {
+      this.replyToPoll(from)
+    } else if (packet.opcode === ARTNET_OPCODES.POLL_REPLY && from !== this.options.localIp) {
+      if (this.onPollReplyCallback) this.onPollReplyCallback(packet as ArtPollReplyPacket, from)
+    }
+  }
+
+  private replyToPoll(from: string): void {
+    // One reply per universe, distinguished by BindIndex, so any number of universes can be advertised
+    const universes = this.getUniverses()
+    const advertised = universes.length > 0 ? universes : [0]
+
+    advertised.forEach((universe, index) => {
+      const reply = encodeArtPollReply({
+        ip: this.options.localIp,
+        port: ARTNET_PORT,
+        version: 1,
+        oem: 0x00ff, // Unknown OEM
+        estaManufacturer: 0,
+        shortName: this.options.shortName,
+        longName: this.options.longName,
+        nodeReport: `#0001 [${('000' + index).slice(-4)}] MOOD output OK`,
+        numPorts: 1,
+        portTypes: [0x80], // Output port, DMX512
+        swIn: [0],
+        swOut: [universe & 0x0f],
+        netSwitch: (universe >> 8) & 0x7f,
+        subSwitch: (universe >> 4) & 0x0f,
+        mac: '00:00:00:00:00:00',
+        bindIndex: index + 1,
+        style: 0x00 // StNode
+      })
+      // ArtPollReply is always broadcast per the spec; also answer the poller directly
+      this.send(reply, this.options.broadcastAddress)
+      if (from !== this.options.broadcastAddress) this.send(reply, from)
+    })
+  }
+
+  private send(bytes: Uint8Array, address: string): void {
+    if (!this.socket) return
+    this.socket.send(bytes, ARTNET_PORT, address, (error) => {
+      if (error) console.error(`❌ Art-Net send to ${address} failed:`, error.message)
+    })
+  }
+
+  // Event handlers
+  onPollReply(callback: (reply: ArtPollReplyPacket, from: string) => void): void {
+    this.onPollReplyCallback = callback
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback
+  }
+}
+
+// First non-internal IPv4 address, used to fill ArtPollReply
+export function getLocalIPv4(): string {
+  const interfaces = os.networkInterfaces()
+  for (const name of Object.keys(interfaces)) {
+    for (const info of interfaces[name] || []) {
+      if (info.family === 'IPv4' && !info.internal) return info.address
+    }
+  }
+  return '127.0.0.1'
+}
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_COLOR_PROFILE,
+  FixtureColorProfile,
+  applyDimmerCurve,
+  emitterDMX,
+  estimateKelvin,
+  hexToRGB,
+  kelvinToRGB,
+  mixColor,
+  mixKelvin,
+  normalizeColorProfile,
+  renderColor,
+  rgbToHex
+} from './ColorEngine'
+
+const profile = (updates: Partial<FixtureColorProfile>) => ({ ...DEFAULT_COLOR_PROFILE, ...updates })
+
+const close = (actual: number | undefined, expected: number, within = 1e-3) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) <= within, `${actual} is not within ${within} of ${expected}`)
+
+describe('colour conversion', () => {
+  it('round-trips hex colours', () => {
+    assert.deepEqual(hexToRGB('#FF8000'), { r: 1, g: 128 / 255, b: 0 })
+    assert.equal(rgbToHex(hexToRGB('3a7bd5')!), '#3A7BD5')
+    assert.equal(hexToRGB('red'), null)
+  })
+
+  it('makes warm light red-heavy and cool light blue-heavy', () => {
+    const warm = kelvinToRGB(2700)
+    const cool = kelvinToRGB(9000)
+    assert.equal(warm.r, 1)
+    assert.ok(warm.b < 0.6)
+    assert.equal(cool.b, 1)
+    assert.ok(cool.r < 0.9)
+  })
+
+  it('finds the colour temperature of a black-body colour', () => {
+    assert.ok(Math.abs(estimateKelvin(kelvinToRGB(3200)) - 3200) <= 200)
+  })
+})
+
+describe('colour mixing', () => {
+  it('returns the ends at 0 and 1', () => {
+    const red = { r: 1, g: 0, b: 0 }
+    const blue = { r: 0, g: 0, b: 1 }
+    const start = mixColor(red, blue, 0)
+    const end = mixColor(red, blue, 1)
+    close(start.r, 1)
+    close(start.b, 0)
+    close(end.r, 0)
+    close(end.b, 1)
+  })
+
+  it('fades colour temperature evenly in mireds', () => {
+    close(mixKelvin(2000, 8000, 0.5), 1e6 / ((500 + 125) / 2))
+    close(mixKelvin(3200, 5600, 0), 3200)
+  })
+})
+
+describe('emitters', () => {
+  it('applies the dimmer curve', () => {
+    assert.equal(applyDimmerCurve('linear', 0.5), 0.5)
+    assert.equal(applyDimmerCurve('square', 0.5), 0.25)
+    assert.equal(applyDimmerCurve('sCurve', 0.5), 0.5)
+  })
+
+  it('applies gamma to colour emitters but not the dimmer', () => {
+    const levels = renderColor({ color: '#808080' }, 0.5, profile({ gamma: 2 }))
+    assert.equal(levels.dimmer, 0.5)
+    close(levels.red, Math.pow(128 / 255, 2))
+  })
+
+  it('moves white light onto the W emitter', () => {
+    const levels = renderColor({ cct: 5600 }, 1, profile({ model: 'rgbw', whiteKelvin: 5600 }))
+    close(levels.white, 1)
+    close(levels.red, 0)
+    close(levels.blue, 0)
+  })
+
+  it('moves the warm part of a colour onto amber', () => {
+    const levels = renderColor({ color: '#FFBF00' }, 1, profile({ model: 'rgba' }))
+    close(levels.amber, 1, 0.01)
+    close(levels.green, 0, 0.01)
+  })
+
+  it('inverts colour for CMY flags', () => {
+    const levels = renderColor({ color: '#FF0000' }, 1, profile({ model: 'cmy' }))
+    assert.deepEqual([levels.cyan, levels.magenta, levels.yellow], [0, 1, 1])
+  })
+
+  it('gives hue and saturation for HSI fixtures', () => {
+    const levels = renderColor({ color: '#00FF00' }, 1, profile({ model: 'hsi' }))
+    close(levels.hue, 1 / 3)
+    assert.equal(levels.saturation, 1)
+  })
+
+  it('splits a colour temperature between warm and cool', () => {
+    const tunable = profile({ model: 'tunableWhite', warmKelvin: 2700, coolKelvin: 6500 })
+    close(renderColor({ cct: 2700 }, 1, tunable).cool, 0)
+    close(renderColor({ cct: 6500 }, 1, tunable).cool, 1)
+  })
+
+  it('turns emitter levels into DMX on the patched channels', () => {
+    assert.deepEqual(emitterDMX({ dimmer: 1, red: 0.5, blue: 0.2 }, { dimmer: 1, red: 2, green: 3 }), { 1: 255, 2: 128 })
+  })
+})
+
+describe('colour profiles', () => {
+  it('clamps gamma and colour temperatures and rejects unknown models', () => {
+    const normalized = normalizeColorProfile({ model: 'laser' as any, gamma: 10, warmKelvin: 500 })
+    assert.equal(normalized.model, 'rgb')
+    assert.equal(normalized.gamma, 4)
+    assert.equal(normalized.warmKelvin, 1800)
+  })
+})
@@ -0,0 +1,271 @@
+// Fixture colour engine
+// Turns a mood colour (hex, or a colour temperature for white light) into the
+// levels of whatever emitters a fixture actually has: RGB, RGBW, RGBA, HSI,
+// subtractive CMY, tunable white or a single white dimmer. Each fixture's
+// gamma and dimmer curve are applied on the way out, and colours blend in
+// OKLab so crossfades don't dip through grey. Pure functions, shared by the
+// DMX output, the lighting drivers and the transition engine.
+
+export type ColorModel = 'rgb' | 'rgbw' | 'rgba' | 'hsi' | 'cmy' | 'tunableWhite' | 'white'
+
+export const COLOR_MODELS: Array<{ model: ColorModel; label: string }> = [
+  { model: 'rgb', label: 'RGB' },
+  { model: 'rgbw', label: 'RGBW' },
+  { model: 'rgba', label: 'RGBA' },
+  { model: 'hsi', label: 'HSI' },
+  { model: 'cmy', label: 'CMY (wash mover)' },
+  { model: 'tunableWhite', label: 'Tunable white' },
+  { model: 'white', label: 'White only' }
+]
+
+export type Emitter =
+  | 'dimmer'
+  | 'red' | 'green' | 'blue' | 'white' | 'amber'
+  | 'cyan' | 'magenta' | 'yellow'
+  | 'hue' | 'saturation'
+  | 'warm' | 'cool'
+
+// 0–1 per emitter, after gamma
+export type EmitterLevels = Partial<Record<Emitter, number>>
+
+export type DimmerCurve = 'linear' | 'square' | 'sCurve'
+
+export interface FixtureColorProfile {
+  model: ColorModel
+  gamma: number // Applied to every emitter but the dimmer; 1 leaves levels as sent
+  dimmerCurve: DimmerCurve
+  whiteKelvin: number // Colour of the W emitter
+  warmKelvin: number // Tunable white range
+  coolKelvin: number
+}
+
+export const DEFAULT_COLOR_PROFILE: FixtureColorProfile = {
+  model: 'rgb',
+  gamma: 1,
+  dimmerCurve: 'linear',
+  whiteKelvin: 5600,
+  warmKelvin: 2700,
+  coolKelvin: 6500
+}
+
+// What a mood asks for. A colour temperature wins over the hex colour:
+// "warm" and "cool" moods set cct and let each fixture make its own white.
+export interface ColorTarget {
+  color?: string
+  cct?: number // Kelvin
+}
+
+export interface RGB {
+  r: number // 0–1
+  g: number
+  b: number
+}
+
+export const CCT_LIMITS = { min: 1800, max: 10000 }
+
+// The amber emitter, as RGB
+const AMBER: RGB = { r: 1, g: 0.75, b: 0 }
+
+export function hexToRGB(hex: string): RGB | null {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex || '')
+  return result ? {
+    r: parseInt(result[1], 16) / 255,
+    g: parseInt(result[2], 16) / 255,
+    b: parseInt(result[3], 16) / 255
+  } : null
+}
+
+export function rgbToHex(rgb: RGB): string {
+  return '#' + [rgb.r, rgb.g, rgb.b]
+    .map(v => ('0' + Math.round(clamp(v) * 255).toString(16)).slice(-2))
+    .join('')
+    .toUpperCase()
+}
+
+function clamp(value: number, min: number = 0, max: number = 1): number {
+  return Math.max(min, Math.min(max, isFinite(value) ? value : 0))
+}
+
+// Black-body colour, normalised so the brightest component is 1
+// (Tanner Helland's fit, good to a few percent over the stage range)
+export function kelvinToRGB(kelvin: number): RGB {
+  const t = clamp(kelvin, CCT_LIMITS.min, CCT_LIMITS.max) / 100
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592)
+  const g = t <= 66
+    ? 99.4708025861 * Math.log(t) - 161.1195681661
+    : 288.1221695283 * Math.pow(t - 60, -0.0755148492)
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307
+  const rgb = { r: clamp(r / 255), g: clamp(g / 255), b: clamp(b / 255) }
+  const peak = Math.max(rgb.r, rgb.g, rgb.b) || 1
+  return { r: rgb.r / peak, g: rgb.g / peak, b: rgb.b / peak }
+}
+
+export function targetRGB(target: ColorTarget): RGB {
+  if (typeof target.cct === 'number' && target.cct > 0) return kelvinToRGB(target.cct)
+  return hexToRGB(target.color || '') || { r: 1, g: 1, b: 1 }
+}
+
+// ----- Perceptual mixing -----
+
+function toLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+function fromLinear(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+}
+
+function toOKLab(rgb: RGB): [number, number, number] {
+  const r = toLinear(rgb.r)
+  const g = toLinear(rgb.g)
+  const b = toLinear(rgb.b)
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  ]
+}
+
+function fromOKLab(lab: [number, number, number]): RGB {
+  const l = Math.pow(lab[0] + 0.3963377774 * lab[1] + 0.2158037573 * lab[2], 3)
+  const m = Math.pow(lab[0] - 0.1055613458 * lab[1] - 0.0638541728 * lab[2], 3)
+  const s = Math.pow(lab[0] - 0.0894841775 * lab[1] - 1.2914855480 * lab[2], 3)
+  return {
+    r: clamp(fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+    g: clamp(fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+    b: clamp(fromLinear(-0.0041960863 * l - 0.7034186168 * m + 1.7076147010 * s))
+  }
+}
+
+// t = 0 gives from, 1 gives to
+export function mixColor(from: RGB, to: RGB, t: number): RGB {
+  const x = clamp(t)
+  const a = toOKLab(from)
+  const b = toOKLab(to)
+  return fromOKLab([a[0] + (b[0] - a[0]) * x, a[1] + (b[1] - a[1]) * x, a[2] + (b[2] - a[2]) * x])
+}
+
+// Colour temperature fades evenly in mireds, which is how the eye sees it
+export function mixKelvin(from: number, to: number, t: number): number {
+  const x = clamp(t)
+  const mired = 1e6 / from + (1e6 / to - 1e6 / from) * x
+  return 1e6 / mired
+}
+
+// ----- Emitters -----
+
+export function applyDimmerCurve(curve: DimmerCurve, level: number): number {
+  const x = clamp(level)
+  switch (curve) {
+    case 'square': return x * x
+    case 'sCurve': return x * x * (3 - 2 * x)
+    default: return x
+  }
+}
+
+function rgbToHSI(rgb: RGB): { hue: number; saturation: number } {
+  const max = Math.max(rgb.r, rgb.g, rgb.b)
+  const min = Math.min(rgb.r, rgb.g, rgb.b)
+  const delta = max - min
+  if (max === 0 || delta === 0) return { hue: 0, saturation: 0 }
+  let hue = max === rgb.r
+    ? ((rgb.g - rgb.b) / delta) % 6
+    : max === rgb.g ? (rgb.b - rgb.r) / delta + 2 : (rgb.r - rgb.g) / delta + 4
+  if (hue < 0) hue += 6
+  return { hue: hue / 6, saturation: delta / max }
+}
+
+// Pulls out as much of a secondary emitter's colour as the mix allows
+function extract(rgb: RGB, emitter: RGB): { level: number; rest: RGB } {
+  const ratios = [rgb.r / emitter.r, rgb.g / emitter.g, rgb.b / emitter.b]
+    .filter((ratio, i) => [emitter.r, emitter.g, emitter.b][i] > 0)
+  const level = clamp(Math.min.apply(null, ratios))
+  return {
+    level,
+    rest: { r: clamp(rgb.r - level * emitter.r), g: clamp(rgb.g - level * emitter.g), b: clamp(rgb.b - level * emitter.b) }
+  }
+}
+
+// Emitter levels for one fixture at the given intensity (0–1)
+export function renderColor(target: ColorTarget, intensity: number, profile: FixtureColorProfile): EmitterLevels {
+  const gamma = profile.gamma > 0 ? profile.gamma : 1
+  const out = (level: number) => Math.pow(clamp(level), gamma)
+  const dimmer = applyDimmerCurve(profile.dimmerCurve, intensity)
+  const rgb = targetRGB(target)
+
+  switch (profile.model) {
+    case 'rgbw': {
+      const { level, rest } = extract(rgb, kelvinToRGB(profile.whiteKelvin))
+      return { dimmer, red: out(rest.r), green: out(rest.g), blue: out(rest.b), white: out(level) }
+    }
+    case 'rgba': {
+      // Amber only takes the warm part of the colour; white stays on red, green and blue
+      const base = Math.min(rgb.r, rgb.g, rgb.b)
+      const { level, rest } = extract({ r: rgb.r - base, g: rgb.g - base, b: rgb.b - base }, AMBER)
+      return { dimmer, red: out(rest.r + base), green: out(rest.g + base), blue: out(rest.b + base), amber: out(level) }
+    }
+    case 'hsi': {
+      // Hue and saturation are positions, not light output; no gamma
+      const { hue, saturation } = rgbToHSI(rgb)
+      return { dimmer: dimmer * Math.max(rgb.r, rgb.g, rgb.b), hue, saturation }
+    }
+    case 'cmy':
+      // Subtractive flags over a white source; the dimmer sets the level
+      return { dimmer, cyan: out(1 - rgb.r), magenta: out(1 - rgb.g), yellow: out(1 - rgb.b) }
+    case 'tunableWhite': {
+      const kelvin = typeof target.cct === 'number' && target.cct > 0
+        ? target.cct
+        : estimateKelvin(rgb)
+      const warm = 1e6 / profile.warmKelvin
+      const cool = 1e6 / profile.coolKelvin
+      const toCool = clamp((warm - 1e6 / kelvin) / (warm - cool))
+      return { dimmer, warm: out(1 - toCool), cool: out(toCool) }
+    }
+    case 'white':
+      // Brightness of the colour as seen, not its hue
+      return { dimmer: dimmer * clamp(0.2126 * toLinear(rgb.r) + 0.7152 * toLinear(rgb.g) + 0.0722 * toLinear(rgb.b)) }
+    default:
+      return { dimmer, red: out(rgb.r), green: out(rgb.g), blue: out(rgb.b) }
+  }
+}
+
+// Nearest colour temperature by the red/blue balance, for white-only
+// fixtures given a hex colour
+export function estimateKelvin(rgb: RGB): number {
+  let best = CCT_LIMITS.min
+  let bestError = Infinity
+  for (let kelvin = CCT_LIMITS.min; kelvin <= CCT_LIMITS.max; kelvin += 100) {
+    const candidate = kelvinToRGB(kelvin)
+    const error = Math.abs((candidate.b - candidate.r) - (rgb.b - rgb.r))
+    if (error < bestError) {
+      best = kelvin
+      bestError = error
+    }
+  }
+  return best
+}
+
+// DMX values (0–255) for the emitters a fixture has channels for
+export function emitterDMX(levels: EmitterLevels, channels: Partial<Record<Emitter, number>>): { [channel: number]: number } {
+  return (Object.keys(channels) as Emitter[]).reduce((values, emitter) => {
+    const level = levels[emitter]
+    if (level !== undefined && channels[emitter]) values[channels[emitter] as number] = Math.round(clamp(level) * 255)
+    return values
+  }, {} as { [channel: number]: number })
+}
+
+export function normalizeColorProfile(profile: Partial<FixtureColorProfile>): FixtureColorProfile {
+  const merged = { ...DEFAULT_COLOR_PROFILE, ...profile }
+  const kelvin = (value: any, fallback: number) => clamp(Number(value) || fallback, CCT_LIMITS.min, CCT_LIMITS.max)
+  return {
+    model: COLOR_MODELS.some(m => m.model === merged.model) ? merged.model : DEFAULT_COLOR_PROFILE.model,
+    gamma: clamp(Number(merged.gamma) || 1, 0.5, 4),
+    dimmerCurve: ['linear', 'square', 'sCurve'].indexOf(merged.dimmerCurve) >= 0 ? merged.dimmerCurve : 'linear',
+    whiteKelvin: kelvin(merged.whiteKelvin, DEFAULT_COLOR_PROFILE.whiteKelvin),
+    warmKelvin: kelvin(merged.warmKelvin, DEFAULT_COLOR_PROFILE.warmKelvin),
+    coolKelvin: kelvin(merged.coolKelvin, DEFAULT_COLOR_PROFILE.coolKelvin)
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { OSCArgument } from './OSCCodec'
+import { CONTROL_ADDRESSES, encodeControlReply, matchMood, parseControlMessage } from './ControlAPI'
+
+const MOODS = ['Energetic', 'Social', 'Contemplative']
+
+const parse = (address: string, args: OSCArgument[] = []) => parseControlMessage({ address, args }, MOODS)
+
+describe('control API parsing', () => {
+  it('matches moods case-insensitively and returns their own spelling', () => {
+    assert.equal(matchMood('SOCIAL', MOODS), 'Social')
+    assert.equal(matchMood(undefined, MOODS), undefined)
+    assert.deepEqual(parse(CONTROL_ADDRESSES.MOOD_SET, ['energetic']), { type: 'command', command: { type: 'setMood', mood: 'Energetic' } })
+    assert.deepEqual(parse(CONTROL_ADDRESSES.MOOD_SET, ['Rave']), { type: 'error', error: 'Unknown mood: Rave' })
+  })
+
+  it('clamps blend amounts and rejects ones that are not numbers', () => {
+    assert.deepEqual(parse(CONTROL_ADDRESSES.MOOD_BLEND, ['social', 'energetic', { type: 'f', value: 1.5 }]), {
+      type: 'command', command: { type: 'blend', from: 'Social', to: 'Energetic', amount: 1 }
+    })
+    assert.deepEqual(parse(CONTROL_ADDRESSES.MOOD_BLEND, ['Social', 'Energetic', 'half']), {
+      type: 'error', error: 'Blend amount must be a number between 0 and 1'
+    })
+    assert.deepEqual(parse(CONTROL_ADDRESSES.MOOD_BLEND, ['Social', 'Nope', 0.5]), { type: 'error', error: 'Unknown mood: Nope' })
+  })
+
+  it('reads flags from no argument, numbers, booleans and strings', () => {
+    const locked = (args: OSCArgument[]) => {
+      const parsed = parse(CONTROL_ADDRESSES.MOOD_LOCK, args)
+      return parsed && parsed.type === 'command' && parsed.command.type === 'lock' ? parsed.command.locked : undefined
+    }
+    assert.equal(locked([]), true)
+    assert.equal(locked([{ type: 'i', value: 0 }]), false)
+    assert.equal(locked([{ type: 'i', value: 1 }]), true)
+    assert.equal(locked([{ type: 'F' }]), false)
+    assert.equal(locked(['false']), false)
+    assert.equal(locked(['0']), false)
+    assert.equal(locked(['on']), true)
+  })
+
+  it('maps the remaining addresses and ignores unknown ones', () => {
+    assert.deepEqual(parse(CONTROL_ADDRESSES.SYSTEM_ACTIVE, [0]), { type: 'command', command: { type: 'active', active: false } })
+    assert.deepEqual(parse(CONTROL_ADDRESSES.SYSTEM_ESTOP), { type: 'command', command: { type: 'estop' } })
+    assert.deepEqual(parse(CONTROL_ADDRESSES.AI_ENABLE, [1]), { type: 'command', command: { type: 'ai', enabled: true } })
+    assert.deepEqual(parse(CONTROL_ADDRESSES.QUERY_STATE), { type: 'query' })
+    assert.equal(parse('/cue/1/start'), null)
+  })
+
+  it('answers on /reply with a JSON body', () => {
+    const reply = encodeControlReply({ address: '/mood/set', status: 'ok' })
+    assert.equal(reply.address, '/reply/mood/set')
+    assert.deepEqual(JSON.parse(reply.args[0] as string), { address: '/mood/set', status: 'ok' })
+  })
+})
@@ -0,0 +1,113 @@
+// Inbound OSC control API
+// The namespace show controllers (QLab network cues, Stream Deck, Bitfocus
+// Companion, console macros) use to drive and query MOOD. Every message gets
+// a `/reply<address>` answer with a JSON body, QLab style:
+//   {"address": "/mood/set", "status": "ok" | "error", "data": ...}
+// Pure; ControlServer owns the socket.
+import { OSCMessage, argumentValue } from './OSCCodec'
+
+export const CONTROL_DEFAULT_PORT = 7800
+
+export const CONTROL_ADDRESSES = {
+  MOOD_SET: '/mood/set',
+  MOOD_BLEND: '/mood/blend',
+  MOOD_LOCK: '/mood/lock',
+  SYSTEM_ACTIVE: '/system/active',
+  SYSTEM_ESTOP: '/system/estop',
+  AI_ENABLE: '/ai/enable',
+  QUERY_STATE: '/query/state'
+}
+
+// For the dashboard's reference card
+export const CONTROL_NAMESPACE: Array<{ address: string; args: string; description: string }> = [
+  { address: CONTROL_ADDRESSES.MOOD_SET, args: 's name', description: 'Switch to a mood (case-insensitive)' },
+  { address: CONTROL_ADDRESSES.MOOD_BLEND, args: 's from, s to, f amount', description: 'Hold a blend between two moods, 0 = from, 1 = to' },
+  { address: CONTROL_ADDRESSES.MOOD_LOCK, args: '[i 0|1]', description: 'Stop the AI and automation changing the mood' },
+  { address: CONTROL_ADDRESSES.SYSTEM_ACTIVE, args: '[i 0|1]', description: 'Start or pause the system' },
+  { address: CONTROL_ADDRESSES.SYSTEM_ESTOP, args: '', description: 'Emergency stop every connected target' },
+  { address: CONTROL_ADDRESSES.AI_ENABLE, args: '[i 0|1]', description: 'Turn AI mood prediction on or off' },
+  { address: CONTROL_ADDRESSES.QUERY_STATE, args: '', description: 'Reply with the current state as JSON' }
+]
+
+export type ControlCommand =
+  | { type: 'setMood'; mood: string }
+  | { type: 'blend'; from: string; to: string; amount: number }
+  | { type: 'lock'; locked: boolean }
+  | { type: 'active'; active: boolean }
+  | { type: 'estop' }
+  | { type: 'ai'; enabled: boolean }
+
+// What /query/state answers with; the dashboard keeps the bridge's copy current
+export interface ControlState {
+  mood: string
+  energy: number
+  valence: number
+  arousal: number
+  moods: string[]
+  locked: boolean
+  active: boolean
+  aiEnabled: boolean
+  confidence: number
+  emergencyActive: boolean
+}
+
+export interface ControlReply {
+  address: string
+  status: 'ok' | 'error'
+  data?: any
+}
+
+export type ParsedControlMessage =
+  | { type: 'command'; command: ControlCommand }
+  | { type: 'query' }
+  | { type: 'error'; error: string }
+
+// Case-insensitive; returns the mood's own spelling
+export function matchMood(name: any, moods: string[]): string | undefined {
+  const wanted = String(name ?? '').toLowerCase()
+  return moods.find(mood => mood.toLowerCase() === wanted)
+}
+
+// Buttons often send no argument; that means "on"
+function flag(message: OSCMessage): boolean {
+  if (message.args.length === 0) return true
+  const value = argumentValue(message.args[0])
+  return typeof value === 'string' ? value !== '0' && value.toLowerCase() !== 'false' : Boolean(Number(value))
+}
+
+// null for addresses outside the namespace
+export function parseControlMessage(message: OSCMessage, moods: string[]): ParsedControlMessage | null {
+  const args = message.args.map(arg => argumentValue(arg))
+
+  switch (message.address) {
+    case CONTROL_ADDRESSES.MOOD_SET: {
+      const mood = matchMood(args[0], moods)
+      if (!mood) return { type: 'error', error: `Unknown mood: ${args[0]}` }
+      return { type: 'command', command: { type: 'setMood', mood } }
+    }
+    case CONTROL_ADDRESSES.MOOD_BLEND: {
+      const from = matchMood(args[0], moods)
+      const to = matchMood(args[1], moods)
+      const amount = Number(args[2])
+      if (!from || !to) return { type: 'error', error: `Unknown mood: ${!from ? args[0] : args[1]}` }
+      if (isNaN(amount)) return { type: 'error', error: 'Blend amount must be a number between 0 and 1' }
+      return { type: 'command', command: { type: 'blend', from, to, amount: Math.max(0, Math.min(1, amount)) } }
+    }
+    case CONTROL_ADDRESSES.MOOD_LOCK:
+      return { type: 'command', command: { type: 'lock', locked: flag(message) } }
+    case CONTROL_ADDRESSES.SYSTEM_ACTIVE:
+      return { type: 'command', command: { type: 'active', active: flag(message) } }
+    case CONTROL_ADDRESSES.SYSTEM_ESTOP:
+      return { type: 'command', command: { type: 'estop' } }
+    case CONTROL_ADDRESSES.AI_ENABLE:
+      return { type: 'command', command: { type: 'ai', enabled: flag(message) } }
+    case CONTROL_ADDRESSES.QUERY_STATE:
+      return { type: 'query' }
+    default:
+      return null
+  }
+}
+
+export function encodeControlReply(reply: ControlReply): OSCMessage {
+  return { address: `/reply${reply.address}`, args: [JSON.stringify(reply)] }
+}
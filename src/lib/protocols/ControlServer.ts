@@ -0,0 +1,118 @@
+// Control server
+// Listens for the inbound control API on UDP and answers every message with
+// a /reply to its sender. Commands are handed on to whoever runs the mood
+// (the dashboard, through the bridge); queries are answered from the last
+// state the dashboard reported.
+import dgram from 'dgram'
+import { OSCMessage, decodeOSCPacket, encodeOSCPacket, flattenPacket } from './OSCCodec'
+import {
+  CONTROL_DEFAULT_PORT,
+  ControlCommand,
+  ControlReply,
+  ControlState,
+  encodeControlReply,
+  parseControlMessage
+} from './ControlAPI'
+
+export interface ControlServerOptions {
+  port?: number
+  bindAddress?: string
+}
+
+export class ControlServer {
+  private socket: dgram.Socket | null = null
+  private options: Required<ControlServerOptions>
+  private state: ControlState | null = null
+  // Returns true once the command has reached a dashboard
+  private onCommandCallback?: (command: ControlCommand) => boolean
+
+  constructor(options: ControlServerOptions = {}) {
+    this.options = {
+      port: options.port ?? CONTROL_DEFAULT_PORT,
+      bindAddress: options.bindAddress ?? '0.0.0.0'
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.socket) return
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+    socket.on('error', (error) => {
+      console.error('❌ Control API socket error:', error.message)
+    })
+    socket.on('message', (data, rinfo) => this.handlePacket(new Uint8Array(data), rinfo.address, rinfo.port))
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      socket.bind(this.options.port, this.options.bindAddress, () => {
+        socket.removeListener('error', reject)
+        resolve()
+      })
+    })
+    this.socket = socket
+    console.log(`🎚️ Control API listening on udp://${this.options.bindAddress}:${this.options.port}`)
+  }
+
+  stop(): void {
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  getPort(): number {
+    return this.options.port
+  }
+
+  setState(state: ControlState): void {
+    this.state = state
+  }
+
+  onCommand(callback: (command: ControlCommand) => boolean): void {
+    this.onCommandCallback = callback
+  }
+
+  private handlePacket(data: Uint8Array, host: string, port: number): void {
+    let messages: OSCMessage[]
+    try {
+      messages = flattenPacket(decodeOSCPacket(data))
+    } catch (error: any) {
+      console.warn(`⚠️ Control API dropped a malformed packet from ${host}: ${error.message}`)
+      return
+    }
+    messages.forEach(message => {
+      const reply = this.handleMessage(message)
+      if (reply) this.reply(reply, host, port)
+    })
+  }
+
+  private handleMessage(message: OSCMessage): ControlReply | null {
+    const parsed = parseControlMessage(message, this.state ? this.state.moods : [])
+    if (!parsed) return null
+    const address = message.address
+
+    // Without a state there's no mood list either, so this comes first
+    if (!this.state) {
+      return { address, status: 'error', data: 'No dashboard has connected yet' }
+    }
+    if (parsed.type === 'error') {
+      return { address, status: 'error', data: parsed.error }
+    }
+    if (parsed.type === 'query') {
+      return { address, status: 'ok', data: this.state }
+    }
+
+    const delivered = this.onCommandCallback ? this.onCommandCallback(parsed.command) : false
+    console.log(`🎚️ Control API: ${address}`, message.args)
+    return delivered
+      ? { address, status: 'ok' }
+      : { address, status: 'error', data: 'No dashboard connected' }
+  }
+
+  private reply(reply: ControlReply, host: string, port: number): void {
+    if (!this.socket) return
+    this.socket.send(encodeOSCPacket(encodeControlReply(reply)), port, host, (error) => {
+      if (error) console.error(`❌ Control API reply to ${host}:${port} failed:`, error.message)
+    })
+  }
+}
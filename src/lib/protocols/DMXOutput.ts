@@ -0,0 +1,17 @@
+// Common surface for DMX-over-IP transports (Art-Net, sACN)
+export const DMX_UNIVERSE_SIZE = 512
+
+export interface DMXOutput {
+  start(): Promise<void>
+  stop(): void
+  isRunning(): boolean
+  // `target` is a unicast node address; omitted means the protocol's broadcast/multicast default
+  addUniverse(universe: number, target?: string): void
+  removeUniverse(universe: number): void
+  getUniverses(): number[]
+  getUniverseData(universe: number): Uint8Array | null
+  // Channels are 1-based as on a console; values are 0-255
+  setChannel(universe: number, channel: number, value: number): void
+  setChannels(universe: number, startChannel: number, values: number[]): void
+  blackout(universe?: number): void
+}
@@ -0,0 +1,74 @@
+// Discovered devices
+// What network discovery reports, plus matching against the software MOOD
+// already knows how to drive. No Node built-ins, so the dashboard can adopt
+// devices without pulling in the discovery sockets.
+
+export type DiscoverySource = 'mdns' | 'artpoll'
+
+export interface DiscoveredDevice {
+  id: string
+  name: string
+  ip: string
+  port: number
+  protocol: 'OSC' | 'MIDI' | 'ArtNet' | 'sACN'
+  transport?: 'udp' | 'tcp'
+  software: string // Best guess, 'Unknown' when nothing matched
+  softwareId?: string // Default connection this device can fill, if any
+  version?: string
+  capabilities: string[] // e.g. 'osc-udp', 'oscquery', 'artnet', 'dmx-out', 'universe:1'
+  source: DiscoverySource
+  interface?: string // Local interface the device was seen on
+  lastSeen: number
+}
+
+export interface NetworkInterfaceInfo {
+  name: string
+  address: string
+  netmask: string
+  cidr: string // Network in CIDR form, e.g. 192.168.1.0/24
+  broadcast: string
+}
+
+interface KnownSoftware {
+  id: string
+  software: string
+  pattern: RegExp
+  ports: number[]
+}
+
+const KNOWN_SOFTWARE: KnownSoftware[] = [
+  { id: 'qlab', software: 'QLab', pattern: /qlab/i, ports: [53000] },
+  { id: 'resolume', software: 'Resolume', pattern: /resolume|arena|avenue/i, ports: [7000] },
+  { id: 'touchosc', software: 'TouchOSC', pattern: /touch\s?osc/i, ports: [] },
+  { id: 'chamsys', software: 'Chamsys', pattern: /magicq|chamsys/i, ports: [] },
+  { id: 'grandma3', software: 'GrandMA3', pattern: /grandma|gma3|ma lighting/i, ports: [] },
+  { id: 'eos', software: 'ETC Eos', pattern: /\beos\b|etc ion|etc gio|etc element/i, ports: [3032, 3037] },
+  { id: 'ableton', software: 'Ableton Live', pattern: /ableton/i, ports: [11000] },
+  { id: 'madmapper', software: 'MadMapper', pattern: /madmapper/i, ports: [8010] },
+  { id: 'millumin', software: 'Millumin', pattern: /millumin/i, ports: [5000] }
+]
+
+// Names are the strong signal; a well-known port only counts when the name says nothing
+export function identifySoftware(name: string, port?: number): { software: string; softwareId?: string } {
+  const byName = KNOWN_SOFTWARE.find(known => known.pattern.test(name))
+  if (byName) return { software: byName.software, softwareId: byName.id }
+
+  const byPort = port !== undefined ? KNOWN_SOFTWARE.find(known => known.ports.indexOf(port) >= 0) : undefined
+  if (byPort) return { software: byPort.software, softwareId: byPort.id }
+
+  return { software: 'Unknown' }
+}
+
+export function describeCapability(capability: string): string {
+  const [kind, value] = capability.split(':')
+  switch (kind) {
+    case 'osc-udp': return 'OSC/UDP'
+    case 'osc-tcp': return 'OSC/TCP'
+    case 'oscquery': return 'OSCQuery'
+    case 'artnet': return 'Art-Net'
+    case 'dmx-out': return 'DMX out'
+    case 'dmx-in': return 'DMX in'
+    case 'universe': return `U${value}`
+    default: return capability
+  }
+}
@@ -0,0 +1,73 @@
+// ETC Eos show state
+// What an Eos family console (Eos, Ion, Element, Gio) reports once subscribed
+// with /eos/subscribe: the show file name and the active and pending cues.
+// Pure, so the dashboard can render a snapshot sent over the bridge.
+import { OSCMessage, argumentValue } from './OSCCodec'
+
+export interface EosCue {
+  list: number
+  number: string // Eos cue numbers can be decimal ("2.5")
+  label: string // Everything Eos sends after the number, e.g. "Opening 5"
+  percent?: number // 0-100, while the cue is fading
+}
+
+export interface EosShowState {
+  showName: string
+  activeCue: EosCue | null
+  pendingCue: EosCue | null
+  updatedAt: number
+}
+
+// The eos block of a mood mapping
+export interface EosMoodMapping {
+  cue?: { list?: number; number: string | number } // Fired in the default list without a list
+  subs?: Array<{ id: number; level: number }> // Submaster faders, 0-1
+  channels?: Array<{ id: number; param: string; value: number }> // e.g. { id: 1, param: 'intens', value: 80 }
+  command?: string // Command line text; '#' is Enter
+}
+
+export const EOS_OUT = {
+  SHOW_NAME: '/eos/out/show/name',
+  ACTIVE_CUE_TEXT: '/eos/out/active/cue/text',
+  PENDING_CUE_TEXT: '/eos/out/pending/cue/text'
+}
+
+export function emptyEosState(): EosShowState {
+  return { showName: '', activeCue: null, pendingCue: null, updatedAt: 0 }
+}
+
+// "1/5 Opening 5 45%" → list 1, cue 5, label "Opening 5", 45%
+export function parseEosCueText(text: string): EosCue | null {
+  const match = /^(\d+)\/(\S+)\s*(.*)$/.exec(text.trim())
+  if (!match) return null
+
+  let label = match[3]
+  let percent: number | undefined
+  const progress = /\s*(\d+)%$/.exec(label)
+  if (progress) {
+    percent = parseInt(progress[1], 10)
+    label = label.slice(0, progress.index)
+  }
+  return { list: parseInt(match[1], 10), number: match[2], label: label.trim(), percent }
+}
+
+// The new state if the message is one we track, otherwise null
+export function applyEosMessage(state: EosShowState, message: OSCMessage): EosShowState | null {
+  const text = message.args.length > 0 ? String(argumentValue(message.args[0])) : ''
+
+  switch (message.address) {
+    case EOS_OUT.SHOW_NAME:
+      return { ...state, showName: text, updatedAt: Date.now() }
+    case EOS_OUT.ACTIVE_CUE_TEXT:
+      return { ...state, activeCue: parseEosCueText(text), updatedAt: Date.now() }
+    case EOS_OUT.PENDING_CUE_TEXT:
+      return { ...state, pendingCue: parseEosCueText(text), updatedAt: Date.now() }
+    default:
+      return null
+  }
+}
+
+export function formatEosCue(cue: EosCue | null): string {
+  if (!cue) return '—'
+  return `${cue.list}/${cue.number}${cue.label ? ` ${cue.label}` : ''}`
+}
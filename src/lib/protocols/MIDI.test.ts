@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  MSC_COMMAND_FORMATS,
+  controlChange,
+  encodeMSC,
+  mscGo,
+  mscSet,
+  mscStop,
+  noteOn,
+  programChange,
+  toHex
+} from './MIDI'
+
+describe('MIDI Show Control', () => {
+  it('lays out a GO with cue, list and path', () => {
+    assert.equal(
+      toHex(mscGo({ number: '12.5', list: '1', path: '3' }, 0x01, MSC_COMMAND_FORMATS.LIGHTING)),
+      'F0 7F 01 02 01 01 31 32 2E 35 00 31 00 33 F7'
+    )
+  })
+
+  it('sends to all call and all types by default', () => {
+    assert.equal(toHex(mscGo({ number: '1', list: '1' })), 'F0 7F 7F 02 7F 01 31 00 31 F7')
+    assert.equal(toHex(mscStop()), 'F0 7F 7F 02 7F 02 F7')
+  })
+
+  it('sends SET control and value as 14-bit, LSB first', () => {
+    assert.equal(toHex(mscSet(0x0123, 16383, 0x10, MSC_COMMAND_FORMATS.SOUND)), 'F0 7F 10 02 10 06 23 02 7F 7F F7')
+    assert.equal(toHex(mscSet(-5, 20000)), 'F0 7F 7F 02 7F 06 00 00 7F 7F F7')
+  })
+
+  it('rejects cue fields that are not digits and dots', () => {
+    assert.throws(() => mscGo({ number: '1a' }), /Invalid character/)
+  })
+
+  it('rejects a list without a cue number and a path without a list', () => {
+    assert.throws(() => mscGo({ list: '1' }), /requires a cue number/)
+    assert.throws(() => mscGo({ number: '1', path: '2' }), /requires a cue list/)
+  })
+
+  it('rejects device IDs outside 0-127', () => {
+    assert.throws(() => encodeMSC(0x01, [], 0x80), /device ID out of range/)
+  })
+})
+
+describe('MIDI channel messages', () => {
+  it('numbers channels 1-16 and clamps data bytes', () => {
+    assert.equal(toHex(noteOn(1, 60, 100)), '90 3C 64')
+    assert.equal(toHex(controlChange(16, 7, 200)), 'BF 07 7F')
+    assert.equal(toHex(programChange(10, 5)), 'C9 05')
+  })
+
+  it('rejects channels outside 1-16', () => {
+    assert.throws(() => noteOn(0, 60, 100), /channel out of range/)
+    assert.throws(() => controlChange(17, 1, 1), /channel out of range/)
+  })
+})
@@ -0,0 +1,399 @@
+// MIDI output: MIDI Show Control (MSC) plus plain note/CC messages
+// Messages are raw bytes handed to a pluggable transport (virtual port,
+// RTP-MIDI over UDP, or a capture file for tests).
+import fs from 'fs'
+
+export interface MIDITransport {
+  readonly name: string
+  open(): Promise<void>
+  close(): Promise<void>
+  isOpen(): boolean
+  send(message: Uint8Array): Promise<void>
+}
+
+// ===== MIDI SHOW CONTROL =====
+
+export const MSC_COMMANDS = {
+  GO: 0x01,
+  STOP: 0x02,
+  RESUME: 0x03,
+  TIMED_GO: 0x04,
+  LOAD: 0x05,
+  SET: 0x06,
+  FIRE: 0x07,
+  ALL_OFF: 0x08,
+  RESTORE: 0x09,
+  RESET: 0x0a
+} as const
+
+// MSC command_format: which kind of device the command is addressed to
+export const MSC_COMMAND_FORMATS = {
+  LIGHTING: 0x01,
+  MOVING_LIGHTS: 0x02,
+  SOUND: 0x10,
+  VIDEO: 0x30,
+  PROJECTION: 0x40,
+  SHOW_CONTROL: 0x60,
+  ALL_TYPES: 0x7f
+} as const
+
+export const MSC_ALL_CALL = 0x7f
+
+export type MSCCommandName = 'GO' | 'STOP' | 'RESUME' | 'SET'
+
+export interface MSCCue {
+  number?: string // e.g. '12.5'
+  list?: string
+  path?: string
+}
+
+// Per-mood MIDI output, alongside the qlab/lighting blocks in MoodMappings
+export interface MIDIMoodMapping {
+  deviceId?: number
+  commandFormat?: number
+  msc?: Array<{
+    command: MSCCommandName
+    cue?: string
+    list?: string
+    path?: string
+    control?: number // SET only
+    value?: number // SET only, 0-16383
+  }>
+  notes?: Array<{
+    channel: number // 1-16
+    note: number
+    velocity: number
+  }>
+  cc?: Array<{
+    channel: number // 1-16
+    controller: number
+    value: number
+  }>
+  program?: {
+    channel: number
+    program: number
+  }
+}
+
+function asciiBytes(value: string): number[] {
+  const bytes: number[] = []
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    // Cue numbers are ASCII digits and '.'; anything else is invalid in MSC
+    if (!/[0-9.]/.test(value.charAt(i))) {
+      throw new Error(`Invalid character '${value.charAt(i)}' in MSC cue field "${value}"`)
+    }
+    bytes.push(code)
+  }
+  return bytes
+}
+
+function cueData(cue: MSCCue = {}): number[] {
+  if (!cue.number) {
+    if (cue.list || cue.path) throw new Error('MSC cue list/path requires a cue number')
+    return []
+  }
+  const data = asciiBytes(cue.number)
+  if (cue.list) data.push(0x00, ...asciiBytes(cue.list))
+  if (cue.path) {
+    if (!cue.list) throw new Error('MSC cue path requires a cue list')
+    data.push(0x00, ...asciiBytes(cue.path))
+  }
+  return data
+}
+
+function validateDeviceId(deviceId: number): void {
+  if (deviceId < 0 || deviceId > 0x7f) {
+    throw new Error(`MSC device ID out of range (0-127): ${deviceId}`)
+  }
+}
+
+export function encodeMSC(
+  command: number,
+  data: number[] = [],
+  deviceId: number = MSC_ALL_CALL,
+  commandFormat: number = MSC_COMMAND_FORMATS.ALL_TYPES
+): Uint8Array {
+  validateDeviceId(deviceId)
+  return new Uint8Array([0xf0, 0x7f, deviceId, 0x02, commandFormat, command, ...data, 0xf7])
+}
+
+export function mscGo(cue?: MSCCue, deviceId?: number, commandFormat?: number): Uint8Array {
+  return encodeMSC(MSC_COMMANDS.GO, cueData(cue), deviceId, commandFormat)
+}
+
+export function mscStop(cue?: MSCCue, deviceId?: number, commandFormat?: number): Uint8Array {
+  return encodeMSC(MSC_COMMANDS.STOP, cueData(cue), deviceId, commandFormat)
+}
+
+export function mscResume(cue?: MSCCue, deviceId?: number, commandFormat?: number): Uint8Array {
+  return encodeMSC(MSC_COMMANDS.RESUME, cueData(cue), deviceId, commandFormat)
+}
+
+// SET: generic control number and value, both 14-bit, sent LSB first
+export function mscSet(control: number, value: number, deviceId?: number, commandFormat?: number): Uint8Array {
+  const c = clamp14(control)
+  const v = clamp14(value)
+  return encodeMSC(MSC_COMMANDS.SET, [c & 0x7f, c >> 7, v & 0x7f, v >> 7], deviceId, commandFormat)
+}
+
+// ===== CHANNEL VOICE MESSAGES =====
+
+function statusByte(type: number, channel: number): number {
+  if (channel < 1 || channel > 16) {
+    throw new Error(`MIDI channel out of range (1-16): ${channel}`)
+  }
+  return type | (channel - 1)
+}
+
+function clamp7(value: number): number {
+  return Math.max(0, Math.min(127, Math.round(value)))
+}
+
+function clamp14(value: number): number {
+  return Math.max(0, Math.min(16383, Math.round(value)))
+}
+
+export function noteOn(channel: number, note: number, velocity: number): Uint8Array {
+  return new Uint8Array([statusByte(0x90, channel), clamp7(note), clamp7(velocity)])
+}
+
+export function noteOff(channel: number, note: number, velocity: number = 0): Uint8Array {
+  return new Uint8Array([statusByte(0x80, channel), clamp7(note), clamp7(velocity)])
+}
+
+export function controlChange(channel: number, controller: number, value: number): Uint8Array {
+  return new Uint8Array([statusByte(0xb0, channel), clamp7(controller), clamp7(value)])
+}
+
+export function programChange(channel: number, program: number): Uint8Array {
+  return new Uint8Array([statusByte(0xc0, channel), clamp7(program)])
+}
+
+export function toHex(message: Uint8Array): string {
+  return Array.from(message).map(b => ('0' + b.toString(16).toUpperCase()).slice(-2)).join(' ')
+}
+
+// ===== TRANSPORTS =====
+
+// Any MIDI output port exposing sendMessage(number[]), e.g. an Output from
+// the `midi` / `@julusian/midi` packages opened with openVirtualPort()
+export interface MIDIPortLike {
+  sendMessage(message: number[]): void
+  closePort?(): void
+}
+
+// Native node-midi bindings, tried in order. Neither is a dependency: they
+// build an addon against the system's MIDI stack, so venues that want a
+// virtual port install one next to the bridge.
+export const VIRTUAL_PORT_PACKAGES = ['@julusian/midi', 'midi']
+
+export async function openVirtualPort(name: string): Promise<MIDIPortLike> {
+  for (const id of VIRTUAL_PORT_PACKAGES) {
+    let midi: any
+    try {
+      midi = await import(id)
+    } catch (error) {
+      continue
+    }
+    const Output = midi.Output || (midi.default && midi.default.Output)
+    const output = new Output()
+    output.openVirtualPort(name)
+    return output
+  }
+  throw new Error(`Virtual MIDI ports need ${VIRTUAL_PORT_PACKAGES.join(' or ')} installed`)
+}
+
+// Without a port of its own, opening creates a virtual port under the transport's name
+export class VirtualPortTransport implements MIDITransport {
+  readonly name: string
+  private opened = false
+  private created = false
+
+  constructor(private port: MIDIPortLike | null = null, name: string = 'MOOD Virtual Port') {
+    this.name = name
+  }
+
+  async open(): Promise<void> {
+    if (!this.port) {
+      this.port = await openVirtualPort(this.name)
+      this.created = true
+    }
+    this.opened = true
+  }
+
+  async close(): Promise<void> {
+    if (this.port && this.port.closePort) this.port.closePort()
+    if (this.created) {
+      this.port = null
+      this.created = false
+    }
+    this.opened = false
+  }
+
+  isOpen(): boolean {
+    return this.opened
+  }
+
+  async send(message: Uint8Array): Promise<void> {
+    if (!this.opened || !this.port) throw new Error(`${this.name} not open`)
+    this.port.sendMessage(Array.from(message))
+  }
+}
+
+// Records every message in memory and, optionally, as hex lines in a file
+export class CaptureFileTransport implements MIDITransport {
+  readonly name = 'Capture'
+  readonly messages: Array<{ timestamp: number; bytes: Uint8Array }> = []
+  private opened = false
+
+  constructor(private filePath?: string) {}
+
+  async open(): Promise<void> {
+    if (this.filePath) await fs.promises.writeFile(this.filePath, '')
+    this.opened = true
+  }
+
+  async close(): Promise<void> {
+    this.opened = false
+  }
+
+  isOpen(): boolean {
+    return this.opened
+  }
+
+  async send(message: Uint8Array): Promise<void> {
+    if (!this.opened) throw new Error('Capture transport not open')
+    const timestamp = Date.now()
+    this.messages.push({ timestamp, bytes: new Uint8Array(message) })
+    if (this.filePath) {
+      await fs.promises.appendFile(this.filePath, `${timestamp} ${toHex(message)}\n`)
+    }
+  }
+
+  clear(): void {
+    this.messages.length = 0
+  }
+}
+
+// ===== OUTPUT =====
+
+export class MIDIOutput {
+  private deviceId: number
+  private commandFormat: number
+  private onMessageCallback?: (message: Uint8Array, description: string) => void
+
+  constructor(private transport: MIDITransport, options: { deviceId?: number; commandFormat?: number } = {}) {
+    this.deviceId = options.deviceId ?? MSC_ALL_CALL
+    this.commandFormat = options.commandFormat ?? MSC_COMMAND_FORMATS.ALL_TYPES
+    validateDeviceId(this.deviceId)
+  }
+
+  getTransport(): MIDITransport {
+    return this.transport
+  }
+
+  setTransport(transport: MIDITransport): void {
+    this.transport = transport
+  }
+
+  setDeviceId(deviceId: number): void {
+    validateDeviceId(deviceId)
+    this.deviceId = deviceId
+  }
+
+  async open(): Promise<void> {
+    if (!this.transport.isOpen()) await this.transport.open()
+  }
+
+  async close(): Promise<void> {
+    if (this.transport.isOpen()) await this.transport.close()
+  }
+
+  // MSC
+  async go(cue?: MSCCue, deviceId?: number): Promise<void> {
+    await this.send(mscGo(cue, deviceId ?? this.deviceId, this.commandFormat), `MSC GO ${describeCue(cue)}`)
+  }
+
+  async stop(cue?: MSCCue, deviceId?: number): Promise<void> {
+    await this.send(mscStop(cue, deviceId ?? this.deviceId, this.commandFormat), `MSC STOP ${describeCue(cue)}`)
+  }
+
+  async resume(cue?: MSCCue, deviceId?: number): Promise<void> {
+    await this.send(mscResume(cue, deviceId ?? this.deviceId, this.commandFormat), `MSC RESUME ${describeCue(cue)}`)
+  }
+
+  async set(control: number, value: number, deviceId?: number): Promise<void> {
+    await this.send(mscSet(control, value, deviceId ?? this.deviceId, this.commandFormat), `MSC SET ${control}=${value}`)
+  }
+
+  // Channel voice
+  async note(channel: number, note: number, velocity: number): Promise<void> {
+    const message = velocity > 0 ? noteOn(channel, note, velocity) : noteOff(channel, note)
+    await this.send(message, `Note ch${channel} ${note} vel ${velocity}`)
+  }
+
+  async cc(channel: number, controller: number, value: number): Promise<void> {
+    await this.send(controlChange(channel, controller, value), `CC ch${channel} #${controller}=${value}`)
+  }
+
+  async program(channel: number, program: number): Promise<void> {
+    await this.send(programChange(channel, program), `PC ch${channel} ${program}`)
+  }
+
+  // Send everything a mood mapping asks for, in MSC -> program -> CC -> notes order
+  async applyMapping(mapping: MIDIMoodMapping): Promise<void> {
+    const deviceId = mapping.deviceId ?? this.deviceId
+    const format = mapping.commandFormat ?? this.commandFormat
+
+    for (const msc of mapping.msc || []) {
+      const cue: MSCCue = { number: msc.cue, list: msc.list, path: msc.path }
+      switch (msc.command) {
+        case 'GO':
+          await this.send(mscGo(cue, deviceId, format), `MSC GO ${describeCue(cue)}`)
+          break
+        case 'STOP':
+          await this.send(mscStop(cue, deviceId, format), `MSC STOP ${describeCue(cue)}`)
+          break
+        case 'RESUME':
+          await this.send(mscResume(cue, deviceId, format), `MSC RESUME ${describeCue(cue)}`)
+          break
+        case 'SET':
+          if (msc.control === undefined || msc.value === undefined) {
+            throw new Error('MSC SET mapping needs control and value')
+          }
+          await this.send(mscSet(msc.control, msc.value, deviceId, format), `MSC SET ${msc.control}=${msc.value}`)
+          break
+      }
+    }
+
+    if (mapping.program) {
+      await this.program(mapping.program.channel, mapping.program.program)
+    }
+
+    for (const cc of mapping.cc || []) {
+      await this.cc(cc.channel, cc.controller, cc.value)
+    }
+
+    for (const note of mapping.notes || []) {
+      await this.note(note.channel, note.note, note.velocity)
+    }
+  }
+
+  async send(message: Uint8Array, description: string = toHex(message)): Promise<void> {
+    if (!this.transport.isOpen()) {
+      throw new Error(`MIDI transport ${this.transport.name} not open`)
+    }
+    await this.transport.send(message)
+    if (this.onMessageCallback) this.onMessageCallback(message, description)
+  }
+
+  onMessage(callback: (message: Uint8Array, description: string) => void): void {
+    this.onMessageCallback = callback
+  }
+}
+
+function describeCue(cue?: MSCCue): string {
+  if (!cue?.number) return '(all)'
+  return [cue.number, cue.list, cue.path].filter(Boolean).join('/')
+}
@@ -0,0 +1,272 @@
+// MQTT client over TCP
+// Keeps one broker session up: connects with a last will, pings on the
+// keepalive, resubscribes and reconnects with backoff when the broker drops
+// or stops answering pings.
+import net from 'net'
+import {
+  CONNACK_ERRORS,
+  MQTTConnectOptions,
+  MQTTPacket,
+  MQTTPacketDecoder,
+  MQTTQoS,
+  decodePayload,
+  encodeConnect,
+  encodeDisconnect,
+  encodePayload,
+  encodePingreq,
+  encodePuback,
+  encodePublish,
+  encodeSubscribe,
+  mqttTopicMatches
+} from './MQTTPacket'
+
+export interface MQTTClientOptions extends MQTTConnectOptions {
+  host: string
+  port: number
+  connectTimeoutMs?: number
+  reconnectMs?: number // Starting backoff; doubles up to a minute
+}
+
+const MAX_RECONNECT_MS = 60000
+// How long a closing socket gets to flush its DISCONNECT
+const CLOSE_TIMEOUT_MS = 1000
+
+export class MQTTClient {
+  private options: MQTTClientOptions
+  private socket: net.Socket | null = null
+  private decoder = new MQTTPacketDecoder()
+  private connected = false
+  private closing = false
+  private packetId = 0
+  private subscriptions: string[] = []
+  private pingTimer?: NodeJS.Timeout
+  private pongTimer?: NodeJS.Timeout
+  private reconnectTimer?: NodeJS.Timeout
+  private reconnectDelay: number
+
+  private onMessageCallback?: (topic: string, payload: string, retained: boolean) => void
+  private onStatusCallback?: (connected: boolean, error?: string) => void
+
+  constructor(options: MQTTClientOptions) {
+    this.options = options
+    this.reconnectDelay = options.reconnectMs ?? 2000
+  }
+
+  // Resolves once the broker accepts the session; later drops reconnect on their own
+  async connect(): Promise<void> {
+    this.closing = false
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = undefined
+    }
+    if (this.socket) return
+
+    const { host, port } = this.options
+    const timeoutMs = this.options.connectTimeoutMs ?? 5000
+    this.decoder = new MQTTPacketDecoder()
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host, port })
+      let settled = false
+      const settle = (error?: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        if (error) {
+          socket.destroy()
+          reject(error)
+        } else {
+          resolve()
+        }
+      }
+      const timer = setTimeout(() => settle(new Error(`MQTT broker ${host}:${port} did not answer within ${timeoutMs}ms`)), timeoutMs)
+
+      socket.once('connect', () => {
+        socket.setNoDelay(true)
+        socket.write(encodeConnect(this.options))
+      })
+      socket.on('data', (data) => {
+        let packets: MQTTPacket[]
+        try {
+          packets = this.decoder.push(new Uint8Array(data))
+        } catch (error: any) {
+          console.error(`❌ MQTT stream from ${host}:${port} is corrupt:`, error.message)
+          socket.destroy()
+          return
+        }
+        packets.forEach(packet => {
+          if (packet.type === 'connack') {
+            if (this.closing) {
+              settle(new Error('MQTT client closed while connecting'))
+            } else if (packet.returnCode === 0) {
+              this.socket = socket
+              this.handleConnected()
+              settle()
+            } else {
+              settle(new Error(`MQTT broker refused the connection: ${CONNACK_ERRORS[packet.returnCode] || packet.returnCode}`))
+            }
+          } else {
+            this.handlePacket(packet)
+          }
+        })
+      })
+      socket.once('error', (error) => settle(error))
+      socket.on('error', (error) => {
+        if (this.socket === socket) console.error(`❌ MQTT error with ${host}:${port}:`, error.message)
+      })
+      socket.on('close', () => {
+        settle(new Error(`MQTT broker ${host}:${port} closed the connection`))
+        if (this.socket === socket) this.handleClose()
+      })
+    })
+  }
+
+  // Keeps trying in the background until close(); status goes to onStatus
+  start(): void {
+    this.connect().catch(error => this.handleConnectFailure(error))
+  }
+
+  close(): void {
+    this.closing = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = undefined
+    }
+    const socket = this.socket
+    if (socket) {
+      // A clean DISCONNECT tells the broker not to send the will; destroying
+      // before it's flushed would drop it
+      const timer = setTimeout(() => socket.destroy(), CLOSE_TIMEOUT_MS)
+      socket.end(encodeDisconnect(), () => {
+        clearTimeout(timer)
+        socket.destroy()
+      })
+    }
+    this.handleClose()
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  // Dropped while disconnected; retained topics are republished on reconnect by the owner
+  publish(topic: string, payload: string, options: { qos?: MQTTQoS; retain?: boolean } = {}): void {
+    if (!this.socket || !this.connected) return
+    const qos = options.qos ?? 0
+    this.socket.write(encodePublish({
+      topic,
+      payload: encodePayload(payload),
+      qos,
+      retain: options.retain ?? false,
+      packetId: qos > 0 ? this.nextPacketId() : undefined
+    }))
+  }
+
+  // Remembered and renewed on every reconnect
+  subscribe(filters: string[]): void {
+    filters.forEach(filter => {
+      if (this.subscriptions.indexOf(filter) < 0) this.subscriptions.push(filter)
+    })
+    if (this.socket && this.connected && filters.length > 0) {
+      this.socket.write(encodeSubscribe(this.nextPacketId(), filters.map(filter => ({ filter, qos: 0 as MQTTQoS }))))
+    }
+  }
+
+  onMessage(callback: (topic: string, payload: string, retained: boolean) => void): void {
+    this.onMessageCallback = callback
+  }
+
+  onStatus(callback: (connected: boolean, error?: string) => void): void {
+    this.onStatusCallback = callback
+  }
+
+  private handleConnected(): void {
+    this.connected = true
+    this.reconnectDelay = this.options.reconnectMs ?? 2000
+    console.log(`📡 MQTT connected to ${this.options.host}:${this.options.port} as ${this.options.clientId}`)
+
+    if (this.subscriptions.length > 0) {
+      const filters = this.subscriptions
+      this.subscriptions = []
+      this.subscribe(filters)
+    }
+
+    // Half the keepalive leaves room for a slow broker; a broker that lets a
+    // whole keepalive pass without a PINGRESP is gone, however open the socket looks
+    const keepaliveMs = this.options.keepaliveSeconds * 1000
+    if (keepaliveMs > 0) {
+      this.pingTimer = setInterval(() => {
+        const socket = this.socket
+        if (!socket) return
+        socket.write(encodePingreq())
+        if (this.pongTimer) return
+        this.pongTimer = setTimeout(() => {
+          this.pongTimer = undefined
+          console.warn(`⚠️ MQTT broker ${this.options.host}:${this.options.port} stopped answering pings`)
+          socket.destroy()
+        }, keepaliveMs)
+      }, keepaliveMs / 2)
+    }
+    if (this.onStatusCallback) this.onStatusCallback(true)
+  }
+
+  private handlePacket(packet: MQTTPacket): void {
+    if (packet.type === 'pingresp') {
+      this.clearPongTimer()
+      return
+    }
+    if (packet.type !== 'publish') return
+    const { publish } = packet
+    if (publish.qos === 1 && publish.packetId !== undefined && this.socket) {
+      this.socket.write(encodePuback(publish.packetId))
+    }
+    if (this.onMessageCallback && this.subscriptions.some(filter => mqttTopicMatches(filter, publish.topic))) {
+      this.onMessageCallback(publish.topic, decodePayload(publish.payload), publish.retain)
+    }
+  }
+
+  private handleClose(): void {
+    const wasConnected = this.connected
+    this.socket = null
+    this.connected = false
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = undefined
+    }
+    this.clearPongTimer()
+    if (!wasConnected) return
+
+    if (this.onStatusCallback) this.onStatusCallback(false, this.closing ? undefined : 'Connection lost')
+    if (!this.closing) this.scheduleReconnect()
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer)
+      this.pongTimer = undefined
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return
+    const delay = this.reconnectDelay
+    this.reconnectDelay = Math.min(MAX_RECONNECT_MS, delay * 2)
+    console.log(`📡 MQTT reconnecting to ${this.options.host}:${this.options.port} in ${delay / 1000}s`)
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined
+      this.start()
+    }, delay)
+  }
+
+  private handleConnectFailure(error: Error): void {
+    console.warn(`⚠️ MQTT connection to ${this.options.host}:${this.options.port} failed: ${error.message}`)
+    if (this.onStatusCallback) this.onStatusCallback(false, error.message)
+    if (!this.closing) this.scheduleReconnect()
+  }
+
+  private nextPacketId(): number {
+    this.packetId = (this.packetId % 0xffff) + 1
+    return this.packetId
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  MQTTPacket,
+  MQTTPacketDecoder,
+  decodePayload,
+  encodePayload,
+  encodePublish,
+  mqttTopicMatches
+} from './MQTTPacket'
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    out.set(part, offset)
+    offset += part.length
+  })
+  return out
+}
+
+const publish = (topic: string, payload: string, packetId?: number) =>
+  encodePublish({ topic, payload: encodePayload(payload), qos: packetId ? 1 : 0, retain: false, packetId })
+
+function published(packets: MQTTPacket[]): Array<{ topic: string; payload: string; packetId?: number }> {
+  return packets.map(packet => {
+    assert.equal(packet.type, 'publish')
+    const { topic, payload, packetId } = (packet as Extract<MQTTPacket, { type: 'publish' }>).publish
+    return { topic, payload: decodePayload(payload), packetId }
+  })
+}
+
+describe('MQTTPacketDecoder', () => {
+  it('decodes a whole packet', () => {
+    const decoder = new MQTTPacketDecoder()
+    assert.deepEqual(published(decoder.push(publish('mood/set', 'Calm', 7))), [{ topic: 'mood/set', payload: 'Calm', packetId: 7 }])
+  })
+
+  it('reassembles a packet fed one byte at a time', () => {
+    const decoder = new MQTTPacketDecoder()
+    const bytes = publish('mood/energy', '0.75')
+    const packets: MQTTPacket[] = []
+    for (let i = 0; i < bytes.length; i++) {
+      const out = decoder.push(bytes.subarray(i, i + 1))
+      if (i < bytes.length - 1) assert.equal(out.length, 0)
+      packets.push(...out)
+    }
+    assert.deepEqual(published(packets), [{ topic: 'mood/energy', payload: '0.75', packetId: undefined }])
+  })
+
+  it('splits several packets out of one chunk and keeps the remainder', () => {
+    const decoder = new MQTTPacketDecoder()
+    const third = publish('c', 'three')
+    const chunk = concat([publish('a', 'one'), publish('b', 'two'), third.subarray(0, 3)])
+    assert.deepEqual(published(decoder.push(chunk)).map(p => p.payload), ['one', 'two'])
+    assert.deepEqual(published(decoder.push(third.subarray(3))).map(p => p.payload), ['three'])
+  })
+
+  it('waits for a multi-byte remaining length split across chunks', () => {
+    const decoder = new MQTTPacketDecoder()
+    const payload = new Array(300).join('x')
+    const bytes = publish('mood/log', payload)
+    // Header byte and the first of two length bytes only
+    assert.deepEqual(decoder.push(bytes.subarray(0, 2)), [])
+    assert.deepEqual(published(decoder.push(bytes.subarray(2))), [{ topic: 'mood/log', payload, packetId: undefined }])
+  })
+
+  it('decodes acknowledgements', () => {
+    const decoder = new MQTTPacketDecoder()
+    const packets = decoder.push(new Uint8Array([0x20, 0x02, 0x00, 0x00, 0x90, 0x03, 0x00, 0x05, 0x01, 0xd0, 0x00]))
+    assert.deepEqual(packets, [
+      { type: 'connack', sessionPresent: false, returnCode: 0 },
+      { type: 'suback', packetId: 5, granted: [1] },
+      { type: 'pingresp' }
+    ])
+  })
+
+  it('rejects a remaining length longer than four bytes', () => {
+    const decoder = new MQTTPacketDecoder()
+    assert.throws(() => decoder.push(new Uint8Array([0x30, 0xff, 0xff, 0xff, 0xff, 0x01])), /remaining length/)
+  })
+})
+
+describe('mqttTopicMatches', () => {
+  it('matches + on one level and # on the rest', () => {
+    assert.equal(mqttTopicMatches('mood/+/energy', 'mood/room1/energy'), true)
+    assert.equal(mqttTopicMatches('mood/+/energy', 'mood/room1/valence'), false)
+    assert.equal(mqttTopicMatches('mood/#', 'mood/room1/energy'), true)
+    assert.equal(mqttTopicMatches('mood/room1', 'mood/room1/energy'), false)
+  })
+})
@@ -0,0 +1,242 @@
+// MQTT 3.1.1 packet codec
+// The subset a venue client needs: CONNECT (with last will), PUBLISH at QoS
+// 0/1, SUBSCRIBE, keepalive pings and DISCONNECT. Pure; MQTTClient owns the
+// socket.
+
+export type MQTTQoS = 0 | 1
+
+export interface MQTTWill {
+  topic: string
+  payload: string
+  qos: MQTTQoS
+  retain: boolean
+}
+
+export interface MQTTConnectOptions {
+  clientId: string
+  keepaliveSeconds: number
+  cleanSession?: boolean
+  username?: string
+  password?: string
+  will?: MQTTWill
+}
+
+export interface MQTTPublish {
+  topic: string
+  payload: Uint8Array
+  qos: MQTTQoS
+  retain: boolean
+  packetId?: number
+}
+
+export type MQTTPacket =
+  | { type: 'connack'; sessionPresent: boolean; returnCode: number }
+  | { type: 'publish'; publish: MQTTPublish }
+  | { type: 'puback'; packetId: number }
+  | { type: 'suback'; packetId: number; granted: number[] }
+  | { type: 'pingresp' }
+  | { type: 'unknown'; packetType: number }
+
+const PACKET = {
+  CONNECT: 1,
+  CONNACK: 2,
+  PUBLISH: 3,
+  PUBACK: 4,
+  SUBSCRIBE: 8,
+  SUBACK: 9,
+  PINGREQ: 12,
+  PINGRESP: 13,
+  DISCONNECT: 14
+}
+
+export const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized'
+}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// ===== ENCODING =====
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    out.set(part, offset)
+    offset += part.length
+  })
+  return out
+}
+
+function uint16(value: number): Uint8Array {
+  return new Uint8Array([(value >> 8) & 0xff, value & 0xff])
+}
+
+// Length-prefixed, as every MQTT string and binary field is
+function field(value: string | Uint8Array): Uint8Array {
+  const bytes = typeof value === 'string' ? textEncoder.encode(value) : value
+  if (bytes.length > 0xffff) throw new Error(`MQTT field too long: ${bytes.length} bytes`)
+  return concat([uint16(bytes.length), bytes])
+}
+
+// Variable-length remaining length, 7 bits per byte
+function remainingLength(length: number): Uint8Array {
+  const bytes: number[] = []
+  do {
+    let byte = length % 128
+    length = Math.floor(length / 128)
+    if (length > 0) byte |= 0x80
+    bytes.push(byte)
+  } while (length > 0)
+  if (bytes.length > 4) throw new Error('MQTT packet too large')
+  return new Uint8Array(bytes)
+}
+
+function packet(type: number, flags: number, body: Uint8Array[]): Uint8Array {
+  const content = concat(body)
+  return concat([new Uint8Array([(type << 4) | flags]), remainingLength(content.length), content])
+}
+
+export function encodeConnect(options: MQTTConnectOptions): Uint8Array {
+  let flags = options.cleanSession === false ? 0 : 0x02
+  const payload: Uint8Array[] = [field(options.clientId)]
+
+  if (options.will) {
+    flags |= 0x04 | (options.will.qos << 3) | (options.will.retain ? 0x20 : 0)
+    payload.push(field(options.will.topic), field(textEncoder.encode(options.will.payload)))
+  }
+  if (options.username) {
+    flags |= 0x80
+    payload.push(field(options.username))
+    if (options.password) {
+      flags |= 0x40
+      payload.push(field(options.password))
+    }
+  }
+
+  return packet(PACKET.CONNECT, 0, [
+    field('MQTT'),
+    new Uint8Array([4, flags]), // Protocol level 4 is 3.1.1
+    uint16(options.keepaliveSeconds),
+    ...payload
+  ])
+}
+
+export function encodePublish(publish: MQTTPublish): Uint8Array {
+  const flags = (publish.qos << 1) | (publish.retain ? 1 : 0)
+  const header = publish.qos > 0 ? [field(publish.topic), uint16(publish.packetId || 1)] : [field(publish.topic)]
+  return packet(PACKET.PUBLISH, flags, [...header, publish.payload])
+}
+
+export function encodePuback(packetId: number): Uint8Array {
+  return packet(PACKET.PUBACK, 0, [uint16(packetId)])
+}
+
+export function encodeSubscribe(packetId: number, filters: Array<{ filter: string; qos: MQTTQoS }>): Uint8Array {
+  const body: Uint8Array[] = [uint16(packetId)]
+  filters.forEach(({ filter, qos }) => body.push(field(filter), new Uint8Array([qos])))
+  return packet(PACKET.SUBSCRIBE, 0x02, body)
+}
+
+export function encodePingreq(): Uint8Array {
+  return new Uint8Array([PACKET.PINGREQ << 4, 0])
+}
+
+export function encodeDisconnect(): Uint8Array {
+  return new Uint8Array([PACKET.DISCONNECT << 4, 0])
+}
+
+export function encodePayload(value: string): Uint8Array {
+  return textEncoder.encode(value)
+}
+
+export function decodePayload(payload: Uint8Array): string {
+  return textDecoder.decode(payload)
+}
+
+// ===== DECODING =====
+
+function decodeBody(header: number, body: Uint8Array): MQTTPacket {
+  const type = header >> 4
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength)
+
+  switch (type) {
+    case PACKET.CONNACK:
+      return { type: 'connack', sessionPresent: (body[0] & 0x01) === 1, returnCode: body[1] }
+    case PACKET.PUBLISH: {
+      const qos = ((header >> 1) & 0x03) as MQTTQoS
+      const topicLength = view.getUint16(0)
+      const topic = textDecoder.decode(body.subarray(2, 2 + topicLength))
+      let offset = 2 + topicLength
+      let packetId: number | undefined
+      if (qos > 0) {
+        packetId = view.getUint16(offset)
+        offset += 2
+      }
+      return { type: 'publish', publish: { topic, payload: body.slice(offset), qos, retain: (header & 0x01) === 1, packetId } }
+    }
+    case PACKET.PUBACK:
+      return { type: 'puback', packetId: view.getUint16(0) }
+    case PACKET.SUBACK:
+      return { type: 'suback', packetId: view.getUint16(0), granted: Array.from(body.subarray(2)) }
+    case PACKET.PINGRESP:
+      return { type: 'pingresp' }
+    default:
+      return { type: 'unknown', packetType: type }
+  }
+}
+
+// Reassembles packets from a TCP byte stream
+export class MQTTPacketDecoder {
+  private buffer: Uint8Array = new Uint8Array(0)
+
+  push(chunk: Uint8Array): MQTTPacket[] {
+    this.buffer = concat([this.buffer, chunk])
+    const packets: MQTTPacket[] = []
+
+    for (;;) {
+      if (this.buffer.length < 2) break
+
+      let length = 0
+      let multiplier = 1
+      let index = 1
+      let complete = false
+      while (index < this.buffer.length && index <= 4) {
+        const byte = this.buffer[index++]
+        length += (byte & 0x7f) * multiplier
+        multiplier *= 128
+        if ((byte & 0x80) === 0) {
+          complete = true
+          break
+        }
+      }
+      if (!complete) {
+        if (index > 4) throw new Error('Malformed MQTT remaining length')
+        break
+      }
+      if (this.buffer.length < index + length) break
+
+      packets.push(decodeBody(this.buffer[0], this.buffer.slice(index, index + length)))
+      this.buffer = this.buffer.slice(index + length)
+    }
+    return packets
+  }
+}
+
+// ===== TOPICS =====
+
+// Topic filter matching with + (one level) and # (the rest)
+export function mqttTopicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/')
+  const topicLevels = topic.split('/')
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true
+    if (i >= topicLevels.length) return false
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false
+  }
+  return filterLevels.length === topicLevels.length
+}
@@ -0,0 +1,137 @@
+// Outbound message journal
+// Every OSC, DMX and MIDI message MOOD sends, with who asked for it and how
+// it went, in a fixed-size ring buffer. The bridge keeps the journal and
+// pushes each entry to the dashboards; filtering and JSONL export are pure
+// helpers so the dashboard can use them on its own copy. The parameter stream
+// is a continuous feed rather than a decision and stays out of the journal.
+import { OSCArgument, argumentValue } from './OSCCodec'
+
+// Why a message went out
+export type MessageCause =
+  | 'ai' // An applied AI prediction
+  | 'rule' // Automatic mood rules without the AI
+  | 'operator' // Dashboard, surface, control API or MQTT command
+  | 'schedule'
+  | 'system' // Probes, driver setup and other housekeeping
+
+export const MESSAGE_CAUSES: Array<{ cause: MessageCause; label: string }> = [
+  { cause: 'ai', label: 'AI' },
+  { cause: 'rule', label: 'Rule' },
+  { cause: 'operator', label: 'Operator' },
+  { cause: 'schedule', label: 'Schedule' },
+  { cause: 'system', label: 'System' }
+]
+
+export type MessageProtocol = 'OSC' | 'DMX' | 'MIDI'
+
+// 'replied' only where the protocol answers (QLab over TCP); UDP OSC, DMX
+// and MIDI stop at 'sent'
+export type MessageResult = 'sent' | 'replied' | 'failed' | 'mock'
+
+export type JournalArgument = number | string | boolean | null
+
+export interface JournalEntry {
+  id: number
+  timestamp: number
+  target: string // Connection id, or the OSCQuery device
+  protocol: MessageProtocol
+  address: string // OSC address, DMX universe or MIDI message description
+  args: JournalArgument[]
+  cause: MessageCause
+  result: MessageResult
+  latencyMs?: number // Send to reply
+  reply?: string
+  error?: string
+}
+
+export interface JournalFilter {
+  query?: string // Matches target, address, args, reply and error, case-insensitively
+  target?: string
+  protocol?: MessageProtocol
+  cause?: MessageCause
+  result?: MessageResult
+  since?: number
+  until?: number
+}
+
+export const JOURNAL_DEFAULT_CAPACITY = 2000
+
+// Blobs, colours, timetags and arrays don't fit a plain value; keep them as readable text
+export function journalArgs(args: OSCArgument[]): JournalArgument[] {
+  return args.map(arg => {
+    const value = argumentValue(arg)
+    if (value === null || ['number', 'string', 'boolean'].indexOf(typeof value) >= 0) return value
+    if (value instanceof Uint8Array) return `<${value.length} byte blob>`
+    return JSON.stringify(value)
+  })
+}
+
+export function journalMatches(entry: JournalEntry, filter: JournalFilter): boolean {
+  if (filter.target && entry.target !== filter.target) return false
+  if (filter.protocol && entry.protocol !== filter.protocol) return false
+  if (filter.cause && entry.cause !== filter.cause) return false
+  if (filter.result && entry.result !== filter.result) return false
+  if (filter.since !== undefined && entry.timestamp < filter.since) return false
+  if (filter.until !== undefined && entry.timestamp > filter.until) return false
+
+  const query = filter.query ? filter.query.trim().toLowerCase() : ''
+  if (!query) return true
+  const text = [entry.target, entry.address, entry.args.join(' '), entry.reply || '', entry.error || ''].join(' ')
+  return text.toLowerCase().indexOf(query) >= 0
+}
+
+export function filterJournal(entries: JournalEntry[], filter: JournalFilter): JournalEntry[] {
+  return entries.filter(entry => journalMatches(entry, filter))
+}
+
+// One JSON object per line, oldest first, with an ISO time for people reading the file
+export function journalToJSONL(entries: JournalEntry[]): string {
+  return entries
+    .map(entry => JSON.stringify({ time: new Date(entry.timestamp).toISOString(), ...entry }))
+    .join('\n') + (entries.length > 0 ? '\n' : '')
+}
+
+// Oldest entries are overwritten once the journal is full
+export class MessageJournal {
+  private entries: JournalEntry[] = []
+  private next = 0 // Slot the next entry goes into once full
+  private nextId = 1
+  private capacity: number
+  private onEntryCallback?: (entry: JournalEntry) => void
+
+  constructor(capacity: number = JOURNAL_DEFAULT_CAPACITY) {
+    this.capacity = Math.max(1, capacity)
+  }
+
+  record(entry: Omit<JournalEntry, 'id' | 'timestamp'> & { timestamp?: number }): JournalEntry {
+    const { timestamp, ...fields } = entry
+    const recorded: JournalEntry = { id: this.nextId++, timestamp: timestamp ?? Date.now(), ...fields }
+    if (this.entries.length < this.capacity) {
+      this.entries.push(recorded)
+    } else {
+      this.entries[this.next] = recorded
+      this.next = (this.next + 1) % this.capacity
+    }
+    if (this.onEntryCallback) this.onEntryCallback(recorded)
+    return recorded
+  }
+
+  // Oldest first
+  getEntries(filter?: JournalFilter): JournalEntry[] {
+    const ordered = this.entries.slice(this.next).concat(this.entries.slice(0, this.next))
+    return filter ? filterJournal(ordered, filter) : ordered
+  }
+
+  clear(): void {
+    this.entries = []
+    this.next = 0
+  }
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  onEntry(callback: (entry: JournalEntry) => void): void {
+    this.onEntryCallback = callback
+  }
+}
@@ -0,0 +1,223 @@
+// MQTT topics for the venue broker
+// MOOD publishes its state as retained topics under a configurable prefix and
+// takes commands and sensor readings from others. Payloads are JSON objects,
+// or one plain value per sub-topic for tools that prefer that (Node-RED,
+// Home Assistant). Pure, so the dashboard can build and edit the config;
+// MoodMQTTClient does the networking.
+import type { MQTTQoS } from './MQTTPacket'
+import { ControlCommand, matchMood } from './ControlAPI'
+
+export type MQTTTopicKey =
+  | 'status'
+  | 'mood'
+  | 'environment'
+  | 'prediction'
+  | 'connections'
+  | 'setMood'
+  | 'estop'
+  | 'ai'
+  | 'sensors'
+
+export type MQTTPayloadFormat = 'json' | 'value'
+
+export interface MQTTTopic {
+  key: MQTTTopicKey
+  direction: 'publish' | 'subscribe'
+  topic: string // Default, relative to the prefix
+  description: string
+}
+
+export const MQTT_TOPICS: MQTTTopic[] = [
+  { key: 'status', direction: 'publish', topic: 'status', description: 'online / offline (last will)' },
+  { key: 'mood', direction: 'publish', topic: 'state/mood', description: 'Current mood and its parameters' },
+  { key: 'environment', direction: 'publish', topic: 'state/environment', description: 'Sensor and context data' },
+  { key: 'prediction', direction: 'publish', topic: 'state/prediction', description: 'Latest AI prediction' },
+  { key: 'connections', direction: 'publish', topic: 'state/connections', description: 'Show software connection status' },
+  { key: 'setMood', direction: 'subscribe', topic: 'command/mood', description: 'Mood name, or {"mood": name}' },
+  { key: 'estop', direction: 'subscribe', topic: 'command/estop', description: 'Any payload triggers the emergency stop' },
+  { key: 'ai', direction: 'subscribe', topic: 'command/ai', description: 'on / off, 1 / 0 or {"enabled": bool}' },
+  { key: 'sensors', direction: 'subscribe', topic: 'sensors', description: 'JSON object, or sensors/<field> with a number' }
+]
+
+export interface MQTTConfig {
+  enabled: boolean
+  host: string
+  port: number
+  clientId: string
+  username: string
+  password: string
+  keepaliveSeconds: number
+  prefix: string
+  topics: Partial<Record<MQTTTopicKey, string>> // Overrides, relative to the prefix
+  payloadFormat: MQTTPayloadFormat
+  qos: MQTTQoS
+}
+
+export const DEFAULT_MQTT_CONFIG: MQTTConfig = {
+  enabled: false,
+  host: '127.0.0.1',
+  port: 1883,
+  clientId: 'mood-bridge',
+  username: '',
+  password: '',
+  keepaliveSeconds: 30,
+  prefix: 'mood',
+  topics: {},
+  payloadFormat: 'json',
+  qos: 0
+}
+
+export interface MQTTStatus {
+  connected: boolean
+  broker: string // host:port
+  error?: string
+}
+
+// What the dashboard publishes; the store builds it from its own state
+export interface MQTTMoodState {
+  mood: { name: string; energy: number; valence: number; arousal: number; color: string; description: string }
+  environment: Record<string, any>
+  prediction: { mood: string; confidence: number; reasoning: string[]; timestamp: number } | null
+  connections: Record<string, { name: string; connected: boolean }>
+  moods: string[] // What command payloads may name; not published
+}
+
+// Environment fields external sensors may write; the 0-1 ones are clamped
+export const MQTT_SENSOR_FIELDS: Record<string, { min: number; max?: number }> = {
+  peopleCount: { min: 0 },
+  avgMovement: { min: 0, max: 1 },
+  audioLevel: { min: 0, max: 1 },
+  lightLevel: { min: 0, max: 1 },
+  temperature: { min: -50, max: 60 },
+  conversationalLevel: { min: 0, max: 1 },
+  musicalContent: { min: 0, max: 1 }
+}
+
+export type SensorReading = Record<string, number>
+
+export type MQTTInbound =
+  | { type: 'command'; command: ControlCommand }
+  | { type: 'sensors'; reading: SensorReading }
+  | { type: 'error'; error: string }
+
+export function mqttTopic(config: MQTTConfig, key: MQTTTopicKey): string {
+  const topic = config.topics[key] || MQTT_TOPICS.filter(t => t.key === key)[0].topic
+  const prefix = config.prefix.replace(/\/+$/, '')
+  return prefix ? `${prefix}/${topic}` : topic
+}
+
+// sensors/# also matches the sensors topic itself
+export function mqttSubscriptions(config: MQTTConfig): string[] {
+  return MQTT_TOPICS
+    .filter(t => t.direction === 'subscribe')
+    .map(t => t.key === 'sensors' ? `${mqttTopic(config, t.key)}/#` : mqttTopic(config, t.key))
+}
+
+function flatten(topic: string, value: any, out: Array<{ topic: string; payload: string }>): void {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.keys(value).forEach(key => flatten(`${topic}/${key}`, value[key], out))
+  } else {
+    out.push({ topic, payload: Array.isArray(value) ? JSON.stringify(value) : value === null || value === undefined ? '' : String(value) })
+  }
+}
+
+// Every retained topic for a state snapshot; the client only sends the ones that changed
+export function mqttStatePublications(config: MQTTConfig, state: MQTTMoodState): Array<{ topic: string; payload: string }> {
+  const sections: Array<[MQTTTopicKey, any]> = [
+    ['mood', state.mood],
+    ['environment', state.environment],
+    ['prediction', state.prediction],
+    ['connections', state.connections]
+  ]
+  const out: Array<{ topic: string; payload: string }> = []
+  sections.forEach(([key, value]) => {
+    const topic = mqttTopic(config, key)
+    if (config.payloadFormat === 'json') {
+      out.push({ topic, payload: JSON.stringify(value) })
+    } else {
+      flatten(topic, value, out)
+    }
+  })
+  return out
+}
+
+function parseJSON(payload: string): any {
+  try {
+    return JSON.parse(payload)
+  } catch (error) {
+    return undefined
+  }
+}
+
+function parseFlag(payload: string): boolean | undefined {
+  const json = parseJSON(payload)
+  if (json && typeof json === 'object' && typeof json.enabled === 'boolean') return json.enabled
+  const value = payload.trim().toLowerCase()
+  if (['1', 'on', 'true', 'enable', 'enabled'].indexOf(value) >= 0) return true
+  if (['0', 'off', 'false', 'disable', 'disabled'].indexOf(value) >= 0) return false
+  return undefined
+}
+
+function sensorValue(field: string, value: any): number | undefined {
+  const limits = MQTT_SENSOR_FIELDS[field]
+  const number = Number(value)
+  if (!limits || value === '' || value === null || !isFinite(number)) return undefined
+  return Math.max(limits.min, limits.max !== undefined ? Math.min(limits.max, number) : number)
+}
+
+export function parseSensorPayload(field: string | null, payload: string): SensorReading {
+  const reading: SensorReading = {}
+  if (field) {
+    const value = sensorValue(field, payload.trim())
+    if (value !== undefined) reading[field] = value
+    return reading
+  }
+  const json = parseJSON(payload)
+  if (json && typeof json === 'object') {
+    Object.keys(json).forEach(key => {
+      const value = sensorValue(key, json[key])
+      if (value !== undefined) reading[key] = value
+    })
+  }
+  return reading
+}
+
+// null for topics outside the command and sensor namespace
+export function parseMQTTMessage(config: MQTTConfig, topic: string, payload: string, moods: string[]): MQTTInbound | null {
+  if (topic === mqttTopic(config, 'setMood')) {
+    const json = parseJSON(payload)
+    const name = json && typeof json === 'object' ? json.mood : payload.trim()
+    const mood = matchMood(name, moods)
+    return mood ? { type: 'command', command: { type: 'setMood', mood } } : { type: 'error', error: `Unknown mood: ${name}` }
+  }
+  if (topic === mqttTopic(config, 'estop')) {
+    return { type: 'command', command: { type: 'estop' } }
+  }
+  if (topic === mqttTopic(config, 'ai')) {
+    const enabled = parseFlag(payload)
+    return enabled === undefined
+      ? { type: 'error', error: `AI command needs on or off, got "${payload}"` }
+      : { type: 'command', command: { type: 'ai', enabled } }
+  }
+
+  const sensors = mqttTopic(config, 'sensors')
+  if (topic === sensors || topic.indexOf(`${sensors}/`) === 0) {
+    const field = topic === sensors ? null : topic.substring(sensors.length + 1)
+    const reading = parseSensorPayload(field, payload)
+    return Object.keys(reading).length > 0
+      ? { type: 'sensors', reading }
+      : { type: 'error', error: `No known sensor fields on ${topic}` }
+  }
+  return null
+}
+
+export function normalizeMQTTConfig(config: MQTTConfig): MQTTConfig {
+  return {
+    ...config,
+    port: Math.max(1, Math.min(65535, config.port || DEFAULT_MQTT_CONFIG.port)),
+    keepaliveSeconds: Math.max(0, Math.min(65535, config.keepaliveSeconds || 0)),
+    clientId: config.clientId || DEFAULT_MQTT_CONFIG.clientId,
+    prefix: config.prefix.trim().replace(/^\/+|\/+$/g, ''),
+    qos: config.qos === 1 ? 1 : 0
+  }
+}
@@ -0,0 +1,143 @@
+// MOOD on the venue MQTT broker
+// Publishes the dashboard's state as retained topics (only what changed),
+// announces itself on the status topic with an offline last will, and hands
+// commands and sensor readings to its owner.
+import { MQTTClient } from './MQTTClient'
+import { ControlCommand } from './ControlAPI'
+import {
+  DEFAULT_MQTT_CONFIG,
+  MQTTConfig,
+  MQTTMoodState,
+  MQTTStatus,
+  SensorReading,
+  mqttStatePublications,
+  mqttSubscriptions,
+  mqttTopic,
+  normalizeMQTTConfig,
+  parseMQTTMessage
+} from './MoodMQTT'
+
+// Changing any of these needs a new broker session
+const SESSION_FIELDS: Array<keyof MQTTConfig> = ['enabled', 'host', 'port', 'clientId', 'username', 'password', 'keepaliveSeconds', 'prefix', 'topics']
+
+export class MoodMQTTClient {
+  private config: MQTTConfig = DEFAULT_MQTT_CONFIG
+  private client: MQTTClient | null = null
+  private state: MQTTMoodState | null = null
+  private published: Map<string, string> = new Map()
+  private status: MQTTStatus = { connected: false, broker: '' }
+
+  private onCommandCallback?: (command: ControlCommand) => void
+  private onSensorsCallback?: (reading: SensorReading) => void
+  private onStatusCallback?: (status: MQTTStatus) => void
+
+  configure(config: MQTTConfig): void {
+    const previous = this.config
+    this.config = normalizeMQTTConfig(config)
+
+    const sessionChanged = SESSION_FIELDS.some(field => JSON.stringify(previous[field]) !== JSON.stringify(this.config[field]))
+    if (sessionChanged || !this.client) {
+      this.stop()
+      if (this.config.enabled) this.start()
+    } else {
+      // Payload format or QoS: republish everything in the new shape
+      this.published.clear()
+      this.publishState()
+    }
+  }
+
+  getConfig(): MQTTConfig {
+    return this.config
+  }
+
+  getStatus(): MQTTStatus {
+    return this.status
+  }
+
+  updateState(state: MQTTMoodState): void {
+    this.state = state
+    this.publishState()
+  }
+
+  stop(): void {
+    if (!this.client) return
+    // A clean disconnect suppresses the will, so say offline ourselves
+    this.client.publish(mqttTopic(this.config, 'status'), 'offline', { qos: this.config.qos, retain: true })
+    this.client.close()
+    this.client = null
+    this.published.clear()
+    this.setStatus({ connected: false, broker: this.status.broker })
+  }
+
+  onCommand(callback: (command: ControlCommand) => void): void {
+    this.onCommandCallback = callback
+  }
+
+  onSensors(callback: (reading: SensorReading) => void): void {
+    this.onSensorsCallback = callback
+  }
+
+  onStatus(callback: (status: MQTTStatus) => void): void {
+    this.onStatusCallback = callback
+  }
+
+  private start(): void {
+    const config = this.config
+    const broker = `${config.host}:${config.port}`
+    const client = new MQTTClient({
+      host: config.host,
+      port: config.port,
+      clientId: config.clientId,
+      keepaliveSeconds: config.keepaliveSeconds,
+      username: config.username || undefined,
+      password: config.password || undefined,
+      will: { topic: mqttTopic(config, 'status'), payload: 'offline', qos: config.qos, retain: true }
+    })
+
+    client.onStatus((connected, error) => {
+      if (connected) {
+        client.publish(mqttTopic(this.config, 'status'), 'online', { qos: this.config.qos, retain: true })
+        this.published.clear()
+        this.publishState()
+      }
+      this.setStatus({ connected, broker, error })
+    })
+    client.onMessage((topic, payload, retained) => this.handleMessage(topic, payload, retained))
+    client.subscribe(mqttSubscriptions(config))
+
+    this.client = client
+    this.setStatus({ connected: false, broker })
+    client.start()
+  }
+
+  private publishState(): void {
+    if (!this.client || !this.client.isConnected() || !this.state) return
+    mqttStatePublications(this.config, this.state).forEach(({ topic, payload }) => {
+      if (this.published.get(topic) === payload) return
+      this.published.set(topic, payload)
+      this.client!.publish(topic, payload, { qos: this.config.qos, retain: true })
+    })
+  }
+
+  private handleMessage(topic: string, payload: string, retained: boolean): void {
+    const inbound = parseMQTTMessage(this.config, topic, payload, this.state ? this.state.moods : [])
+    if (!inbound) return
+
+    if (inbound.type === 'error') {
+      console.warn(`⚠️ MQTT ${topic}: ${inbound.error}`)
+    } else if (inbound.type === 'sensors') {
+      if (this.onSensorsCallback) this.onSensorsCallback(inbound.reading)
+    } else if (retained) {
+      // A retained command would replay on every reconnect
+      console.warn(`⚠️ MQTT ignoring retained command on ${topic}`)
+    } else {
+      console.log(`📡 MQTT command on ${topic}: ${payload}`)
+      if (this.onCommandCallback) this.onCommandCallback(inbound.command)
+    }
+  }
+
+  private setStatus(status: MQTTStatus): void {
+    this.status = status
+    if (this.onStatusCallback) this.onStatusCallback(status)
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_TRANSITION_CONFIG,
+  TransitionValues,
+  ease,
+  interpolateTransition,
+  normalizeTransitionConfig,
+  transitionProgress,
+  transitionTargets,
+  withoutTransitionValues
+} from './MoodTransition'
+
+const close = (actual: number | undefined, expected: number, within = 1e-6) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) <= within, `${actual} is not within ${within} of ${expected}`)
+
+describe('easing', () => {
+  it('starts at 0, ends at 1 and clamps outside', () => {
+    for (const curve of ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const) {
+      assert.equal(ease(curve, 0), 0)
+      assert.equal(ease(curve, 1), 1)
+      assert.equal(ease(curve, -1), 0)
+      assert.equal(ease(curve, 2), 1)
+    }
+  })
+
+  it('shapes the middle of the fade', () => {
+    assert.equal(ease('linear', 0.25), 0.25)
+    assert.equal(ease('easeIn', 0.5), 0.25)
+    assert.equal(ease('easeOut', 0.5), 0.75)
+    assert.equal(ease('easeInOut', 0.5), 0.5)
+  })
+
+  it('reports progress from the start time', () => {
+    const status = { active: true, mood: 'Social', startedAt: 1000, durationMs: 2000, easing: 'linear' as const }
+    assert.equal(transitionProgress(status, 2000), 0.5)
+    assert.equal(transitionProgress(status, 5000), 1)
+    assert.equal(transitionProgress({ ...status, active: false }, 1000), 1)
+  })
+})
+
+describe('transition targets', () => {
+  it('takes fade times from each mapping, falling back to the default', () => {
+    const { values, durations } = transitionTargets({
+      lighting: { intensity: 0.8, color: '#FF0000', transition: 2 },
+      resolume: { opacity: 0.5 },
+      qlab: { volume: 0.3 }
+    }, DEFAULT_TRANSITION_CONFIG)
+    assert.equal(values['lighting.intensity'], 0.8)
+    close(values['lighting.red'], 255)
+    close(values['lighting.green'], 0)
+    assert.equal(durations['lighting.intensity'], 2000)
+    assert.equal(durations['resolume.opacity'], 2000) // Follows the lighting
+    assert.equal(durations['qlab.volume'], DEFAULT_TRANSITION_CONFIG.defaultSeconds * 1000)
+  })
+
+  it('ignores values that are not numbers', () => {
+    const { values } = transitionTargets({ resolume: { opacity: 'full', crossfader: NaN } }, DEFAULT_TRANSITION_CONFIG)
+    assert.deepEqual(values, {})
+  })
+
+  it('strips the faded values but keeps the discrete ones', () => {
+    const stripped = withoutTransitionValues({
+      recommendedMood: 'Social',
+      softwareRecommendations: { lighting: { intensity: 1, color: '#FFFFFF', playback: 2 }, qlab: { cue: '5', volume: 1 } }
+    })
+    assert.deepEqual(stripped.softwareRecommendations, { lighting: { playback: 2 }, qlab: { cue: '5' } })
+  })
+})
+
+describe('interpolation', () => {
+  const from: TransitionValues = { 'lighting.intensity': 0, 'resolume.opacity': 1 }
+  const to: TransitionValues = { 'lighting.intensity': 1, 'resolume.opacity': 0 }
+
+  it('runs each channel on its own duration', () => {
+    const values = interpolateTransition(from, to, { 'lighting.intensity': 1000, 'resolume.opacity': 4000 }, 1000, 'linear')
+    assert.equal(values['lighting.intensity'], 1)
+    assert.equal(values['resolume.opacity'], 0.75)
+  })
+
+  it('jumps channels with no duration and starts new ones at their target', () => {
+    const values = interpolateTransition({}, { 'qlab.volume': 0.4 }, {}, 0, 'linear')
+    assert.equal(values['qlab.volume'], 0.4)
+  })
+
+  it('lands exactly on the target', () => {
+    const red = { 'lighting.red': 255, 'lighting.green': 0, 'lighting.blue': 0 }
+    const blue = { 'lighting.red': 0, 'lighting.green': 0, 'lighting.blue': 255 }
+    const durations = { 'lighting.red': 1000, 'lighting.green': 1000, 'lighting.blue': 1000 }
+    const values = interpolateTransition(red, blue, durations, 1000, 'easeInOut')
+    close(values['lighting.red'], 0, 1e-3)
+    close(values['lighting.blue'], 255, 1e-3)
+  })
+
+  it('crosses colours without dipping to grey', () => {
+    const red = { 'lighting.red': 255, 'lighting.green': 0, 'lighting.blue': 0 }
+    const green = { 'lighting.red': 0, 'lighting.green': 255, 'lighting.blue': 0 }
+    const durations = { 'lighting.red': 1000, 'lighting.green': 1000, 'lighting.blue': 1000 }
+    const mid = interpolateTransition(red, green, durations, 500, 'linear')
+    const brightest = Math.max(mid['lighting.red'] as number, mid['lighting.green'] as number)
+    // A straight RGB mix would give 127.5 for both
+    assert.ok(brightest > 140, `midpoint peaks at ${brightest}`)
+  })
+})
+
+describe('transition config', () => {
+  it('clamps the tick rate and falls back on an unknown easing', () => {
+    const config = normalizeTransitionConfig({ tickRate: 500, easing: 'bounce' as any, defaultSeconds: -2 })
+    assert.equal(config.tickRate, 60)
+    assert.equal(config.easing, DEFAULT_TRANSITION_CONFIG.easing)
+    assert.equal(config.defaultSeconds, 0)
+  })
+})
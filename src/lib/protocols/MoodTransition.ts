@@ -0,0 +1,193 @@
+// Mood transitions
+// The continuous values of a mood mapping — lighting level and colour,
+// Resolume opacity and crossfader, QLab volume — as named channels that the
+// transition engine eases from the current output to the new mood over the
+// mapping's own fade time. Everything else in a mapping (cues, clips,
+// commands) still fires once. Colour fades through OKLab and colour
+// temperature in mireds, so a crossfade never dips through grey. Pure
+// helpers, shared by the dashboard and MoodTransitionEngine.
+import { RGB, hexToRGB, mixColor, mixKelvin, rgbToHex, targetRGB } from './ColorEngine'
+
+export type EasingCurve = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+
+export const EASING_CURVES: Array<{ curve: EasingCurve; label: string }> = [
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'easeIn', label: 'Ease in' },
+  { curve: 'easeOut', label: 'Ease out' },
+  { curve: 'easeInOut', label: 'Ease in-out' }
+]
+
+export type TransitionChannel =
+  | 'lighting.intensity' // 0–1
+  | 'lighting.red' // 0–255
+  | 'lighting.green'
+  | 'lighting.blue'
+  | 'lighting.cct' // Kelvin, only when the mood asks for a colour temperature
+  | 'resolume.opacity' // 0–1
+  | 'resolume.crossfader' // 0–1
+  | 'qlab.volume' // 0–1
+
+export type TransitionValues = Partial<Record<TransitionChannel, number>>
+
+export interface TransitionConfig {
+  enabled: boolean // Off: continuous values jump like everything else
+  tickRate: number // Frames per second while fading
+  easing: EasingCurve
+  defaultSeconds: number // For values whose mapping has no fade time of its own
+}
+
+export const TRANSITION_TICK_LIMITS = { min: 5, max: 60 }
+
+export const DEFAULT_TRANSITION_CONFIG: TransitionConfig = {
+  enabled: true,
+  tickRate: 25,
+  easing: 'easeInOut',
+  defaultSeconds: 3
+}
+
+// What the dashboard shows; it animates progress from startedAt and durationMs
+export interface TransitionStatus {
+  active: boolean
+  mood: string
+  startedAt: number
+  durationMs: number // Longest channel
+  easing: EasingCurve
+  interrupted?: string // The mood whose fade this one cut short
+}
+
+// One engine tick. Drivers send what they can of values; first and last
+// frames are journalled, the ones in between are not.
+export interface TransitionFrame {
+  values: TransitionValues
+  progress: number // 0–1, of the longest channel
+  first: boolean
+  last: boolean
+}
+
+export function ease(curve: EasingCurve, t: number): number {
+  const x = Math.max(0, Math.min(1, t))
+  switch (curve) {
+    case 'easeIn': return x * x
+    case 'easeOut': return x * (2 - x)
+    case 'easeInOut': return x * x * (3 - 2 * x)
+    default: return x
+  }
+}
+
+export function transitionProgress(status: TransitionStatus, now: number = Date.now()): number {
+  if (!status.active || status.durationMs <= 0) return 1
+  return Math.max(0, Math.min(1, (now - status.startedAt) / status.durationMs))
+}
+
+// The lighting colour of a frame, 0–1 per component
+export function transitionRGB(values: TransitionValues): RGB | null {
+  if (values['lighting.red'] === undefined || values['lighting.green'] === undefined || values['lighting.blue'] === undefined) return null
+  return { r: values['lighting.red'] / 255, g: values['lighting.green'] / 255, b: values['lighting.blue'] / 255 }
+}
+
+export function rgbHex(values: TransitionValues): string | null {
+  const rgb = transitionRGB(values)
+  return rgb ? rgbToHex(rgb) : null
+}
+
+// Target values and fade times (ms) from a mood's software recommendations
+export function transitionTargets(
+  softwareRecommendations: any,
+  config: TransitionConfig
+): { values: TransitionValues; durations: TransitionValues } {
+  const { lighting, resolume, qlab } = softwareRecommendations || {}
+  const values: TransitionValues = {}
+  const durations: TransitionValues = {}
+  const seconds = (value: any) => (typeof value === 'number' && value >= 0 ? value : config.defaultSeconds) * 1000
+  const set = (channel: TransitionChannel, value: any, durationMs: number) => {
+    if (typeof value !== 'number' || !isFinite(value)) return
+    values[channel] = value
+    durations[channel] = durationMs
+  }
+
+  if (lighting) {
+    const lightingMs = seconds(lighting.transition)
+    set('lighting.intensity', lighting.intensity, lightingMs)
+    // A colour temperature also sets the colour, so RGB fixtures fade to its white
+    if (hexToRGB(lighting.color) || typeof lighting.cct === 'number') {
+      const rgb = targetRGB(lighting)
+      set('lighting.red', rgb.r * 255, lightingMs)
+      set('lighting.green', rgb.g * 255, lightingMs)
+      set('lighting.blue', rgb.b * 255, lightingMs)
+    }
+    if (typeof lighting.cct === 'number' && lighting.cct > 0) set('lighting.cct', lighting.cct, lightingMs)
+  }
+  if (resolume) {
+    // Resolume mappings without a fade time follow the lighting
+    const resolumeMs = seconds(resolume.fadeTime ?? (lighting ? lighting.transition : undefined))
+    set('resolume.opacity', resolume.opacity, resolumeMs)
+    set('resolume.crossfader', resolume.crossfader, resolumeMs)
+  }
+  if (qlab) {
+    set('qlab.volume', qlab.volume, seconds(qlab.fadeTime))
+  }
+  return { values, durations }
+}
+
+// The recommendation drivers apply once: faded values removed, so their
+// applyMood sends only the discrete parts and the engine does the rest
+export function withoutTransitionValues(moodRecommendation: any): any {
+  const { lighting, resolume, qlab, ...rest } = moodRecommendation.softwareRecommendations || {}
+  const softwareRecommendations: any = { ...rest }
+  if (lighting) {
+    const { intensity, color, cct, ...discrete } = lighting
+    softwareRecommendations.lighting = discrete
+  }
+  if (resolume) {
+    const { opacity, crossfader, ...discrete } = resolume
+    softwareRecommendations.resolume = discrete
+  }
+  if (qlab) {
+    const { volume, ...discrete } = qlab
+    softwareRecommendations.qlab = discrete
+  }
+  return { ...moodRecommendation, softwareRecommendations }
+}
+
+// Each channel runs on its own duration; t is elapsed ms
+export function interpolateTransition(
+  from: TransitionValues,
+  to: TransitionValues,
+  durations: TransitionValues,
+  elapsedMs: number,
+  easing: EasingCurve
+): TransitionValues {
+  const values: TransitionValues = {}
+  const eased = (channel: TransitionChannel) => {
+    const duration = durations[channel] || 0
+    return duration > 0 ? ease(easing, elapsedMs / duration) : 1
+  }
+  ;(Object.keys(to) as TransitionChannel[]).forEach(channel => {
+    const target = to[channel] as number
+    const start = from[channel] ?? target
+    values[channel] = channel === 'lighting.cct'
+      ? mixKelvin(start, target, eased(channel))
+      : start + (target - start) * eased(channel)
+  })
+
+  // Red, green and blue move together through OKLab
+  const fromRGB = transitionRGB(from)
+  const toRGB = transitionRGB(to)
+  if (fromRGB && toRGB) {
+    const mixed = mixColor(fromRGB, toRGB, eased('lighting.red'))
+    values['lighting.red'] = mixed.r * 255
+    values['lighting.green'] = mixed.g * 255
+    values['lighting.blue'] = mixed.b * 255
+  }
+  return values
+}
+
+export function normalizeTransitionConfig(config: Partial<TransitionConfig>): TransitionConfig {
+  const merged = { ...DEFAULT_TRANSITION_CONFIG, ...config }
+  return {
+    enabled: merged.enabled !== false,
+    tickRate: Math.max(TRANSITION_TICK_LIMITS.min, Math.min(TRANSITION_TICK_LIMITS.max, Number(merged.tickRate) || DEFAULT_TRANSITION_CONFIG.tickRate)),
+    easing: EASING_CURVES.some(e => e.curve === merged.easing) ? merged.easing : DEFAULT_TRANSITION_CONFIG.easing,
+    defaultSeconds: Math.max(0, Number(merged.defaultSeconds) || 0)
+  }
+}
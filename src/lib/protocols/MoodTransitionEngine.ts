@@ -0,0 +1,110 @@
+// Mood transition engine
+// Eases the continuous output values toward each new mood at a fixed tick
+// rate. A mood arriving mid-fade starts from wherever the output is at that
+// moment, so interrupted fades never jump. Values that have never been sent
+// have nothing to fade from and go straight to the target.
+import {
+  DEFAULT_TRANSITION_CONFIG,
+  TransitionConfig,
+  TransitionFrame,
+  TransitionStatus,
+  TransitionValues,
+  interpolateTransition,
+  normalizeTransitionConfig,
+  transitionTargets
+} from './MoodTransition'
+
+export class MoodTransitionEngine {
+  private config: TransitionConfig = DEFAULT_TRANSITION_CONFIG
+  private current: TransitionValues = {}
+  private timer?: ReturnType<typeof setInterval>
+  private status: TransitionStatus | null = null
+  private sending = false
+  private onStatusCallback?: (status: TransitionStatus) => void
+
+  configure(config: Partial<TransitionConfig>): void {
+    this.config = normalizeTransitionConfig(config)
+  }
+
+  getConfig(): TransitionConfig {
+    return this.config
+  }
+
+  getStatus(): TransitionStatus | null {
+    return this.status
+  }
+
+  // Output as of the last frame
+  getValues(): TransitionValues {
+    return this.current
+  }
+
+  onStatus(callback: (status: TransitionStatus) => void): void {
+    this.onStatusCallback = callback
+  }
+
+  // Frames go to onFrame until every channel has arrived; a frame still
+  // being sent when the next tick comes makes that tick skip
+  start(mood: string, softwareRecommendations: any, onFrame: (frame: TransitionFrame) => Promise<void>): void {
+    const interrupted = this.status && this.status.active ? this.status.mood : undefined
+    this.stopTimer()
+
+    const { values: to, durations } = transitionTargets(softwareRecommendations, this.config)
+    const from = this.current
+    const channels = Object.keys(to) as Array<keyof TransitionValues>
+    if (channels.length === 0) {
+      this.setStatus({ active: false, mood, startedAt: Date.now(), durationMs: 0, easing: this.config.easing, interrupted })
+      return
+    }
+
+    // Channels that start where they end don't need the time
+    const durationMs = channels.reduce((max, channel) =>
+      from[channel] === undefined || from[channel] === to[channel] ? max : Math.max(max, durations[channel] || 0), 0)
+    const startedAt = Date.now()
+    const easing = this.config.easing
+    let first = true
+
+    const tick = () => {
+      if (this.sending) return
+      const elapsed = Date.now() - startedAt
+      const last = elapsed >= durationMs
+      const values = interpolateTransition(from, to, durations, elapsed, easing)
+      this.current = { ...this.current, ...values }
+      const frame: TransitionFrame = { values, progress: durationMs > 0 ? Math.min(1, elapsed / durationMs) : 1, first, last }
+      first = false
+
+      if (last) {
+        this.stopTimer()
+        if (this.status && this.status.active) this.setStatus({ ...this.status, active: false })
+      }
+      this.sending = true
+      onFrame(frame)
+        .catch(error => console.error(`❌ Transition frame for ${mood} failed:`, error))
+        .then(() => { this.sending = false })
+    }
+
+    this.setStatus({ active: durationMs > 0, mood, startedAt, durationMs, easing, interrupted })
+    // The frame in flight belongs to the old fade; the new one's first frame must not wait on it
+    this.sending = false
+    tick()
+    if (durationMs > 0) this.timer = setInterval(tick, 1000 / this.config.tickRate)
+  }
+
+  // Holds the output where it is
+  cancel(): void {
+    this.stopTimer()
+    if (this.status && this.status.active) this.setStatus({ ...this.status, active: false })
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  private setStatus(status: TransitionStatus): void {
+    this.status = status
+    if (this.onStatusCallback) this.onStatusCallback(status)
+  }
+}
@@ -0,0 +1,291 @@
+// Network discovery
+// Browses mDNS/DNS-SD for OSC services (_osc._udp, _osc._tcp, OSCQuery's
+// _oscjson._tcp and QLab's _qlab._tcp) and polls each local subnet with
+// ArtPoll for Art-Net nodes. Passive apart from one ArtPoll per subnet per
+// interval, so it is safe to leave running on a show network.
+import dgram from 'dgram'
+import os from 'os'
+import { Bonjour, Browser, Service } from 'bonjour-service'
+import { ARTNET_OPCODES, ARTNET_PORT, ArtPollReplyPacket, decodeArtNetPacket, encodeArtPoll } from './ArtNet'
+import { DiscoveredDevice, NetworkInterfaceInfo, identifySoftware } from './DiscoveredDevice'
+
+export interface NetworkDiscoveryOptions {
+  mdns?: boolean
+  artPoll?: boolean
+  artPollIntervalMs?: number
+}
+
+interface MDNSServiceType {
+  type: string
+  protocol: 'udp' | 'tcp'
+  capability: string
+}
+
+const MDNS_SERVICE_TYPES: MDNSServiceType[] = [
+  { type: 'osc', protocol: 'udp', capability: 'osc-udp' },
+  { type: 'osc', protocol: 'tcp', capability: 'osc-tcp' },
+  { type: 'oscjson', protocol: 'tcp', capability: 'oscquery' },
+  { type: 'qlab', protocol: 'tcp', capability: 'osc-tcp' }
+]
+
+// A node that misses this many polls in a row is considered gone
+const ARTPOLL_MISSED_LIMIT = 3
+
+// ===== INTERFACES =====
+
+function toInt(address: string): number {
+  return address.split('.').reduce((acc, octet) => ((acc << 8) | parseInt(octet, 10)) >>> 0, 0)
+}
+
+function toAddress(value: number): string {
+  return [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.')
+}
+
+function prefixLength(netmask: string): number {
+  let mask = toInt(netmask)
+  let bits = 0
+  while (mask & 0x80000000) {
+    bits++
+    mask = (mask << 1) >>> 0
+  }
+  return bits
+}
+
+export function listNetworkInterfaces(): NetworkInterfaceInfo[] {
+  const result: NetworkInterfaceInfo[] = []
+  const interfaces = os.networkInterfaces()
+
+  Object.keys(interfaces).forEach(name => {
+    (interfaces[name] || []).forEach(info => {
+      if (info.family !== 'IPv4' || info.internal) return
+      const address = toInt(info.address)
+      const mask = toInt(info.netmask)
+      const network = (address & mask) >>> 0
+      result.push({
+        name,
+        address: info.address,
+        netmask: info.netmask,
+        cidr: `${toAddress(network)}/${prefixLength(info.netmask)}`,
+        broadcast: toAddress((network | (~mask >>> 0)) >>> 0)
+      })
+    })
+  })
+
+  return result
+}
+
+function interfaceFor(ip: string, interfaces: NetworkInterfaceInfo[]): string | undefined {
+  const address = toInt(ip)
+  const match = interfaces.find(i => ((address & toInt(i.netmask)) >>> 0) === ((toInt(i.address) & toInt(i.netmask)) >>> 0))
+  return match?.name
+}
+
+// ===== DISCOVERY =====
+
+export class NetworkDiscovery {
+  private options: Required<NetworkDiscoveryOptions>
+  private bonjour: Bonjour | null = null
+  private browsers: Browser[] = []
+  private artSocket: dgram.Socket | null = null
+  private pollTimer?: NodeJS.Timeout
+  private devices: Map<string, DiscoveredDevice> = new Map()
+  private interfaces: NetworkInterfaceInfo[] = []
+
+  private onDeviceCallback?: (device: DiscoveredDevice) => void
+  private onDeviceLostCallback?: (id: string) => void
+
+  constructor(options: NetworkDiscoveryOptions = {}) {
+    this.options = {
+      mdns: options.mdns ?? true,
+      artPoll: options.artPoll ?? true,
+      artPollIntervalMs: options.artPollIntervalMs ?? 10000
+    }
+  }
+
+  async start(): Promise<void> {
+    this.interfaces = listNetworkInterfaces()
+    console.log(`🔍 Discovery on ${this.interfaces.map(i => `${i.name} ${i.cidr}`).join(', ') || 'no IPv4 interfaces'}`)
+
+    if (this.options.mdns) this.startMDNS()
+    if (this.options.artPoll) await this.startArtPoll()
+  }
+
+  stop(): void {
+    this.browsers.forEach(browser => browser.stop())
+    this.browsers = []
+    if (this.bonjour) {
+      this.bonjour.destroy()
+      this.bonjour = null
+    }
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = undefined
+    }
+    if (this.artSocket) {
+      this.artSocket.close()
+      this.artSocket = null
+    }
+  }
+
+  getDevices(): DiscoveredDevice[] {
+    return Array.from(this.devices.values())
+  }
+
+  getInterfaces(): NetworkInterfaceInfo[] {
+    return this.interfaces
+  }
+
+  // Ask again now instead of waiting for the next interval
+  refresh(): void {
+    this.interfaces = listNetworkInterfaces()
+    this.browsers.forEach(browser => browser.update())
+    this.poll()
+  }
+
+  onDevice(callback: (device: DiscoveredDevice) => void): void {
+    this.onDeviceCallback = callback
+  }
+
+  onDeviceLost(callback: (id: string) => void): void {
+    this.onDeviceLostCallback = callback
+  }
+
+  // ===== mDNS / DNS-SD =====
+
+  private startMDNS(): void {
+    this.bonjour = new Bonjour()
+    MDNS_SERVICE_TYPES.forEach(serviceType => {
+      const browser = this.bonjour!.find({ type: serviceType.type, protocol: serviceType.protocol })
+      browser.on('up', (service: Service) => this.handleServiceUp(service, serviceType))
+      browser.on('down', (service: Service) => {
+        const ip = this.serviceAddress(service)
+        if (ip) this.remove(`${ip}:${service.port}/${serviceType.protocol}`)
+      })
+      this.browsers.push(browser)
+    })
+  }
+
+  private serviceAddress(service: Service): string | undefined {
+    const ipv4 = (service.addresses || []).find(address => /^\d+\.\d+\.\d+\.\d+$/.test(address))
+    return ipv4 || service.referer?.address
+  }
+
+  private handleServiceUp(service: Service, serviceType: MDNSServiceType): void {
+    const ip = this.serviceAddress(service)
+    if (!ip) return
+
+    const id = `${ip}:${service.port}/${serviceType.protocol}`
+    const existing = this.devices.get(id)
+    const capabilities = existing ? existing.capabilities.slice() : []
+    if (capabilities.indexOf(serviceType.capability) < 0) capabilities.push(serviceType.capability)
+
+    this.upsert({
+      id,
+      name: service.name,
+      ip,
+      port: service.port,
+      protocol: 'OSC',
+      transport: serviceType.protocol,
+      ...identifySoftware(serviceType.type === 'qlab' ? `QLab ${service.name}` : service.name, service.port),
+      version: service.txt?.version,
+      capabilities,
+      source: 'mdns',
+      interface: interfaceFor(ip, this.interfaces),
+      lastSeen: Date.now()
+    })
+  }
+
+  // ===== ARTPOLL =====
+
+  private async startArtPoll(): Promise<void> {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+    socket.on('message', (msg, rinfo) => this.handleArtNet(new Uint8Array(msg), rinfo.address))
+    socket.on('error', (error) => console.error('❌ ArtPoll discovery socket error:', error.message))
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      // Replies come back to the Art-Net port, not to the poll's source port
+      socket.bind(ARTNET_PORT, () => {
+        socket.removeListener('error', reject)
+        socket.setBroadcast(true)
+        resolve()
+      })
+    })
+
+    this.artSocket = socket
+    this.poll()
+    this.pollTimer = setInterval(() => this.poll(), this.options.artPollIntervalMs)
+  }
+
+  private poll(): void {
+    if (!this.artSocket) return
+    const packet = encodeArtPoll()
+    // One directed broadcast per local subnet rather than a sweep of every host
+    this.interfaces.forEach(i => {
+      this.artSocket!.send(packet, ARTNET_PORT, i.broadcast, (error) => {
+        if (error) console.error(`❌ ArtPoll to ${i.broadcast} failed:`, error.message)
+      })
+    })
+    this.pruneArtNet()
+  }
+
+  private handleArtNet(bytes: Uint8Array, from: string): void {
+    const packet = decodeArtNetPacket(bytes)
+    if (!packet || packet.opcode !== ARTNET_OPCODES.POLL_REPLY) return
+    // Our own node answers polls too
+    if (this.interfaces.some(i => i.address === from)) return
+
+    const reply = packet as ArtPollReplyPacket
+    const ip = reply.ip || from
+    const id = `${ip}:${ARTNET_PORT}`
+    const existing = this.devices.get(id)
+    const capabilities = existing ? existing.capabilities.slice() : ['artnet']
+
+    // One reply per bind index; each adds its ports' universes
+    for (let port = 0; port < Math.min(reply.numPorts, 4); port++) {
+      const type = reply.portTypes[port] || 0
+      const additions: string[] = []
+      if (type & 0x80) additions.push('dmx-out', `universe:${(reply.netSwitch << 8) | (reply.subSwitch << 4) | reply.swOut[port]}`)
+      if (type & 0x40) additions.push('dmx-in')
+      additions.forEach(capability => {
+        if (capabilities.indexOf(capability) < 0) capabilities.push(capability)
+      })
+    }
+
+    this.upsert({
+      id,
+      name: reply.longName || reply.shortName || `Art-Net node ${ip}`,
+      ip,
+      port: ARTNET_PORT,
+      protocol: 'ArtNet',
+      transport: 'udp',
+      ...identifySoftware(`${reply.shortName} ${reply.longName}`),
+      version: reply.version ? String(reply.version) : undefined,
+      capabilities,
+      source: 'artpoll',
+      interface: interfaceFor(ip, this.interfaces),
+      lastSeen: Date.now()
+    })
+  }
+
+  private pruneArtNet(): void {
+    const cutoff = Date.now() - this.options.artPollIntervalMs * ARTPOLL_MISSED_LIMIT
+    this.devices.forEach(device => {
+      if (device.source === 'artpoll' && device.lastSeen < cutoff) this.remove(device.id)
+    })
+  }
+
+  // ===== REGISTRY =====
+
+  private upsert(device: DiscoveredDevice): void {
+    const isNew = !this.devices.has(device.id)
+    this.devices.set(device.id, device)
+    if (isNew) console.log(`✅ Discovered: ${device.name} (${device.software}) at ${device.ip}:${device.port}`)
+    if (this.onDeviceCallback) this.onDeviceCallback(device)
+  }
+
+  private remove(id: string): void {
+    if (!this.devices.delete(id)) return
+    if (this.onDeviceLostCallback) this.onDeviceLostCallback(id)
+  }
+}
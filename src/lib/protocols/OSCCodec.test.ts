@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  OSCBundle,
+  OSCMessage,
+  OSC_IMMEDIATELY,
+  createBundle,
+  decodeOSCPacket,
+  encodeOSCBundle,
+  encodeOSCMessage,
+  encodeOSCPacket,
+  flattenPacket,
+  isBundle
+} from './OSCCodec'
+
+function roundTrip(message: OSCMessage): OSCMessage {
+  const decoded = decodeOSCPacket(encodeOSCMessage(message))
+  assert.ok(!isBundle(decoded))
+  return decoded as OSCMessage
+}
+
+// A message with a hand-written blob size, for sizes the encoder never produces
+function blobMessage(size: number, data: number[]): Uint8Array {
+  const bytes = [
+    0x2f, 0x62, 0x00, 0x00, // "/b"
+    0x2c, 0x62, 0x00, 0x00, // ",b"
+    (size >>> 24) & 0xff, (size >>> 16) & 0xff, (size >>> 8) & 0xff, size & 0xff,
+    ...data
+  ]
+  while (bytes.length % 4 !== 0) bytes.push(0)
+  return new Uint8Array(bytes)
+}
+
+describe('OSC messages', () => {
+  it('pads the address and type tags to four bytes', () => {
+    const bytes = encodeOSCMessage({ address: '/go', args: [] })
+    assert.deepEqual(Array.from(bytes), [0x2f, 0x67, 0x6f, 0x00, 0x2c, 0x00, 0x00, 0x00])
+  })
+
+  it('infers types for plain values', () => {
+    const { args } = roundTrip({ address: '/cue/1/start', args: [0.5, 'intro', true, false, null] })
+    assert.deepEqual(args, [
+      { type: 'f', value: 0.5 },
+      { type: 's', value: 'intro' },
+      { type: 'T' },
+      { type: 'F' },
+      { type: 'N' }
+    ])
+  })
+
+  it('round-trips typed arguments', () => {
+    const message: OSCMessage = {
+      address: '/typed',
+      args: [
+        { type: 'i', value: -42 },
+        { type: 'h', value: 2 ** 40 + 7 },
+        { type: 'd', value: Math.PI },
+        { type: 'S', value: 'symbol' },
+        { type: 'c', value: 'x' },
+        { type: 'r', value: { r: 255, g: 128, b: 0, a: 64 } },
+        { type: 'm', value: new Uint8Array([0, 0x90, 60, 100]) },
+        { type: 't', value: { seconds: 3900000000, fraction: 12345 } },
+        { type: 'I' }
+      ]
+    }
+    assert.deepEqual(roundTrip(message), message)
+  })
+
+  it('round-trips blobs and pads them', () => {
+    const blob = new Uint8Array([1, 2, 3, 4, 5])
+    const bytes = encodeOSCMessage({ address: '/blob', args: [blob, 'after'] })
+    assert.equal(bytes.length % 4, 0)
+    assert.deepEqual(roundTrip({ address: '/blob', args: [blob, 'after'] }).args, [
+      { type: 'b', value: blob },
+      { type: 's', value: 'after' }
+    ])
+  })
+
+  it('round-trips nested arrays', () => {
+    const { args } = roundTrip({
+      address: '/array',
+      args: [{ type: 'array', value: [1, { type: 'array', value: ['a'] }] }, 'tail']
+    })
+    assert.deepEqual(args, [
+      { type: 'array', value: [{ type: 'f', value: 1 }, { type: 'array', value: [{ type: 's', value: 'a' }] }] },
+      { type: 's', value: 'tail' }
+    ])
+  })
+
+  it('accepts a message without a type tag string', () => {
+    assert.deepEqual(decodeOSCPacket(new Uint8Array([0x2f, 0x61, 0x00, 0x00])), { address: '/a', args: [] })
+  })
+})
+
+describe('OSC bundles', () => {
+  it('round-trips nested bundles with their time tags', () => {
+    const bundle: OSCBundle = {
+      timeTag: { seconds: 3900000000, fraction: 0x80000000 },
+      elements: [
+        { address: '/one', args: [{ type: 'i', value: 1 }] },
+        { timeTag: OSC_IMMEDIATELY, elements: [{ address: '/two', args: [{ type: 's', value: 'b' }] }] }
+      ]
+    }
+    assert.deepEqual(decodeOSCPacket(encodeOSCBundle(bundle)), bundle)
+  })
+
+  it('flattens bundles into their messages in order', () => {
+    const packet = createBundle([
+      { address: '/one', args: [] },
+      createBundle([{ address: '/two', args: [] }, { address: '/three', args: [] }])
+    ])
+    assert.deepEqual(flattenPacket(decodeOSCPacket(encodeOSCPacket(packet))).map(m => m.address), ['/one', '/two', '/three'])
+  })
+
+  it('rejects elements with a bad size', () => {
+    const bytes = encodeOSCBundle(createBundle([{ address: '/one', args: [] }]))
+    // The element size follows "#bundle\0" and the time tag
+    new DataView(bytes.buffer).setInt32(16, 6)
+    assert.throws(() => decodeOSCPacket(bytes), /bundle element size/)
+  })
+})
+
+describe('OSC decoding errors', () => {
+  it('rejects packets that are not a multiple of four bytes', () => {
+    assert.throws(() => decodeOSCPacket(new Uint8Array([0x2f, 0x61, 0x00])), /packet size/)
+  })
+
+  it('rejects negative blob sizes', () => {
+    assert.throws(() => decodeOSCPacket(blobMessage(-1, [1, 2, 3, 4])), /blob size/)
+  })
+
+  it('rejects blob sizes past the end of the packet', () => {
+    assert.throws(() => decodeOSCPacket(blobMessage(64, [1, 2, 3, 4])), /blob size/)
+  })
+
+  it('rejects truncated arguments', () => {
+    const bytes = encodeOSCMessage({ address: '/i', args: [{ type: 'i', value: 1 }, { type: 'i', value: 2 }] })
+    assert.throws(() => decodeOSCPacket(bytes.subarray(0, bytes.length - 4)), /truncated/)
+  })
+})
@@ -0,0 +1,444 @@
+// Pure TypeScript OSC 1.0/1.1 encoder/decoder
+// No sockets or Node built-ins: works server-side, in the browser and in tests.
+
+// NTP timetag: seconds since 1900-01-01 plus a 32-bit binary fraction
+export interface OSCTimeTag {
+  seconds: number
+  fraction: number
+}
+
+export interface OSCColor {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+// Explicitly typed argument, for when the type tag matters to the receiver
+export type OSCTypedArgument =
+  | { type: 'i'; value: number }
+  | { type: 'f'; value: number }
+  | { type: 's'; value: string }
+  | { type: 'S'; value: string }
+  | { type: 'b'; value: Uint8Array }
+  | { type: 'h'; value: number }
+  | { type: 't'; value: OSCTimeTag }
+  | { type: 'd'; value: number }
+  | { type: 'c'; value: string }
+  | { type: 'r'; value: OSCColor }
+  | { type: 'm'; value: Uint8Array }
+  | { type: 'T' }
+  | { type: 'F' }
+  | { type: 'N' }
+  | { type: 'I' }
+  | { type: 'array'; value: OSCArgument[] }
+
+// Plain values are inferred: number -> f, string -> s, boolean -> T/F,
+// null -> N, Uint8Array -> b
+export type OSCArgument = number | string | boolean | null | Uint8Array | OSCTypedArgument
+
+export interface OSCMessage {
+  address: string
+  args: OSCArgument[]
+}
+
+export interface OSCBundle {
+  timeTag: OSCTimeTag
+  elements: OSCPacket[]
+}
+
+export type OSCPacket = OSCMessage | OSCBundle
+
+const BUNDLE_TAG = '#bundle'
+const TWO_POW_32 = 4294967296
+// Seconds between the NTP epoch (1900) and the Unix epoch (1970)
+const NTP_UNIX_OFFSET = 2208988800
+
+// Special timetag meaning "execute on receipt"
+export const OSC_IMMEDIATELY: OSCTimeTag = { seconds: 0, fraction: 1 }
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// ===== TIMETAGS =====
+
+export function timeTagFromDate(date: Date | number): OSCTimeTag {
+  const ms = typeof date === 'number' ? date : date.getTime()
+  const unixSeconds = Math.floor(ms / 1000)
+  const fractionalMs = ms - unixSeconds * 1000
+  return {
+    seconds: unixSeconds + NTP_UNIX_OFFSET,
+    fraction: Math.min(TWO_POW_32 - 1, Math.round((fractionalMs / 1000) * TWO_POW_32))
+  }
+}
+
+export function timeTagToDate(timeTag: OSCTimeTag): Date {
+  const unixSeconds = timeTag.seconds - NTP_UNIX_OFFSET
+  return new Date(unixSeconds * 1000 + (timeTag.fraction / TWO_POW_32) * 1000)
+}
+
+// Timetag `delayMs` milliseconds from now
+export function timeTagIn(delayMs: number): OSCTimeTag {
+  return timeTagFromDate(Date.now() + delayMs)
+}
+
+export function isImmediate(timeTag: OSCTimeTag): boolean {
+  return timeTag.seconds === 0 && timeTag.fraction === 1
+}
+
+// ===== PACKET HELPERS =====
+
+export function isBundle(packet: OSCPacket): packet is OSCBundle {
+  return (packet as OSCBundle).elements !== undefined
+}
+
+export function createBundle(elements: OSCPacket[], timeTag: OSCTimeTag = OSC_IMMEDIATELY): OSCBundle {
+  return { timeTag, elements }
+}
+
+// Flatten a (possibly nested) packet into its messages, in order
+export function flattenPacket(packet: OSCPacket): OSCMessage[] {
+  if (!isBundle(packet)) return [packet]
+  const messages: OSCMessage[] = []
+  packet.elements.forEach(element => {
+    messages.push(...flattenPacket(element))
+  })
+  return messages
+}
+
+// Strip type information down to the plain values most callers care about
+export function argumentValue(arg: OSCArgument): any {
+  if (arg === null || typeof arg !== 'object' || arg instanceof Uint8Array) return arg
+  switch (arg.type) {
+    case 'T': return true
+    case 'F': return false
+    case 'N': return null
+    case 'I': return Infinity
+    case 'array': return arg.value.map(argumentValue)
+    default: return arg.value
+  }
+}
+
+// ===== ENCODING =====
+
+class ByteWriter {
+  private chunks: Uint8Array[] = []
+  private length = 0
+
+  write(bytes: Uint8Array): void {
+    this.chunks.push(bytes)
+    this.length += bytes.length
+  }
+
+  writeInt32(value: number): void {
+    const bytes = new Uint8Array(4)
+    new DataView(bytes.buffer).setInt32(0, value)
+    this.write(bytes)
+  }
+
+  writeUInt32(value: number): void {
+    const bytes = new Uint8Array(4)
+    new DataView(bytes.buffer).setUint32(0, value >>> 0)
+    this.write(bytes)
+  }
+
+  writeFloat32(value: number): void {
+    const bytes = new Uint8Array(4)
+    new DataView(bytes.buffer).setFloat32(0, value)
+    this.write(bytes)
+  }
+
+  writeFloat64(value: number): void {
+    const bytes = new Uint8Array(8)
+    new DataView(bytes.buffer).setFloat64(0, value)
+    this.write(bytes)
+  }
+
+  writeInt64(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`OSC int64 value out of safe integer range: ${value}`)
+    }
+    const high = Math.floor(value / TWO_POW_32)
+    const low = value - high * TWO_POW_32
+    this.writeInt32(high)
+    this.writeUInt32(low)
+  }
+
+  writeTimeTag(timeTag: OSCTimeTag): void {
+    this.writeUInt32(timeTag.seconds)
+    this.writeUInt32(timeTag.fraction)
+  }
+
+  writeString(value: string): void {
+    const encoded = textEncoder.encode(value)
+    // Null terminator plus padding to a 4-byte boundary
+    const padded = new Uint8Array(pad4(encoded.length + 1))
+    padded.set(encoded)
+    this.write(padded)
+  }
+
+  writeBlob(value: Uint8Array): void {
+    this.writeInt32(value.length)
+    const padded = new Uint8Array(pad4(value.length))
+    padded.set(value)
+    this.write(padded)
+  }
+
+  toBytes(): Uint8Array {
+    const out = new Uint8Array(this.length)
+    let offset = 0
+    this.chunks.forEach(chunk => {
+      out.set(chunk, offset)
+      offset += chunk.length
+    })
+    return out
+  }
+}
+
+function pad4(length: number): number {
+  return (length + 3) & ~3
+}
+
+function toTypedArgument(arg: OSCArgument): OSCTypedArgument {
+  if (arg === null) return { type: 'N' }
+  if (arg instanceof Uint8Array) return { type: 'b', value: arg }
+  switch (typeof arg) {
+    case 'number': return { type: 'f', value: arg }
+    case 'string': return { type: 's', value: arg }
+    case 'boolean': return arg ? { type: 'T' } : { type: 'F' }
+    default: return arg
+  }
+}
+
+function writeTypeTags(args: OSCTypedArgument[]): string {
+  return args.map(arg => arg.type === 'array' ? `[${writeTypeTags(arg.value.map(toTypedArgument))}]` : arg.type).join('')
+}
+
+function writeArgument(writer: ByteWriter, arg: OSCTypedArgument): void {
+  switch (arg.type) {
+    case 'i': writer.writeInt32(arg.value); break
+    case 'f': writer.writeFloat32(arg.value); break
+    case 's':
+    case 'S': writer.writeString(arg.value); break
+    case 'b': writer.writeBlob(arg.value); break
+    case 'h': writer.writeInt64(arg.value); break
+    case 't': writer.writeTimeTag(arg.value); break
+    case 'd': writer.writeFloat64(arg.value); break
+    case 'c': writer.writeUInt32(arg.value.charCodeAt(0)); break
+    case 'r':
+      writer.write(new Uint8Array([arg.value.r, arg.value.g, arg.value.b, arg.value.a]))
+      break
+    case 'm': {
+      const midi = new Uint8Array(4)
+      midi.set(arg.value.subarray(0, 4))
+      writer.write(midi)
+      break
+    }
+    case 'array':
+      arg.value.map(toTypedArgument).forEach(inner => writeArgument(writer, inner))
+      break
+    // T, F, N and I carry no payload
+  }
+}
+
+export function encodeOSCMessage(message: OSCMessage): Uint8Array {
+  if (!message.address || message.address.charAt(0) !== '/') {
+    throw new Error(`Invalid OSC address: "${message.address}"`)
+  }
+
+  const typed = message.args.map(toTypedArgument)
+  const writer = new ByteWriter()
+  writer.writeString(message.address)
+  writer.writeString(`,${writeTypeTags(typed)}`)
+  typed.forEach(arg => writeArgument(writer, arg))
+  return writer.toBytes()
+}
+
+export function encodeOSCBundle(bundle: OSCBundle): Uint8Array {
+  const writer = new ByteWriter()
+  writer.writeString(BUNDLE_TAG)
+  writer.writeTimeTag(bundle.timeTag)
+  bundle.elements.forEach(element => {
+    const encoded = encodeOSCPacket(element)
+    writer.writeInt32(encoded.length)
+    writer.write(encoded)
+  })
+  return writer.toBytes()
+}
+
+export function encodeOSCPacket(packet: OSCPacket): Uint8Array {
+  return isBundle(packet) ? encodeOSCBundle(packet) : encodeOSCMessage(packet)
+}
+
+// ===== DECODING =====
+
+class ByteReader {
+  private view: DataView
+  offset = 0
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset
+  }
+
+  private ensure(count: number): void {
+    if (this.offset + count > this.bytes.length) {
+      throw new Error(`OSC packet truncated at byte ${this.offset} (needed ${count} more)`)
+    }
+  }
+
+  readInt32(): number {
+    this.ensure(4)
+    const value = this.view.getInt32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  readUInt32(): number {
+    this.ensure(4)
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  readFloat32(): number {
+    this.ensure(4)
+    const value = this.view.getFloat32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  readFloat64(): number {
+    this.ensure(8)
+    const value = this.view.getFloat64(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  readInt64(): number {
+    const high = this.readInt32()
+    const low = this.readUInt32()
+    return high * TWO_POW_32 + low
+  }
+
+  readTimeTag(): OSCTimeTag {
+    return { seconds: this.readUInt32(), fraction: this.readUInt32() }
+  }
+
+  readBytes(count: number): Uint8Array {
+    this.ensure(count)
+    const slice = this.bytes.subarray(this.offset, this.offset + count)
+    this.offset += count
+    return slice
+  }
+
+  readString(): string {
+    let end = this.offset
+    while (end < this.bytes.length && this.bytes[end] !== 0) end++
+    if (end >= this.bytes.length) {
+      throw new Error(`Unterminated OSC string at byte ${this.offset}`)
+    }
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, end))
+    this.offset = Math.min(this.bytes.length, pad4(end + 1))
+    return value
+  }
+
+  readBlob(): Uint8Array {
+    const start = this.offset
+    const length = this.readInt32()
+    if (length < 0 || length > this.remaining) {
+      throw new Error(`Invalid OSC blob size at byte ${start}: ${length}`)
+    }
+    const data = this.readBytes(length)
+    this.offset = Math.min(this.bytes.length, this.offset + (pad4(length) - length))
+    // Copy so the result does not alias the receive buffer
+    return new Uint8Array(data)
+  }
+}
+
+function readArguments(reader: ByteReader, tags: string, start: number): { args: OSCTypedArgument[]; end: number } {
+  const args: OSCTypedArgument[] = []
+  let i = start
+
+  while (i < tags.length) {
+    const tag = tags.charAt(i)
+    switch (tag) {
+      case 'i': args.push({ type: 'i', value: reader.readInt32() }); break
+      case 'f': args.push({ type: 'f', value: reader.readFloat32() }); break
+      case 's': args.push({ type: 's', value: reader.readString() }); break
+      case 'S': args.push({ type: 'S', value: reader.readString() }); break
+      case 'b': args.push({ type: 'b', value: reader.readBlob() }); break
+      case 'h': args.push({ type: 'h', value: reader.readInt64() }); break
+      case 't': args.push({ type: 't', value: reader.readTimeTag() }); break
+      case 'd': args.push({ type: 'd', value: reader.readFloat64() }); break
+      case 'c': args.push({ type: 'c', value: String.fromCharCode(reader.readUInt32()) }); break
+      case 'r': {
+        const rgba = reader.readBytes(4)
+        args.push({ type: 'r', value: { r: rgba[0], g: rgba[1], b: rgba[2], a: rgba[3] } })
+        break
+      }
+      case 'm': args.push({ type: 'm', value: new Uint8Array(reader.readBytes(4)) }); break
+      case 'T': args.push({ type: 'T' }); break
+      case 'F': args.push({ type: 'F' }); break
+      case 'N': args.push({ type: 'N' }); break
+      case 'I': args.push({ type: 'I' }); break
+      case '[': {
+        const nested = readArguments(reader, tags, i + 1)
+        args.push({ type: 'array', value: nested.args })
+        i = nested.end
+        break
+      }
+      case ']':
+        return { args, end: i }
+      default:
+        throw new Error(`Unsupported OSC type tag '${tag}'`)
+    }
+    i++
+  }
+
+  return { args, end: i }
+}
+
+function decodeMessage(reader: ByteReader, address: string): OSCMessage {
+  // OSC 1.0 allows omitting the type tag string entirely
+  if (reader.remaining === 0) return { address, args: [] }
+
+  const tags = reader.readString()
+  if (tags.charAt(0) !== ',') {
+    throw new Error(`Malformed OSC type tag string for ${address}: "${tags}"`)
+  }
+  return { address, args: readArguments(reader, tags, 1).args }
+}
+
+function decodeBundle(reader: ByteReader): OSCBundle {
+  const timeTag = reader.readTimeTag()
+  const elements: OSCPacket[] = []
+
+  while (reader.remaining > 0) {
+    const size = reader.readInt32()
+    if (size <= 0 || size % 4 !== 0) {
+      throw new Error(`Invalid OSC bundle element size: ${size}`)
+    }
+    elements.push(decodeOSCPacket(reader.readBytes(size)))
+  }
+
+  return { timeTag, elements }
+}
+
+export function decodeOSCPacket(bytes: Uint8Array): OSCPacket {
+  if (bytes.length === 0 || bytes.length % 4 !== 0) {
+    throw new Error(`Invalid OSC packet size: ${bytes.length}`)
+  }
+
+  const reader = new ByteReader(bytes)
+  const head = reader.readString()
+
+  if (head === BUNDLE_TAG) return decodeBundle(reader)
+  if (head.charAt(0) !== '/') {
+    throw new Error(`Invalid OSC packet: expected address or bundle, got "${head}"`)
+  }
+  return decodeMessage(reader, head)
+}
@@ -0,0 +1,236 @@
+// OSCQuery client
+// Fetches a device's namespace and host info over HTTP, LISTENs for value
+// changes over the WebSocket extension, and sends values to the device's
+// OSC port with types and ranges taken from the namespace.
+import dgram from 'dgram'
+import WebSocket from 'ws'
+import { OSCMessage, argumentValue, decodeOSCPacket, encodeOSCMessage, flattenPacket } from './OSCCodec'
+import { OSCTcpClient } from './OSCTcpTransport'
+import {
+  OSCQueryDevice,
+  OSCQueryHostInfo,
+  OSCQueryParameter,
+  coerceValue,
+  isWritable,
+  parseHostInfo,
+  parseNamespace
+} from './OSCQueryNamespace'
+
+export interface OSCQueryClientOptions {
+  host: string
+  port: number
+  requestTimeoutMs?: number
+}
+
+export class OSCQueryClient {
+  private options: Required<OSCQueryClientOptions>
+  private device: OSCQueryDevice | null = null
+  private socket: WebSocket | null = null
+  private udp: dgram.Socket | null = null
+  private tcp: OSCTcpClient | null = null
+  private listening: Set<string> = new Set()
+
+  private onValueCallback?: (address: string, value: any[]) => void
+  private onNamespaceChangeCallback?: (device: OSCQueryDevice) => void
+
+  constructor(options: OSCQueryClientOptions) {
+    this.options = {
+      host: options.host,
+      port: options.port,
+      requestTimeoutMs: options.requestTimeoutMs ?? 3000
+    }
+  }
+
+  get id(): string {
+    return `${this.options.host}:${this.options.port}`
+  }
+
+  getDevice(): OSCQueryDevice | null {
+    return this.device
+  }
+
+  getParameter(address: string): OSCQueryParameter | undefined {
+    return this.device?.parameters.find(p => p.address === address)
+  }
+
+  async refresh(): Promise<OSCQueryDevice> {
+    const hostInfo = await this.fetchHostInfo()
+    const parameters = parseNamespace(await this.fetchJSON('/'))
+    this.device = {
+      id: this.id,
+      host: this.options.host,
+      port: this.options.port,
+      hostInfo,
+      parameters,
+      refreshedAt: Date.now()
+    }
+    if (this.onNamespaceChangeCallback) this.onNamespaceChangeCallback(this.device)
+    return this.device
+  }
+
+  // Subscribe to value changes; needs the server's LISTEN extension
+  async listen(addresses: string[]): Promise<void> {
+    const device = this.device || await this.refresh()
+    if (!device.hostInfo.extensions.LISTEN) {
+      throw new Error(`${device.hostInfo.name || this.id} does not support OSCQuery LISTEN`)
+    }
+    const socket = await this.openSocket(device.hostInfo)
+    addresses.forEach(address => {
+      if (this.listening.has(address)) return
+      socket.send(JSON.stringify({ COMMAND: 'LISTEN', DATA: address }))
+      this.listening.add(address)
+    })
+  }
+
+  ignore(addresses: string[]): void {
+    addresses.forEach(address => {
+      if (this.socket && this.listening.has(address)) {
+        this.socket.send(JSON.stringify({ COMMAND: 'IGNORE', DATA: address }))
+      }
+      this.listening.delete(address)
+    })
+  }
+
+  // Send a value to a namespace parameter, coerced to its type and range
+  async setValue(address: string, value: number | string | boolean): Promise<void> {
+    const device = this.device || await this.refresh()
+    const parameter = this.getParameter(address)
+    if (!parameter) throw new Error(`${address} is not in the namespace of ${this.id}`)
+    if (!isWritable(parameter)) throw new Error(`${address} on ${this.id} is read-only`)
+
+    const message: OSCMessage = { address, args: [coerceValue(parameter, value)] }
+    const host = device.hostInfo.oscIp || this.options.host
+    const port = device.hostInfo.oscPort || this.options.port
+
+    if (device.hostInfo.oscTransport === 'TCP') {
+      if (!this.tcp) {
+        const tcp = new OSCTcpClient({ host, port })
+        await tcp.connect()
+        tcp.onClose(() => { this.tcp = null })
+        this.tcp = tcp
+      }
+      this.tcp.send(message)
+      return
+    }
+
+    if (!this.udp) this.udp = dgram.createSocket('udp4')
+    const bytes = encodeOSCMessage(message)
+    await new Promise<void>((resolve, reject) => {
+      this.udp!.send(bytes, port, host, (error) => error ? reject(error) : resolve())
+    })
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+    if (this.udp) {
+      this.udp.close()
+      this.udp = null
+    }
+    if (this.tcp) {
+      this.tcp.close()
+      this.tcp = null
+    }
+    this.listening.clear()
+  }
+
+  onValue(callback: (address: string, value: any[]) => void): void {
+    this.onValueCallback = callback
+  }
+
+  onNamespaceChange(callback: (device: OSCQueryDevice) => void): void {
+    this.onNamespaceChangeCallback = callback
+  }
+
+  private async fetchHostInfo(): Promise<OSCQueryHostInfo> {
+    try {
+      return parseHostInfo(await this.fetchJSON('/?HOST_INFO'))
+    } catch (error) {
+      // HOST_INFO is optional; assume OSC on the same host and port over UDP
+      return parseHostInfo({})
+    }
+  }
+
+  private async fetchJSON(path: string): Promise<any> {
+    const { host, port, requestTimeoutMs } = this.options
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), requestTimeoutMs)
+
+    try {
+      const response = await fetch(`http://${host}:${port}${path}`, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`OSCQuery ${host}:${port}${path} returned ${response.status}`)
+      }
+      return await response.json()
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new Error(`OSCQuery server ${host}:${port} did not answer within ${requestTimeoutMs}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private openSocket(hostInfo: OSCQueryHostInfo): Promise<WebSocket> {
+    if (this.socket) return Promise.resolve(this.socket)
+
+    const host = hostInfo.wsIp || this.options.host
+    const port = hostInfo.wsPort || this.options.port
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`ws://${host}:${port}`)
+
+      socket.once('open', () => {
+        this.socket = socket
+        resolve(socket)
+      })
+      socket.once('error', reject)
+
+      socket.on('message', (data: any, isBinary: boolean) => {
+        if (isBinary) this.handleValues(new Uint8Array(data))
+        else this.handleCommand(data.toString())
+      })
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = null
+          this.listening.clear()
+        }
+      })
+    })
+  }
+
+  // Value updates arrive as binary OSC packets
+  private handleValues(bytes: Uint8Array): void {
+    let messages: OSCMessage[]
+    try {
+      messages = flattenPacket(decodeOSCPacket(bytes))
+    } catch (error) {
+      console.error('❌ Dropping malformed OSCQuery value packet:', error)
+      return
+    }
+
+    messages.forEach(message => {
+      const value = message.args.map(argumentValue)
+      const parameter = this.getParameter(message.address)
+      if (parameter) parameter.value = value
+      if (this.onValueCallback) this.onValueCallback(message.address, value)
+    })
+  }
+
+  // Text frames are namespace notifications (PATH_ADDED, PATH_CHANGED, ...)
+  private handleCommand(text: string): void {
+    let command: any
+    try {
+      command = JSON.parse(text)
+    } catch (error) {
+      return
+    }
+    if (typeof command?.COMMAND === 'string' && command.COMMAND.indexOf('PATH_') === 0) {
+      this.refresh().catch(error => console.error('❌ OSCQuery namespace refresh failed:', error.message))
+    }
+  }
+}
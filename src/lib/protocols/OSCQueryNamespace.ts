@@ -0,0 +1,156 @@
+// OSCQuery namespace model
+// Parses the JSON tree an OSCQuery server returns over HTTP into a flat list
+// of parameters with their types, ranges and access, and coerces mood values
+// into arguments a parameter will accept. No Node built-ins, so the dashboard
+// can use it directly.
+import type { OSCArgument } from './OSCCodec'
+
+export type OSCQueryAccess = 'none' | 'read' | 'write' | 'readwrite'
+
+export interface OSCQueryRange {
+  min?: number
+  max?: number
+  values?: Array<number | string> // Enumerated values, when the server lists them
+}
+
+export interface OSCQueryParameter {
+  address: string
+  type: string // OSC type tags without the comma, e.g. 'f' or 'fff'
+  access: OSCQueryAccess
+  description?: string
+  range?: OSCQueryRange[] // One entry per argument
+  unit?: string[]
+  value?: any[]
+}
+
+export interface OSCQueryHostInfo {
+  name?: string
+  oscIp?: string
+  oscPort?: number
+  oscTransport: 'UDP' | 'TCP'
+  wsIp?: string
+  wsPort?: number
+  extensions: Record<string, boolean>
+}
+
+export interface OSCQueryDevice {
+  id: string // host:port of the OSCQuery HTTP server
+  host: string
+  port: number
+  hostInfo: OSCQueryHostInfo
+  parameters: OSCQueryParameter[]
+  refreshedAt: number
+}
+
+// A mood output aimed at a discovered parameter
+export interface OSCQueryMoodTarget {
+  device: string // OSCQueryDevice id
+  address: string
+  value: number | string | boolean
+}
+
+const ACCESS: OSCQueryAccess[] = ['none', 'read', 'write', 'readwrite']
+
+// ===== PARSING =====
+
+export function parseHostInfo(raw: any): OSCQueryHostInfo {
+  return {
+    name: raw.NAME,
+    oscIp: raw.OSC_IP,
+    oscPort: raw.OSC_PORT,
+    oscTransport: raw.OSC_TRANSPORT === 'TCP' ? 'TCP' : 'UDP',
+    wsIp: raw.WS_IP,
+    wsPort: raw.WS_PORT,
+    extensions: raw.EXTENSIONS || {}
+  }
+}
+
+function parseRange(raw: any): OSCQueryRange {
+  return { min: raw?.MIN, max: raw?.MAX, values: raw?.VALS }
+}
+
+// Containers only have CONTENTS; anything with a TYPE is a parameter
+function collectParameters(node: any, path: string, out: OSCQueryParameter[]): void {
+  if (!node || typeof node !== 'object') return
+  const address = node.FULL_PATH || path
+
+  if (typeof node.TYPE === 'string') {
+    out.push({
+      address,
+      type: node.TYPE.replace(/^,/, ''),
+      // ACCESS is optional; a parameter without it is treated as writable
+      access: ACCESS[typeof node.ACCESS === 'number' ? node.ACCESS : 3] || 'none',
+      description: node.DESCRIPTION,
+      range: Array.isArray(node.RANGE) ? node.RANGE.map(parseRange) : undefined,
+      unit: node.UNIT,
+      value: node.VALUE
+    })
+  }
+
+  const contents = node.CONTENTS || {}
+  Object.keys(contents).forEach(name => {
+    collectParameters(contents[name], `${address === '/' ? '' : address}/${name}`, out)
+  })
+}
+
+export function parseNamespace(root: any): OSCQueryParameter[] {
+  const parameters: OSCQueryParameter[] = []
+  collectParameters(root, '/', parameters)
+  return parameters.sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0))
+}
+
+// ===== HELPERS =====
+
+export function isWritable(parameter: OSCQueryParameter): boolean {
+  return parameter.access === 'write' || parameter.access === 'readwrite'
+}
+
+export function describeRange(parameter: OSCQueryParameter): string {
+  const range = parameter.range && parameter.range[0]
+  if (!range) return ''
+  if (range.values) return range.values.join(' | ')
+  if (range.min !== undefined || range.max !== undefined) return `${range.min ?? '−∞'}…${range.max ?? '∞'}`
+  return ''
+}
+
+function clamp(value: number, range?: OSCQueryRange): number {
+  if (!range) return value
+  if (range.min !== undefined) value = Math.max(range.min, value)
+  if (range.max !== undefined) value = Math.min(range.max, value)
+  return value
+}
+
+// Mood values are normalised 0-1 or plain strings/booleans; map them onto the
+// parameter's first argument, scaling into its range when it has one
+export function coerceValue(parameter: OSCQueryParameter, value: number | string | boolean): OSCArgument {
+  const tag = parameter.type.charAt(0)
+  const range = parameter.range && parameter.range[0]
+
+  const numeric = (): number => {
+    const n = typeof value === 'boolean' ? (value ? 1 : 0) : Number(value)
+    if (isNaN(n)) throw new Error(`${parameter.address} expects a number, got "${value}"`)
+    // Normalised input scales into a bounded range
+    if (range && range.min !== undefined && range.max !== undefined && typeof value === 'number' && n >= 0 && n <= 1) {
+      return range.min + n * (range.max - range.min)
+    }
+    return clamp(n, range)
+  }
+
+  switch (tag) {
+    case 'f':
+      return { type: 'f', value: numeric() }
+    case 'd':
+      return { type: 'd', value: numeric() }
+    case 'i':
+      return { type: 'i', value: Math.round(numeric()) }
+    case 'h':
+      return { type: 'h', value: Math.round(numeric()) }
+    case 's':
+      return { type: 's', value: String(value) }
+    case 'T':
+    case 'F':
+      return typeof value === 'boolean' ? value : Number(value) >= 0.5
+    default:
+      return value
+  }
+}
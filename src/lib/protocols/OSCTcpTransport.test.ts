@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import net from 'net'
+import { decodeOSCPacket, encodeOSCMessage } from './OSCCodec'
+import {
+  LengthPrefixDecoder,
+  OSCTcpClient,
+  OSC_TCP_MAX_FRAME,
+  SLIPDecoder,
+  lengthPrefixEncode,
+  slipEncode
+} from './OSCTcpTransport'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+
+describe('SLIP framing', () => {
+  it('escapes END and ESC inside the packet', () => {
+    assert.deepEqual(Array.from(slipEncode(bytes(1, 0xc0, 2, 0xdb, 3))), [0xc0, 1, 0xdb, 0xdc, 2, 0xdb, 0xdd, 3, 0xc0])
+  })
+
+  it('round-trips packets split anywhere across chunks', () => {
+    const packets = [bytes(0xc0, 0xdb, 7), bytes(1, 2, 3, 4)]
+    const stream = new Uint8Array([...Array.from(slipEncode(packets[0])), ...Array.from(slipEncode(packets[1]))])
+    for (let split = 0; split <= stream.length; split++) {
+      const decoder = new SLIPDecoder()
+      const out = [...decoder.push(stream.subarray(0, split)), ...decoder.push(stream.subarray(split))]
+      assert.deepEqual(out, packets)
+    }
+  })
+
+  it('drops empty frames between double ENDs', () => {
+    assert.deepEqual(new SLIPDecoder().push(bytes(0xc0, 0xc0, 5, 0xc0, 0xc0)), [bytes(5)])
+  })
+
+  it('rejects a frame that never ends and starts over', () => {
+    const decoder = new SLIPDecoder()
+    assert.throws(() => decoder.push(new Uint8Array(OSC_TCP_MAX_FRAME + 1).fill(1)), /larger than/)
+    assert.deepEqual(decoder.push(slipEncode(bytes(9))), [bytes(9)])
+  })
+})
+
+describe('length-prefix framing', () => {
+  it('prefixes a big-endian int32 size', () => {
+    assert.deepEqual(Array.from(lengthPrefixEncode(bytes(1, 2, 3, 4))), [0, 0, 0, 4, 1, 2, 3, 4])
+  })
+
+  it('waits for whole frames and keeps the remainder', () => {
+    const decoder = new LengthPrefixDecoder()
+    const stream = new Uint8Array([...Array.from(lengthPrefixEncode(bytes(1, 2, 3, 4))), ...Array.from(lengthPrefixEncode(bytes(5, 6, 7, 8)))])
+    assert.deepEqual(decoder.push(stream.subarray(0, 2)), [])
+    assert.deepEqual(decoder.push(stream.subarray(2, 10)), [bytes(1, 2, 3, 4)])
+    assert.deepEqual(decoder.push(stream.subarray(10)), [bytes(5, 6, 7, 8)])
+  })
+
+  it('rejects negative and oversized frame sizes and starts over', () => {
+    const decoder = new LengthPrefixDecoder()
+    assert.throws(() => decoder.push(bytes(0xff, 0xff, 0xff, 0xff)), /frame size/)
+    assert.throws(() => decoder.push(bytes(0x7f, 0xff, 0xff, 0xff)), /frame size/)
+    assert.deepEqual(decoder.push(lengthPrefixEncode(bytes(1, 2, 3, 4))), [bytes(1, 2, 3, 4)])
+  })
+})
+
+describe('OSCTcpClient', () => {
+  it('resolves a request with its /reply message', async () => {
+    const server = net.createServer(socket => {
+      const decoder = new SLIPDecoder()
+      socket.on('data', data => decoder.push(new Uint8Array(data)).forEach(frame => {
+        const request = decodeOSCPacket(frame) as { address: string }
+        const reply = JSON.stringify({ address: request.address, status: 'ok', data: ['1'] })
+        socket.write(slipEncode(encodeOSCMessage({ address: `/reply${request.address}`, args: [reply] })))
+      }))
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const client = new OSCTcpClient({ host: '127.0.0.1', port: (server.address() as net.AddressInfo).port })
+    try {
+      await client.connect()
+      const reply = await client.request({ address: '/workspaces', args: [] })
+      assert.equal(reply.address, '/reply/workspaces')
+    } finally {
+      client.close()
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+})
@@ -0,0 +1,284 @@
+// OSC over TCP
+// Supports SLIP framing (OSC 1.1) and int32 length-prefix framing (OSC 1.0),
+// and correlates requests with `/reply/...` responses for request/response use.
+import net from 'net'
+import { OSCMessage, OSCPacket, encodeOSCPacket, decodeOSCPacket, flattenPacket, argumentValue } from './OSCCodec'
+
+export type OSCFraming = 'slip' | 'length'
+
+export interface OSCTcpClientOptions {
+  host: string
+  port: number
+  framing?: OSCFraming
+  connectTimeoutMs?: number
+  replyTimeoutMs?: number
+}
+
+interface PendingRequest {
+  address: string
+  resolve: (reply: OSCMessage) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+// ===== FRAMING =====
+
+const SLIP_END = 0xc0
+const SLIP_ESC = 0xdb
+const SLIP_ESC_END = 0xdc
+const SLIP_ESC_ESC = 0xdd
+// Far above any real OSC packet; a bigger frame means a corrupt or hostile stream
+export const OSC_TCP_MAX_FRAME = 1024 * 1024
+
+export function slipEncode(packet: Uint8Array): Uint8Array {
+  const out: number[] = [SLIP_END] // Leading END flushes any line noise (double-END)
+  for (let i = 0; i < packet.length; i++) {
+    const byte = packet[i]
+    if (byte === SLIP_END) out.push(SLIP_ESC, SLIP_ESC_END)
+    else if (byte === SLIP_ESC) out.push(SLIP_ESC, SLIP_ESC_ESC)
+    else out.push(byte)
+  }
+  out.push(SLIP_END)
+  return new Uint8Array(out)
+}
+
+export class SLIPDecoder {
+  private buffer: number[] = []
+  private escaping = false
+
+  // Feed raw stream bytes; returns every packet completed by this chunk
+  push(chunk: Uint8Array): Uint8Array[] {
+    const packets: Uint8Array[] = []
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i]
+      if (this.escaping) {
+        this.buffer.push(byte === SLIP_ESC_END ? SLIP_END : byte === SLIP_ESC_ESC ? SLIP_ESC : byte)
+        this.escaping = false
+      } else if (byte === SLIP_ESC) {
+        this.escaping = true
+      } else if (byte === SLIP_END) {
+        if (this.buffer.length > 0) packets.push(new Uint8Array(this.buffer))
+        this.buffer = []
+      } else {
+        this.buffer.push(byte)
+      }
+      if (this.buffer.length > OSC_TCP_MAX_FRAME) {
+        this.buffer = []
+        this.escaping = false
+        throw new Error(`OSC TCP frame larger than ${OSC_TCP_MAX_FRAME} bytes`)
+      }
+    }
+    return packets
+  }
+}
+
+export function lengthPrefixEncode(packet: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + packet.length)
+  new DataView(out.buffer).setInt32(0, packet.length)
+  out.set(packet, 4)
+  return out
+}
+
+export class LengthPrefixDecoder {
+  private buffer = new Uint8Array(0)
+
+  push(chunk: Uint8Array): Uint8Array[] {
+    const merged = new Uint8Array(this.buffer.length + chunk.length)
+    merged.set(this.buffer)
+    merged.set(chunk, this.buffer.length)
+
+    const packets: Uint8Array[] = []
+    let offset = 0
+    while (merged.length - offset >= 4) {
+      const size = new DataView(merged.buffer, offset, 4).getInt32(0)
+      if (size < 0 || size > OSC_TCP_MAX_FRAME) {
+        this.buffer = new Uint8Array(0)
+        throw new Error(`Invalid OSC TCP frame size: ${size}`)
+      }
+      if (merged.length - offset - 4 < size) break
+      packets.push(merged.slice(offset + 4, offset + 4 + size))
+      offset += 4 + size
+    }
+    this.buffer = merged.slice(offset)
+    return packets
+  }
+}
+
+// ===== CLIENT =====
+
+export class OSCTcpClient {
+  private socket: net.Socket | null = null
+  private decoder: SLIPDecoder | LengthPrefixDecoder
+  private pending: PendingRequest[] = []
+  private options: Required<OSCTcpClientOptions>
+
+  private onMessageCallback?: (message: OSCMessage) => void
+  private onCloseCallback?: (error?: Error) => void
+
+  constructor(options: OSCTcpClientOptions) {
+    this.options = {
+      host: options.host,
+      port: options.port,
+      framing: options.framing ?? 'slip',
+      connectTimeoutMs: options.connectTimeoutMs ?? 3000,
+      replyTimeoutMs: options.replyTimeoutMs ?? 2000
+    }
+    this.decoder = this.createDecoder()
+  }
+
+  async connect(): Promise<void> {
+    if (this.socket) return
+
+    const { host, port, connectTimeoutMs } = this.options
+    this.decoder = this.createDecoder()
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host, port })
+      const timer = setTimeout(() => {
+        socket.destroy()
+        reject(new Error(`OSC TCP connection to ${host}:${port} timed out`))
+      }, connectTimeoutMs)
+
+      socket.once('connect', () => {
+        clearTimeout(timer)
+        socket.setNoDelay(true)
+        this.socket = socket
+        resolve()
+      })
+      socket.once('error', (error) => {
+        clearTimeout(timer)
+        reject(error)
+      })
+
+      socket.on('data', (data) => this.handleData(new Uint8Array(data)))
+      socket.on('close', () => this.handleClose())
+      socket.on('error', (error) => {
+        if (this.socket) console.error(`❌ OSC TCP error with ${host}:${port}:`, error.message)
+      })
+    })
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.end()
+      this.socket.destroy()
+    }
+    this.handleClose()
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null
+  }
+
+  getFraming(): OSCFraming {
+    return this.options.framing
+  }
+
+  send(packet: OSCPacket): void {
+    if (!this.socket) {
+      throw new Error(`OSC TCP ${this.options.host}:${this.options.port} not connected`)
+    }
+    const encoded = encodeOSCPacket(packet)
+    const framed = this.options.framing === 'slip' ? slipEncode(encoded) : lengthPrefixEncode(encoded)
+    this.socket.write(framed)
+  }
+
+  // Send a message and resolve with the matching `/reply<address>` message
+  request(message: OSCMessage, timeoutMs: number = this.options.replyTimeoutMs): Promise<OSCMessage> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = this.pending.filter(p => p !== request)
+        reject(new Error(`No reply to ${message.address} within ${timeoutMs}ms`))
+      }, timeoutMs)
+
+      const request: PendingRequest = { address: message.address, resolve, reject, timer }
+      this.pending.push(request)
+
+      try {
+        this.send(message)
+      } catch (error) {
+        clearTimeout(timer)
+        this.pending = this.pending.filter(p => p !== request)
+        reject(error)
+      }
+    })
+  }
+
+  onMessage(callback: (message: OSCMessage) => void): void {
+    this.onMessageCallback = callback
+  }
+
+  onClose(callback: (error?: Error) => void): void {
+    this.onCloseCallback = callback
+  }
+
+  private createDecoder(): SLIPDecoder | LengthPrefixDecoder {
+    return this.options.framing === 'slip' ? new SLIPDecoder() : new LengthPrefixDecoder()
+  }
+
+  private handleData(chunk: Uint8Array): void {
+    let frames: Uint8Array[]
+    try {
+      frames = this.decoder.push(chunk)
+    } catch (error) {
+      console.error('❌ OSC TCP framing error, resetting stream:', error)
+      this.decoder = this.createDecoder()
+      return
+    }
+
+    frames.forEach(frame => {
+      let packet: OSCPacket
+      try {
+        packet = decodeOSCPacket(frame)
+      } catch (error) {
+        console.error('❌ Dropping malformed OSC packet:', error)
+        return
+      }
+      flattenPacket(packet).forEach(message => this.dispatch(message))
+    })
+  }
+
+  private dispatch(message: OSCMessage): void {
+    if (message.address.indexOf('/reply') === 0) {
+      const request = this.matchReply(message)
+      if (request) {
+        clearTimeout(request.timer)
+        this.pending = this.pending.filter(p => p !== request)
+        request.resolve(message)
+      }
+    }
+
+    if (this.onMessageCallback) this.onMessageCallback(message)
+  }
+
+  // Match on the echoed address; QLab also reports the original address in its
+  // JSON body, which covers replies to wildcard or `selected` addresses
+  private matchReply(message: OSCMessage): PendingRequest | undefined {
+    const original = message.address.substring('/reply'.length)
+    const exact = this.pending.find(p => p.address === original)
+    if (exact) return exact
+
+    const body = message.args.length > 0 ? argumentValue(message.args[0]) : null
+    if (typeof body === 'string') {
+      try {
+        const json = JSON.parse(body)
+        if (json.address) return this.pending.find(p => p.address === json.address)
+      } catch (error) {
+        // Not JSON; fall through
+      }
+    }
+    return undefined
+  }
+
+  private handleClose(): void {
+    const wasOpen = this.socket !== null
+    this.socket = null
+    const closedError = new Error(`OSC TCP connection to ${this.options.host}:${this.options.port} closed`)
+    this.pending.forEach(p => {
+      clearTimeout(p.timer)
+      p.reject(closedError)
+    })
+    this.pending = []
+    if (wasOpen && this.onCloseCallback) this.onCloseCallback()
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  CURVE_FOLLOW_SECONDS,
+  OutputCurve,
+  applyOutputCurves,
+  evaluateCurve,
+  liveCurveMapping,
+  normalizeOutputCurve
+} from './OutputCurves'
+
+const curve = (interpolation: OutputCurve['interpolation'], points: OutputCurve['points'], target: OutputCurve['target'] = 'lighting.intensity') =>
+  normalizeOutputCurve({ target, input: 'energy', interpolation, points, enabled: true })
+
+const mood = { name: 'Energetic', energy: 0.75, valence: 0.5, arousal: 0.5 }
+
+describe('evaluateCurve', () => {
+  const points = [{ x: 0.2, y: 0.1 }, { x: 0.6, y: 0.5 }, { x: 1, y: 0.9 }]
+
+  it('holds flat beyond the first and last points', () => {
+    const linear = curve('linear', points)
+    assert.equal(evaluateCurve(linear, 0), 0.1)
+    assert.equal(evaluateCurve(linear, -1), 0.1)
+    assert.equal(evaluateCurve(linear, 1.5), 0.9)
+  })
+
+  it('interpolates linearly between breakpoints', () => {
+    const linear = curve('linear', points)
+    assert.ok(Math.abs(evaluateCurve(linear, 0.4) - 0.3) < 1e-9)
+    assert.ok(Math.abs(evaluateCurve(linear, 0.8) - 0.7) < 1e-9)
+  })
+
+  it('eases in and out with smooth interpolation', () => {
+    const smooth = curve('smooth', [{ x: 0, y: 0 }, { x: 1, y: 1 }])
+    assert.equal(evaluateCurve(smooth, 0.5), 0.5)
+    assert.ok(evaluateCurve(smooth, 0.25) < 0.25)
+    assert.ok(evaluateCurve(smooth, 0.75) > 0.75)
+  })
+
+  it('holds each breakpoint until the next with step interpolation', () => {
+    const step = curve('step', points)
+    assert.equal(evaluateCurve(step, 0.59), 0.1)
+    assert.equal(evaluateCurve(step, 0.6), 0.5)
+    assert.equal(evaluateCurve(step, 0.99), 0.5)
+    assert.equal(evaluateCurve(step, 1), 0.9)
+  })
+
+  it('sorts and clamps points when normalizing', () => {
+    const normalized = curve('linear', [{ x: 1.5, y: 2 }, { x: -1, y: -1 }])
+    assert.deepEqual(normalized.points, [{ x: 0, y: 0 }, { x: 1, y: 1 }])
+  })
+})
+
+describe('applyOutputCurves', () => {
+  const mapping = { lighting: { intensity: 0.4, color: '#ff0000', transition: 4 }, qlab: { cue: '1' } }
+
+  it('replaces curved values and leaves sections the mapping lacks absent', () => {
+    const curved = applyOutputCurves(mapping, mood, [
+      curve('linear', [{ x: 0, y: 0 }, { x: 1, y: 1 }]),
+      curve('linear', [{ x: 0, y: 0 }, { x: 1, y: 3 }], 'resolume.speed')
+    ])
+    assert.deepEqual(curved, { lighting: { intensity: 0.75, color: '#ff0000', transition: 4 }, qlab: { cue: '1' } })
+  })
+
+  it('skips disabled curves and curves for other moods', () => {
+    const off = { ...curve('linear', [{ x: 0, y: 0 }, { x: 1, y: 1 }]), enabled: false }
+    const elsewhere = { ...curve('linear', [{ x: 0, y: 0 }, { x: 1, y: 1 }]), moods: ['Calm'] }
+    assert.deepEqual(applyOutputCurves(mapping, mood, [off, elsewhere]), mapping)
+  })
+
+  it('follows only the live sections, over the follow fade', () => {
+    const follow = liveCurveMapping(mapping, mood, [curve('linear', [{ x: 0, y: 0 }, { x: 1, y: 1 }])])
+    assert.deepEqual(follow, { lighting: { intensity: 0.75, color: '#ff0000', transition: CURVE_FOLLOW_SECONDS } })
+    assert.equal(liveCurveMapping(mapping, mood, [curve('linear', [{ x: 0, y: 40 }, { x: 1, y: 200 }], 'ableton.tempo')]), null)
+  })
+})
@@ -0,0 +1,195 @@
+// Output curves
+// Continuous energy/valence/arousal shaping the outputs: a curve over one mood
+// dimension sets one parameter of a mood mapping (QLab volume, Resolume
+// speed, lighting intensity, Ableton tempo…), so a 0.6-energy Energetic and a
+// 0.95 one no longer look the same. Curves are breakpoints with linear,
+// smooth or stepped (lookup) interpolation; they set values only in sections
+// the mapping already has (a QLab curve does nothing to a mood without QLab).
+// Pure, shared by the dashboard and the bridge.
+
+export type MoodDimension = 'energy' | 'valence' | 'arousal'
+
+export const MOOD_DIMENSIONS: Array<{ dimension: MoodDimension; label: string }> = [
+  { dimension: 'energy', label: 'Energy' },
+  { dimension: 'valence', label: 'Valence' },
+  { dimension: 'arousal', label: 'Arousal' }
+]
+
+export type CurveInterpolation = 'linear' | 'smooth' | 'step'
+
+export const CURVE_INTERPOLATIONS: Array<{ interpolation: CurveInterpolation; label: string }> = [
+  { interpolation: 'linear', label: 'Linear' },
+  { interpolation: 'smooth', label: 'Smooth' },
+  { interpolation: 'step', label: 'Lookup (steps)' }
+]
+
+export type CurveTargetKey =
+  | 'qlab.volume'
+  | 'qlab.rate'
+  | 'resolume.opacity'
+  | 'resolume.speed'
+  | 'resolume.crossfader'
+  | 'lighting.intensity'
+  | 'lighting.cct'
+  | 'lighting.strobe'
+  | 'ableton.tempo'
+  | 'madmapper.master'
+  | 'millumin.master'
+
+export interface CurveTarget {
+  target: CurveTargetKey
+  label: string
+  min: number
+  max: number
+  decimals: number
+  unit?: string
+  live: boolean // A transition channel: follows the mood between mood changes
+}
+
+export const CURVE_TARGETS: CurveTarget[] = [
+  { target: 'lighting.intensity', label: 'Lighting intensity', min: 0, max: 1, decimals: 3, live: true },
+  { target: 'lighting.cct', label: 'Lighting white point', min: 1800, max: 10000, decimals: 0, unit: 'K', live: true },
+  { target: 'lighting.strobe', label: 'Lighting strobe', min: 0, max: 1, decimals: 3, live: false },
+  { target: 'qlab.volume', label: 'QLab volume', min: 0, max: 1, decimals: 3, live: true },
+  { target: 'qlab.rate', label: 'QLab rate', min: 0.25, max: 2, decimals: 2, live: false },
+  { target: 'resolume.opacity', label: 'Resolume opacity', min: 0, max: 1, decimals: 3, live: true },
+  { target: 'resolume.crossfader', label: 'Resolume crossfader', min: 0, max: 1, decimals: 3, live: true },
+  { target: 'resolume.speed', label: 'Resolume speed', min: 0, max: 3, decimals: 2, unit: '×', live: false },
+  { target: 'ableton.tempo', label: 'Ableton tempo', min: 40, max: 200, decimals: 1, unit: 'BPM', live: false },
+  { target: 'madmapper.master', label: 'MadMapper master', min: 0, max: 1, decimals: 3, live: false },
+  { target: 'millumin.master', label: 'Millumin master', min: 0, max: 1, decimals: 3, live: false }
+]
+
+export interface CurvePoint {
+  x: number // 0–1 along the input dimension
+  y: number // In the target's units
+}
+
+export interface OutputCurve {
+  id: string
+  target: CurveTargetKey
+  input: MoodDimension
+  interpolation: CurveInterpolation
+  points: CurvePoint[] // Sorted by x; flat beyond the first and last
+  moods: string[] // Empty: every mood
+  enabled: boolean
+}
+
+export interface CurveMood {
+  name: string
+  energy: number
+  valence: number
+  arousal: number
+}
+
+// Seconds the continuous outputs take to follow the mood between mood changes
+export const CURVE_FOLLOW_SECONDS = 0.5
+
+// Starting points; off until someone turns them on
+export const DEFAULT_OUTPUT_CURVES: OutputCurve[] = [
+  {
+    id: 'lighting-intensity-energy',
+    target: 'lighting.intensity',
+    input: 'energy',
+    interpolation: 'smooth',
+    points: [{ x: 0, y: 0.25 }, { x: 1, y: 1 }],
+    moods: [],
+    enabled: false
+  },
+  {
+    id: 'qlab-volume-arousal',
+    target: 'qlab.volume',
+    input: 'arousal',
+    interpolation: 'linear',
+    points: [{ x: 0, y: 0.2 }, { x: 0.5, y: 0.5 }, { x: 1, y: 0.85 }],
+    moods: [],
+    enabled: false
+  },
+  {
+    id: 'ableton-tempo-energy',
+    target: 'ableton.tempo',
+    input: 'energy',
+    interpolation: 'step',
+    points: [{ x: 0, y: 70 }, { x: 0.4, y: 95 }, { x: 0.7, y: 120 }, { x: 0.9, y: 135 }],
+    moods: [],
+    enabled: false
+  }
+]
+
+export function curveTarget(target: CurveTargetKey): CurveTarget {
+  return CURVE_TARGETS.find(t => t.target === target) || CURVE_TARGETS[0]
+}
+
+export function normalizeOutputCurve(curve: Partial<OutputCurve>): OutputCurve {
+  const target = curveTarget(curve.target as CurveTargetKey)
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, isFinite(value) ? value : min))
+  const points = (curve.points || [])
+    .map(point => ({ x: clamp(Number(point.x), 0, 1), y: clamp(Number(point.y), target.min, target.max) }))
+    .sort((a, b) => a.x - b.x)
+  return {
+    id: curve.id || `${target.target.replace('.', '-')}-${curve.input || 'energy'}`,
+    target: target.target,
+    input: MOOD_DIMENSIONS.some(d => d.dimension === curve.input) ? curve.input as MoodDimension : 'energy',
+    interpolation: CURVE_INTERPOLATIONS.some(i => i.interpolation === curve.interpolation) ? curve.interpolation as CurveInterpolation : 'linear',
+    points: points.length > 0 ? points : [{ x: 0, y: target.min }, { x: 1, y: target.max }],
+    moods: Array.isArray(curve.moods) ? curve.moods : [],
+    enabled: curve.enabled !== false
+  }
+}
+
+// The curve's output for an input of x (0–1)
+export function evaluateCurve(curve: OutputCurve, x: number): number {
+  const points = curve.points
+  if (points.length === 0) return curveTarget(curve.target).min
+  const input = Math.max(0, Math.min(1, x))
+  if (input <= points[0].x) return points[0].y
+  const last = points[points.length - 1]
+  if (input >= last.x) return last.y
+
+  // A lookup holds each breakpoint's value until the next
+  let i = 0
+  while (points[i + 1].x < input) i++
+  const from = points[i]
+  const to = points[i + 1]
+  if (curve.interpolation === 'step') return input >= to.x ? to.y : from.y
+  const t = to.x > from.x ? (input - from.x) / (to.x - from.x) : 1
+  const shaped = curve.interpolation === 'smooth' ? t * t * (3 - 2 * t) : t
+  return from.y + (to.y - from.y) * shaped
+}
+
+export function curveApplies(curve: OutputCurve, mood: CurveMood): boolean {
+  return curve.enabled && (curve.moods.length === 0 || curve.moods.indexOf(mood.name) >= 0)
+}
+
+export function curveValue(curve: OutputCurve, mood: CurveMood): number {
+  const target = curveTarget(curve.target)
+  const factor = Math.pow(10, target.decimals)
+  return Math.round(evaluateCurve(curve, mood[curve.input]) * factor) / factor
+}
+
+// The mapping with its curved values replaced; a later curve on the same
+// target wins. Sections the mapping doesn't have stay absent.
+export function applyOutputCurves<T extends Record<string, any>>(mapping: T, mood: CurveMood, curves: OutputCurve[]): T {
+  const result: Record<string, any> = { ...mapping }
+  curves.forEach(curve => {
+    if (!curveApplies(curve, mood)) return
+    const [section, key] = curve.target.split('.')
+    if (!result[section] || typeof result[section] !== 'object') return
+    result[section] = { ...result[section], [key]: curveValue(curve, mood) }
+  })
+  return result as T
+}
+
+// The continuous part of a curved mapping, for following the mood between
+// mood changes: only the transition channels, over a short fade
+export function liveCurveMapping(mapping: Record<string, any>, mood: CurveMood, curves: OutputCurve[]): Record<string, any> | null {
+  const live = curves.filter(curve => curveApplies(curve, mood) && curveTarget(curve.target).live && mapping[curve.target.split('.')[0]])
+  if (live.length === 0) return null
+  const curved = applyOutputCurves(mapping, mood, live)
+  const sections = live.map(curve => curve.target.split('.')[0])
+  const follow: Record<string, any> = {}
+  if (sections.indexOf('lighting') >= 0) follow.lighting = { ...curved.lighting, transition: CURVE_FOLLOW_SECONDS }
+  if (sections.indexOf('resolume') >= 0) follow.resolume = { ...curved.resolume, fadeTime: CURVE_FOLLOW_SECONDS }
+  if (sections.indexOf('qlab') >= 0) follow.qlab = { ...curved.qlab, fadeTime: CURVE_FOLLOW_SECONDS }
+  return follow
+}
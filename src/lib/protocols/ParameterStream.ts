@@ -0,0 +1,117 @@
+// Mood parameter stream
+// Continuous values for generative tools (TouchDesigner, Max, Processing):
+// mood dimensions, AI confidence and the fused sensor features, published on
+// a configurable OSC namespace at a fixed rate. The cue drivers are separate;
+// this only ever sends floats. Pure, so the dashboard can build and edit the
+// config; ParameterStreamSender does the sending.
+import type { ContextData } from '@/lib/ai/AdvancedMoodAI'
+import { OSCMessage, OSCPacket, createBundle } from './OSCCodec'
+
+export interface StreamInput {
+  mood: { energy: number; valence: number; arousal: number }
+  confidence: number
+  context: ContextData
+}
+
+// Parameter key → latest value
+export type StreamValues = Record<string, number>
+
+export interface StreamParameter {
+  key: string
+  label: string
+  address: string // Default address; the config can override it
+  read: (input: StreamInput) => number
+}
+
+export const STREAM_PARAMETERS: StreamParameter[] = [
+  { key: 'energy', label: 'Mood energy', address: '/mood/energy', read: i => i.mood.energy },
+  { key: 'valence', label: 'Mood valence', address: '/mood/valence', read: i => i.mood.valence },
+  { key: 'arousal', label: 'Mood arousal', address: '/mood/arousal', read: i => i.mood.arousal },
+  { key: 'confidence', label: 'AI confidence', address: '/ai/confidence', read: i => i.confidence },
+  { key: 'people', label: 'People count', address: '/sensors/vision/people', read: i => i.context.vision?.peopleCount ?? 0 },
+  { key: 'movement', label: 'Movement', address: '/sensors/vision/movement', read: i => i.context.vision?.avgMovement ?? 0 },
+  { key: 'density', label: 'Crowd density', address: '/sensors/vision/density', read: i => i.context.vision?.crowdDensity ?? 0 },
+  { key: 'crowdEnergy', label: 'Crowd energy', address: '/sensors/vision/energy', read: i => i.context.vision?.energyLevel ?? 0 },
+  { key: 'volume', label: 'Audio volume', address: '/sensors/audio/volume', read: i => i.context.audio?.volume ?? 0 },
+  { key: 'conversation', label: 'Conversation', address: '/sensors/audio/conversation', read: i => i.context.audio?.conversational ?? 0 },
+  { key: 'musicality', label: 'Musical content', address: '/sensors/audio/musicality', read: i => i.context.audio?.musicality ?? 0 },
+  { key: 'centroid', label: 'Spectral centroid (Hz)', address: '/sensors/audio/centroid', read: i => i.context.audio?.spectralCentroid ?? 0 }
+]
+
+export interface StreamTarget {
+  id: string
+  name: string
+  host: string
+  port: number
+  enabled: boolean
+}
+
+export interface ParameterStreamConfig {
+  enabled: boolean
+  rateHz: number
+  smoothingMs: number // Time constant; 0 sends the raw values
+  bundle: boolean // One bundle per frame instead of one datagram per value
+  parameters: string[] // Keys to send
+  addresses: Record<string, string> // Key → address overrides
+  targets: StreamTarget[]
+}
+
+export const STREAM_RATE_LIMITS = { min: 1, max: 120 }
+
+export const DEFAULT_STREAM_CONFIG: ParameterStreamConfig = {
+  enabled: false,
+  rateHz: 30,
+  smoothingMs: 250,
+  bundle: true,
+  parameters: STREAM_PARAMETERS.map(p => p.key),
+  addresses: {},
+  targets: [
+    { id: 'touchdesigner', name: 'TouchDesigner', host: '127.0.0.1', port: 10000, enabled: true }
+  ]
+}
+
+export function streamAddress(config: ParameterStreamConfig, key: string): string {
+  const parameter = STREAM_PARAMETERS.find(p => p.key === key)
+  return config.addresses[key] || (parameter ? parameter.address : `/mood/${key}`)
+}
+
+export function readStreamValues(input: StreamInput): StreamValues {
+  const values: StreamValues = {}
+  STREAM_PARAMETERS.forEach(parameter => {
+    const value = parameter.read(input)
+    values[parameter.key] = isFinite(value) ? value : 0
+  })
+  return values
+}
+
+// One-pole low-pass toward the target; frame-rate independent
+export function smoothStreamValues(current: StreamValues, target: StreamValues, elapsedMs: number, smoothingMs: number): StreamValues {
+  const alpha = smoothingMs > 0 ? 1 - Math.exp(-elapsedMs / smoothingMs) : 1
+  const next: StreamValues = {}
+  Object.keys(target).forEach(key => {
+    const from = current[key] ?? target[key]
+    next[key] = from + (target[key] - from) * alpha
+  })
+  return next
+}
+
+export function streamMessages(values: StreamValues, config: ParameterStreamConfig): OSCMessage[] {
+  return config.parameters
+    .filter(key => values[key] !== undefined)
+    .map(key => ({ address: streamAddress(config, key), args: [{ type: 'f' as const, value: values[key] }] }))
+}
+
+// What goes on the wire for one frame
+export function streamFrame(values: StreamValues, config: ParameterStreamConfig): OSCPacket[] {
+  const messages = streamMessages(values, config)
+  if (messages.length === 0) return []
+  return config.bundle ? [createBundle(messages)] : messages
+}
+
+export function normalizeStreamConfig(config: ParameterStreamConfig): ParameterStreamConfig {
+  return {
+    ...config,
+    rateHz: Math.max(STREAM_RATE_LIMITS.min, Math.min(STREAM_RATE_LIMITS.max, config.rateHz || DEFAULT_STREAM_CONFIG.rateHz)),
+    smoothingMs: Math.max(0, config.smoothingMs || 0)
+  }
+}
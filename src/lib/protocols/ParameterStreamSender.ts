@@ -0,0 +1,118 @@
+// Parameter stream sender
+// Sends the mood parameter stream at the configured rate. Values arrive
+// whenever the dashboard has new ones; every frame eases toward the latest,
+// so discrete mood changes come out as continuous curves.
+import dgram from 'dgram'
+import { encodeOSCPacket } from './OSCCodec'
+import {
+  DEFAULT_STREAM_CONFIG,
+  ParameterStreamConfig,
+  StreamValues,
+  normalizeStreamConfig,
+  smoothStreamValues,
+  streamFrame
+} from './ParameterStream'
+
+export class ParameterStreamSender {
+  private socket: dgram.Socket | null = null
+  private config: ParameterStreamConfig = DEFAULT_STREAM_CONFIG
+  private frameTimer?: NodeJS.Timeout
+  private target: StreamValues | null = null
+  private current: StreamValues = {}
+  private lastFrame = 0
+  private framesSent = 0
+
+  async start(): Promise<void> {
+    if (this.socket) return
+
+    const socket = dgram.createSocket('udp4')
+    socket.on('error', (error) => {
+      console.error('❌ Parameter stream socket error:', error.message)
+    })
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      socket.bind(0, () => {
+        socket.removeListener('error', reject)
+        resolve()
+      })
+    })
+    this.socket = socket
+    this.schedule()
+    console.log(`🌊 Parameter stream started at ${this.config.rateHz} Hz`)
+  }
+
+  stop(): void {
+    if (this.frameTimer) {
+      clearInterval(this.frameTimer)
+      this.frameTimer = undefined
+    }
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+      console.log('🌊 Parameter stream stopped')
+    }
+  }
+
+  isRunning(): boolean {
+    return this.socket !== null
+  }
+
+  getConfig(): ParameterStreamConfig {
+    return this.config
+  }
+
+  getFramesSent(): number {
+    return this.framesSent
+  }
+
+  // Starts or stops the stream to match config.enabled
+  async configure(config: ParameterStreamConfig): Promise<void> {
+    const previousRate = this.config.rateHz
+    this.config = normalizeStreamConfig(config)
+
+    if (!this.config.enabled) {
+      this.stop()
+      return
+    }
+    if (!this.socket) {
+      await this.start()
+    } else if (this.config.rateHz !== previousRate) {
+      this.schedule()
+    }
+  }
+
+  update(values: StreamValues): void {
+    this.target = values
+  }
+
+  private schedule(): void {
+    if (this.frameTimer) clearInterval(this.frameTimer)
+    this.lastFrame = Date.now()
+    this.frameTimer = setInterval(() => this.sendFrame(), 1000 / this.config.rateHz)
+  }
+
+  private sendFrame(): void {
+    const now = Date.now()
+    const elapsed = now - this.lastFrame
+    this.lastFrame = now
+    // Nothing to send until the dashboard has reported once
+    if (!this.socket || !this.target) return
+
+    this.current = smoothStreamValues(this.current, this.target, elapsed, this.config.smoothingMs)
+    const packets = streamFrame(this.current, this.config).map(packet => encodeOSCPacket(packet))
+    if (packets.length === 0) return
+
+    this.config.targets.forEach(target => {
+      if (!target.enabled) return
+      packets.forEach(packet => this.send(packet, target.host, target.port))
+    })
+    this.framesSent++
+  }
+
+  private send(packet: Uint8Array, host: string, port: number): void {
+    if (!this.socket) return
+    this.socket.send(packet, port, host, (error) => {
+      if (error) console.error(`❌ Parameter stream send to ${host}:${port} failed:`, error.message)
+    })
+  }
+}
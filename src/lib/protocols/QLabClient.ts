@@ -0,0 +1,142 @@
+// QLab OSC client over TCP
+// QLab answers TCP messages on port 53000 with `/reply/<address>` carrying a
+// JSON body; this client resolves each request with that parsed reply.
+import { OSCArgument, OSCMessage, argumentValue } from './OSCCodec'
+import { OSCFraming, OSCTcpClient } from './OSCTcpTransport'
+
+export const QLAB_TCP_PORT = 53000
+
+export interface QLabReply<T = any> {
+  address: string
+  status: 'ok' | 'error' | 'denied'
+  workspaceId?: string
+  data?: T
+}
+
+export interface QLabClientOptions {
+  host: string
+  port?: number
+  framing?: OSCFraming // QLab 3+ speaks SLIP on TCP
+  passcode?: string
+  replyTimeoutMs?: number
+}
+
+export function parseQLabReply(message: OSCMessage): QLabReply {
+  const address = message.address.replace(/^\/reply/, '')
+  const body = message.args.length > 0 ? argumentValue(message.args[0]) : null
+
+  if (typeof body !== 'string') {
+    return { address, status: 'ok' }
+  }
+
+  try {
+    const json = JSON.parse(body)
+    return {
+      address: json.address || address,
+      status: json.status || 'ok',
+      workspaceId: json.workspace_id,
+      data: json.data
+    }
+  } catch (error) {
+    // Older QLab versions reply with plain strings
+    return { address, status: 'ok', data: body }
+  }
+}
+
+export class QLabClient {
+  private tcp: OSCTcpClient
+  private options: QLabClientOptions
+
+  private onUpdateCallback?: (message: OSCMessage) => void
+  private onDisconnectCallback?: () => void
+
+  constructor(options: QLabClientOptions) {
+    this.options = options
+    this.tcp = new OSCTcpClient({
+      host: options.host,
+      port: options.port || QLAB_TCP_PORT,
+      framing: options.framing || 'slip',
+      replyTimeoutMs: options.replyTimeoutMs
+    })
+
+    this.tcp.onMessage((message) => {
+      if (message.address.indexOf('/update') === 0 && this.onUpdateCallback) {
+        this.onUpdateCallback(message)
+      }
+    })
+    this.tcp.onClose(() => {
+      if (this.onDisconnectCallback) this.onDisconnectCallback()
+    })
+  }
+
+  async connect(): Promise<void> {
+    await this.tcp.connect()
+
+    // A passcode-protected workspace denies everything until /connect succeeds
+    if (this.options.passcode) {
+      const reply = await this.send('/connect', [this.options.passcode])
+      if (reply.status !== 'ok' || reply.data === 'badpass') {
+        this.tcp.close()
+        throw new Error('QLab rejected the workspace passcode')
+      }
+    }
+  }
+
+  close(): void {
+    this.tcp.close()
+  }
+
+  isConnected(): boolean {
+    return this.tcp.isConnected()
+  }
+
+  // Send and resolve with QLab's reply; the caller decides what a non-ok status means
+  async send<T = any>(address: string, args: OSCArgument[] = []): Promise<QLabReply<T>> {
+    const reply = await this.tcp.request({ address, args })
+    return parseQLabReply(reply)
+  }
+
+  // Workspace introspection. Each resolves with the raw reply data and
+  // throws if QLab reports anything but ok.
+  async getWorkspaces(): Promise<any[]> {
+    return this.query('/workspaces')
+  }
+
+  async getCueLists(workspaceId?: string): Promise<any[]> {
+    return this.query(`${workspacePrefix(workspaceId)}/cueLists`)
+  }
+
+  async getCueValues(cueId: string, keys: string[], workspaceId?: string): Promise<Record<string, any>> {
+    return this.query(`${workspacePrefix(workspaceId)}/cue_id/${cueId}/valuesForKeys`, [JSON.stringify(keys)])
+  }
+
+  // Ask QLab to push /update messages when the workspace changes
+  async subscribeToUpdates(workspaceId?: string): Promise<void> {
+    this.post(`${workspacePrefix(workspaceId)}/updates`, [1])
+  }
+
+  private async query<T = any>(address: string, args: OSCArgument[] = []): Promise<T> {
+    const reply = await this.send<T>(address, args)
+    if (reply.status !== 'ok') {
+      throw new Error(`QLab replied ${reply.status} to ${address}`)
+    }
+    return reply.data as T
+  }
+
+  // Fire-and-forget, for messages QLab doesn't answer
+  post(address: string, args: OSCArgument[] = []): void {
+    this.tcp.send({ address, args })
+  }
+
+  onUpdate(callback: (message: OSCMessage) => void): void {
+    this.onUpdateCallback = callback
+  }
+
+  onDisconnect(callback: () => void): void {
+    this.onDisconnectCallback = callback
+  }
+}
+
+function workspacePrefix(workspaceId?: string): string {
+  return workspaceId ? `/workspace/${workspaceId}` : ''
+}
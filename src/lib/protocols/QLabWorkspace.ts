@@ -0,0 +1,285 @@
+// QLab workspace introspection
+// Caches the workspace's cue lists and cue metadata so mood mappings can be
+// validated against cues that actually exist. Everything except the cache
+// class itself is pure, so the dashboard can validate against a snapshot.
+import type { QLabClient } from './QLabClient'
+import type { OSCMessage } from './OSCCodec'
+
+export interface QLabWorkspace {
+  id: string
+  name: string
+  hasPasscode: boolean
+  version?: string
+}
+
+export interface QLabCue {
+  id: string
+  number: string // Empty for unnumbered cues
+  name: string
+  type: string
+  duration?: number // Seconds, when QLab reports one
+  cueListId: string
+  cueListName: string
+}
+
+export interface QLabCueList {
+  id: string
+  number: string
+  name: string
+  cues: QLabCue[]
+}
+
+export interface QLabWorkspaceSnapshot {
+  workspace: QLabWorkspace
+  cueLists: QLabCueList[]
+  refreshedAt: number
+}
+
+export interface QLabCueIssue {
+  mood: string
+  cue: string
+  problem: 'missing' | 'unnumbered'
+  suggestion?: string // Cue number to use instead, when one can be inferred
+}
+
+// Only the QLab block of a mood mapping matters here
+export type QLabCueMappings = Record<string, { qlab?: { cue?: string } }>
+
+const DURATION_KEYS = ['duration']
+const CUE_KEYS = ['number', 'listName', 'type', 'duration']
+const UPDATE_THROTTLE_MS = 1000
+
+// What an /update message says changed: the workspace's structure (cue lists,
+// cues added or removed), one cue's properties, or nothing we cache
+export type QLabUpdate = { kind: 'workspace' } | { kind: 'cue'; cueId: string }
+
+// ===== PARSING =====
+
+function parseWorkspace(raw: any): QLabWorkspace {
+  return {
+    id: String(raw.uniqueID),
+    name: String(raw.displayName || raw.uniqueID),
+    hasPasscode: Boolean(raw.hasPasscode),
+    version: raw.version
+  }
+}
+
+// Group cues nest their children; flatten them into the owning list
+function collectCues(raw: any[], list: { id: string; name: string }, out: QLabCue[]): void {
+  raw.forEach(cue => {
+    out.push({
+      id: String(cue.uniqueID),
+      number: String(cue.number || ''),
+      name: String(cue.listName || cue.name || ''),
+      type: String(cue.type || 'Unknown'),
+      cueListId: list.id,
+      cueListName: list.name
+    })
+    if (Array.isArray(cue.cues)) collectCues(cue.cues, list, out)
+  })
+}
+
+export function parseCueLists(raw: any[]): QLabCueList[] {
+  return raw.map(list => {
+    const id = String(list.uniqueID)
+    const name = String(list.listName || list.name || 'Cue List')
+    const cues: QLabCue[] = []
+    collectCues(Array.isArray(list.cues) ? list.cues : [], { id, name }, cues)
+    return { id, number: String(list.number || ''), name, cues }
+  })
+}
+
+// /update/workspace/{id} and .../cueLists are structural; .../cue_id/{cue}
+// names one cue; playhead, dashboard and settings updates are ignored
+export function classifyUpdate(address: string): QLabUpdate | null {
+  const parts = address.split('/')
+  if (parts[1] !== 'update' || parts[2] !== 'workspace' || !parts[3]) return null
+  if (parts.length === 4 || (parts.length === 5 && parts[4] === 'cueLists')) return { kind: 'workspace' }
+  if (parts.length === 6 && parts[4] === 'cue_id' && parts[5]) return { kind: 'cue', cueId: parts[5] }
+  return null
+}
+
+// ===== LOOKUP & VALIDATION =====
+
+export function allCues(snapshot: QLabWorkspaceSnapshot): QLabCue[] {
+  const cues: QLabCue[] = []
+  snapshot.cueLists.forEach(list => cues.push(...list.cues))
+  return cues
+}
+
+// Mappings address cues as `/cue/{number}`, so only the number counts as a match
+export function findCueByNumber(snapshot: QLabWorkspaceSnapshot, number: string): QLabCue | undefined {
+  return allCues(snapshot).find(cue => cue.number === number)
+}
+
+export function validateQLabMappings(mappings: QLabCueMappings, snapshot: QLabWorkspaceSnapshot): QLabCueIssue[] {
+  const cues = allCues(snapshot)
+  const issues: QLabCueIssue[] = []
+
+  Object.keys(mappings).forEach(mood => {
+    const cue = mappings[mood].qlab?.cue
+    if (!cue || cues.some(c => c.number === cue)) return
+
+    // A mapping that names a cue rather than numbering it is the common mistake
+    const byName = cues.find(c => c.name.toLowerCase() === cue.toLowerCase())
+    if (byName && byName.number) {
+      issues.push({ mood, cue, problem: 'missing', suggestion: byName.number })
+    } else if (byName) {
+      issues.push({ mood, cue, problem: 'unnumbered' })
+    } else {
+      issues.push({ mood, cue, problem: 'missing' })
+    }
+  })
+
+  return issues
+}
+
+export function formatDuration(seconds?: number): string {
+  if (seconds === undefined || seconds <= 0) return '—'
+  const minutes = Math.floor(seconds / 60)
+  const rest = seconds - minutes * 60
+  return minutes > 0 ? `${minutes}:${('0' + rest.toFixed(1)).slice(-4)}` : `${rest.toFixed(1)}s`
+}
+
+// ===== CACHE =====
+
+export class QLabWorkspaceCache {
+  private snapshot: QLabWorkspaceSnapshot | null = null
+  private refreshing: Promise<QLabWorkspaceSnapshot> | null = null
+  private updateTimer?: NodeJS.Timeout
+  private lastUpdateAt = 0
+  private pendingWorkspace = false
+  private pendingCues: Set<string> = new Set()
+  private onChangeCallback?: (snapshot: QLabWorkspaceSnapshot) => void
+
+  // workspaceId pins a workspace; otherwise the first one QLab reports is used
+  constructor(private client: QLabClient, private workspaceId?: string) {}
+
+  get(): QLabWorkspaceSnapshot | null {
+    return this.snapshot
+  }
+
+  async refresh(): Promise<QLabWorkspaceSnapshot> {
+    // Concurrent callers share one round of queries
+    if (!this.refreshing) {
+      this.refreshing = this.load().then(
+        snapshot => {
+          this.refreshing = null
+          this.snapshot = snapshot
+          if (this.onChangeCallback) this.onChangeCallback(snapshot)
+          return snapshot
+        },
+        error => {
+          this.refreshing = null
+          throw error
+        }
+      )
+    }
+    return this.refreshing
+  }
+
+  // Feed QLab's /update messages here. Structural updates reload the
+  // workspace, cue updates re-read just that cue; refreshes run at most once
+  // per UPDATE_THROTTLE_MS so a running show can't keep the cache reloading
+  handleUpdate(message: OSCMessage): void {
+    const update = classifyUpdate(message.address)
+    if (!update) return
+    if (update.kind === 'workspace') this.pendingWorkspace = true
+    else this.pendingCues.add(update.cueId)
+    if (this.updateTimer) return
+
+    const wait = Math.max(0, this.lastUpdateAt + UPDATE_THROTTLE_MS - Date.now())
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = undefined
+      this.lastUpdateAt = Date.now()
+      this.applyPendingUpdates().catch(error => console.error('❌ QLab workspace refresh failed:', error))
+    }, wait)
+  }
+
+  dispose(): void {
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.updateTimer = undefined
+    this.pendingWorkspace = false
+    this.pendingCues.clear()
+  }
+
+  onChange(callback: (snapshot: QLabWorkspaceSnapshot) => void): void {
+    this.onChangeCallback = callback
+  }
+
+  private async applyPendingUpdates(): Promise<void> {
+    const cueIds = Array.from(this.pendingCues)
+    const reload = this.pendingWorkspace || !this.snapshot
+    this.pendingWorkspace = false
+    this.pendingCues.clear()
+    if (reload || !(await this.refreshCues(cueIds))) await this.refresh()
+  }
+
+  // Re-reads the given cues in place; false when one of them isn't a plain
+  // cached cue (new, gone, a cue list or a group whose children may have
+  // changed) and the workspace needs a full reload instead
+  private async refreshCues(cueIds: string[]): Promise<boolean> {
+    const snapshot = this.snapshot
+    if (!snapshot) return false
+    const cues = allCues(snapshot)
+    const targets = cueIds.map(id => cues.find(cue => cue.id === id))
+    if (targets.some(cue => !cue || cue.type === 'Group')) return false
+
+    const updated = snapshot.cueLists.map(list => ({ ...list, cues: list.cues.slice() }))
+    for (const cue of targets as QLabCue[]) {
+      let values: Record<string, any>
+      try {
+        values = await this.client.getCueValues(cue.id, CUE_KEYS, snapshot.workspace.id)
+      } catch (error) {
+        return false // Deleted since the update was sent
+      }
+      const duration = Number(values?.duration)
+      const fresh: QLabCue = {
+        ...cue,
+        number: String(values?.number || ''),
+        name: String(values?.listName || cue.name),
+        type: String(values?.type || cue.type),
+        duration: isNaN(duration) ? cue.duration : duration
+      }
+      if (fresh.type === 'Group') return false
+      updated.forEach(list => {
+        const index = list.cues.findIndex(c => c.id === cue.id)
+        if (index >= 0) list.cues[index] = fresh
+      })
+    }
+
+    // A full reload that finished meanwhile has the newer picture
+    if (this.snapshot !== snapshot) return true
+    this.snapshot = { ...snapshot, cueLists: updated, refreshedAt: Date.now() }
+    if (this.onChangeCallback) this.onChangeCallback(this.snapshot)
+    return true
+  }
+
+  private async load(): Promise<QLabWorkspaceSnapshot> {
+    const workspaces = (await this.client.getWorkspaces()).map(parseWorkspace)
+    const workspace = this.workspaceId
+      ? workspaces.find(w => w.id === this.workspaceId)
+      : workspaces[0]
+    if (!workspace) {
+      throw new Error(this.workspaceId ? `QLab workspace ${this.workspaceId} not open` : 'QLab has no open workspace')
+    }
+
+    const cueLists = parseCueLists(await this.client.getCueLists(workspace.id))
+
+    // /cueLists omits durations; ask per cue, one at a time to keep QLab responsive
+    for (const list of cueLists) {
+      for (const cue of list.cues) {
+        try {
+          const values = await this.client.getCueValues(cue.id, DURATION_KEYS, workspace.id)
+          const duration = Number(values?.duration)
+          if (!isNaN(duration)) cue.duration = duration
+        } catch (error) {
+          // Some cue types (e.g. cue lists used as carts) have no duration
+        }
+      }
+    }
+
+    await this.client.subscribeToUpdates(workspace.id)
+    return { workspace, cueLists, refreshedAt: Date.now() }
+  }
+}
@@ -0,0 +1,276 @@
+// RTP-MIDI (AppleMIDI / RFC 6295) session initiator over UDP
+// Invites a remote session on its control port (N) and data port (N+1) from
+// our own N/N+1 pair, keeps the session alive with clock sync, and sends MIDI
+// as RTP packets.
+import dgram from 'dgram'
+import crypto from 'crypto'
+import { MIDITransport } from './MIDI'
+
+export const RTP_MIDI_DEFAULT_PORT = 5004
+
+const APPLEMIDI_SIGNATURE = 0xffff
+const APPLEMIDI_VERSION = 2
+const RTP_PAYLOAD_TYPE = 0x61
+const INVITE_TIMEOUT_MS = 3000
+const INVITE_RETRIES = 3
+const CLOCK_SYNC_INTERVAL_MS = 10000
+const TWO_POW_32 = 4294967296
+
+type SessionCommand = 'IN' | 'OK' | 'NO' | 'BY' | 'CK'
+
+interface SessionPacket {
+  command: SessionCommand
+  token?: number
+  ssrc: number
+  name?: string
+  count?: number
+  timestamps?: number[]
+}
+
+// ===== PACKET CODEC =====
+
+function encodeSessionPacket(command: 'IN' | 'BY', token: number, ssrc: number, name?: string): Uint8Array {
+  const nameBytes = name ? new TextEncoder().encode(name) : new Uint8Array(0)
+  const bytes = new Uint8Array(16 + (name ? nameBytes.length + 1 : 0))
+  const view = new DataView(bytes.buffer)
+  view.setUint16(0, APPLEMIDI_SIGNATURE)
+  bytes[2] = command.charCodeAt(0)
+  bytes[3] = command.charCodeAt(1)
+  view.setUint32(4, APPLEMIDI_VERSION)
+  view.setUint32(8, token >>> 0)
+  view.setUint32(12, ssrc >>> 0)
+  if (name) bytes.set(nameBytes, 16)
+  return bytes
+}
+
+// Clock timestamps are in 100µs units and fit comfortably in a double
+function encodeClockSync(ssrc: number, count: number, timestamps: number[]): Uint8Array {
+  const bytes = new Uint8Array(36)
+  const view = new DataView(bytes.buffer)
+  view.setUint16(0, APPLEMIDI_SIGNATURE)
+  bytes[2] = 'C'.charCodeAt(0)
+  bytes[3] = 'K'.charCodeAt(0)
+  view.setUint32(4, ssrc >>> 0)
+  bytes[8] = count
+  for (let i = 0; i < 3; i++) {
+    const value = timestamps[i] || 0
+    view.setUint32(12 + i * 8, Math.floor(value / TWO_POW_32))
+    view.setUint32(16 + i * 8, value % TWO_POW_32)
+  }
+  return bytes
+}
+
+function decodeSessionPacket(bytes: Uint8Array): SessionPacket | null {
+  if (bytes.length < 12) return null
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (view.getUint16(0) !== APPLEMIDI_SIGNATURE) return null
+
+  const command = String.fromCharCode(bytes[2], bytes[3]) as SessionCommand
+  if (command === 'CK') {
+    if (bytes.length < 36) return null
+    const timestamps: number[] = []
+    for (let i = 0; i < 3; i++) {
+      timestamps.push(view.getUint32(12 + i * 8) * TWO_POW_32 + view.getUint32(16 + i * 8))
+    }
+    return { command, ssrc: view.getUint32(4), count: bytes[8], timestamps }
+  }
+
+  if (bytes.length < 16) return null
+  let nameEnd = 16
+  while (nameEnd < bytes.length && bytes[nameEnd] !== 0) nameEnd++
+  return {
+    command,
+    token: view.getUint32(8),
+    ssrc: view.getUint32(12),
+    name: nameEnd > 16 ? new TextDecoder().decode(bytes.subarray(16, nameEnd)) : undefined
+  }
+}
+
+export function encodeRTPMIDIPacket(midi: Uint8Array, sequence: number, timestamp: number, ssrc: number): Uint8Array {
+  if (midi.length > 0x0fff) {
+    throw new Error(`RTP-MIDI command section too long: ${midi.length} bytes`)
+  }
+  // Short header (1 byte) fits lengths up to 15, otherwise the B flag selects a 12-bit length
+  const header = midi.length <= 0x0f
+    ? [midi.length]
+    : [0x80 | ((midi.length >> 8) & 0x0f), midi.length & 0xff]
+
+  const bytes = new Uint8Array(12 + header.length + midi.length)
+  const view = new DataView(bytes.buffer)
+  bytes[0] = 0x80 // RTP version 2
+  bytes[1] = RTP_PAYLOAD_TYPE
+  view.setUint16(2, sequence & 0xffff)
+  view.setUint32(4, timestamp >>> 0)
+  view.setUint32(8, ssrc >>> 0)
+  bytes.set(header, 12)
+  bytes.set(midi, 12 + header.length)
+  return bytes
+}
+
+// ===== TRANSPORT =====
+
+export class RTPMIDITransport implements MIDITransport {
+  readonly name: string
+  private controlSocket: dgram.Socket | null = null
+  private dataSocket: dgram.Socket | null = null
+  private ssrc = crypto.randomBytes(4).readUInt32BE(0)
+  private token = 0
+  private sequence = 0
+  private startTime = Date.now()
+  private connected = false
+  private clockTimer?: NodeJS.Timeout
+  private pending: Map<string, (packet: SessionPacket) => void> = new Map()
+
+  constructor(
+    private host: string,
+    private port: number = RTP_MIDI_DEFAULT_PORT,
+    private sessionName: string = 'MOOD',
+    private localPort: number = 0 // Our control port; 0 lets the system pick it
+  ) {
+    this.name = `RTP-MIDI ${host}:${port}`
+  }
+
+  async open(): Promise<void> {
+    if (this.connected) return
+
+    this.token = crypto.randomBytes(4).readUInt32BE(0)
+
+    try {
+      // The data port is always the one after the control port
+      this.controlSocket = await this.bindSocket(this.localPort)
+      this.dataSocket = await this.bindSocket(this.controlSocket.address().port + 1)
+
+      // Session is established once both control and data ports accept the invitation
+      await this.invite(this.controlSocket, this.port, 'control')
+      await this.invite(this.dataSocket, this.port + 1, 'data')
+    } catch (error) {
+      this.closeSockets()
+      throw error
+    }
+
+    this.connected = true
+    this.sendClockSync()
+    this.clockTimer = setInterval(() => this.sendClockSync(), CLOCK_SYNC_INTERVAL_MS)
+    console.log(`🎹 RTP-MIDI session "${this.sessionName}" open with ${this.host}:${this.port}`)
+  }
+
+  async close(): Promise<void> {
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer)
+      this.clockTimer = undefined
+    }
+    if (this.connected && this.controlSocket) {
+      this.controlSocket.send(encodeSessionPacket('BY', this.token, this.ssrc), this.port, this.host)
+    }
+    this.connected = false
+    // Let the BY packet leave before tearing the sockets down
+    await new Promise(resolve => setTimeout(resolve, 20))
+    this.closeSockets()
+  }
+
+  isOpen(): boolean {
+    return this.connected
+  }
+
+  async send(message: Uint8Array): Promise<void> {
+    if (!this.connected || !this.dataSocket) {
+      throw new Error(`${this.name} not open`)
+    }
+    this.sequence = (this.sequence + 1) & 0xffff
+    const packet = encodeRTPMIDIPacket(message, this.sequence, this.now(), this.ssrc)
+    const socket = this.dataSocket
+
+    await new Promise<void>((resolve, reject) => {
+      socket.send(packet, this.port + 1, this.host, (error) => error ? reject(error) : resolve())
+    })
+  }
+
+  // Session clock in 100µs units
+  private now(): number {
+    return (Date.now() - this.startTime) * 10
+  }
+
+  private bindSocket(port: number): Promise<dgram.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket('udp4')
+      // Usually N+1 is taken; the caller closes whatever did bind
+      const failed = (error: Error) => {
+        socket.close()
+        reject(error)
+      }
+      socket.once('error', failed)
+      socket.on('message', (msg) => this.handlePacket(new Uint8Array(msg), socket))
+      socket.bind(port, () => {
+        socket.removeListener('error', failed)
+        socket.on('error', (error) => console.error(`❌ ${this.name} socket error:`, error.message))
+        resolve(socket)
+      })
+    })
+  }
+
+  private async invite(socket: dgram.Socket, port: number, label: string): Promise<void> {
+    const invitation = encodeSessionPacket('IN', this.token, this.ssrc, this.sessionName)
+
+    for (let attempt = 0; attempt < INVITE_RETRIES; attempt++) {
+      const reply = await new Promise<SessionPacket | null>((resolve) => {
+        const timer = setTimeout(() => {
+          this.pending.delete(label)
+          resolve(null)
+        }, INVITE_TIMEOUT_MS)
+        this.pending.set(label, (packet) => {
+          clearTimeout(timer)
+          this.pending.delete(label)
+          resolve(packet)
+        })
+        socket.send(invitation, port, this.host)
+      })
+
+      if (reply?.command === 'OK') return
+      if (reply?.command === 'NO') {
+        throw new Error(`${this.name} rejected the ${label} invitation`)
+      }
+    }
+
+    throw new Error(`${this.name} did not answer the ${label} invitation`)
+  }
+
+  private handlePacket(bytes: Uint8Array, socket: dgram.Socket): void {
+    const packet = decodeSessionPacket(bytes)
+    if (!packet) return
+
+    if (packet.command === 'OK' || packet.command === 'NO') {
+      if (packet.token !== this.token) return
+      const label = socket === this.controlSocket ? 'control' : 'data'
+      const resolver = this.pending.get(label)
+      if (resolver) resolver(packet)
+      return
+    }
+
+    if (packet.command === 'BY') {
+      console.warn(`⚠️ ${this.name} ended the session`)
+      this.connected = false
+      return
+    }
+
+    if (packet.command === 'CK' && packet.timestamps) {
+      if (packet.count === 0) {
+        // Remote-initiated sync: answer with our timestamp
+        socket.send(encodeClockSync(this.ssrc, 1, [packet.timestamps[0], this.now()]), this.port + 1, this.host)
+      } else if (packet.count === 1) {
+        socket.send(encodeClockSync(this.ssrc, 2, [packet.timestamps[0], packet.timestamps[1], this.now()]), this.port + 1, this.host)
+      }
+    }
+  }
+
+  private sendClockSync(): void {
+    if (!this.dataSocket) return
+    this.dataSocket.send(encodeClockSync(this.ssrc, 0, [this.now()]), this.port + 1, this.host)
+  }
+
+  private closeSockets(): void {
+    if (this.controlSocket) this.controlSocket.close()
+    if (this.dataSocket) this.dataSocket.close()
+    this.controlSocket = null
+    this.dataSocket = null
+  }
+}
@@ -0,0 +1,136 @@
+// Resolume composition client
+// Reads the composition over Resolume's REST API (Arena/Avenue 7+, webserver
+// enabled in Preferences) and keeps it in sync over the API's WebSocket, which
+// pushes the full composition on connect and whenever its structure changes.
+import WebSocket from 'ws'
+import { ResolumeComposition, parseComposition } from './ResolumeComposition'
+
+export const RESOLUME_REST_PORT = 8080
+
+export interface ResolumeClientOptions {
+  host: string
+  port?: number
+  requestTimeoutMs?: number
+  pollIntervalMs?: number // REST polling when the WebSocket is unavailable
+}
+
+const RECONNECT_DELAY_MS = 5000
+
+export class ResolumeClient {
+  private options: Required<ResolumeClientOptions>
+  private socket: WebSocket | null = null
+  private composition: ResolumeComposition | null = null
+  private pollTimer?: NodeJS.Timeout
+  private reconnectTimer?: NodeJS.Timeout
+  private running = false
+
+  private onChangeCallback?: (composition: ResolumeComposition) => void
+
+  constructor(options: ResolumeClientOptions) {
+    this.options = {
+      host: options.host,
+      port: options.port ?? RESOLUME_REST_PORT,
+      requestTimeoutMs: options.requestTimeoutMs ?? 3000,
+      pollIntervalMs: options.pollIntervalMs ?? 10000
+    }
+  }
+
+  // Read the composition once, then follow changes
+  async start(): Promise<ResolumeComposition> {
+    this.running = true
+    const composition = await this.refresh()
+    this.openSocket()
+    return composition
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.pollTimer) clearInterval(this.pollTimer)
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.pollTimer = undefined
+    this.reconnectTimer = undefined
+    if (this.socket) {
+      this.socket.close()
+      this.socket = null
+    }
+  }
+
+  getComposition(): ResolumeComposition | null {
+    return this.composition
+  }
+
+  async refresh(): Promise<ResolumeComposition> {
+    const { host, port, requestTimeoutMs } = this.options
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), requestTimeoutMs)
+
+    try {
+      const response = await fetch(`http://${host}:${port}/api/v1/composition`, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`Resolume REST API returned ${response.status}`)
+      }
+      this.update(parseComposition(await response.json()))
+      return this.composition!
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new Error(`Resolume REST API at ${host}:${port} did not answer within ${requestTimeoutMs}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  onChange(callback: (composition: ResolumeComposition) => void): void {
+    this.onChangeCallback = callback
+  }
+
+  private update(composition: ResolumeComposition): void {
+    this.composition = composition
+    if (this.onChangeCallback) this.onChangeCallback(composition)
+  }
+
+  private openSocket(): void {
+    if (!this.running) return
+    const { host, port } = this.options
+    const socket = new WebSocket(`ws://${host}:${port}/api/v1`)
+    this.socket = socket
+
+    socket.on('open', () => {
+      // Live updates replace polling
+      if (this.pollTimer) clearInterval(this.pollTimer)
+      this.pollTimer = undefined
+    })
+
+    socket.on('message', (data: any) => {
+      let message: any
+      try {
+        message = JSON.parse(data.toString())
+      } catch (error) {
+        return
+      }
+      // Parameter updates carry a path/value; only full compositions change structure
+      if (Array.isArray(message?.layers)) this.update(parseComposition(message))
+    })
+
+    socket.on('error', (error: Error) => {
+      console.warn(`⚠️ Resolume WebSocket error, polling REST instead: ${error.message}`)
+    })
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.startPolling()
+      if (this.running) {
+        this.reconnectTimer = setTimeout(() => this.openSocket(), RECONNECT_DELAY_MS)
+      }
+    })
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer || !this.running) return
+    this.pollTimer = setInterval(() => {
+      this.refresh().catch(error => console.error('❌ Resolume composition refresh failed:', error.message))
+    }, this.options.pollIntervalMs)
+  }
+}
@@ -0,0 +1,236 @@
+// Resolume composition model
+// Layers, columns, clips and effects as read from Resolume's REST API, plus
+// resolution of mapping references (index, name or #tag) to current indices.
+// Pure, so mappings can be resolved anywhere a composition snapshot exists.
+
+// 1-based index, a name (case-insensitive), or '#tag'. Tags are written into
+// Resolume names, e.g. a clip called "Slow Flow #calm #blue".
+export type ResolumeRef = number | string
+
+export interface ResolumeEffectParam {
+  id: number
+  index: number
+  name: string
+  valueType: string
+  min?: number
+  max?: number
+}
+
+export interface ResolumeEffect {
+  id: number
+  index: number
+  name: string
+  tags: string[]
+  params: ResolumeEffectParam[]
+}
+
+export interface ResolumeClip {
+  id: number
+  index: number // Equals the column index
+  name: string
+  tags: string[]
+  connected: boolean
+}
+
+export interface ResolumeLayer {
+  id: number
+  index: number
+  name: string
+  tags: string[]
+  clips: ResolumeClip[] // Empty slots are left out
+  effects: ResolumeEffect[]
+}
+
+export interface ResolumeColumn {
+  id: number
+  index: number
+  name: string
+  tags: string[]
+}
+
+export interface ResolumeComposition {
+  name: string
+  layers: ResolumeLayer[]
+  columns: ResolumeColumn[]
+  refreshedAt: number
+}
+
+// Per-mood Resolume output, alongside the qlab/lighting blocks in MoodMappings
+export interface ResolumeMoodMapping {
+  layer?: ResolumeRef // Defaults to the clip's layer, then layer 1
+  clip?: ResolumeRef
+  opacity: number
+  speed: number
+  crossfader?: number
+  fadeTime?: number // Seconds for opacity and crossfader; defaults to the lighting transition
+  effects?: Array<{
+    layer: ResolumeRef
+    effect: ResolumeRef
+    param: ResolumeRef
+    value: number
+  }>
+}
+
+export interface ResolvedResolumeMapping {
+  layer: number
+  clip?: { layer: number; clip: number }
+  effects: Array<{ layer: number; effect: number; param: number; value: number }>
+  unresolved: string[] // Human-readable references that didn't match anything
+}
+
+// ===== PARSING =====
+
+// Resolume wraps most properties as { value }; effect names are plain strings
+function text(property: any): string {
+  if (property && typeof property === 'object') return String(property.value ?? '')
+  return property === undefined || property === null ? '' : String(property)
+}
+
+function splitTags(raw: string): { name: string; tags: string[] } {
+  const tags: string[] = []
+  const name = raw.replace(/#([\w-]+)/g, (_, tag: string) => {
+    tags.push(tag.toLowerCase())
+    return ''
+  }).replace(/\s+/g, ' ').trim()
+  return { name, tags }
+}
+
+function parseEffect(raw: any, index: number): ResolumeEffect {
+  const params = raw.params || {}
+  return {
+    id: raw.id,
+    index,
+    ...splitTags(text(raw.display_name) || text(raw.name)),
+    params: Object.keys(params).map((key, i) => ({
+      id: params[key].id,
+      index: i + 1,
+      name: key,
+      valueType: params[key].valuetype,
+      min: params[key].min,
+      max: params[key].max
+    }))
+  }
+}
+
+export function parseComposition(raw: any): ResolumeComposition {
+  const layers: ResolumeLayer[] = (raw.layers || []).map((layer: any, i: number) => ({
+    id: layer.id,
+    index: i + 1,
+    ...splitTags(text(layer.name)),
+    clips: (layer.clips || [])
+      .map((clip: any, c: number) => ({
+        id: clip.id,
+        index: c + 1,
+        ...splitTags(text(clip.name)),
+        connected: text(clip.connected) === 'Connected'
+      }))
+      .filter((clip: ResolumeClip) => clip.name !== '' || clip.tags.length > 0),
+    effects: (layer.video?.effects || []).map((effect: any, e: number) => parseEffect(effect, e + 1))
+  }))
+
+  return {
+    name: text(raw.name),
+    layers,
+    columns: (raw.columns || []).map((column: any, i: number) => ({
+      id: column.id,
+      index: i + 1,
+      ...splitTags(text(column.name))
+    })),
+    refreshedAt: Date.now()
+  }
+}
+
+// ===== RESOLUTION =====
+
+function matches(item: { index: number; name: string; tags: string[] }, ref: ResolumeRef): boolean {
+  if (typeof ref === 'number') return item.index === ref
+  if (ref.charAt(0) === '#') return item.tags.indexOf(ref.substring(1).toLowerCase()) >= 0
+  return item.name.toLowerCase() === ref.toLowerCase()
+}
+
+export function resolveLayer(composition: ResolumeComposition, ref: ResolumeRef): ResolumeLayer | undefined {
+  return composition.layers.find(layer => matches(layer, ref))
+}
+
+// Without a layer, name and tag lookups search every layer top to bottom
+export function resolveClip(
+  composition: ResolumeComposition,
+  ref: ResolumeRef,
+  layerRef?: ResolumeRef
+): { layer: ResolumeLayer; clip: ResolumeClip } | undefined {
+  const layers = layerRef !== undefined
+    ? composition.layers.filter(layer => matches(layer, layerRef))
+    : typeof ref === 'number' ? composition.layers.slice(0, 1) : composition.layers
+
+  for (let i = 0; i < layers.length; i++) {
+    const clip = layers[i].clips.find(c => matches(c, ref))
+    if (clip) return { layer: layers[i], clip }
+  }
+  return undefined
+}
+
+export function resolveEffect(layer: ResolumeLayer, ref: ResolumeRef): ResolumeEffect | undefined {
+  return layer.effects.find(effect => matches(effect, ref))
+}
+
+export function resolveEffectParam(effect: ResolumeEffect, ref: ResolumeRef): ResolumeEffectParam | undefined {
+  if (typeof ref === 'number') return effect.params.find(param => param.index === ref)
+  return effect.params.find(param => param.name.toLowerCase() === ref.toLowerCase())
+}
+
+// Numeric references pass through untouched when there is no composition,
+// so index-only mappings keep working before Resolume has been read
+export function resolveResolumeMapping(
+  mapping: ResolumeMoodMapping,
+  composition: ResolumeComposition | null
+): ResolvedResolumeMapping {
+  const unresolved: string[] = []
+  const resolved: ResolvedResolumeMapping = { layer: 1, effects: [], unresolved }
+
+  const layerIndex = (ref: ResolumeRef): number | undefined => {
+    if (!composition) return typeof ref === 'number' ? ref : undefined
+    return resolveLayer(composition, ref)?.index
+  }
+
+  if (mapping.clip !== undefined) {
+    if (composition) {
+      const match = resolveClip(composition, mapping.clip, mapping.layer)
+      if (match) resolved.clip = { layer: match.layer.index, clip: match.clip.index }
+    } else if (typeof mapping.clip === 'number' && (mapping.layer === undefined || typeof mapping.layer === 'number')) {
+      resolved.clip = { layer: mapping.layer ?? 1, clip: mapping.clip }
+    }
+    if (!resolved.clip) unresolved.push(`clip ${mapping.clip}`)
+  }
+
+  if (mapping.layer !== undefined) {
+    const index = layerIndex(mapping.layer)
+    if (index !== undefined) resolved.layer = index
+    else unresolved.push(`layer ${mapping.layer}`)
+  } else if (resolved.clip) {
+    resolved.layer = resolved.clip.layer
+  }
+
+  const effects = mapping.effects || []
+  effects.forEach(target => {
+    const label = `effect ${target.layer}/${target.effect}/${target.param}`
+    if (!composition) {
+      if (typeof target.layer === 'number' && typeof target.effect === 'number' && typeof target.param === 'number') {
+        resolved.effects.push({ layer: target.layer, effect: target.effect, param: target.param, value: target.value })
+      } else {
+        unresolved.push(label)
+      }
+      return
+    }
+
+    const layer = resolveLayer(composition, target.layer)
+    const effect = layer && resolveEffect(layer, target.effect)
+    const param = effect && resolveEffectParam(effect, target.param)
+    if (layer && effect && param) {
+      resolved.effects.push({ layer: layer.index, effect: effect.index, param: param.index, value: target.value })
+    } else {
+      unresolved.push(label)
+    }
+  })
+
+  return resolved
+}
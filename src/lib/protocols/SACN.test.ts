@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  SACNSender,
+  decodeSACNDataPacket,
+  encodeSACNDataPacket,
+  generateCID,
+  loadOrCreateCID,
+  sacnMulticastAddress
+} from './SACN'
+
+const CID = '3f1a2b4c-5d6e-4f70-8192-a3b4c5d6e7f8'
+
+describe('E1.31 data packets', () => {
+  it('lays out the root, framing and DMP layers', () => {
+    const bytes = encodeSACNDataPacket({
+      cid: CID, sourceName: 'MOOD', priority: 150, sequence: 9, options: 0, universe: 0x0102, data: new Uint8Array([10, 20])
+    })
+    const view = new DataView(bytes.buffer)
+    assert.equal(bytes.length, 128)
+    assert.deepEqual(Array.from(bytes.subarray(4, 16)), [0x41, 0x53, 0x43, 0x2d, 0x45, 0x31, 0x2e, 0x31, 0x37, 0x00, 0x00, 0x00])
+    assert.equal(view.getUint16(16), 0x7000 | (128 - 16)) // Root flags and length
+    assert.equal(view.getUint16(38), 0x7000 | (128 - 38)) // Framing flags and length
+    assert.equal(view.getUint16(115), 0x7000 | (128 - 115)) // DMP flags and length
+    assert.equal(bytes[108], 150)
+    assert.equal(bytes[111], 9)
+    assert.equal(view.getUint16(113), 0x0102)
+    assert.equal(view.getUint16(123), 3) // Start code plus two slots
+    assert.deepEqual(Array.from(bytes.subarray(125)), [0x00, 10, 20])
+  })
+
+  it('round-trips through the decoder', () => {
+    const packet = {
+      cid: CID, sourceName: 'MOOD Adaptive Art System', priority: 100, sequence: 255, options: 0x40, universe: 63999,
+      data: new Uint8Array(512).map((_, i) => (i * 7) & 0xff)
+    }
+    assert.deepEqual(decodeSACNDataPacket(encodeSACNDataPacket(packet)), packet)
+  })
+
+  it('clamps priority to 200', () => {
+    const bytes = encodeSACNDataPacket({ cid: CID, sourceName: 'x', priority: 250, sequence: 0, options: 0, universe: 1, data: new Uint8Array(1) })
+    assert.equal(bytes[108], 200)
+  })
+
+  it('rejects universes outside 1-63999 and malformed CIDs', () => {
+    const packet = { cid: CID, sourceName: 'x', priority: 100, sequence: 0, options: 0, data: new Uint8Array(1) }
+    assert.throws(() => encodeSACNDataPacket({ ...packet, universe: 0 }), /out of range/)
+    assert.throws(() => encodeSACNDataPacket({ ...packet, universe: 64000 }), /out of range/)
+    assert.throws(() => encodeSACNDataPacket({ ...packet, cid: 'not-a-cid', universe: 1 }), /Invalid sACN CID/)
+  })
+
+  it('ignores packets that are not E1.31 data', () => {
+    assert.equal(decodeSACNDataPacket(new Uint8Array(200)), null)
+  })
+})
+
+describe('sACN addressing and identity', () => {
+  it('maps universes to 239.255.hi.lo', () => {
+    assert.equal(sacnMulticastAddress(1), '239.255.0.1')
+    assert.equal(sacnMulticastAddress(0x1234), '239.255.18.52')
+  })
+
+  it('generates version 4 CIDs', () => {
+    assert.match(generateCID(), /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+  })
+
+  it('keeps the CID across restarts', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mood-sacn-'))
+    try {
+      const file = path.join(dir, 'nested', 'sacn-cid')
+      const cid = await loadOrCreateCID(file)
+      assert.equal(await loadOrCreateCID(file), cid)
+      assert.equal(new SACNSender({ cid }).getCID(), cid)
+
+      await fs.promises.writeFile(file, 'garbage')
+      assert.notEqual(await loadOrCreateCID(file), 'garbage')
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('blacks out a universe buffer', () => {
+    const sender = new SACNSender({ cid: CID })
+    sender.setChannels(1, 1, [255, 128])
+    sender.blackout(1)
+    assert.deepEqual(Array.from((sender.getUniverseData(1) as Uint8Array).subarray(0, 2)), [0, 0])
+  })
+})
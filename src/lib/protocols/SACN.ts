@@ -0,0 +1,362 @@
+// sACN (ANSI E1.31) DMX sender
+// Per-universe priority, a stable source name and CID, multicast or unicast.
+// Receivers tell sources apart by CID, so loadOrCreateCID keeps one on disk
+// and the same source survives restarts.
+import dgram from 'dgram'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { DMXOutput, DMX_UNIVERSE_SIZE } from './DMXOutput'
+
+export const SACN_PORT = 5568
+export const SACN_DEFAULT_PRIORITY = 100
+export const SACN_MAX_PRIORITY = 200
+
+const ACN_PACKET_IDENTIFIER = [0x41, 0x53, 0x43, 0x2d, 0x45, 0x31, 0x2e, 0x31, 0x37, 0x00, 0x00, 0x00]
+const VECTOR_ROOT_E131_DATA = 0x00000004
+const VECTOR_E131_DATA_PACKET = 0x00000002
+const VECTOR_DMP_SET_PROPERTY = 0x02
+const OPTION_STREAM_TERMINATED = 0x40
+const HEADER_LENGTH = 126
+// E1.31 receivers time out after 2.5s without data
+const KEEPALIVE_MS = 1000
+
+export interface SACNPacket {
+  cid: string
+  sourceName: string
+  priority: number
+  sequence: number
+  options: number
+  universe: number
+  data: Uint8Array
+}
+
+export interface SACNSenderOptions {
+  sourceName?: string
+  cid?: string // UUID; generated once per sender if omitted
+  defaultPriority?: number
+  refreshRate?: number // Hz
+  bindAddress?: string
+  multicastInterface?: string
+}
+
+interface UniverseState {
+  data: Uint8Array
+  sequence: number
+  priority: number
+  target: string | null // null = multicast
+  dirty: boolean
+  lastSent: number
+}
+
+// ===== ADDRESSING =====
+
+export function sacnMulticastAddress(universe: number): string {
+  validateUniverse(universe)
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`
+}
+
+function validateUniverse(universe: number): void {
+  if (universe < 1 || universe > 63999) {
+    throw new Error(`sACN universe out of range (1-63999): ${universe}`)
+  }
+}
+
+function isMulticast(address: string): boolean {
+  const first = parseInt(address.split('.')[0], 10)
+  return first >= 224 && first <= 239
+}
+
+// ===== CID =====
+
+export function generateCID(): string {
+  const bytes = crypto.randomBytes(16)
+  // RFC 4122 version 4
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  return formatCID(new Uint8Array(bytes))
+}
+
+// The CID saved at filePath, or a new one saved there
+export async function loadOrCreateCID(filePath: string): Promise<string> {
+  try {
+    const cid = (await fs.promises.readFile(filePath, 'utf8')).trim()
+    parseCID(cid)
+    return cid
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') console.warn(`⚠️ sACN CID file unreadable, starting a new source: ${error.message}`)
+  }
+  const cid = generateCID()
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.promises.writeFile(filePath, `${cid}\n`)
+  return cid
+}
+
+function parseCID(cid: string): Uint8Array {
+  const hex = cid.replace(/-/g, '')
+  if (!/^[0-9a-f]{32}$/i.test(hex)) {
+    throw new Error(`Invalid sACN CID: ${cid}`)
+  }
+  const bytes = new Uint8Array(16)
+  for (let i = 0; i < 16; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16)
+  return bytes
+}
+
+function formatCID(bytes: Uint8Array): string {
+  const hex = Array.from(bytes).map(b => ('0' + b.toString(16)).slice(-2)).join('')
+  return `${hex.substr(0, 8)}-${hex.substr(8, 4)}-${hex.substr(12, 4)}-${hex.substr(16, 4)}-${hex.substr(20)}`
+}
+
+// ===== PACKET CODEC =====
+
+function writeFlagsAndLength(view: DataView, offset: number, length: number): void {
+  view.setUint16(offset, 0x7000 | (length & 0x0fff))
+}
+
+export function encodeSACNDataPacket(packet: Omit<SACNPacket, 'cid'> & { cid: Uint8Array | string }): Uint8Array {
+  validateUniverse(packet.universe)
+  const slots = Math.min(DMX_UNIVERSE_SIZE, packet.data.length)
+  const bytes = new Uint8Array(HEADER_LENGTH + slots)
+  const view = new DataView(bytes.buffer)
+
+  // Root layer
+  view.setUint16(0, 0x0010)
+  view.setUint16(2, 0x0000)
+  bytes.set(ACN_PACKET_IDENTIFIER, 4)
+  writeFlagsAndLength(view, 16, bytes.length - 16)
+  view.setUint32(18, VECTOR_ROOT_E131_DATA)
+  bytes.set(typeof packet.cid === 'string' ? parseCID(packet.cid) : packet.cid, 22)
+
+  // Framing layer
+  writeFlagsAndLength(view, 38, bytes.length - 38)
+  view.setUint32(40, VECTOR_E131_DATA_PACKET)
+  const name = new TextEncoder().encode(packet.sourceName)
+  bytes.set(name.subarray(0, 63), 44)
+  bytes[108] = Math.max(0, Math.min(SACN_MAX_PRIORITY, packet.priority))
+  view.setUint16(109, 0) // Synchronization address: unused
+  bytes[111] = packet.sequence & 0xff
+  bytes[112] = packet.options
+  view.setUint16(113, packet.universe)
+
+  // DMP layer
+  writeFlagsAndLength(view, 115, bytes.length - 115)
+  bytes[117] = VECTOR_DMP_SET_PROPERTY
+  bytes[118] = 0xa1 // Address type & data type
+  view.setUint16(119, 0x0000) // First property address
+  view.setUint16(121, 0x0001) // Address increment
+  view.setUint16(123, slots + 1) // Property value count, including start code
+  bytes[125] = 0x00 // DMX start code
+  bytes.set(packet.data.subarray(0, slots), HEADER_LENGTH)
+
+  return bytes
+}
+
+export function decodeSACNDataPacket(bytes: Uint8Array): SACNPacket | null {
+  if (bytes.length < HEADER_LENGTH) return null
+  for (let i = 0; i < ACN_PACKET_IDENTIFIER.length; i++) {
+    if (bytes[4 + i] !== ACN_PACKET_IDENTIFIER[i]) return null
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (view.getUint32(18) !== VECTOR_ROOT_E131_DATA || view.getUint32(40) !== VECTOR_E131_DATA_PACKET) {
+    return null
+  }
+
+  let nameEnd = 44
+  while (nameEnd < 108 && bytes[nameEnd] !== 0) nameEnd++
+  const valueCount = view.getUint16(123)
+
+  return {
+    cid: formatCID(bytes.subarray(22, 38)),
+    sourceName: new TextDecoder().decode(bytes.subarray(44, nameEnd)),
+    priority: bytes[108],
+    sequence: bytes[111],
+    options: bytes[112],
+    universe: view.getUint16(113),
+    data: new Uint8Array(bytes.subarray(HEADER_LENGTH, HEADER_LENGTH + valueCount - 1))
+  }
+}
+
+// ===== SENDER =====
+
+export class SACNSender implements DMXOutput {
+  private socket: dgram.Socket | null = null
+  private universes: Map<number, UniverseState> = new Map()
+  private refreshTimer?: NodeJS.Timeout
+  private cid: Uint8Array
+  private options: SACNSenderOptions & Required<Pick<SACNSenderOptions, 'sourceName' | 'defaultPriority' | 'refreshRate' | 'bindAddress'>>
+
+  constructor(options: SACNSenderOptions = {}) {
+    this.options = {
+      sourceName: 'MOOD Adaptive Art System',
+      defaultPriority: SACN_DEFAULT_PRIORITY,
+      refreshRate: 40,
+      bindAddress: '0.0.0.0',
+      ...options
+    }
+    this.cid = parseCID(options.cid || generateCID())
+  }
+
+  getCID(): string {
+    return formatCID(this.cid)
+  }
+
+  async start(): Promise<void> {
+    if (this.socket) return
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+    this.socket = socket
+
+    socket.on('error', (error) => {
+      console.error('❌ sACN socket error:', error.message)
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      socket.bind(0, this.options.bindAddress, () => {
+        socket.removeListener('error', reject)
+        socket.setMulticastTTL(16)
+        if (this.options.multicastInterface) {
+          socket.setMulticastInterface(this.options.multicastInterface)
+        }
+        resolve()
+      })
+    })
+
+    this.refreshTimer = setInterval(() => this.refresh(), 1000 / this.options.refreshRate)
+    console.log(`💡 sACN sender "${this.options.sourceName}" started (CID ${this.getCID()})`)
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer)
+      this.refreshTimer = undefined
+    }
+    if (this.socket) {
+      // Tell receivers the stream is ending so they release it immediately
+      this.universes.forEach((_, universe) => this.terminate(universe))
+      const socket = this.socket
+      this.socket = null
+      // Give the termination packets a moment to leave before closing
+      setTimeout(() => socket.close(), 50)
+    }
+    console.log('💡 sACN sender stopped')
+  }
+
+  isRunning(): boolean {
+    return this.socket !== null
+  }
+
+  // Register a universe; `target` is a node IP for unicast, omitted for multicast
+  addUniverse(universe: number, target?: string, priority: number = this.options.defaultPriority): void {
+    validateUniverse(universe)
+    const unicast = target && !isMulticast(target) ? target : null
+    const existing = this.universes.get(universe)
+    if (existing) {
+      existing.target = unicast
+      existing.priority = priority
+      existing.dirty = true
+      return
+    }
+    this.universes.set(universe, {
+      data: new Uint8Array(DMX_UNIVERSE_SIZE),
+      sequence: 0,
+      priority,
+      target: unicast,
+      dirty: true,
+      lastSent: 0
+    })
+  }
+
+  removeUniverse(universe: number): void {
+    if (this.socket) this.terminate(universe)
+    this.universes.delete(universe)
+  }
+
+  setPriority(universe: number, priority: number): void {
+    const state = this.universes.get(universe)
+    if (!state) throw new Error(`sACN universe ${universe} not configured`)
+    state.priority = Math.max(0, Math.min(SACN_MAX_PRIORITY, priority))
+    state.dirty = true
+  }
+
+  getUniverses(): number[] {
+    return Array.from(this.universes.keys())
+  }
+
+  getUniverseData(universe: number): Uint8Array | null {
+    return this.universes.get(universe)?.data || null
+  }
+
+  setChannel(universe: number, channel: number, value: number): void {
+    this.setChannels(universe, channel, [value])
+  }
+
+  setChannels(universe: number, startChannel: number, values: number[]): void {
+    if (startChannel < 1 || startChannel + values.length - 1 > DMX_UNIVERSE_SIZE) {
+      throw new Error(`DMX channels ${startChannel}-${startChannel + values.length - 1} out of range`)
+    }
+    if (!this.universes.has(universe)) this.addUniverse(universe)
+
+    const state = this.universes.get(universe)!
+    values.forEach((value, i) => {
+      const clamped = Math.max(0, Math.min(255, Math.round(value)))
+      if (state.data[startChannel - 1 + i] !== clamped) {
+        state.data[startChannel - 1 + i] = clamped
+        state.dirty = true
+      }
+    })
+  }
+
+  blackout(universe?: number): void {
+    const targets = universe !== undefined ? [universe] : this.getUniverses()
+    targets.forEach(u => {
+      const state = this.universes.get(u)
+      if (!state) return
+      state.data.fill(0)
+      state.dirty = true
+    })
+    this.refresh()
+  }
+
+  private refresh(): void {
+    if (!this.socket) return
+    const now = Date.now()
+
+    this.universes.forEach((state, universe) => {
+      if (!state.dirty && now - state.lastSent < KEEPALIVE_MS) return
+      this.sendUniverse(universe, state, 0)
+      state.dirty = false
+      state.lastSent = now
+    })
+  }
+
+  private terminate(universe: number): void {
+    const state = this.universes.get(universe)
+    if (!state) return
+    // E1.31 6.2.6: send three packets with the Stream_Terminated bit set
+    for (let i = 0; i < 3; i++) {
+      this.sendUniverse(universe, state, OPTION_STREAM_TERMINATED)
+    }
+  }
+
+  private sendUniverse(universe: number, state: UniverseState, options: number): void {
+    if (!this.socket) return
+    state.sequence = (state.sequence + 1) & 0xff
+
+    const packet = encodeSACNDataPacket({
+      cid: this.cid,
+      sourceName: this.options.sourceName,
+      priority: state.priority,
+      sequence: state.sequence,
+      options,
+      universe,
+      data: state.data
+    })
+    const address = state.target || sacnMulticastAddress(universe)
+
+    this.socket.send(packet, SACN_PORT, address, (error) => {
+      if (error) console.error(`❌ sACN send to ${address} failed:`, error.message)
+    })
+  }
+}
@@ -0,0 +1,220 @@
+// TouchOSC operator surface
+// Generates a TouchOSC (2020+) layout with mood buttons, energy/valence/arousal
+// faders, an emergency stop and status labels/LEDs, parses what the tablet
+// sends back, and builds the feedback that keeps it in sync. Pure: the layout
+// is returned as XML, which a .tosc file stores zlib-compressed.
+import { OSCMessage, argumentValue } from './OSCCodec'
+
+export type SurfaceParameter = 'energy' | 'valence' | 'arousal'
+
+export type SurfaceCommand =
+  | { type: 'mood'; mood: string }
+  | { type: 'parameter'; parameter: SurfaceParameter; value: number }
+  | { type: 'estop' }
+
+export interface SurfaceMood {
+  name: string
+  color: string
+}
+
+export interface SurfaceLayoutOptions {
+  moods: SurfaceMood[]
+  connections: Array<{ id: string; name: string }>
+  width?: number
+  height?: number
+}
+
+export interface SurfaceState {
+  mood: { name: string; energy: number; valence: number; arousal: number }
+  moods: string[]
+  confidence: number // 0-1
+  connections: Array<{ id: string; connected: boolean }>
+  emergencyActive: boolean
+}
+
+export const SURFACE_PARAMETERS: SurfaceParameter[] = ['energy', 'valence', 'arousal']
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+}
+
+// The surface's OSC namespace, shared by the layout, the parser and feedback
+export const SURFACE_ADDRESSES = {
+  MOOD_SELECT: (mood: string) => `/mood/select/${slug(mood)}`,
+  PARAMETER: (parameter: SurfaceParameter) => `/mood/${parameter}`,
+  ESTOP: '/system/estop',
+  MOOD_LABEL: '/status/mood',
+  CONFIDENCE_LABEL: '/status/confidence',
+  CONFIDENCE_LED: '/status/confidence/led',
+  ESTOP_LED: '/status/estop',
+  CONNECTION_LED: (id: string) => `/status/connection/${slug(id)}`
+}
+
+// ===== INCOMING =====
+
+export function parseSurfaceMessage(message: OSCMessage, moods: string[]): SurfaceCommand | null {
+  const value = message.args.length > 0 ? Number(argumentValue(message.args[0])) : 1
+
+  if (message.address === SURFACE_ADDRESSES.ESTOP) {
+    // Buttons send 1 on press and 0 on release; act on the press only
+    return value >= 0.5 ? { type: 'estop' } : null
+  }
+
+  const parameter = SURFACE_PARAMETERS.find(p => SURFACE_ADDRESSES.PARAMETER(p) === message.address)
+  if (parameter) {
+    if (isNaN(value)) return null
+    return { type: 'parameter', parameter, value: Math.max(0, Math.min(1, value)) }
+  }
+
+  const mood = moods.find(m => SURFACE_ADDRESSES.MOOD_SELECT(m) === message.address)
+  if (mood && value >= 0.5) return { type: 'mood', mood }
+
+  return null
+}
+
+// ===== FEEDBACK =====
+
+export function surfaceFeedback(state: SurfaceState): OSCMessage[] {
+  const messages: OSCMessage[] = [
+    { address: SURFACE_ADDRESSES.MOOD_LABEL, args: [state.mood.name] },
+    { address: SURFACE_ADDRESSES.CONFIDENCE_LABEL, args: [`AI ${Math.round(state.confidence * 100)}%`] },
+    { address: SURFACE_ADDRESSES.CONFIDENCE_LED, args: [state.confidence] },
+    { address: SURFACE_ADDRESSES.ESTOP_LED, args: [state.emergencyActive ? 1 : 0] }
+  ]
+
+  SURFACE_PARAMETERS.forEach(p => {
+    messages.push({ address: SURFACE_ADDRESSES.PARAMETER(p), args: [state.mood[p]] })
+  })
+  // Mood buttons double as a radio group showing the active mood
+  state.moods.forEach(mood => {
+    messages.push({ address: SURFACE_ADDRESSES.MOOD_SELECT(mood), args: [mood === state.mood.name ? 1 : 0] })
+  })
+  state.connections.forEach(connection => {
+    messages.push({ address: SURFACE_ADDRESSES.CONNECTION_LED(connection.id), args: [connection.connected ? 1 : 0] })
+  })
+
+  return messages
+}
+
+// ===== LAYOUT =====
+
+interface Frame {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+interface ControlSpec {
+  type: 'BUTTON' | 'FADER' | 'LABEL'
+  name: string
+  frame: Frame
+  color: string
+  address?: string
+  send?: boolean // Receives feedback either way
+  text?: string // LABEL only
+  interactive?: boolean // false turns a BUTTON into an LED
+}
+
+function escapeXML(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+}
+
+function colorXML(hex: string): string {
+  const match = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
+  const [r, g, b] = match ? [1, 2, 3].map(i => parseInt(match[i], 16) / 255) : [1, 1, 1]
+  return `<r>${r.toFixed(3)}</r><g>${g.toFixed(3)}</g><b>${b.toFixed(3)}</b><a>1</a>`
+}
+
+function property(type: 'b' | 'c' | 'i' | 'r' | 's', key: string, value: string): string {
+  return `<property type='${type}'><key>${key}</key><value>${value}</value></property>`
+}
+
+function partial(type: 'CONSTANT' | 'VALUE', conversion: 'STRING' | 'FLOAT', value: string): string {
+  return `<partial><type>${type}</type><conversion>${conversion}</conversion><value>${escapeXML(value)}</value><scaleMin>0</scaleMin><scaleMax>1</scaleMax></partial>`
+}
+
+function controlXML(spec: ControlSpec, id: string): string {
+  const { x, y, w, h } = spec.frame
+  const properties = [
+    property('c', 'color', colorXML(spec.color)),
+    property('r', 'frame', `<x>${x}</x><y>${y}</y><w>${w}</w><h>${h}</h>`),
+    property('b', 'interactive', spec.interactive === false ? '0' : '1'),
+    property('s', 'name', escapeXML(spec.name))
+  ]
+  if (spec.type === 'LABEL') properties.push(property('i', 'textSize', String(Math.round(h * 0.45))))
+  if (spec.type === 'FADER') properties.push(property('i', 'orientation', '0'))
+
+  const variable = spec.type === 'LABEL' ? 'text' : 'x'
+  const values = spec.type === 'LABEL'
+    ? `<value><key>text</key><locked>0</locked><lockedDefaultCurrent>0</lockedDefaultCurrent><default>${escapeXML(spec.text || '')}</default><defaultPull>0</defaultPull></value>`
+    : `<value><key>x</key><locked>0</locked><lockedDefaultCurrent>0</lockedDefaultCurrent><default>0</default><defaultPull>0</defaultPull></value>`
+
+  const messages = spec.address
+    ? `<messages><osc><enabled>1</enabled><send>${spec.send ? 1 : 0}</send><receive>1</receive><feedback>0</feedback>` +
+      `<connections>00001</connections><triggers><trigger><var>${variable}</var><condition>ANY</condition></trigger></triggers>` +
+      `<path>${partial('CONSTANT', 'STRING', spec.address)}</path>` +
+      `<arguments>${partial('VALUE', spec.type === 'LABEL' ? 'STRING' : 'FLOAT', variable)}</arguments></osc></messages>`
+    : '<messages/>'
+
+  return `<node ID='${id}' type='${spec.type}'><properties>${properties.join('')}</properties><values>${values}</values>${messages}</node>`
+}
+
+// Stable IDs keep regenerated layouts diffable
+function nodeId(index: number): string {
+  return `00000000-0000-4000-8000-${('00000000000' + index.toString(16)).slice(-12)}`
+}
+
+export function buildTouchOSCLayout(options: SurfaceLayoutOptions): string {
+  const width = options.width ?? 1024
+  const height = options.height ?? 768
+  const margin = 20
+  const controls: ControlSpec[] = []
+
+  // Status row: current mood, AI confidence, e-stop LED
+  controls.push({ type: 'LABEL', name: 'mood', frame: { x: margin, y: margin, w: width * 0.5, h: 60 }, color: '#FFFFFF', address: SURFACE_ADDRESSES.MOOD_LABEL, text: '—' })
+  controls.push({ type: 'LABEL', name: 'confidence', frame: { x: width * 0.55, y: margin, w: width * 0.2, h: 60 }, color: '#A78BFA', address: SURFACE_ADDRESSES.CONFIDENCE_LABEL, text: 'AI —' })
+  controls.push({ type: 'BUTTON', name: 'confidence_led', frame: { x: width * 0.77, y: margin + 15, w: 30, h: 30 }, color: '#A78BFA', address: SURFACE_ADDRESSES.CONFIDENCE_LED, interactive: false })
+  controls.push({ type: 'BUTTON', name: 'estop_led', frame: { x: width - margin - 30, y: margin + 15, w: 30, h: 30 }, color: '#EF4444', address: SURFACE_ADDRESSES.ESTOP_LED, interactive: false })
+
+  // Mood buttons across the top
+  const moodTop = margin + 80
+  const gap = 10
+  const moodWidth = (width - margin * 2 - gap * (options.moods.length - 1)) / Math.max(1, options.moods.length)
+  options.moods.forEach((mood, i) => {
+    const frame = { x: Math.round(margin + i * (moodWidth + gap)), y: moodTop, w: Math.round(moodWidth), h: 110 }
+    controls.push({ type: 'BUTTON', name: `mood_${slug(mood.name)}`, frame, color: mood.color, address: SURFACE_ADDRESSES.MOOD_SELECT(mood.name), send: true })
+    controls.push({ type: 'LABEL', name: `mood_${slug(mood.name)}_label`, frame: { ...frame, y: frame.y + frame.h - 36, h: 30 }, color: '#FFFFFF', text: mood.name })
+  })
+
+  // Energy / valence / arousal faders
+  const faderTop = moodTop + 130
+  const faderHeight = height - faderTop - margin - 40
+  SURFACE_PARAMETERS.forEach((parameter, i) => {
+    const x = margin + i * 130
+    controls.push({ type: 'FADER', name: parameter, frame: { x, y: faderTop, w: 110, h: faderHeight }, color: '#06B6D4', address: SURFACE_ADDRESSES.PARAMETER(parameter), send: true })
+    controls.push({ type: 'LABEL', name: `${parameter}_label`, frame: { x, y: faderTop + faderHeight + 5, w: 110, h: 30 }, color: '#FFFFFF', text: parameter.charAt(0).toUpperCase() + parameter.substring(1) })
+  })
+
+  // Connection health LEDs
+  const healthLeft = margin + 3 * 130 + 20
+  options.connections.forEach((connection, i) => {
+    const y = faderTop + i * 40
+    controls.push({ type: 'BUTTON', name: `conn_${slug(connection.id)}`, frame: { x: healthLeft, y: y + 5, w: 24, h: 24 }, color: '#10B981', address: SURFACE_ADDRESSES.CONNECTION_LED(connection.id), interactive: false })
+    controls.push({ type: 'LABEL', name: `conn_${slug(connection.id)}_label`, frame: { x: healthLeft + 34, y, w: 200, h: 34 }, color: '#D1D5DB', text: connection.name })
+  })
+
+  // Emergency stop, bottom right and hard to miss
+  controls.push({ type: 'BUTTON', name: 'estop', frame: { x: width - margin - 240, y: height - margin - 200, w: 240, h: 200 }, color: '#DC2626', address: SURFACE_ADDRESSES.ESTOP, send: true })
+  controls.push({ type: 'LABEL', name: 'estop_label', frame: { x: width - margin - 240, y: height - margin - 120, w: 240, h: 40 }, color: '#FFFFFF', text: 'EMERGENCY STOP' })
+
+  const children = controls.map((control, i) => controlXML(control, nodeId(i + 1))).join('')
+  const root = [
+    property('b', 'background', '1'),
+    property('c', 'color', colorXML('#111827')),
+    property('r', 'frame', `<x>0</x><y>0</y><w>${width}</w><h>${height}</h>`),
+    property('s', 'name', 'MOOD')
+  ].join('')
+
+  return `<?xml version='1.0' encoding='UTF-8'?><lexml version='3'><node ID='${nodeId(0)}' type='GROUP'><properties>${root}</properties><values/><messages/><children>${children}</children></node></lexml>`
+}
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import {
+  WEBHOOK_RETRY_DELAYS_MS,
+  WebhookEndpoint,
+  nextRetryDelay,
+  normalizeWebhookEndpoint,
+  webhookBody,
+  webhookWants
+} from './WebhookEvents'
+import { signWebhook } from './WebhookOutbox'
+
+const endpoint = (updates: Partial<WebhookEndpoint> = {}): WebhookEndpoint =>
+  normalizeWebhookEndpoint({ url: 'https://example.com/hook', ...updates })
+
+describe('webhook retries', () => {
+  it('backs off along the schedule, one delay per failed attempt', () => {
+    assert.equal(nextRetryDelay(1), 5000)
+    assert.equal(nextRetryDelay(2), 30000)
+    assert.equal(nextRetryDelay(WEBHOOK_RETRY_DELAYS_MS.length), 3600000)
+  })
+
+  it('gives up after the last delay so the delivery is dead-lettered', () => {
+    assert.equal(nextRetryDelay(WEBHOOK_RETRY_DELAYS_MS.length + 1), null)
+  })
+
+  it('keeps the total retry window under two hours', () => {
+    const total = WEBHOOK_RETRY_DELAYS_MS.reduce((sum, delay) => sum + delay, 0)
+    assert.ok(total < 2 * 60 * 60 * 1000)
+  })
+})
+
+describe('webhook endpoints', () => {
+  it('fills in an id, name and every event', () => {
+    assert.deepEqual(normalizeWebhookEndpoint({ url: ' https://example.com/hook ' }), {
+      id: 'https://example.com/hook',
+      name: 'https://example.com/hook',
+      url: 'https://example.com/hook',
+      secret: '',
+      events: [],
+      enabled: true
+    })
+  })
+
+  it('drops event types it does not know', () => {
+    assert.deepEqual(endpoint({ events: ['mood.changed', 'bogus' as any] }).events, ['mood.changed'])
+  })
+
+  it('only wants events it is enabled and subscribed for', () => {
+    assert.equal(webhookWants(endpoint(), 'sensor.offline'), true)
+    assert.equal(webhookWants(endpoint({ events: ['mood.changed'] }), 'sensor.offline'), false)
+    assert.equal(webhookWants(endpoint({ enabled: false }), 'mood.changed'), false)
+  })
+})
+
+describe('webhook bodies', () => {
+  const event = { id: 'abc', type: 'mood.changed' as const, timestamp: 1700000000000, data: { to: 'Social' } }
+
+  it('serialises the event envelope', () => {
+    assert.deepEqual(JSON.parse(webhookBody(event)), event)
+  })
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const body = webhookBody(event)
+    const expected = crypto.createHmac('sha256', 'key').update(`1700000000001.${body}`).digest('hex')
+    assert.equal(signWebhook('key', 1700000000001, body), `sha256=${expected}`)
+  })
+})
@@ -0,0 +1,105 @@
+// Webhook events
+// What the outbox POSTs, to whom, and how often it retries. Bodies are JSON:
+//   {"id": "...", "type": "mood.changed", "timestamp": 1700000000000, "data": {...}}
+// signed with HMAC-SHA256 over `<timestamp>.<body>` using the endpoint's
+// secret; see WEBHOOK_HEADERS. Types only and pure helpers, shared by the
+// dashboard and WebhookOutbox.
+
+export type WebhookEventType =
+  | 'mood.changed'
+  | 'ai.prediction_applied'
+  | 'system.emergency_stop'
+  | 'connection.changed'
+  | 'sensor.offline'
+  | 'abtest.completed'
+
+export const WEBHOOK_EVENT_TYPES: Array<{ type: WebhookEventType; label: string }> = [
+  { type: 'mood.changed', label: 'Mood changed' },
+  { type: 'ai.prediction_applied', label: 'AI prediction applied' },
+  { type: 'system.emergency_stop', label: 'Emergency stop' },
+  { type: 'connection.changed', label: 'Connection status change' },
+  { type: 'sensor.offline', label: 'Sensor offline' },
+  { type: 'abtest.completed', label: 'A/B test completed' }
+]
+
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-Mood-Event',
+  DELIVERY: 'X-Mood-Delivery', // The event id; receivers can dedupe on it
+  TIMESTAMP: 'X-Mood-Timestamp',
+  SIGNATURE: 'X-Mood-Signature' // sha256=<hex>
+}
+
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  timestamp: number
+  data: Record<string, any>
+}
+
+export interface WebhookEndpoint {
+  id: string
+  name: string
+  url: string
+  secret: string
+  events: WebhookEventType[] // Empty: every event
+  enabled: boolean
+}
+
+// An endpoint as the dashboard sees it; secrets never leave the bridge
+export interface WebhookEndpointInfo extends Omit<WebhookEndpoint, 'secret'> {
+  hasSecret: boolean
+}
+
+// From the dashboard: no secret keeps the current one, '' removes it
+export interface WebhookEndpointUpdate extends Omit<WebhookEndpoint, 'secret'> {
+  secret?: string
+}
+
+// One event on its way to one endpoint
+export interface WebhookDelivery {
+  id: string
+  event: WebhookEvent
+  endpointId: string
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+  lastStatus?: number
+}
+
+// What the dashboard sees; dead letters newest first and capped
+export interface WebhookOutboxSnapshot {
+  endpoints: WebhookEndpointInfo[]
+  pendingCount: number
+  nextAttemptAt: number | null
+  delivered: number
+  deadLetters: WebhookDelivery[]
+  deadLetterCount: number
+  updatedAt: number
+}
+
+// Delay before attempt n+1; after the last one the delivery is dead-lettered
+export const WEBHOOK_RETRY_DELAYS_MS = [5000, 30000, 120000, 600000, 1800000, 3600000]
+
+export function nextRetryDelay(attempts: number): number | null {
+  return attempts <= WEBHOOK_RETRY_DELAYS_MS.length ? WEBHOOK_RETRY_DELAYS_MS[attempts - 1] : null
+}
+
+export function webhookWants(endpoint: WebhookEndpoint, type: WebhookEventType): boolean {
+  return endpoint.enabled && !!endpoint.url && (endpoint.events.length === 0 || endpoint.events.indexOf(type) >= 0)
+}
+
+export function webhookBody(event: WebhookEvent): string {
+  return JSON.stringify({ id: event.id, type: event.type, timestamp: event.timestamp, data: event.data })
+}
+
+export function normalizeWebhookEndpoint(endpoint: Partial<WebhookEndpoint> & { url: string }): WebhookEndpoint {
+  const url = endpoint.url.trim()
+  return {
+    id: endpoint.id || url,
+    name: endpoint.name || url,
+    url,
+    secret: endpoint.secret || '',
+    events: (endpoint.events || []).filter(type => WEBHOOK_EVENT_TYPES.some(t => t.type === type)),
+    enabled: endpoint.enabled !== false
+  }
+}
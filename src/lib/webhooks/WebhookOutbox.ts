@@ -0,0 +1,243 @@
+// Webhook outbox
+// Durable: endpoints, pending deliveries and dead letters live in one JSON
+// file, rewritten on every change, so a bridge restart loses nothing. Each
+// event fans out to one delivery per interested endpoint; failures back off
+// along WEBHOOK_RETRY_DELAYS_MS and end up in the dead-letter list.
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import {
+  WEBHOOK_HEADERS,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointUpdate,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookOutboxSnapshot,
+  nextRetryDelay,
+  normalizeWebhookEndpoint,
+  webhookBody,
+  webhookWants
+} from './WebhookEvents'
+
+export interface WebhookOutboxOptions {
+  filePath: string
+  requestTimeoutMs?: number
+}
+
+interface OutboxFile {
+  endpoints: WebhookEndpoint[]
+  pending: WebhookDelivery[]
+  deadLetters: WebhookDelivery[]
+  delivered: number
+}
+
+const MAX_DEAD_LETTERS = 500
+const SNAPSHOT_DEAD_LETTERS = 100
+
+// For receivers: compare against the X-Mood-Signature header
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+export class WebhookOutbox {
+  private options: Required<WebhookOutboxOptions>
+  private data: OutboxFile = { endpoints: [], pending: [], deadLetters: [], delivered: 0 }
+  private timer?: NodeJS.Timeout
+  private sending = false
+  private stopped = false
+  private writing: Promise<void> = Promise.resolve()
+  private onChangeCallback?: (snapshot: WebhookOutboxSnapshot) => void
+
+  constructor(options: WebhookOutboxOptions) {
+    this.options = {
+      filePath: options.filePath,
+      requestTimeoutMs: options.requestTimeoutMs ?? 10000
+    }
+  }
+
+  async load(): Promise<void> {
+    try {
+      const saved = JSON.parse(await fs.promises.readFile(this.options.filePath, 'utf8'))
+      this.data = {
+        endpoints: Array.isArray(saved.endpoints) ? saved.endpoints : [],
+        pending: Array.isArray(saved.pending) ? saved.pending : [],
+        deadLetters: Array.isArray(saved.deadLetters) ? saved.deadLetters : [],
+        delivered: Number(saved.delivered) || 0
+      }
+      console.log(`📮 Webhook outbox loaded: ${this.data.endpoints.length} endpoints, ${this.data.pending.length} pending, ${this.data.deadLetters.length} dead letters`)
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.warn(`⚠️ Webhook outbox file unreadable, starting empty: ${error.message}`)
+    }
+    this.stopped = false
+    this.schedule()
+  }
+
+  // A send already in flight finishes, but nothing is scheduled after it
+  stop(): void {
+    this.stopped = true
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+  }
+
+  configure(endpoints: WebhookEndpointUpdate[]): WebhookOutboxSnapshot {
+    const previous = this.data.endpoints
+    this.data.endpoints = endpoints.filter(e => e.url).map(endpoint => {
+      const id = endpoint.id || endpoint.url.trim()
+      const secret = endpoint.secret ?? previous.find(e => e.id === id)?.secret
+      return normalizeWebhookEndpoint({ ...endpoint, secret })
+    })
+    this.changed()
+    return this.getSnapshot()
+  }
+
+  emit(type: WebhookEventType, data: Record<string, any>): WebhookEvent {
+    const event: WebhookEvent = { id: crypto.randomBytes(8).toString('hex'), type, timestamp: Date.now(), data }
+    const now = Date.now()
+    this.data.endpoints.filter(endpoint => webhookWants(endpoint, type)).forEach(endpoint => {
+      this.data.pending.push({ id: `${event.id}-${endpoint.id}`, event, endpointId: endpoint.id, attempts: 0, nextAttemptAt: now })
+    })
+    this.changed()
+    this.schedule()
+    return event
+  }
+
+  retryDeadLetter(deliveryId?: string): void {
+    const retried = this.data.deadLetters.filter(d => !deliveryId || d.id === deliveryId)
+    if (retried.length === 0) return
+    this.data.deadLetters = this.data.deadLetters.filter(d => retried.indexOf(d) < 0)
+    retried.forEach(delivery => this.data.pending.push({ ...delivery, attempts: 0, nextAttemptAt: Date.now() }))
+    this.changed()
+    this.schedule()
+  }
+
+  discardDeadLetter(deliveryId?: string): void {
+    this.data.deadLetters = deliveryId ? this.data.deadLetters.filter(d => d.id !== deliveryId) : []
+    this.changed()
+  }
+
+  getSnapshot(): WebhookOutboxSnapshot {
+    const next = this.data.pending.reduce((min, d) => Math.min(min, d.nextAttemptAt), Infinity)
+    return {
+      endpoints: this.data.endpoints.map(({ secret, ...endpoint }) => ({ ...endpoint, hasSecret: !!secret })),
+      pendingCount: this.data.pending.length,
+      nextAttemptAt: isFinite(next) ? next : null,
+      delivered: this.data.delivered,
+      deadLetters: this.data.deadLetters.slice(0, SNAPSHOT_DEAD_LETTERS),
+      deadLetterCount: this.data.deadLetters.length,
+      updatedAt: Date.now()
+    }
+  }
+
+  onChange(callback: (snapshot: WebhookOutboxSnapshot) => void): void {
+    this.onChangeCallback = callback
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = undefined
+    if (this.stopped || this.sending || this.data.pending.length === 0) return
+
+    const next = this.data.pending.reduce((min, d) => Math.min(min, d.nextAttemptAt), Infinity)
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.sendDue()
+    }, Math.max(0, next - Date.now()))
+  }
+
+  // One at a time, oldest first; a slow endpoint delays the rest but never loses them
+  private async sendDue(): Promise<void> {
+    this.sending = true
+    try {
+      for (;;) {
+        const now = Date.now()
+        const due = this.data.pending.filter(d => d.nextAttemptAt <= now)
+        if (due.length === 0) break
+        for (const delivery of due) {
+          await this.attempt(delivery)
+        }
+      }
+    } finally {
+      this.sending = false
+      this.schedule()
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const endpoint = this.data.endpoints.find(e => e.id === delivery.endpointId)
+    if (!endpoint || !endpoint.enabled) {
+      // Dead letters can be retried once the endpoint is back
+      this.deadLetter(delivery, endpoint ? 'Endpoint disabled' : 'Endpoint removed')
+      this.changed()
+      return
+    }
+
+    delivery.attempts++
+    try {
+      delivery.lastStatus = await this.post(endpoint, delivery.event)
+      this.data.pending = this.data.pending.filter(d => d !== delivery)
+      this.data.delivered++
+    } catch (error: any) {
+      delivery.lastError = error.message
+      const delay = nextRetryDelay(delivery.attempts)
+      if (delay === null) {
+        this.deadLetter(delivery, error.message)
+        console.error(`❌ Webhook ${delivery.event.type} to ${endpoint.name} dead-lettered after ${delivery.attempts} attempts: ${error.message}`)
+      } else {
+        delivery.nextAttemptAt = Date.now() + delay
+        console.warn(`⚠️ Webhook ${delivery.event.type} to ${endpoint.name} failed (${error.message}); retrying in ${delay / 1000}s`)
+      }
+    }
+    this.changed()
+  }
+
+  private async post(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<number> {
+    const body = webhookBody(event)
+    const timestamp = Date.now()
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [WEBHOOK_HEADERS.EVENT]: event.type,
+      [WEBHOOK_HEADERS.DELIVERY]: event.id,
+      [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp)
+    }
+    if (endpoint.secret) headers[WEBHOOK_HEADERS.SIGNATURE] = signWebhook(endpoint.secret, timestamp, body)
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.options.requestTimeoutMs)
+    try {
+      const response = await fetch(endpoint.url, { method: 'POST', headers, body, signal: controller.signal })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      return response.status
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw new Error(`No response within ${this.options.requestTimeoutMs}ms`)
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private deadLetter(delivery: WebhookDelivery, error: string): void {
+    this.data.pending = this.data.pending.filter(d => d !== delivery)
+    this.data.deadLetters = [{ ...delivery, lastError: error }, ...this.data.deadLetters].slice(0, MAX_DEAD_LETTERS)
+  }
+
+  private changed(): void {
+    this.persist()
+    if (this.onChangeCallback) this.onChangeCallback(this.getSnapshot())
+  }
+
+  // Writes are chained so the file never sees two at once; rename keeps it whole
+  private persist(): void {
+    const json = JSON.stringify(this.data)
+    const file = this.options.filePath
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true })
+        await fs.promises.writeFile(`${file}.tmp`, json)
+        await fs.promises.rename(`${file}.tmp`, file)
+      })
+      .catch(error => console.error('❌ Webhook outbox not saved:', error.message))
+  }
+}
@@ -4,6 +4,28 @@ import { subscribeWithSelector } from 'zustand/middleware'
 import { AdvancedMoodAI, ContextData, MoodPrediction, LearningMetrics, ABTestResult } from '@/lib/ai/AdvancedMoodAI'
 import { VisionData } from '@/lib/vision/VisionEngine'
 import { AudioData } from '@/lib/audio/AudioEngine'
+import type { MIDIMoodMapping } from '@/lib/protocols/MIDI'
+import type { QLabWorkspaceSnapshot } from '@/lib/protocols/QLabWorkspace'
+import type { ResolumeMoodMapping } from '@/lib/protocols/ResolumeComposition'
+import type { EosMoodMapping, EosShowState } from '@/lib/protocols/EosShow'
+import type { AbletonMoodMapping, AbletonSongState } from '@/lib/protocols/AbletonSet'
+import type { MadMapperMoodMapping } from '@/lib/drivers/MadMapperDriver'
+import type { MilluminMoodMapping } from '@/lib/drivers/MilluminDriver'
+import { DEFAULT_STREAM_CONFIG, ParameterStreamConfig, normalizeStreamConfig, readStreamValues } from '@/lib/protocols/ParameterStream'
+import type { OSCQueryDevice, OSCQueryMoodTarget } from '@/lib/protocols/OSCQueryNamespace'
+import type { DiscoveredDevice } from '@/lib/protocols/DiscoveredDevice'
+import type { SurfaceCommand, SurfaceState } from '@/lib/protocols/TouchOSCSurface'
+import type { ControlCommand, ControlState } from '@/lib/protocols/ControlAPI'
+import { DEFAULT_MQTT_CONFIG, MQTTConfig, MQTTMoodState, MQTTStatus, normalizeMQTTConfig } from '@/lib/protocols/MoodMQTT'
+import type { WebhookEndpointUpdate, WebhookEventType, WebhookOutboxSnapshot } from '@/lib/webhooks/WebhookEvents'
+import { JOURNAL_DEFAULT_CAPACITY, JournalEntry, MessageCause } from '@/lib/protocols/MessageJournal'
+import { FixtureColorProfile } from '@/lib/protocols/ColorEngine'
+import type { FixtureLibrarySnapshot, FixtureProfile } from '@/lib/fixtures/FixtureProfile'
+import type { FixturePatch, FixturePatchSnapshot, GroupLighting } from '@/lib/fixtures/FixturePatch'
+import { DEFAULT_TRANSITION_CONFIG, TransitionConfig, TransitionStatus, normalizeTransitionConfig } from '@/lib/protocols/MoodTransition'
+import { DEFAULT_OUTPUT_CURVES, OutputCurve, applyOutputCurves, liveCurveMapping, normalizeOutputCurve } from '@/lib/protocols/OutputCurves'
+import { BridgeClient } from '@/lib/bridge/BridgeClient'
+import type { BridgeConnectionStatus } from '@/lib/bridge/BridgeProtocol'
 
 export interface MoodState {
   name: string
@@ -36,7 +58,7 @@ export interface SoftwareConnection {
   status: 'online' | 'offline' | 'error'
   ip?: string
   port?: number
-  protocol?: 'OSC' | 'MIDI' | 'ArtNet'
+  protocol?: 'OSC' | 'MIDI' | 'ArtNet' | 'sACN'
 }
 
 export interface AIPredictionState {
@@ -77,27 +99,24 @@ export interface MoodMappings {
       rate?: number
       playback?: 'go' | 'pause' | 'stop'
     }
-    resolume?: {
-      clip?: number
-      opacity: number
-      speed: number
-      crossfader?: number
-      effects?: Array<{
-        layer: number
-        effect: number
-        param: number
-        value: number
-      }>
-    }
+    resolume?: ResolumeMoodMapping
+    madmapper?: MadMapperMoodMapping
+    millumin?: MilluminMoodMapping
     lighting?: {
       playback?: number
       intensity: number
       color: string
+      cct?: number // Kelvin; warm or cool white in place of the colour
+      strobe?: number // 0 off, up to 1 at each fixture's fastest
+      position?: { pan: number; tilt: number } // 0–1 of each fixture's range
       transition: number
+      groups?: GroupLighting[] // Patched groups and zones; each overrides what it sets, in order
       fixtures?: Array<{
         id: number
         intensity: number
         color: string
+        cct?: number
+        profile?: Partial<FixtureColorProfile> // Emitters, gamma and dimmer curve; plain RGB if unset
       }>
     }
     grandma3?: {
@@ -108,6 +127,10 @@ export interface MoodMappings {
       }>
       command?: string
     }
+    eos?: EosMoodMapping
+    ableton?: AbletonMoodMapping
+    midi?: MIDIMoodMapping
+    parameters?: OSCQueryMoodTarget[] // Discovered OSCQuery parameters
   }
 }
 
@@ -116,35 +139,60 @@ export const MOOD_MAPPINGS: MoodMappings = {
     qlab: { cue: 'energy-music', volume: 0.8, fadeTime: 2, rate: 1.2, playback: 'go' },
     resolume: { clip: 3, opacity: 0.9, speed: 1.5, crossfader: 0.8 },
     lighting: { playback: 1, intensity: 0.9, color: '#FF4444', transition: 2 },
-    grandma3: { sequence: 101, command: 'Go+ Sequence 101' }
+    grandma3: { sequence: 101, command: 'Go+ Sequence 101' },
+    eos: { cue: { list: 1, number: 10 }, subs: [{ id: 1, level: 0.9 }] },
+    ableton: { tempo: { min: 110, max: 140 }, scene: 'Energetic', play: true },
+    madmapper: { scene: 'Energetic', master: 0.9 },
+    millumin: { column: 'Energetic', master: 0.9 },
+    midi: { msc: [{ command: 'GO', cue: '1', list: '1' }], cc: [{ channel: 1, controller: 1, value: 115 }] }
   },
   'Contemplative': {
     qlab: { cue: 'ambient-drone', volume: 0.3, fadeTime: 8, rate: 0.8, playback: 'go' },
     resolume: { clip: 1, opacity: 0.4, speed: 0.6, crossfader: 0.2 },
     lighting: { playback: 2, intensity: 0.4, color: '#8B5CF6', transition: 8 },
-    grandma3: { sequence: 102, command: 'Fade 8 Sequence 102' }
+    grandma3: { sequence: 102, command: 'Fade 8 Sequence 102' },
+    eos: { cue: { list: 1, number: 20 }, subs: [{ id: 1, level: 0.4 }] },
+    ableton: { tempo: { min: 60, max: 80 }, scene: 'Contemplative', play: true },
+    madmapper: { scene: 'Contemplative', master: 0.4 },
+    millumin: { column: 'Contemplative', master: 0.4 },
+    midi: { msc: [{ command: 'GO', cue: '2', list: '1' }], cc: [{ channel: 1, controller: 1, value: 38 }] }
   },
   'Social': {
     qlab: { cue: 'conversation-bg', volume: 0.5, fadeTime: 3, rate: 1.0, playback: 'go' },
     resolume: { clip: 5, opacity: 0.7, speed: 1.1, crossfader: 0.5 },
     lighting: { playback: 3, intensity: 0.7, color: '#10B981', transition: 3 },
-    grandma3: { sequence: 103, command: 'Go Sequence 103' }
+    grandma3: { sequence: 103, command: 'Go Sequence 103' },
+    eos: { cue: { list: 1, number: 30 }, subs: [{ id: 1, level: 0.7 }] },
+    ableton: { tempo: { min: 90, max: 115 }, scene: 'Social', play: true },
+    madmapper: { scene: 'Social', master: 0.7 },
+    millumin: { column: 'Social', master: 0.7 },
+    midi: { msc: [{ command: 'GO', cue: '3', list: '1' }], cc: [{ channel: 1, controller: 1, value: 89 }] }
   },
   'Mysterious': {
     qlab: { cue: 'mysterious-soundscape', volume: 0.6, fadeTime: 5, rate: 0.9, playback: 'go' },
     resolume: { clip: 7, opacity: 0.6, speed: 0.7, crossfader: 0.3 },
     lighting: { playback: 4, intensity: 0.5, color: '#6366F1', transition: 5 },
-    grandma3: { sequence: 104, command: 'Fade 5 Sequence 104' }
+    grandma3: { sequence: 104, command: 'Fade 5 Sequence 104' },
+    eos: { cue: { list: 1, number: 40 }, subs: [{ id: 1, level: 0.5 }] },
+    ableton: { tempo: { min: 70, max: 95 }, scene: 'Mysterious', play: true },
+    madmapper: { scene: 'Mysterious', master: 0.6 },
+    millumin: { column: 'Mysterious', master: 0.6 },
+    midi: { msc: [{ command: 'GO', cue: '4', list: '1' }], cc: [{ channel: 1, controller: 1, value: 64 }] }
   },
   'Peaceful': {
     qlab: { cue: 'nature-ambient', volume: 0.25, fadeTime: 10, rate: 0.7, playback: 'go' },
     resolume: { clip: 2, opacity: 0.3, speed: 0.5, crossfader: 0.1 },
     lighting: { playback: 5, intensity: 0.3, color: '#06B6D4', transition: 10 },
-    grandma3: { sequence: 105, command: 'Fade 10 Sequence 105' }
+    grandma3: { sequence: 105, command: 'Fade 10 Sequence 105' },
+    eos: { cue: { list: 1, number: 50 }, subs: [{ id: 1, level: 0.3 }] },
+    ableton: { tempo: { min: 55, max: 75 }, scene: 'Peaceful', play: true },
+    madmapper: { scene: 'Peaceful', master: 0.3 },
+    millumin: { column: 'Peaceful', master: 0.3 },
+    midi: { msc: [{ command: 'GO', cue: '5', list: '1' }], cc: [{ channel: 1, controller: 1, value: 25 }] }
   }
 };
 
-const MOOD_DEFINITIONS: Record<string, MoodState> = {
+export const MOOD_DEFINITIONS: Record<string, MoodState> = {
   'Energetic': {
     name: 'Energetic', energy: 0.9, valence: 0.8, arousal: 0.9,
     color: '#EF4444', description: 'High energy, excitement, and dynamic activity.'
@@ -177,9 +225,25 @@ interface MoodStore {
   currentMood: MoodState
   environmentData: EnvironmentData
   softwareConnections: SoftwareConnection[]
-  oscController: any | null
+  oscController: BridgeClient | null // The bridge process; null runs the dashboard in simulation
   oscEnabled: boolean
   lastOSCMessage: { software: string, message: string, timestamp: number } | null
+  moodMappings: MoodMappings
+  qlabWorkspace: QLabWorkspaceSnapshot | null
+  eosState: EosShowState | null
+  abletonSong: AbletonSongState | null
+  parameterStream: ParameterStreamConfig
+  mqtt: MQTTConfig
+  mqttStatus: MQTTStatus | null
+  transitions: TransitionConfig
+  transitionStatus: TransitionStatus | null // From the bridge, which runs the fades
+  outputCurves: OutputCurve[] // Applied over the mappings whenever a mood goes out
+  webhooks: WebhookOutboxSnapshot | null // From the bridge, which owns the outbox
+  fixtureLibrary: FixtureLibrarySnapshot | null // From the bridge, which reads the fixture files
+  fixturePatch: FixturePatchSnapshot | null // From the bridge, which drives the patched fixtures
+  journal: JournalEntry[] // Outbound messages as the bridge journals them, oldest first
+  oscQueryDevices: OSCQueryDevice[]
+  discoveredDevices: DiscoveredDevice[]
   moodHistory: Array<{ timestamp: number; mood: string; duration: number }>
   audienceMetrics: {
     totalVisitors: number
@@ -189,25 +253,64 @@ interface MoodStore {
   }
   simulationMode: boolean
   emergencyActive: boolean
+  moodLocked: boolean // Holds the mood against the AI and automation; operators can still change it
+  controlPort: number | null // Where the bridge listens for the control API; null when it isn't
   advancedAI: AdvancedMoodAI | null
   aiEnabled: boolean
   aiPrediction: AIPredictionState
   learningMetrics: LearningMetrics | null
   abTesting: ABTestState
   setSystemActive: (active: boolean) => void
-  updateCurrentMood: (mood: MoodState) => void
+  // cause: what the journal records the resulting messages under; operator by default
+  updateCurrentMood: (mood: MoodState, cause?: MessageCause) => void
   updateEnvironmentData: (data: Partial<EnvironmentData>) => void
   updateSoftwareConnection: (id: string, updates: Partial<SoftwareConnection>) => void
+  syncSoftwareConnections: (statuses: BridgeConnectionStatus[]) => void
   addMoodToHistory: (mood: string) => void
   initializeOSC: () => Promise<void>
   connectToSoftware: (softwareId: string) => Promise<boolean>
   disconnectFromSoftware: (softwareId: string) => Promise<void>
-  applyCurrentMoodToSoftware: () => Promise<void>
+  applyCurrentMoodToSoftware: (cause?: MessageCause) => Promise<void>
   sendOSCCommand: (software: string, command: string, args: any[]) => Promise<void>
+  updateMoodMapping: (mood: string, updates: Partial<MoodMappings[string]>) => void
+  refreshQLabWorkspace: () => Promise<void>
+  setQLabWorkspace: (snapshot: QLabWorkspaceSnapshot | null) => void
+  setEosState: (state: EosShowState | null) => void
+  refreshAbletonSong: () => Promise<void>
+  setAbletonSong: (song: AbletonSongState | null) => void
+  configureParameterStream: (updates: Partial<ParameterStreamConfig>) => Promise<void>
+  configureMQTT: (updates: Partial<MQTTConfig>) => Promise<void>
+  setMQTTStatus: (status: MQTTStatus | null) => void
+  configureTransitions: (updates: Partial<TransitionConfig>) => Promise<void>
+  setTransitionStatus: (status: TransitionStatus | null) => void
+  configureOutputCurves: (curves: OutputCurve[]) => void
+  setWebhookOutbox: (snapshot: WebhookOutboxSnapshot | null) => void
+  configureWebhooks: (endpoints: WebhookEndpointUpdate[]) => Promise<void>
+  retryWebhook: (deliveryId?: string) => Promise<void>
+  discardWebhook: (deliveryId?: string) => Promise<void>
+  setFixtureLibrary: (snapshot: FixtureLibrarySnapshot | null) => void
+  importFixture: (file: File) => Promise<FixtureProfile> // Rejects with the parse error
+  removeFixture: (id: string) => Promise<void>
+  setFixturePatch: (snapshot: FixturePatchSnapshot | null) => void
+  configurePatch: (patch: FixturePatch) => Promise<void>
+  addJournalEntries: (entries: JournalEntry[], reset?: boolean) => void
+  clearJournal: () => Promise<void>
+  browseOSCQuery: (host: string, port: number) => Promise<OSCQueryDevice | null>
+  setOSCQueryDevice: (device: OSCQueryDevice) => void
+  setDiscoveredDevice: (device: DiscoveredDevice) => void
+  removeDiscoveredDevice: (id: string) => void
+  adoptDiscoveredDevice: (id: string) => void
+  handleSurfaceCommand: (command: SurfaceCommand) => void
+  handleControlCommand: (command: ControlCommand) => void
+  setMoodLocked: (locked: boolean) => void
   applyMoodToQLab: (config: any) => Promise<void>
   applyMoodToResolume: (config: any) => Promise<void>
   applyMoodToChamsys: (config: any) => Promise<void>
   applyMoodToGrandMA3: (config: any) => Promise<void>
+  applyMoodToEos: (config: EosMoodMapping) => Promise<void>
+  applyMoodToAbleton: (config: AbletonMoodMapping) => Promise<void>
+  applyMoodToMadMapper: (config: MadMapperMoodMapping) => Promise<void>
+  applyMoodToMillumin: (config: MilluminMoodMapping) => Promise<void>
   setSimulationMode: (enabled: boolean) => void
   emergencyStop: () => void
   initializeAdvancedAI: () => Promise<void>
@@ -255,11 +358,34 @@ export const useMoodStore = create<MoodStore>()(
       { id: 'resolume', name: 'Resolume Arena', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.11', port: 7000, protocol: 'OSC' },
       { id: 'touchosc', name: 'TouchOSC', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.13', port: 9000, protocol: 'OSC' },
       { id: 'chamsys', name: 'Chamsys MagicQ', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.12', port: 6454, protocol: 'OSC' },
-      { id: 'grandma3', name: 'GrandMA3', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.14', port: 8000, protocol: 'OSC' }
+      { id: 'grandma3', name: 'GrandMA3', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.14', port: 8000, protocol: 'OSC' },
+      { id: 'eos', name: 'ETC Eos', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.16', port: 3037, protocol: 'OSC' },
+      { id: 'ableton', name: 'Ableton Live', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.17', port: 11000, protocol: 'OSC' },
+      { id: 'madmapper', name: 'MadMapper', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.18', port: 8010, protocol: 'OSC' },
+      { id: 'millumin', name: 'Millumin', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.19', port: 5000, protocol: 'OSC' },
+      { id: 'artnet', name: 'Art-Net Output', connected: false, lastPing: 0, status: 'offline', ip: '2.255.255.255', port: 6454, protocol: 'ArtNet' },
+      { id: 'sacn', name: 'sACN Output', connected: false, lastPing: 0, status: 'offline', ip: '239.255.0.1', port: 5568, protocol: 'sACN' },
+      { id: 'midi', name: 'MIDI Show Control', connected: false, lastPing: 0, status: 'offline', ip: '192.168.1.15', port: 5004, protocol: 'MIDI' }
     ],
     oscController: null,
     oscEnabled: false,
     lastOSCMessage: null,
+    moodMappings: MOOD_MAPPINGS,
+    qlabWorkspace: null,
+    eosState: null,
+    abletonSong: null,
+    parameterStream: DEFAULT_STREAM_CONFIG,
+    mqtt: DEFAULT_MQTT_CONFIG,
+    mqttStatus: null,
+    transitions: DEFAULT_TRANSITION_CONFIG,
+    transitionStatus: null,
+    outputCurves: DEFAULT_OUTPUT_CURVES,
+    webhooks: null,
+    fixtureLibrary: null,
+    fixturePatch: null,
+    journal: [],
+    oscQueryDevices: [],
+    discoveredDevices: [],
     moodHistory: [
       { timestamp: Date.now() - 480000, mood: 'Social', duration: 8 },
       { timestamp: Date.now() - 720000, mood: 'Contemplative', duration: 12 },
@@ -268,6 +394,8 @@ export const useMoodStore = create<MoodStore>()(
     audienceMetrics: { totalVisitors: 156, averageStayTime: 18.5, peakOccupancy: 23, engagementScore: 0.78 },
     simulationMode: true,
     emergencyActive: false,
+    moodLocked: false,
+    controlPort: null,
     advancedAI: null,
     aiEnabled: false,
     aiPrediction: {
@@ -286,18 +414,27 @@ export const useMoodStore = create<MoodStore>()(
 
     // ===== ACTIONS =====
     setSystemActive: (active) => set({ systemActive: active }),
-    updateCurrentMood: (mood) => {
+    updateCurrentMood: (mood, cause = 'operator') => {
       const prevMood = get().currentMood
       set({ currentMood: mood })
       
       if (prevMood.name !== mood.name) {
         get().addMoodToHistory(prevMood.name)
+        emitEvent(get, 'mood.changed', {
+          from: prevMood.name,
+          to: mood.name,
+          energy: mood.energy,
+          valence: mood.valence,
+          arousal: mood.arousal,
+          description: mood.description
+        })
         if (get().oscEnabled && !get().simulationMode) {
-          get().applyCurrentMoodToSoftware()
+          get().applyCurrentMoodToSoftware(cause)
         }
       }
     },
     updateEnvironmentData: (data) => {
+      markSensorsSeen(Object.keys(data))
       const newData = { ...get().environmentData, ...data }
       set({ environmentData: newData })
       
@@ -311,6 +448,26 @@ export const useMoodStore = create<MoodStore>()(
           conn.id === id ? { ...conn, ...updates } : conn
         )
       })),
+    // Bridge status wins for the connections it knows; the rest keep their local state
+    syncSoftwareConnections: (statuses) =>
+      set((state) => {
+        const updated: SoftwareConnection[] = statuses.map(status => ({
+          id: status.id,
+          name: status.name,
+          connected: status.connected,
+          lastPing: status.lastPing,
+          status: status.connected ? 'online' : 'offline',
+          ip: status.ip,
+          port: status.port,
+          protocol: status.protocol
+        }));
+        return {
+          softwareConnections: [
+            ...state.softwareConnections.map(conn => updated.find(u => u.id === conn.id) || conn),
+            ...updated.filter(u => !state.softwareConnections.some(conn => conn.id === u.id))
+          ]
+        };
+      }),
     addMoodToHistory: (mood) => {
       const now = Date.now()
       const history = get().moodHistory
@@ -324,17 +481,314 @@ export const useMoodStore = create<MoodStore>()(
       ]
       set({ moodHistory: newHistory })
     },
-    initializeOSC: async () => { console.log('✅ OSC Controller initialized'); set({ oscEnabled: true }); },
-    connectToSoftware: async (softwareId) => { get().updateSoftwareConnection(softwareId, { connected: true, status: 'online', lastPing: Date.now() }); return true; },
-    disconnectFromSoftware: async (softwareId) => { get().updateSoftwareConnection(softwareId, { connected: false, status: 'offline', lastPing: 0 }); },
-    applyCurrentMoodToSoftware: async () => { console.log("Applying mood to software...") },
-    applyMoodToQLab: async (config) => { console.log("Applying to QLab", config) },
-    applyMoodToResolume: async (config) => { console.log("Applying to Resolume", config) },
-    applyMoodToChamsys: async (config) => { console.log("Applying to Chamsys", config) },
-    applyMoodToGrandMA3: async (config) => { console.log("Applying to GrandMA3", config) },
-    sendOSCCommand: async (software, command, args) => { console.log(`[SIMULATION] to ${software}: ${command}`, args); set({ lastOSCMessage: { software, message: `${command} ${args.join(' ')}`, timestamp: Date.now() } }); },
+    initializeOSC: async () => {
+      if (get().oscController) return;
+      const bridge = new BridgeClient();
+      try {
+        await bridge.open();
+      } catch (error) {
+        console.warn('⚠️ MOOD bridge unavailable, staying in simulation (start it with `npm run bridge`):', error);
+        return;
+      }
+
+      bridge.onStatus((statuses) => get().syncSoftwareConnections(statuses));
+      bridge.onConnectionStatusChange((id, connected) =>
+        get().updateSoftwareConnection(id, { connected, status: connected ? 'online' : 'offline', lastPing: connected ? Date.now() : 0 }));
+      bridge.onMessageSent((software, message) => set({ lastOSCMessage: { software, message, timestamp: Date.now() } }));
+      bridge.onDeviceDiscovery((device) => get().setDiscoveredDevice(device));
+      bridge.onDeviceLoss((id) => get().removeDiscoveredDevice(id));
+      bridge.onQLabWorkspace((snapshot) => get().setQLabWorkspace(snapshot));
+      bridge.onEosState((eosState) => get().setEosState(eosState));
+      bridge.onAbletonSong((song) => get().setAbletonSong(song));
+      bridge.onMQTTStatus((status) => get().setMQTTStatus(status));
+      bridge.onTransitionStatus((status) => get().setTransitionStatus(status));
+      bridge.onWebhookOutbox((snapshot) => get().setWebhookOutbox(snapshot));
+      bridge.onFixtureLibrary((snapshot) => get().setFixtureLibrary(snapshot));
+      bridge.onFixturePatch((snapshot) => get().setFixturePatch(snapshot));
+      bridge.onJournal((entries, reset) => get().addJournalEntries(entries, reset));
+      bridge.onSensorReading((reading) => get().updateEnvironmentData(reading as Partial<EnvironmentData>));
+      bridge.onOSCQueryDevice((device) => get().setOSCQueryDevice(device));
+      bridge.onBridgeStatus((online) => set({ oscEnabled: online }));
+
+      get().syncSoftwareConnections(bridge.getConnections());
+      set({ oscController: bridge, oscEnabled: true });
+      console.log('✅ OSC bridge initialized');
+    },
+    connectToSoftware: async (softwareId) => {
+      const bridge = get().oscController;
+      if (!bridge) {
+        get().updateSoftwareConnection(softwareId, { connected: true, status: 'online', lastPing: Date.now() });
+        return true;
+      }
+      try {
+        const connected = await bridge.connect(softwareId);
+        get().updateSoftwareConnection(softwareId, { connected, status: connected ? 'online' : 'error', lastPing: connected ? Date.now() : 0 });
+        return connected;
+      } catch (error) {
+        console.error(`❌ Bridge could not connect ${softwareId}:`, error);
+        get().updateSoftwareConnection(softwareId, { connected: false, status: 'error' });
+        return false;
+      }
+    },
+    disconnectFromSoftware: async (softwareId) => {
+      const bridge = get().oscController;
+      if (bridge) await bridge.disconnect(softwareId);
+      get().updateSoftwareConnection(softwareId, { connected: false, status: 'offline', lastPing: 0 });
+    },
+    applyCurrentMoodToSoftware: async (cause = 'operator') => {
+      const bridge = get().oscController;
+      const mood = get().currentMood;
+      if (!bridge) {
+        console.log(`[SIMULATION] Applying ${mood.name} to software`);
+        return;
+      }
+      await bridge.applyMoodRecommendation(moodRecommendation(mood, get().moodMappings[mood.name] || {}, get().outputCurves), cause);
+    },
+    applyMoodToQLab: async (config) => applyMoodVia(get, 'qlab', { qlab: config }),
+    applyMoodToResolume: async (config) => applyMoodVia(get, 'resolume', { resolume: config }),
+    applyMoodToChamsys: async (config) => applyMoodVia(get, 'chamsys', { lighting: config }),
+    applyMoodToGrandMA3: async (config) => applyMoodVia(get, 'grandma3', { grandma3: config }),
+    applyMoodToEos: async (config) => applyMoodVia(get, 'eos', { eos: config }),
+    applyMoodToAbleton: async (config) => applyMoodVia(get, 'ableton', { ableton: config }),
+    applyMoodToMadMapper: async (config) => applyMoodVia(get, 'madmapper', { madmapper: config }),
+    applyMoodToMillumin: async (config) => applyMoodVia(get, 'millumin', { millumin: config }),
+    sendOSCCommand: async (software, command, args) => {
+      const bridge = get().oscController;
+      if (!bridge) {
+        console.log(`[SIMULATION] to ${software}: ${command}`, args);
+        set({ lastOSCMessage: { software, message: `${command} ${args.join(' ')}`, timestamp: Date.now() } });
+        return;
+      }
+      await bridge.sendTo(software, command, args, 'operator');
+    },
+    updateMoodMapping: (mood, updates) =>
+      set((state) => ({
+        moodMappings: { ...state.moodMappings, [mood]: { ...state.moodMappings[mood], ...updates } }
+      })),
+    refreshQLabWorkspace: async () => {
+      const controller = get().oscController;
+      if (!controller?.refreshQLabWorkspace) {
+        console.warn('⚠️ QLab workspace introspection needs a live OSC controller');
+        return;
+      }
+      try {
+        set({ qlabWorkspace: await controller.refreshQLabWorkspace() });
+      } catch (error) {
+        console.error('❌ QLab workspace refresh failed:', error);
+      }
+    },
+    setQLabWorkspace: (snapshot) => set({ qlabWorkspace: snapshot }),
+    setEosState: (eosState) => set({ eosState }),
+    refreshAbletonSong: async () => {
+      const controller = get().oscController;
+      if (!controller) {
+        console.warn('⚠️ Ableton song state needs a live OSC controller');
+        return;
+      }
+      try {
+        await controller.refreshAbletonSong();
+      } catch (error) {
+        console.error('❌ Ableton song refresh failed:', error);
+      }
+    },
+    setAbletonSong: (song) => set({ abletonSong: song }),
+    configureParameterStream: async (updates) => {
+      const config = normalizeStreamConfig({ ...get().parameterStream, ...updates });
+      set({ parameterStream: config });
+      const bridge = get().oscController;
+      if (!bridge) return;
+      try {
+        await bridge.configureParameterStream(config);
+      } catch (error) {
+        console.error('❌ Parameter stream config not applied:', error);
+      }
+    },
+    configureMQTT: async (updates) => {
+      const config = normalizeMQTTConfig({ ...get().mqtt, ...updates });
+      set({ mqtt: config });
+      const bridge = get().oscController;
+      if (!bridge) return;
+      try {
+        await bridge.configureMQTT(config);
+      } catch (error) {
+        console.error('❌ MQTT config not applied:', error);
+      }
+    },
+    setMQTTStatus: (status) => set({ mqttStatus: status }),
+    configureTransitions: async (updates) => {
+      const config = normalizeTransitionConfig({ ...get().transitions, ...updates });
+      set({ transitions: config });
+      const bridge = get().oscController;
+      if (!bridge) return;
+      try {
+        await bridge.configureTransitions(config);
+      } catch (error) {
+        console.error('❌ Transition settings not applied:', error);
+      }
+    },
+    setTransitionStatus: (status) => set({ transitionStatus: status }),
+    configureOutputCurves: (curves) => set({ outputCurves: curves.map(normalizeOutputCurve) }),
+    setWebhookOutbox: (snapshot) => set({ webhooks: snapshot }),
+    configureWebhooks: async (endpoints) => {
+      const bridge = get().oscController;
+      if (!bridge) return;
+      try {
+        const snapshot = await bridge.configureWebhooks(endpoints);
+        if (snapshot) set({ webhooks: snapshot });
+        else console.warn('⚠️ The bridge has no webhook outbox');
+      } catch (error) {
+        console.error('❌ Webhook endpoints not saved:', error);
+      }
+    },
+    retryWebhook: async (deliveryId) => {
+      const bridge = get().oscController;
+      if (bridge) await bridge.retryWebhook(deliveryId).catch(error => console.error('❌ Webhook retry failed:', error));
+    },
+    discardWebhook: async (deliveryId) => {
+      const bridge = get().oscController;
+      if (bridge) await bridge.discardWebhook(deliveryId).catch(error => console.error('❌ Webhook discard failed:', error));
+    },
+    setFixtureLibrary: (snapshot) => set({ fixtureLibrary: snapshot }),
+    importFixture: async (file) => {
+      const bridge = get().oscController;
+      if (!bridge) throw new Error('Bridge offline');
+      // GDTF files are zips; the bytes cross the bridge as base64
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+      }
+      return bridge.importFixture(file.name, btoa(binary));
+    },
+    removeFixture: async (id) => {
+      const bridge = get().oscController;
+      if (bridge) await bridge.removeFixture(id).catch(error => console.error('❌ Fixture profile not removed:', error));
+    },
+    setFixturePatch: (snapshot) => set({ fixturePatch: snapshot }),
+    configurePatch: async (patch) => {
+      const bridge = get().oscController;
+      if (!bridge) return;
+      try {
+        set({ fixturePatch: await bridge.configurePatch(patch) });
+      } catch (error) {
+        console.error('❌ Fixture patch not saved:', error);
+      }
+    },
+    addJournalEntries: (entries, reset = false) =>
+      set((state) => ({ journal: (reset ? entries : [...state.journal, ...entries]).slice(-JOURNAL_DEFAULT_CAPACITY) })),
+    clearJournal: async () => {
+      const bridge = get().oscController;
+      if (!bridge) return;
+      await bridge.clearJournal().catch(error => console.error('❌ Journal not cleared:', error));
+    },
+    browseOSCQuery: async (host, port) => {
+      const controller = get().oscController;
+      if (!controller?.browseOSCQuery) {
+        console.warn('⚠️ OSCQuery browsing needs a live OSC controller');
+        return null;
+      }
+      try {
+        const device: OSCQueryDevice = await controller.browseOSCQuery(host, port);
+        get().setOSCQueryDevice(device);
+        return device;
+      } catch (error) {
+        console.error(`❌ OSCQuery browse of ${host}:${port} failed:`, error);
+        return null;
+      }
+    },
+    setOSCQueryDevice: (device) =>
+      set((state) => ({
+        oscQueryDevices: state.oscQueryDevices.some(d => d.id === device.id)
+          ? state.oscQueryDevices.map(d => d.id === device.id ? device : d)
+          : [...state.oscQueryDevices, device]
+      })),
+    setDiscoveredDevice: (device) =>
+      set((state) => ({
+        discoveredDevices: state.discoveredDevices.some(d => d.id === device.id)
+          ? state.discoveredDevices.map(d => d.id === device.id ? device : d)
+          : [...state.discoveredDevices, device]
+      })),
+    removeDiscoveredDevice: (id) =>
+      set((state) => ({ discoveredDevices: state.discoveredDevices.filter(d => d.id !== id) })),
+    // Mirrors OSCController.adoptDevice: fill the matching default connection or add a new one
+    adoptDiscoveredDevice: (id) => {
+      const device = get().discoveredDevices.find(d => d.id === id);
+      if (!device) return;
+
+      const controller = get().oscController;
+      if (controller?.adoptDevice) {
+        controller.adoptDevice(id).catch(error => console.error(`❌ Bridge could not adopt ${id}:`, error));
+      }
+
+      const existing = device.softwareId && get().softwareConnections.find(c => c.id === device.softwareId);
+      if (existing) {
+        get().updateSoftwareConnection(existing.id, { ip: device.ip, port: device.port });
+        return;
+      }
+      if (get().softwareConnections.some(c => c.id === device.id)) return;
+      set((state) => ({
+        softwareConnections: [
+          ...state.softwareConnections,
+          { id: device.id, name: device.name, connected: false, lastPing: 0, status: 'offline', ip: device.ip, port: device.port, protocol: device.protocol }
+        ]
+      }));
+    },
+    // Faders and buttons on the TouchOSC surface
+    handleSurfaceCommand: (command) => {
+      switch (command.type) {
+        case 'mood': {
+          const mood = MOOD_DEFINITIONS[command.mood];
+          if (mood) get().updateCurrentMood(mood);
+          break;
+        }
+        case 'parameter':
+          get().updateCurrentMood({ ...get().currentMood, [command.parameter]: command.value });
+          break;
+        case 'estop':
+          get().emergencyStop();
+          break;
+      }
+    },
+    // Show controllers on the inbound control API
+    handleControlCommand: (command) => {
+      switch (command.type) {
+        case 'setMood': {
+          const mood = MOOD_DEFINITIONS[command.mood];
+          if (mood) get().updateCurrentMood(mood);
+          break;
+        }
+        case 'blend': {
+          const from = MOOD_DEFINITIONS[command.from];
+          const to = MOOD_DEFINITIONS[command.to];
+          if (from && to) get().updateCurrentMood(blendMoods(from, to, command.amount));
+          break;
+        }
+        case 'lock':
+          get().setMoodLocked(command.locked);
+          break;
+        case 'active':
+          get().setSystemActive(command.active);
+          break;
+        case 'estop':
+          get().emergencyStop();
+          break;
+        case 'ai':
+          get().setAIEnabled(command.enabled);
+          break;
+      }
+    },
+    setMoodLocked: (locked) => set({ moodLocked: locked }),
     setSimulationMode: (enabled) => set({ simulationMode: enabled }),
-    emergencyStop: async () => { set({ emergencyActive: true, systemActive: false, currentMood: MOOD_DEFINITIONS['Safe Mode'] }); setTimeout(() => set({ emergencyActive: false }), 30000); },
+    emergencyStop: async () => {
+      emitEvent(get, 'system.emergency_stop', {
+        previousMood: get().currentMood.name,
+        connected: get().softwareConnections.filter(c => c.connected).map(c => c.id)
+      });
+      set({ emergencyActive: true, systemActive: false, currentMood: MOOD_DEFINITIONS['Safe Mode'] });
+      setTimeout(() => set({ emergencyActive: false }), 30000);
+      const bridge = get().oscController;
+      if (bridge) await bridge.emergencyStopAll('operator').catch(error => console.error('❌ Bridge emergency stop failed:', error));
+    },
 
     // ===== AI ACTIONS =====
     initializeAdvancedAI: async () => {
@@ -370,13 +824,22 @@ export const useMoodStore = create<MoodStore>()(
     },
 
     applyAIPrediction: async (prediction) => {
+      if (get().moodLocked) {
+        console.log(`🔒 Mood locked; not applying AI-recommended ${prediction.recommendedMood}`);
+        return;
+      }
       const moodDefinition = MOOD_DEFINITIONS[prediction.recommendedMood];
       if (!moodDefinition) {
         console.warn(`AI predicted an unknown mood: "${prediction.recommendedMood}". Cannot apply.`);
         return;
       }
       const newMood: MoodState = { ...moodDefinition, description: `AI: ${prediction.reasoning[0] || 'Recommended for current context.'}` };
-      get().updateCurrentMood(newMood);
+      get().updateCurrentMood(newMood, 'ai');
+      emitEvent(get, 'ai.prediction_applied', {
+        mood: prediction.recommendedMood,
+        confidence: prediction.confidence,
+        reasoning: prediction.reasoning
+      });
       console.log(`🎭 Applied AI-recommended mood: ${prediction.recommendedMood}`);
     },
 
@@ -401,9 +864,47 @@ export const useMoodStore = create<MoodStore>()(
     exportLearningData: () => { /* ... */ return null },
     importLearningData: async (data) => { /* ... */ },
     resetLearning: async () => { /* ... */ },
-    startABTest: async (moodA, moodB, context) => { /* ... */ return ''; },
-    recordABTestResult: (mood, engagement) => { /* ... */ },
-    completeCurrentABTest: async () => { /* ... */ },
+    startABTest: async (moodA, moodB, context) => {
+      const { advancedAI } = get();
+      if (!advancedAI) throw new Error('A/B tests need the AI engine');
+      const id = advancedAI.startABTest(moodA, moodB, context);
+      set(state => ({ abTesting: { ...state.abTesting, currentTest: { id, moodA, moodB, context, sessionCount: 0, isActive: true } } }));
+      console.log(`🧪 A/B test started: ${moodA} vs ${moodB} (${context})`);
+      return id;
+    },
+    recordABTestResult: (mood, engagement) => {
+      const { advancedAI, abTesting } = get();
+      const test = abTesting.currentTest;
+      if (!advancedAI || !test) return;
+      advancedAI.recordABTestResult(test.id, mood, engagement);
+      // The engine ends a test by itself once it has enough sessions
+      if (advancedAI.getABTestResults().some(result => result.testId === test.id)) {
+        get().completeCurrentABTest();
+        return;
+      }
+      set({ abTesting: { ...abTesting, currentTest: { ...test, sessionCount: test.sessionCount + 1 } } });
+    },
+    completeCurrentABTest: async () => {
+      const { advancedAI, abTesting } = get();
+      const test = abTesting.currentTest;
+      if (!advancedAI || !test) return;
+      const result = advancedAI.completeABTest() || advancedAI.getABTestResults().find(r => r.testId === test.id);
+      set(state => ({
+        abTesting: { ...state.abTesting, currentTest: null, testHistory: result ? [result, ...state.abTesting.testHistory] : state.abTesting.testHistory }
+      }));
+      if (!result) return;
+      console.log(`🧪 A/B test finished: ${result.winnerMood} won after ${result.sampleSize} sessions`);
+      emitEvent(get, 'abtest.completed', {
+        id: test.id,
+        moodA: test.moodA,
+        moodB: test.moodB,
+        context: test.context,
+        winner: result.winnerMood,
+        engagementDiff: result.engagementDiff,
+        confidence: result.confidenceLevel,
+        sessions: result.sampleSize
+      });
+    },
     setABTestingEnabled: (enabled) => { /* ... */ },
     getAIInsights: () => { /* ... */ return { predictionAccuracy: 0, learningProgress: 0, moodEffectiveness: {}, recommendations: [] }; },
 
@@ -448,6 +949,24 @@ export const useMoodStore = create<MoodStore>()(
 // ===== UTILITY FUNCTIONS =====
 function generateAIRecommendations(metrics: LearningMetrics, aiPrediction: AIPredictionState): string[] { /* ... */ return []; }
 
+// Parameters and colour in between; the nearer mood names it so mappings still apply
+function blendMoods(from: MoodState, to: MoodState, amount: number): MoodState {
+  const mix = (a: number, b: number) => a + (b - a) * amount;
+  const channel = (color: string, i: number) => parseInt(color.slice(1 + i * 2, 3 + i * 2), 16);
+  const color = '#' + [0, 1, 2]
+    .map(i => ('0' + Math.round(mix(channel(from.color, i), channel(to.color, i))).toString(16)).slice(-2))
+    .join('')
+    .toUpperCase();
+  return {
+    name: amount < 0.5 ? from.name : to.name,
+    energy: mix(from.energy, to.energy),
+    valence: mix(from.valence, to.valence),
+    arousal: mix(from.arousal, to.arousal),
+    color,
+    description: `Blend: ${Math.round((1 - amount) * 100)}% ${from.name}, ${Math.round(amount * 100)}% ${to.name}`
+  };
+}
+
 
 // ✅ FIXED: Exported all selector hooks to be used by React components.
 // This was the cause of the build errors.
@@ -455,6 +974,26 @@ export const useSystemActive = () => useMoodStore((state) => state.systemActive)
 export const useCurrentMood = () => useMoodStore((state) => state.currentMood);
 export const useEnvironmentData = () => useMoodStore((state) => state.environmentData);
 export const useSoftwareConnections = () => useMoodStore((state) => state.softwareConnections);
+export const useMoodMappings = () => useMoodStore((state) => state.moodMappings);
+export const useQLabWorkspace = () => useMoodStore((state) => state.qlabWorkspace);
+export const useEosState = () => useMoodStore((state) => state.eosState);
+export const useAbletonSong = () => useMoodStore((state) => state.abletonSong);
+export const useParameterStream = () => useMoodStore((state) => state.parameterStream);
+export const useMQTTConfig = () => useMoodStore((state) => state.mqtt);
+export const useMQTTStatus = () => useMoodStore((state) => state.mqttStatus);
+export const useTransitionConfig = () => useMoodStore((state) => state.transitions);
+export const useTransitionStatus = () => useMoodStore((state) => state.transitionStatus);
+export const useOutputCurves = () => useMoodStore((state) => state.outputCurves);
+export const useWebhookOutbox = () => useMoodStore((state) => state.webhooks);
+export const useFixtureLibrary = () => useMoodStore((state) => state.fixtureLibrary);
+export const useFixturePatch = () => useMoodStore((state) => state.fixturePatch);
+export const useMessageJournal = () => useMoodStore((state) => state.journal);
+export const useOSCQueryDevices = () => useMoodStore((state) => state.oscQueryDevices);
+export const useDiscoveredDevices = () => useMoodStore((state) => state.discoveredDevices);
+export const useControlAPI = () => useMoodStore((state) => ({
+  port: state.controlPort,
+  locked: state.moodLocked
+}));
 export const useMoodHistory = () => useMoodStore((state) => state.moodHistory);
 export const useAudienceMetrics = () => useMoodStore((state) => state.audienceMetrics);
 export const useOSCStatus = () => useMoodStore((state) => ({ 
@@ -501,20 +1040,302 @@ useMoodStore.subscribe(
           state.requestAIPrediction().then(prediction => {
             if (prediction && prediction.confidence > 0.7) { state.applyAIPrediction(prediction); }
           });
-        } else if (!state.aiEnabled && Math.random() < 0.2) {
+        } else if (!state.aiEnabled && !state.moodLocked && Math.random() < 0.2) {
           let targetMood = MOOD_DEFINITIONS['Contemplative'];
           if (newData.peopleCount > 15 && newData.avgMovement > 0.6) {
             targetMood = MOOD_DEFINITIONS['Energetic'];
           } else if (newData.peopleCount > 8 && newData.audioLevel > 0.4) {
             targetMood = MOOD_DEFINITIONS['Social'];
           }
-          state.updateCurrentMood(targetMood);
+          state.updateCurrentMood(targetMood, 'rule');
         }
       }, 3000);
     }
   }
 );
 
+// ===== BRIDGE =====
+// Same shape as MoodDecision; drivers read parameters for continuous values like tempo
+function moodRecommendation(mood: MoodState, softwareRecommendations: Partial<MoodMappings[string]>, curves: OutputCurve[] = []) {
+  return {
+    recommendedMood: mood.name,
+    parameters: { energy: mood.energy, valence: mood.valence, arousal: mood.arousal },
+    softwareRecommendations: applyOutputCurves(softwareRecommendations, mood, curves)
+  };
+}
+
+// Webhook events go through the bridge's outbox; without a bridge there is nowhere to send them
+function emitEvent(get: () => MoodStore, type: WebhookEventType, data: Record<string, any>): void {
+  const bridge = get().oscController;
+  if (!bridge) return;
+  bridge.emitEvent(type, data).catch((error: Error) => console.warn(`⚠️ ${type} event not queued:`, error.message));
+}
+
+async function applyMoodVia(get: () => MoodStore, softwareId: string, softwareRecommendations: Partial<MoodMappings[string]>): Promise<void> {
+  const bridge = get().oscController;
+  const mood = get().currentMood;
+  if (!bridge) {
+    console.log(`[SIMULATION] Applying ${mood.name} to ${softwareId}`, softwareRecommendations);
+    return;
+  }
+  await bridge.applyMoodTo(softwareId, moodRecommendation(mood, softwareRecommendations, get().outputCurves), 'operator');
+}
+
+// ===== TOUCHOSC SURFACE =====
+// Safe Mode is reached through the e-stop, not a mood button
+const SURFACE_MOODS = Object.keys(MOOD_DEFINITIONS).filter(name => name !== 'Safe Mode');
+
+function surfaceState(state: MoodStore): SurfaceState {
+  return {
+    mood: state.currentMood,
+    moods: SURFACE_MOODS,
+    confidence: state.aiPrediction.confidence,
+    connections: state.softwareConnections.map(c => ({ id: c.id, connected: c.connected })),
+    emergencyActive: state.emergencyActive
+  };
+}
+
+useMoodStore.subscribe(
+  (state) => state.oscController,
+  (controller) => {
+    if (!controller?.onSurfaceCommand) return;
+    controller.setSurfaceMoods(SURFACE_MOODS).catch((error: Error) => console.warn('⚠️ Surface mood list not sent:', error.message));
+    controller.onSurfaceCommand((command: SurfaceCommand) => useMoodStore.getState().handleSurfaceCommand(command));
+  }
+);
+
+// Keep the surface's labels, LEDs and faders in step with the store
+useMoodStore.subscribe(
+  (state) => [state.currentMood, state.aiPrediction.confidence, state.softwareConnections, state.emergencyActive],
+  () => {
+    const state = useMoodStore.getState();
+    if (!state.oscController?.updateSurface) return;
+    state.oscController.updateSurface(surfaceState(state)).catch((error: Error) => {
+      console.error('❌ TouchOSC surface feedback failed:', error.message);
+    });
+  },
+  { equalityFn: (a, b) => a.every((value, i) => value === b[i]) }
+);
+
+// ===== CONTROL API =====
+// Show controllers pick from the same moods as the surface
+function controlState(state: MoodStore): ControlState {
+  return {
+    mood: state.currentMood.name,
+    energy: state.currentMood.energy,
+    valence: state.currentMood.valence,
+    arousal: state.currentMood.arousal,
+    moods: SURFACE_MOODS,
+    locked: state.moodLocked,
+    active: state.systemActive,
+    aiEnabled: state.aiEnabled,
+    confidence: state.aiPrediction.confidence,
+    emergencyActive: state.emergencyActive
+  };
+}
+
+useMoodStore.subscribe(
+  (state) => state.oscController,
+  (controller) => {
+    if (!controller?.onControlCommand) return;
+    controller.onControlCommand((command: ControlCommand) => useMoodStore.getState().handleControlCommand(command));
+  }
+);
+
+// /query/state is answered by the bridge from the last state sent here
+useMoodStore.subscribe(
+  (state) => [state.oscEnabled, state.currentMood, state.moodLocked, state.systemActive, state.aiEnabled, state.aiPrediction.confidence, state.emergencyActive],
+  () => {
+    const state = useMoodStore.getState();
+    if (!state.oscEnabled || !state.oscController?.setControlState) return;
+    state.oscController.setControlState(controlState(state))
+      .then(controlPort => { if (controlPort !== state.controlPort) useMoodStore.setState({ controlPort }); })
+      .catch((error: Error) => console.error('❌ Control API state update failed:', error.message));
+  },
+  { equalityFn: (a, b) => a.every((value, i) => value === b[i]) }
+);
+
+// ===== PARAMETER STREAM =====
+// The bridge eases toward the latest values at the stream rate, so sensor
+// bursts are coalesced here rather than forwarded one by one
+const STREAM_PUSH_INTERVAL_MS = 50;
+let streamPushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function pushStreamValues(): void {
+  streamPushTimer = null;
+  const state = useMoodStore.getState();
+  if (!state.oscController || !state.parameterStream.enabled) return;
+  const values = readStreamValues({
+    mood: state.currentMood,
+    confidence: state.aiPrediction.confidence,
+    context: state.environmentDataToContext()
+  });
+  state.oscController.updateParameterStream(values).catch((error: Error) => {
+    console.error('❌ Parameter stream update failed:', error.message);
+  });
+}
+
+function schedulePushStreamValues(): void {
+  if (!streamPushTimer) streamPushTimer = setTimeout(pushStreamValues, STREAM_PUSH_INTERVAL_MS);
+}
+
+// A bridge (new or restarted) takes the dashboard's stream config
+useMoodStore.subscribe(
+  (state) => state.oscEnabled,
+  (online) => {
+    const controller = useMoodStore.getState().oscController;
+    if (!online || !controller) return;
+    controller.configureParameterStream(useMoodStore.getState().parameterStream)
+      .then(schedulePushStreamValues)
+      .catch((error: Error) => console.warn('⚠️ Parameter stream config not sent:', error.message));
+  }
+);
+
+useMoodStore.subscribe(
+  (state) => [state.currentMood, state.aiPrediction.confidence, state.environmentData, state.parameterStream.enabled],
+  schedulePushStreamValues,
+  { equalityFn: (a, b) => a.every((value, i) => value === b[i]) }
+);
+
+// ===== MQTT =====
+// Publishing is deduplicated per topic on the bridge; this only batches bursts
+const MQTT_PUSH_INTERVAL_MS = 250;
+let mqttPushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function mqttState(state: MoodStore): MQTTMoodState {
+  const { currentPrediction, predictionHistory } = state.aiPrediction;
+  const connections: MQTTMoodState['connections'] = {};
+  state.softwareConnections.forEach(c => { connections[c.id] = { name: c.name, connected: c.connected }; });
+  return {
+    mood: state.currentMood,
+    environment: state.environmentData,
+    prediction: currentPrediction ? {
+      mood: currentPrediction.recommendedMood,
+      confidence: currentPrediction.confidence,
+      reasoning: currentPrediction.reasoning,
+      timestamp: predictionHistory[0] ? predictionHistory[0].timestamp : Date.now()
+    } : null,
+    connections,
+    moods: SURFACE_MOODS
+  };
+}
+
+function pushMQTTState(): void {
+  mqttPushTimer = null;
+  const state = useMoodStore.getState();
+  if (!state.oscController || !state.mqtt.enabled) return;
+  state.oscController.updateMQTTState(mqttState(state)).catch((error: Error) => {
+    console.error('❌ MQTT state update failed:', error.message);
+  });
+}
+
+function schedulePushMQTTState(): void {
+  if (!mqttPushTimer) mqttPushTimer = setTimeout(pushMQTTState, MQTT_PUSH_INTERVAL_MS);
+}
+
+// A bridge (new or restarted) takes the dashboard's broker settings
+useMoodStore.subscribe(
+  (state) => state.oscEnabled,
+  (online) => {
+    const controller = useMoodStore.getState().oscController;
+    if (!online || !controller) return;
+    controller.configureMQTT(useMoodStore.getState().mqtt)
+      .then(schedulePushMQTTState)
+      .catch((error: Error) => console.warn('⚠️ MQTT config not sent:', error.message));
+  }
+);
+
+useMoodStore.subscribe(
+  (state) => [state.currentMood, state.environmentData, state.aiPrediction.currentPrediction, state.softwareConnections, state.mqtt.enabled],
+  schedulePushMQTTState,
+  { equalityFn: (a, b) => a.every((value, i) => value === b[i]) }
+);
+
+// ===== TRANSITIONS =====
+// A bridge (new or restarted) fades the way the dashboard is set to
+useMoodStore.subscribe(
+  (state) => state.oscEnabled,
+  (online) => {
+    const controller = useMoodStore.getState().oscController;
+    if (!online || !controller) return;
+    controller.configureTransitions(useMoodStore.getState().transitions)
+      .catch((error: Error) => console.warn('⚠️ Transition settings not sent:', error.message));
+  }
+);
+
+// ===== OUTPUT CURVES =====
+// A mood change applies the whole mapping; energy, valence or arousal moving
+// within a mood (surface faders, blends) only eases the curved continuous
+// outputs, at most a few times a second
+const CURVE_FOLLOW_INTERVAL_MS = 250;
+let curveFollowTimer: ReturnType<typeof setTimeout> | null = null;
+
+function followCurves(): void {
+  curveFollowTimer = null;
+  const state = useMoodStore.getState();
+  if (!state.oscController || !state.oscEnabled || state.simulationMode) return;
+  const mood = state.currentMood;
+  const follow = liveCurveMapping(state.moodMappings[mood.name] || {}, mood, state.outputCurves);
+  if (!follow) return;
+  state.oscController.followMood(moodRecommendation(mood, follow), 'operator').catch((error: Error) => {
+    console.error('❌ Curve outputs not updated:', error.message);
+  });
+}
+
+useMoodStore.subscribe(
+  (state) => state.currentMood,
+  (mood, previous) => {
+    if (mood.name !== previous.name) return;
+    if (mood.energy === previous.energy && mood.valence === previous.valence && mood.arousal === previous.arousal) return;
+    if (!curveFollowTimer) curveFollowTimer = setTimeout(followCurves, CURVE_FOLLOW_INTERVAL_MS);
+  }
+);
+
+// ===== SENSOR WATCHDOG =====
+// A sensor that has reported and then goes quiet while the system runs is
+// reported once, until it reports again
+const SENSOR_SOURCES: Record<string, string[]> = {
+  vision: ['peopleCount', 'avgMovement'],
+  audio: ['audioLevel', 'conversationalLevel', 'musicalContent'],
+  environment: ['lightLevel', 'temperature']
+};
+const SENSOR_OFFLINE_MS = 30000;
+const sensorLastSeen: Record<string, number> = {};
+const sensorsOffline: Record<string, boolean> = {};
+
+function markSensorsSeen(fields: string[]): void {
+  Object.keys(SENSOR_SOURCES).forEach(sensor => {
+    if (!SENSOR_SOURCES[sensor].some(field => fields.indexOf(field) >= 0)) return;
+    sensorLastSeen[sensor] = Date.now();
+    sensorsOffline[sensor] = false;
+  });
+}
+
+function checkSensors(): void {
+  const now = Date.now();
+  Object.keys(sensorLastSeen).forEach(sensor => {
+    if (sensorsOffline[sensor] || now - sensorLastSeen[sensor] < SENSOR_OFFLINE_MS) return;
+    sensorsOffline[sensor] = true;
+    console.warn(`⚠️ No ${sensor} data for ${Math.round((now - sensorLastSeen[sensor]) / 1000)}s`);
+    emitEvent(useMoodStore.getState, 'sensor.offline', { sensor, fields: SENSOR_SOURCES[sensor], lastSeen: sensorLastSeen[sensor] });
+  });
+}
+
+// One watchdog at a time, however often the system is paused and resumed
+let sensorWatchdog: ReturnType<typeof setInterval> | null = null;
+
+useMoodStore.subscribe(
+  (state) => state.systemActive,
+  (systemActive) => {
+    if (sensorWatchdog) clearInterval(sensorWatchdog);
+    sensorWatchdog = null;
+    if (!systemActive) return;
+    // Time spent paused doesn't count as silence
+    Object.keys(sensorLastSeen).forEach(sensor => { sensorLastSeen[sensor] = Date.now(); });
+    sensorWatchdog = setInterval(checkSensors, SENSOR_OFFLINE_MS / 3);
+  }
+);
+
 function getCurrentTimeOfDay(): 'morning' | 'afternoon' | 'evening' | 'night' {
   const hour = new Date().getHours();
   if (hour >= 6 && hour < 12) return 'morning';